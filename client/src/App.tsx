@@ -16,8 +16,12 @@ import { DebugOverlayProvider } from "@/components/ui/debug-overlay-provider";
 import HomePage from "@/pages/home-page";
 import NotFound from "@/pages/not-found";
 import AuthPage from "@/pages/auth-page";
+import ResetPasswordPage from "@/pages/reset-password";
+import VerifyEmailPage from "@/pages/verify-email";
 import CompetitionsPage from "@/pages/competitions-page";
 import CompetitionDetails from "@/pages/competition-details";
+import VerifyDraw from "@/pages/verify-draw";
+import WinnersPage from "@/pages/winners";
 import HowToPlay from "@/pages/how-to-play";
 import MyEntries from "@/pages/my-entries";
 import MyWins from "@/pages/my-wins";
@@ -39,6 +43,11 @@ import AdminSettings from "@/pages/admin/settings";
 import SiteConfigPage from "@/pages/admin/site-config";
 import DevTools from "@/pages/admin/dev-tools";
 import EditCompetition from "@/pages/admin/edit-competition";
+import JobsManager from "@/pages/admin/jobs";
+import OrdersManager from "@/pages/admin/orders";
+import PostalEntriesManager from "@/pages/admin/postal-entries";
+import PromoCodesManager from "@/pages/admin/promo-codes";
+import WinnersManager from "@/pages/admin/winners";
 import TicketLookupPage from "@/pages/ticket-lookup";
 
 // Dynamically import create-competition to avoid TypeScript issues
@@ -66,8 +75,12 @@ function Router() {
             <Switch>
               <Route path="/" component={HomePage} />
               <Route path="/competitions" component={CompetitionsPage} />
+              <Route path="/competitions/:id/verify" component={VerifyDraw} />
               <Route path="/competitions/:id" component={CompetitionDetails} />
+              <Route path="/winners" component={WinnersPage} />
               <Route path="/how-to-play" component={HowToPlay} />
+              <Route path="/reset-password" component={ResetPasswordPage} />
+              <Route path="/verify-email" component={VerifyEmailPage} />
               <ProtectedRoute path="/my-entries" component={MyEntries} />
               <ProtectedRoute path="/my-wins" component={MyWins} />
               <ProtectedRoute path="/profile" component={ProfilePage} />
@@ -88,9 +101,14 @@ function Router() {
               <ProtectedRoute path="/admin/create-competition" component={() => <CreateCompetition />} adminRequired={true} />
               <ProtectedRoute path="/admin/edit-competition/:id" component={EditCompetition} adminRequired={true} />
               <ProtectedRoute path="/admin/users" component={UsersManagement} adminRequired={true} />
+              <ProtectedRoute path="/admin/orders" component={OrdersManager} adminRequired={true} />
+              <ProtectedRoute path="/admin/winners" component={WinnersManager} adminRequired={true} />
+              <ProtectedRoute path="/admin/postal-entries" component={PostalEntriesManager} adminRequired={true} />
+              <ProtectedRoute path="/admin/promo-codes" component={PromoCodesManager} adminRequired={true} />
               <ProtectedRoute path="/admin/settings" component={AdminSettings} adminRequired={true} />
               <ProtectedRoute path="/admin/site-config" component={SiteConfigPage} adminRequired={true} />
               <ProtectedRoute path="/admin/dev-tools" component={DevTools} adminRequired={true} />
+              <ProtectedRoute path="/admin/jobs" component={JobsManager} adminRequired={true} />
               <ProtectedRoute path="/admin/competitions/:competitionId/ticket-lookup" component={TicketLookupPage} adminRequired={true} />
               
               {/* Fallback to 404 */}
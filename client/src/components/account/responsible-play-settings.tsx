@@ -0,0 +1,336 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  Alert,
+  AlertDescription,
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Input,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/index";
+import { Clock, PauseCircle, ShieldCheck, Ban } from "lucide-react";
+import { format } from "date-fns";
+import {
+  SPEND_LIMIT_PERIODS,
+  SPEND_LIMIT_INCREASE_DELAY_HOURS,
+  type ResponsiblePlayStatus,
+  type SpendLimitPeriod,
+  type SpendLimits,
+} from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/utils";
+
+const PERIOD_LABELS: Record<SpendLimitPeriod, { title: string; window: string }> = {
+  daily: { title: "Daily limit", window: "last 24 hours" },
+  weekly: { title: "Weekly limit", window: "last 7 days" },
+  monthly: { title: "Monthly limit", window: "last 30 days" },
+};
+
+const COOL_OFF_OPTIONS = [
+  { hours: 24, label: "24 hours" },
+  { hours: 72, label: "3 days" },
+  { hours: 168, label: "1 week" },
+  { hours: 336, label: "2 weeks" },
+  { hours: 672, label: "4 weeks" },
+  { hours: 1008, label: "6 weeks" },
+];
+
+const SELF_EXCLUSION_OPTIONS = [
+  { months: 6, label: "6 months" },
+  { months: 12, label: "1 year" },
+  { months: 24, label: "2 years" },
+  { months: 60, label: "5 years" },
+];
+
+type LimitInputs = Record<SpendLimitPeriod, string>;
+
+const formatDateTime = (date: string | Date) => format(new Date(date), "d MMM yyyy, HH:mm");
+
+// Pounds as typed, in pence - blank means no limit
+function toPence(value: string): number | null {
+  const trimmed = value.trim();
+  return trimmed ? Math.round(parseFloat(trimmed) * 100) : null;
+}
+
+function toInputs(limits: SpendLimits): LimitInputs {
+  const inputs = {} as LimitInputs;
+  for (const period of SPEND_LIMIT_PERIODS) {
+    const limit = limits[period];
+    inputs[period] = limit === null ? "" : (limit / 100).toFixed(2);
+  }
+  return inputs;
+}
+
+// Spend limits, cool-off and self-exclusion on the profile page
+export function ResponsiblePlaySettings() {
+  const { toast } = useToast();
+  const [limitInputs, setLimitInputs] = useState<LimitInputs>({ daily: "", weekly: "", monthly: "" });
+  const [coolOffHours, setCoolOffHours] = useState("24");
+  const [exclusionMonths, setExclusionMonths] = useState("6");
+  const [confirming, setConfirming] = useState<"cool-off" | "self-exclusion" | null>(null);
+
+  const { data: status, isLoading } = useQuery<ResponsiblePlayStatus>({
+    queryKey: ["/api/user/responsible-play"],
+  });
+
+  useEffect(() => {
+    if (status) {
+      setLimitInputs(toInputs(status.limits));
+    }
+  }, [status]);
+
+  const onSaved = (result: ResponsiblePlayStatus, title: string, description: string) => {
+    queryClient.setQueryData(["/api/user/responsible-play"], result);
+    // The signed-in user carries the break dates the basket checks
+    queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    setConfirming(null);
+    toast({ title, description });
+  };
+
+  const onError = (error: Error) => {
+    setConfirming(null);
+    toast({
+      title: "Update Failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const limitsMutation = useMutation({
+    mutationFn: async (limits: SpendLimits) => {
+      const res = await apiRequest("PUT", "/api/user/spend-limits", limits);
+      return res.json() as Promise<ResponsiblePlayStatus>;
+    },
+    onSuccess: (result) => onSaved(
+      result,
+      "Spend Limits Saved",
+      result.pendingLimits
+        ? `Lower limits apply now. Higher limits apply from ${formatDateTime(result.pendingLimits.effectiveAt)}.`
+        : "Your spend limits are now in place."
+    ),
+    onError,
+  });
+
+  const coolOffMutation = useMutation({
+    mutationFn: async (hours: number) => {
+      const res = await apiRequest("POST", "/api/user/cool-off", { hours });
+      return res.json() as Promise<ResponsiblePlayStatus>;
+    },
+    onSuccess: (result) => onSaved(result, "Break Started", "You won't be able to buy tickets until your break ends."),
+    onError,
+  });
+
+  const selfExclusionMutation = useMutation({
+    mutationFn: async (months: number) => {
+      const res = await apiRequest("POST", "/api/user/self-exclusion", { months });
+      return res.json() as Promise<ResponsiblePlayStatus>;
+    },
+    onSuccess: (result) => onSaved(result, "Self-Exclusion Started", "You won't be able to buy tickets until your self-exclusion ends."),
+    onError,
+  });
+
+  const saveLimits = () => {
+    const limits = {} as SpendLimits;
+    for (const period of SPEND_LIMIT_PERIODS) {
+      const pence = toPence(limitInputs[period]);
+      if (pence !== null && (isNaN(pence) || pence <= 0)) {
+        toast({
+          title: "Invalid limit",
+          description: `Enter your ${period} limit in pounds, or leave it blank for no limit`,
+          variant: "destructive",
+        });
+        return;
+      }
+      limits[period] = pence;
+    }
+    limitsMutation.mutate(limits);
+  };
+
+  if (isLoading || !status) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full"></div>
+      </div>
+    );
+  }
+
+  const now = new Date();
+  const selfExcluded = !!status.selfExcludedUntil && new Date(status.selfExcludedUntil) > now;
+  const coolingOff = !!status.coolOffUntil && new Date(status.coolOffUntil) > now;
+
+  return (
+    <div className="space-y-6">
+      {(selfExcluded || coolingOff) && (
+        <Alert>
+          <PauseCircle className="h-4 w-4" />
+          <AlertDescription>
+            {selfExcluded
+              ? `You are self-excluded until ${formatDateTime(status.selfExcludedUntil!)}.`
+              : `You are taking a break until ${formatDateTime(status.coolOffUntil!)}.`}{" "}
+            You can't buy tickets until then, and this can't be cancelled early.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <ShieldCheck className="h-5 w-5 mr-2 text-primary" /> Spend Limits
+          </CardTitle>
+          <CardDescription>
+            Cap what you spend on tickets. Lower limits apply straight away; higher limits, or removing
+            a limit, apply after {SPEND_LIMIT_INCREASE_DELAY_HOURS} hours.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {SPEND_LIMIT_PERIODS.map((period) => {
+            const limit = status.limits[period];
+            const pending = status.pendingLimits?.[period];
+            return (
+              <div key={period} className="space-y-2">
+                <Label htmlFor={`limit-${period}`}>{PERIOD_LABELS[period].title} (£)</Label>
+                <Input
+                  id={`limit-${period}`}
+                  type="number"
+                  min="1"
+                  step="0.01"
+                  placeholder="No limit"
+                  value={limitInputs[period]}
+                  onChange={(e) => setLimitInputs({ ...limitInputs, [period]: e.target.value })}
+                />
+                <p className="text-sm text-muted-foreground">
+                  Spent {formatCurrency(status.spent[period])} in the {PERIOD_LABELS[period].window}
+                  {limit !== null && ` of your ${formatCurrency(limit)} limit`}
+                </p>
+                {pending !== undefined && status.pendingLimits && (
+                  <p className="text-sm text-amber-600 flex items-center">
+                    <Clock className="h-3 w-3 mr-1" />
+                    {pending === null ? "No limit" : formatCurrency(pending)} from {formatDateTime(status.pendingLimits.effectiveAt)}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+          <div className="flex justify-end">
+            <Button onClick={saveLimits} disabled={limitsMutation.isPending}>
+              {limitsMutation.isPending ? "Saving..." : "Save Limits"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <PauseCircle className="h-5 w-5 mr-2 text-primary" /> Take a Break
+          </CardTitle>
+          <CardDescription>
+            Stop yourself buying tickets for between 24 hours and 6 weeks. Your basket is emptied and
+            the break can't be ended early.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col sm:flex-row gap-4">
+          <Select value={coolOffHours} onValueChange={setCoolOffHours} disabled={selfExcluded}>
+            <SelectTrigger className="sm:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {COOL_OFF_OPTIONS.map((option) => (
+                <SelectItem key={option.hours} value={option.hours.toString()}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            onClick={() => setConfirming("cool-off")}
+            disabled={selfExcluded || coolOffMutation.isPending}
+          >
+            Start Break
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card className="border-destructive/50">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Ban className="h-5 w-5 mr-2 text-destructive" /> Self-Exclusion
+          </CardTitle>
+          <CardDescription>
+            If you feel you need a longer break, exclude yourself from all competitions for 6 months or
+            more. Self-exclusion can't be cancelled or shortened.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col sm:flex-row gap-4">
+          <Select value={exclusionMonths} onValueChange={setExclusionMonths}>
+            <SelectTrigger className="sm:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SELF_EXCLUSION_OPTIONS.map((option) => (
+                <SelectItem key={option.months} value={option.months.toString()}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="destructive"
+            onClick={() => setConfirming("self-exclusion")}
+            disabled={selfExclusionMutation.isPending}
+          >
+            Self-Exclude
+          </Button>
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!confirming} onOpenChange={(open) => !open && setConfirming(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {confirming === "self-exclusion" ? "Self-exclude" : "Take a break"} for{" "}
+              {confirming === "self-exclusion"
+                ? SELF_EXCLUSION_OPTIONS.find((option) => option.months.toString() === exclusionMonths)?.label
+                : COOL_OFF_OPTIONS.find((option) => option.hours.toString() === coolOffHours)?.label}
+              ?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              You won't be able to buy tickets until it ends, and we can't lift it early - even if you ask.
+              Any tickets you already hold stay in their draws.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => confirming === "self-exclusion"
+                ? selfExclusionMutation.mutate(parseInt(exclusionMonths))
+                : coolOffMutation.mutate(parseInt(coolOffHours))}
+              className={confirming === "self-exclusion" ? "bg-destructive text-destructive-foreground hover:bg-destructive/90" : undefined}
+            >
+              Confirm
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
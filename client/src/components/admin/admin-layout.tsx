@@ -1,7 +1,7 @@
 import { ReactNode } from "react";
 import { Link, useLocation } from "wouter";
 import { cn } from "@/lib/utils";
-import { Home, Package, Users, Shield, Image, TicketIcon } from "lucide-react";
+import { Home, Package, Users, Shield, Image, TicketIcon, Clock, Receipt, Mail, Tag, Trophy } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
 import { Redirect } from "wouter";
 
@@ -22,7 +22,12 @@ export function AdminLayout({ children }: AdminLayoutProps) {
     { href: "/admin", label: "Dashboard", icon: Home },
     { href: "/admin/competitions", label: "Competitions", icon: Package },
     { href: "/admin/users", label: "Users", icon: Users },
+    { href: "/admin/orders", label: "Orders", icon: Receipt },
+    { href: "/admin/winners", label: "Winners", icon: Trophy },
+    { href: "/admin/postal-entries", label: "Postal Entries", icon: Mail },
+    { href: "/admin/promo-codes", label: "Promo Codes", icon: Tag },
     { href: "/admin/site-config", label: "Site Configuration", icon: Image },
+    { href: "/admin/jobs", label: "Jobs", icon: Clock },
   ];
 
   return (
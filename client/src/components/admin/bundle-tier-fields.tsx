@@ -0,0 +1,133 @@
+import { UseFormReturn, useFieldArray } from "react-hook-form";
+import { z } from "zod";
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Plus, Trash2 } from "lucide-react";
+import { bundleTierErrors, type BundleTier } from "@shared/bundle-pricing";
+import { formatCurrency } from "@/lib/utils";
+
+type BundleTierValues = {
+  ticketPrice: number;
+  maxTicketsPerUser: number;
+  bundleTiers?: BundleTier[];
+};
+
+// Form-level check matching the server: bundles hold two or more tickets and cost less than singles
+export function refineBundleTiers(data: BundleTierValues, ctx: z.RefinementCtx) {
+  for (const message of bundleTierErrors(data.ticketPrice, data.maxTicketsPerUser, data.bundleTiers || [])) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message,
+      path: ["bundleTiers"],
+    });
+  }
+}
+
+export function BundleTierFields({ form }: { form: UseFormReturn<any> }) {
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "bundleTiers" });
+  const ticketPrice: number = form.watch("ticketPrice") || 0;
+
+  return (
+    <div className="space-y-4 pt-4 border-t">
+      <div>
+        <h2 className="text-xl font-semibold">Multi-buy Bundles</h2>
+        <p className="text-sm text-muted-foreground">
+          e.g. 5 tickets for £4. Customers are always charged the cheapest mix of bundles and single tickets.
+        </p>
+      </div>
+
+      {fields.map((bundle, index) => {
+        const ticketCount: number = form.watch(`bundleTiers.${index}.ticketCount`) || 0;
+        const price: number = form.watch(`bundleTiers.${index}.price`) || 0;
+
+        return (
+          <div key={bundle.id} className="grid grid-cols-[1fr_1fr_auto] gap-4 items-start">
+            <FormField
+              control={form.control}
+              name={`bundleTiers.${index}.ticketCount`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tickets</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={2}
+                      {...field}
+                      onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name={`bundleTiers.${index}.price`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Bundle Price (£)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="text"
+                      placeholder="e.g. 4.00"
+                      defaultValue={field.value ? (field.value / 100).toFixed(2) : ""}
+                      onChange={(e) => {
+                        const asFloat = parseFloat(e.target.value);
+                        field.onChange(isNaN(asFloat) ? 0 : Math.round(asFloat * 100));
+                      }}
+                    />
+                  </FormControl>
+                  {ticketCount > 1 && price > 0 && ticketPrice > 0 && price < ticketPrice * ticketCount && (
+                    <FormDescription>
+                      Saves {formatCurrency(ticketPrice * ticketCount - price)} on single tickets
+                    </FormDescription>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="mt-8 text-destructive"
+              onClick={() => remove(index)}
+              aria-label="Remove bundle"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        );
+      })}
+
+      <FormField
+        control={form.control}
+        name="bundleTiers"
+        render={() => (
+          <FormItem>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => append({ ticketCount: 0, price: 0 })}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Bundle
+      </Button>
+    </div>
+  );
+}
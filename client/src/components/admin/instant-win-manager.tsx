@@ -0,0 +1,263 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Trash2, Zap } from "lucide-react";
+import { InstantWinPrizeDetails } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+
+const emptyForm = {
+  title: "",
+  prizeType: "cash" as "cash" | "site_credit",
+  value: "",
+  quantity: "1",
+  placement: "random" as "specific" | "random",
+  ticketNumbers: "",
+};
+
+const PRIZE_TYPE_LABELS: Record<string, string> = {
+  cash: "Cash",
+  site_credit: "Site credit",
+};
+
+// Comma or space separated ticket numbers, e.g. "7, 77 777"
+function parseTicketNumbers(text: string): number[] {
+  return text.split(/[\s,]+/).filter(Boolean).map(Number).filter(Number.isInteger);
+}
+
+export function InstantWinManager({ competitionId, isLive }: { competitionId: number; isLive: boolean }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState(emptyForm);
+  const queryKey = [`/api/admin/competitions/${competitionId}/instant-wins`];
+
+  const { data: prizes = [], isLoading } = useQuery<InstantWinPrizeDetails[]>({ queryKey });
+
+  const updateField = (field: keyof typeof emptyForm) =>
+    (e: React.ChangeEvent<HTMLInputElement>) =>
+      setForm({ ...form, [field]: e.target.value });
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: [`/api/competitions/${competitionId}/instant-wins`] });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/admin/competitions/${competitionId}/instant-wins`, {
+        title: form.title,
+        prizeType: form.prizeType,
+        value: Math.round(parseFloat(form.value) * 100),
+        quantity: parseInt(form.quantity),
+        placement: form.placement,
+        ticketNumbers: form.placement === "specific" ? parseTicketNumbers(form.ticketNumbers) : [],
+      });
+      return response.json();
+    },
+    onSuccess: (prize: InstantWinPrizeDetails) => {
+      onChanged();
+      setForm(emptyForm);
+      toast({
+        title: "Instant win added",
+        description: prize.tickets.length > 0
+          ? `${prize.title} is on ${prize.tickets.length} ticket${prize.tickets.length === 1 ? "" : "s"}.`
+          : `${prize.title} will be hidden when the competition goes live.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to add instant win: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (prizeId: number) => {
+      const response = await apiRequest("DELETE", `/api/admin/instant-wins/${prizeId}`);
+      return response.json();
+    },
+    onSuccess: onChanged,
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to remove instant win: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const quantity = parseInt(form.quantity) || 0;
+  const canSubmit = form.title.trim().length > 0 &&
+    parseFloat(form.value) > 0 &&
+    quantity > 0 &&
+    (form.placement === "random" || parseTicketNumbers(form.ticketNumbers).length === quantity) &&
+    !addMutation.isPending;
+
+  return (
+    <div className="border rounded-lg p-6 space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold">Instant Wins</h2>
+        <p className="text-sm text-muted-foreground">
+          Prizes won straight away by whoever buys one of their ticket numbers.
+          Random numbers are picked when the competition goes live and stay hidden until won.
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-4">
+        <div className="space-y-2 md:col-span-2">
+          <Label htmlFor="instantWinTitle">Prize</Label>
+          <Input id="instantWinTitle" placeholder="e.g. £50 cash" value={form.title} onChange={updateField("title")} />
+        </div>
+        <div className="space-y-2">
+          <Label>Type</Label>
+          <Select
+            value={form.prizeType}
+            onValueChange={(prizeType) => setForm({ ...form, prizeType: prizeType as "cash" | "site_credit" })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="cash">Cash</SelectItem>
+              <SelectItem value="site_credit">Site credit</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="instantWinValue">Value (£)</Label>
+          <Input id="instantWinValue" type="number" min={0.01} step={0.01} value={form.value} onChange={updateField("value")} />
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-4">
+        <div className="space-y-2">
+          <Label htmlFor="instantWinQuantity">How many</Label>
+          <Input id="instantWinQuantity" type="number" min={1} value={form.quantity} onChange={updateField("quantity")} />
+        </div>
+        <div className="space-y-2">
+          <Label>Ticket numbers</Label>
+          <Select
+            value={form.placement}
+            onValueChange={(placement) => setForm({ ...form, placement: placement as "specific" | "random" })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="random">Hidden at random</SelectItem>
+              <SelectItem value="specific">Chosen numbers</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {form.placement === "specific" && (
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="instantWinNumbers">Numbers (one per prize)</Label>
+            <Input id="instantWinNumbers" placeholder="e.g. 7, 77, 777" value={form.ticketNumbers} onChange={updateField("ticketNumbers")} />
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-end">
+        <Button type="button" onClick={() => addMutation.mutate()} disabled={!canSubmit}>
+          <Zap className="h-4 w-4 mr-2" />
+          {addMutation.isPending ? "Adding..." : "Add Instant Win"}
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin w-10 h-10 border-4 border-primary border-t-transparent rounded-full"></div>
+        </div>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Prize</TableHead>
+                <TableHead>Value</TableHead>
+                <TableHead>Tickets</TableHead>
+                <TableHead>Won</TableHead>
+                <TableHead className="text-right"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {prizes.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                    No instant wins yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                prizes.map((prize) => {
+                  const won = prize.tickets.filter((ticket) => ticket.wonAt);
+                  return (
+                    <TableRow key={prize.id}>
+                      <TableCell>
+                        <div className="font-medium">{prize.title}</div>
+                        <div className="text-xs text-muted-foreground">{PRIZE_TYPE_LABELS[prize.prizeType] || prize.prizeType}</div>
+                      </TableCell>
+                      <TableCell>{formatCurrency(prize.value)}</TableCell>
+                      <TableCell className="text-sm">
+                        {prize.tickets.length > 0
+                          ? prize.tickets.map((ticket) => ticket.ticketNumber).join(", ")
+                          : (
+                            <Badge variant="outline">
+                              {isLive ? "Not placed" : `${prize.quantity} hidden at go-live`}
+                            </Badge>
+                          )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {won.length} / {prize.quantity}
+                        {won.map((ticket) => (
+                          <div key={ticket.id} className="text-xs text-muted-foreground">
+                            #{ticket.ticketNumber} {ticket.username || "Unknown user"}
+                          </div>
+                        ))}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {won.length === 0 && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            className="text-destructive"
+                            disabled={removeMutation.isPending}
+                            onClick={() => removeMutation.mutate(prize.id)}
+                            aria-label={`Remove ${prize.title}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
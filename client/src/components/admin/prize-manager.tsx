@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ImageUpload } from "@/components/ui/image-upload";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Trash2, Trophy } from "lucide-react";
+import { Prize } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency, formatPosition } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+
+const emptyForm = {
+  title: "",
+  value: "",
+  cashAlternative: "",
+  imageUrl: "",
+};
+
+export function PrizeManager({ competitionId }: { competitionId: number }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState(emptyForm);
+  // Bumped after each add so the image picker clears its preview
+  const [formKey, setFormKey] = useState(0);
+  const queryKey = [`/api/competitions/${competitionId}/prizes`];
+
+  const { data: prizes = [], isLoading } = useQuery<Prize[]>({ queryKey });
+
+  const updateField = (field: keyof typeof emptyForm) =>
+    (e: React.ChangeEvent<HTMLInputElement>) =>
+      setForm({ ...form, [field]: e.target.value });
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      // Amounts are entered in pounds and stored in pence
+      const response = await apiRequest("POST", `/api/admin/competitions/${competitionId}/prizes`, {
+        title: form.title,
+        value: Math.round(parseFloat(form.value) * 100),
+        cashAlternative: form.cashAlternative ? Math.round(parseFloat(form.cashAlternative) * 100) : null,
+        imageUrl: form.imageUrl || null,
+      });
+      return response.json();
+    },
+    onSuccess: (prize: Prize) => {
+      queryClient.invalidateQueries({ queryKey });
+      setForm(emptyForm);
+      setFormKey(formKey + 1);
+      toast({
+        title: "Prize added",
+        description: `${prize.title} is ${formatPosition(prize.position)} prize.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to add prize: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (prizeId: number) => {
+      const response = await apiRequest("DELETE", `/api/admin/prizes/${prizeId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to remove prize: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canSubmit = form.title.trim().length > 0 &&
+    parseFloat(form.value) > 0 &&
+    (!form.cashAlternative || parseFloat(form.cashAlternative) > 0) &&
+    !addMutation.isPending;
+
+  return (
+    <div className="border rounded-lg p-6 space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold">Prizes</h2>
+        <p className="text-sm text-muted-foreground">
+          Leave empty to draw a single winner for the main prize. With prizes listed, one ticket
+          is drawn for each in order, 1st prize first, and no ticket can win twice.
+        </p>
+      </div>
+
+      <div key={formKey} className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-4">
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="prizeTitle">Prize</Label>
+            <Input id="prizeTitle" placeholder="e.g. PlayStation 5" value={form.title} onChange={updateField("title")} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="prizeValue">Value (£)</Label>
+            <Input id="prizeValue" type="number" min={0.01} step={0.01} value={form.value} onChange={updateField("value")} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="prizeCashAlternative">Cash alternative (£, optional)</Label>
+            <Input id="prizeCashAlternative" type="number" min={0.01} step={0.01} value={form.cashAlternative} onChange={updateField("cashAlternative")} />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label>Image (optional)</Label>
+          <ImageUpload onImageUploaded={(imageUrl) => setForm({ ...form, imageUrl })} />
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <Button type="button" onClick={() => addMutation.mutate()} disabled={!canSubmit}>
+          <Trophy className="h-4 w-4 mr-2" />
+          {addMutation.isPending ? "Adding..." : `Add ${formatPosition(prizes.length + 1)} Prize`}
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin w-10 h-10 border-4 border-primary border-t-transparent rounded-full"></div>
+        </div>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Place</TableHead>
+                <TableHead>Prize</TableHead>
+                <TableHead>Value</TableHead>
+                <TableHead>Cash alternative</TableHead>
+                <TableHead className="text-right"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {prizes.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                    No prizes listed - the draw picks one winner
+                  </TableCell>
+                </TableRow>
+              ) : (
+                prizes.map((prize) => (
+                  <TableRow key={prize.id}>
+                    <TableCell className="font-medium">{formatPosition(prize.position)}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        {prize.imageUrl && (
+                          <img src={prize.imageUrl} alt={prize.title} className="h-8 w-8 rounded object-cover" />
+                        )}
+                        {prize.title}
+                      </div>
+                    </TableCell>
+                    <TableCell>{formatCurrency(prize.value)}</TableCell>
+                    <TableCell>{prize.cashAlternative !== null ? formatCurrency(prize.cashAlternative) : "-"}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="text-destructive"
+                        disabled={removeMutation.isPending}
+                        onClick={() => removeMutation.mutate(prize.id)}
+                        aria-label={`Remove ${prize.title}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
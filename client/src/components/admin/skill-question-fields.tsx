@@ -0,0 +1,127 @@
+import { UseFormReturn } from "react-hook-form";
+import { z } from "zod";
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+type SkillQuestionValues = {
+  skillQuestion?: string | null;
+  skillAnswerOptions?: string[];
+  skillCorrectAnswer?: string | null;
+};
+
+// Form-level check matching the server: a question needs options and a correct answer among them
+export function refineSkillQuestion(data: SkillQuestionValues, ctx: z.RefinementCtx) {
+  if (!data.skillQuestion?.trim()) {
+    return;
+  }
+
+  const options = (data.skillAnswerOptions || []).map(option => option.trim()).filter(Boolean);
+  if (options.length < 2) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Add at least two answer options",
+      path: ["skillAnswerOptions"],
+    });
+  }
+
+  if (!data.skillCorrectAnswer || !options.includes(data.skillCorrectAnswer)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Choose the correct answer from the options",
+      path: ["skillCorrectAnswer"],
+    });
+  }
+}
+
+export function SkillQuestionFields({ form }: { form: UseFormReturn<any> }) {
+  const options: string[] = (form.watch("skillAnswerOptions") || [])
+    .map((option: string) => option.trim())
+    .filter(Boolean);
+
+  return (
+    <div className="space-y-4 pt-4 border-t">
+      <h2 className="text-xl font-semibold">Skill Question</h2>
+
+      <FormField
+        control={form.control}
+        name="skillQuestion"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Question</FormLabel>
+            <FormControl>
+              <Input placeholder="e.g. What is 4 + 8?" {...field} value={field.value ?? ""} />
+            </FormControl>
+            <FormDescription>
+              Every entrant must answer. Entries with a wrong answer are accepted but not entered into the draw.
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <FormField
+          control={form.control}
+          name="skillAnswerOptions"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Answer Options</FormLabel>
+              <FormControl>
+                <Textarea
+                  placeholder={"One option per line"}
+                  rows={4}
+                  value={(field.value || []).join("\n")}
+                  onChange={(e) => field.onChange(e.target.value.split("\n"))}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="skillCorrectAnswer"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Correct Answer</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value ?? ""}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select the correct answer" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {options.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {option}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>
+                Never shown to entrants
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+    </div>
+  );
+}
@@ -8,6 +8,9 @@ import { Competition } from "@shared/schema";
 import { useLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery } from "@tanstack/react-query";
+import { useLiveUpdates } from "@/hooks/use-live-updates";
+import { SkillQuestion } from "@/components/competition/skill-question";
+import { formatCurrency } from "@/lib/utils";
 
 // Define response type for taken numbers API
 interface TakenNumbersResponse {
@@ -31,6 +34,8 @@ interface AddToCartProps {
   withNavigation?: boolean;
   showNumberPicker?: boolean;
   quantity?: number; // Allow quantity to be passed from parent component
+  skillAnswer?: string; // Answer captured by the parent - otherwise the question is asked here
+  onQuantityChange?: (quantity: number) => void; // Shows the competition's bundles as quick picks
 }
 
 export function AddToCart({ 
@@ -40,23 +45,61 @@ export function AddToCart({
   withNavigation = false,
   showNumberPicker = false,
   quantity = 1, // Default to 1 if not provided
+  skillAnswer,
+  onQuantityChange,
 }: AddToCartProps) {
   const [isNumberPickerOpen, setIsNumberPickerOpen] = useState(false);
   const [selectedNumbers, setSelectedNumbers] = useState<number[]>([]);
+  const [localSkillAnswer, setLocalSkillAnswer] = useState("");
+  const hasSkillQuestion = !!competition.skillQuestion;
+  const answer = skillAnswer ?? localSkillAnswer;
+  const bundleTiers = (competition.bundleTiers || [])
+    .filter(tier => tier.ticketCount <= competition.maxTicketsPerUser)
+    .sort((a, b) => a.ticketCount - b.ticketCount);
   const { addToCart } = useCart();
   const [, navigate] = useLocation();
   const { toast } = useToast();
   
   // Fetch taken numbers from the API
   const { data: takenNumbersData, isLoading: isLoadingTakenNumbers } = useQuery<TakenNumbersResponse>({
-    queryKey: ['/api/competitions', competition.id, 'taken-numbers'],
+    queryKey: [`/api/competitions/${competition.id}/taken-numbers`],
     // Only fetch when the number picker is open
     enabled: isNumberPickerOpen
   });
 
+  // The taken numbers cache is kept current by the live stream while the picker is open
+  useLiveUpdates({
+    competitionId: competition.id,
+    enabled: isNumberPickerOpen,
+    onUpdate: (update) => {
+      if (update.type !== 'tickets' || update.status === 'available') return;
+
+      // Drop picks that someone else has just taken
+      const lost = selectedNumbers.filter(number => update.ticketNumbers.includes(number));
+      if (lost.length > 0) {
+        setSelectedNumbers(prev => prev.filter(number => !lost.includes(number)));
+        toast({
+          title: "Number no longer available",
+          description: `${lost.join(", ")} ${lost.length === 1 ? 'was' : 'were'} just taken by another player. Please choose again.`,
+          variant: "destructive",
+        });
+      }
+    },
+  });
+
   // We've replaced the increment/decrement/input functions with a single slider handler
 
-  const handleAddToCart = () => {
+  const handleAddToCart = async () => {
+    // Every entry needs an answer to the skill question, right or wrong
+    if (hasSkillQuestion && !answer) {
+      toast({
+        title: "Answer the question",
+        description: "Please answer the competition question before adding tickets to your cart.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
     // If number picker is enabled and we don't have the correct number of selected numbers
     if (showNumberPicker && selectedNumbers.length !== quantity) {
       // Open the number picker dialog instead
@@ -70,7 +113,11 @@ export function AddToCart({
     }
     
     // Add to cart with any selected numbers (or empty array if number picker isn't enabled)
-    addToCart(competition, quantity, selectedNumbers);
+    if (!(await addToCart(competition, quantity, selectedNumbers, answer || undefined))) {
+      // Someone else reserved a picked number first - pick again
+      setSelectedNumbers([]);
+      return;
+    }
     
     // Show appropriate toast message based on whether numbers are selected
     if (selectedNumbers.length > 0) {
@@ -93,11 +140,14 @@ export function AddToCart({
     }
   };
 
-  const handleNumberPickerSave = () => {
+  const handleNumberPickerSave = async () => {
     // Ensure we have the correct number of tickets selected
     if (selectedNumbers.length === quantity) {
-      // Add to cart with the selected numbers
-      addToCart(competition, quantity, selectedNumbers);
+      // Add to cart with the selected numbers - the dialog stays open if any were taken meanwhile
+      if (!(await addToCart(competition, quantity, selectedNumbers, answer || undefined))) {
+        setSelectedNumbers([]);
+        return;
+      }
       
       // Show a confirmation toast with the selected numbers
       toast({
@@ -180,6 +230,37 @@ export function AddToCart({
 
   return (
     <>
+      {hasSkillQuestion && skillAnswer === undefined && (
+        <SkillQuestion
+          question={competition.skillQuestion!}
+          options={competition.skillAnswerOptions || []}
+          value={localSkillAnswer}
+          onChange={setLocalSkillAnswer}
+          className="mb-3"
+        />
+      )}
+
+      {onQuantityChange && bundleTiers.length > 0 && (
+        <div className="grid grid-cols-2 gap-2 mb-3" data-testid="bundle-quick-picks">
+          {bundleTiers.map(tier => (
+            <Button
+              key={tier.ticketCount}
+              type="button"
+              variant="outline"
+              className={`h-auto flex-col py-2 ${quantity === tier.ticketCount
+                ? 'bg-[#002147] text-white border-[#002147] hover:bg-[#002147]/90 hover:text-white'
+                : 'bg-white border-[#002147] text-[#002147]'}`}
+              onClick={() => onQuantityChange(tier.ticketCount)}
+            >
+              <span className="font-semibold">{tier.ticketCount} for {formatCurrency(tier.price)}</span>
+              <span className="text-xs opacity-80">
+                Save {formatCurrency(competition.ticketPrice * tier.ticketCount - tier.price)}
+              </span>
+            </Button>
+          ))}
+        </div>
+      )}
+
       <div className="w-full">
         <Button
           type="button"
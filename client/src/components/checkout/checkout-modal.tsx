@@ -10,6 +10,10 @@ import { CartItem } from "@/hooks/use-cart"
 import { StripeCheckout } from "./stripe-checkout"
 import { AlertCircle } from "lucide-react"
 import { Button } from "@/components/ui/button"
+import { SkillQuestion } from "@/components/competition/skill-question"
+import { PromoCodeInput } from "./promo-code-input"
+import { formatCurrency } from "@/lib/utils"
+import type { PromoCodeState } from "@/hooks/use-promo-code"
 
 interface CheckoutModalProps {
   isOpen: boolean
@@ -18,6 +22,11 @@ interface CheckoutModalProps {
   clientSecret: string | null
   amount: number
   cartItems: CartItem[]
+  // Skill question answers and any promo code are confirmed before the payment is created
+  answersConfirmed?: boolean
+  onAnswerChange?: (competitionId: number, answer: string) => void
+  onAnswersConfirmed?: () => void
+  promo?: PromoCodeState
 }
 
 export function CheckoutModal({
@@ -26,12 +35,20 @@ export function CheckoutModal({
   onSuccess,
   clientSecret,
   amount,
-  cartItems
+  cartItems,
+  answersConfirmed = true,
+  onAnswerChange,
+  onAnswersConfirmed,
+  promo
 }: CheckoutModalProps) {
   const [isCheckoutSuccessful, setIsCheckoutSuccessful] = useState(false)
   const [initError, setInitError] = useState<string | null>(null)
   const [loadingTimeout, setLoadingTimeout] = useState(false)
 
+  const questionItems = cartItems.filter(item => !!item.skillQuestion)
+  const isAnswering = !clientSecret && !answersConfirmed && (questionItems.length > 0 || !!promo)
+  const allAnswered = questionItems.every(item => !!item.skillAnswer)
+
   // Debug log when props change
   useEffect(() => {
     if (isOpen) {
@@ -55,7 +72,7 @@ export function CheckoutModal({
   useEffect(() => {
     let timer: ReturnType<typeof setTimeout>;
     
-    if (isOpen && !clientSecret && !initError) {
+    if (isOpen && !clientSecret && !initError && !isAnswering) {
       timer = setTimeout(() => {
         console.error('Client secret loading timeout after 10 seconds');
         setLoadingTimeout(true);
@@ -65,7 +82,7 @@ export function CheckoutModal({
     return () => {
       if (timer) clearTimeout(timer);
     };
-  }, [isOpen, clientSecret, initError]);
+  }, [isOpen, clientSecret, initError, isAnswering]);
 
   const handleSuccess = () => {
     console.log('Payment successful, triggering success flow');
@@ -88,10 +105,47 @@ export function CheckoutModal({
         <DialogHeader>
           <DialogTitle>Checkout</DialogTitle>
           <DialogDescription>
-            Complete your payment securely with Stripe.
+            {isAnswering
+              ? questionItems.length > 0
+                ? "Answer the question for each competition before you pay."
+                : "Add a promo code if you have one, then continue to payment."
+              : "Complete your payment securely with Stripe."}
           </DialogDescription>
         </DialogHeader>
 
+        {/* Skill question step */}
+        {isAnswering && (
+          <div className="py-4 space-y-4">
+            {questionItems.map(item => (
+              <SkillQuestion
+                key={item.competitionId}
+                title={item.title}
+                question={item.skillQuestion!}
+                options={item.skillAnswerOptions || []}
+                value={item.skillAnswer || ""}
+                onChange={(answer) => onAnswerChange?.(item.competitionId, answer)}
+              />
+            ))}
+            {promo && (
+              <div className="space-y-2">
+                <PromoCodeInput promo={promo} />
+                <div className="flex justify-between text-sm">
+                  <span className="font-medium">Total to pay:</span>
+                  <span className="font-bold">{formatCurrency(amount)}</span>
+                </div>
+              </div>
+            )}
+            <div className="flex justify-end gap-3">
+              <Button variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button onClick={onAnswersConfirmed} disabled={!allAnswered || !!promo?.isChecking}>
+                Continue to Payment
+              </Button>
+            </div>
+          </div>
+        )}
+
         {/* Error state */}
         {initError && (
           <div className="py-4">
@@ -140,7 +194,7 @@ export function CheckoutModal({
         )}
 
         {/* Loading state */}
-        {!clientSecret && !initError && !loadingTimeout && (
+        {!clientSecret && !initError && !loadingTimeout && !isAnswering && (
           <div className="flex flex-col items-center justify-center py-8">
             <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
             <span className="ml-2 mt-3">Loading payment details...</span>
@@ -0,0 +1,75 @@
+import { useState } from "react"
+import { Tag, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { formatCurrency } from "@/lib/utils"
+import type { PromoCodeState } from "@/hooks/use-promo-code"
+
+interface PromoCodeInputProps {
+  promo: PromoCodeState
+  className?: string
+}
+
+export function PromoCodeInput({ promo, className }: PromoCodeInputProps) {
+  const [value, setValue] = useState("")
+
+  const handleApply = async () => {
+    if (await promo.applyCode(value)) {
+      setValue("")
+    }
+  }
+
+  if (promo.code) {
+    return (
+      <div className={className}>
+        <div className="flex items-center justify-between rounded-md border border-green-200 bg-green-50 px-3 py-2 text-sm">
+          <div className="flex items-center gap-2 text-green-700">
+            <Tag className="h-4 w-4" />
+            <span className="font-medium">{promo.code}</span>
+            {promo.pricedCart && promo.pricedCart.discount > 0 && (
+              <span>-{formatCurrency(promo.pricedCart.discount)}</span>
+            )}
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={promo.removeCode}
+            aria-label="Remove promo code"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+        {promo.pricedCart?.promoCode?.description && (
+          <p className="mt-1 text-xs text-muted-foreground">{promo.pricedCart.promoCode.description}</p>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className={className}>
+      <form
+        className="flex gap-2"
+        onSubmit={(event) => {
+          event.preventDefault()
+          handleApply()
+        }}
+      >
+        <Input
+          value={value}
+          onChange={(event) => setValue(event.target.value)}
+          placeholder="Promo code"
+          className="uppercase placeholder:normal-case"
+          aria-label="Promo code"
+        />
+        <Button type="submit" variant="outline" disabled={promo.isChecking || !value.trim()}>
+          {promo.isChecking ? "Checking..." : "Apply"}
+        </Button>
+      </form>
+      {promo.error && (
+        <p className="mt-1 text-xs text-destructive">{promo.error}</p>
+      )}
+    </div>
+  )
+}
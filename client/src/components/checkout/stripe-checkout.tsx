@@ -9,6 +9,7 @@ import {
 import { Button } from '@/components/ui/button';
 import { Loader2, AlertCircle } from 'lucide-react';
 import { CartItem } from '@/hooks/use-cart';
+import { formatCurrency } from '@/lib/utils';
 
 // Make sure to call loadStripe outside of a component's render to avoid
 // recreating the Stripe object on every render.
@@ -240,7 +241,7 @@ export function StripeCheckout({
       <div className="bg-white border border-gray-200 rounded-lg p-4 sm:p-6 shadow-lg max-w-md mx-auto overflow-y-auto">
         <h2 className="text-xl font-semibold mb-1 text-[#002147]">Complete your purchase</h2>
         <p className="text-sm text-gray-600 mb-4">
-          Total: £{amount.toFixed(2)} for {cartItems.length} {cartItems.length === 1 ? 'item' : 'items'}
+          Total: {formatCurrency(amount)} for {cartItems.length} {cartItems.length === 1 ? 'item' : 'items'}
         </p>
         
         <div className="bg-destructive/10 text-destructive p-4 rounded-md mb-4 flex items-start">
@@ -277,7 +278,7 @@ export function StripeCheckout({
       <div className="bg-white border border-gray-200 rounded-lg p-4 sm:p-6 shadow-lg max-w-md mx-auto overflow-y-auto">
         <h2 className="text-xl font-semibold mb-1 text-[#002147]">Complete your purchase</h2>
         <p className="text-sm text-gray-600 mb-4">
-          Total: £{amount.toFixed(2)} for {cartItems.length} {cartItems.length === 1 ? 'item' : 'items'}
+          Total: {formatCurrency(amount)} for {cartItems.length} {cartItems.length === 1 ? 'item' : 'items'}
         </p>
         
         <div className="flex flex-col items-center justify-center py-8">
@@ -301,7 +302,7 @@ export function StripeCheckout({
     <div className="bg-white border border-gray-200 rounded-lg p-4 sm:p-6 shadow-lg max-w-md mx-auto overflow-y-auto">
       <h2 className="text-xl font-semibold mb-1 text-[#002147]">Complete your purchase</h2>
       <p className="text-sm text-gray-600 mb-4 sm:mb-6">
-        Total: £{amount.toFixed(2)} for {cartItems.length} {cartItems.length === 1 ? 'item' : 'items'}
+        Total: {formatCurrency(amount)} for {cartItems.length} {cartItems.length === 1 ? 'item' : 'items'}
       </p>
       
       <Elements stripe={stripePromise} options={options}>
@@ -7,6 +7,7 @@ import { CountdownTimer } from "./countdown-timer";
 import { CategoryBadge } from "./category-badge";
 import { motion } from "framer-motion";
 import { cn } from "@/lib/utils";
+import { useLiveUpdates } from "@/hooks/use-live-updates";
 
 interface CompetitionCardProps {
   competition: Competition;
@@ -15,6 +16,9 @@ interface CompetitionCardProps {
 export function CompetitionCard({ competition }: CompetitionCardProps) {
   const [isHovered, setIsHovered] = useState(false);
   const timeRemaining = calculateTimeRemaining(competition.drawDate);
+
+  // Sales progress arrives through the cached competition list
+  useLiveUpdates({ competitionId: competition.id });
   
   const ticketsSold = competition.ticketsSold || 0;
   const remainingTickets = competition.totalTickets - ticketsSold;
@@ -0,0 +1,48 @@
+import { useQuery } from "@tanstack/react-query";
+import { Zap } from "lucide-react";
+import { InstantWinSummary } from "@shared/schema";
+import { formatCurrency } from "@/lib/utils";
+
+// The competition's instant win prizes - unwon ticket numbers stay secret
+export function InstantWins({ competitionId }: { competitionId: number }) {
+  const { data: prizes = [] } = useQuery<InstantWinSummary[]>({
+    queryKey: [`/api/competitions/${competitionId}/instant-wins`],
+  });
+
+  if (prizes.length === 0) {
+    return null;
+  }
+
+  const remaining = prizes.reduce((sum, prize) => sum + prize.quantity - prize.won, 0);
+
+  return (
+    <div className="bg-white rounded-lg p-4 shadow-sm border border-gray-100">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-[#002147] flex items-center">
+          <Zap className="h-4 w-4 mr-1 text-[#bbd665]" />
+          Instant Wins
+        </h3>
+        <span className="text-xs text-gray-500">{remaining} still to be won</span>
+      </div>
+      <p className="text-xs text-gray-600 mb-3">
+        Some tickets hide an instant prize. Buy one and you win it straight away.
+      </p>
+      <ul className="space-y-2">
+        {prizes.map((prize) => (
+          <li key={prize.id} className="text-xs border-t border-gray-100 pt-2">
+            <div className="flex justify-between">
+              <span className="font-medium text-[#002147]">{prize.title}</span>
+              <span className="text-gray-700">
+                {formatCurrency(prize.value)} {prize.prizeType === "site_credit" ? "site credit" : "cash"}
+              </span>
+            </div>
+            <div className="text-gray-500">
+              {prize.won} of {prize.quantity} won
+              {prize.wonTicketNumbers.length > 0 && ` - tickets ${prize.wonTicketNumbers.join(", ")}`}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
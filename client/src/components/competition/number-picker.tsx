@@ -14,6 +14,7 @@ import {
 } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { applyTicketUpdate, useLiveUpdates } from "@/hooks/use-live-updates";
 
 interface NumberPickerProps {
   maxNumber: number;
@@ -88,6 +89,32 @@ export function NumberPicker({
     }
   }, [isDialogOpen, competitionId]);
 
+  // Keep the grid current while the dialog is open
+  useLiveUpdates({
+    competitionId,
+    enabled: isDialogOpen && !!competitionId,
+    onUpdate: (update) => {
+      if (update.type !== 'tickets') return;
+
+      setTakenNumbers(prev => applyTicketUpdate(prev, update));
+
+      if (update.status === 'available') return;
+
+      // Drop picks that someone else has just taken
+      const lost = selectedNumbers.filter(number =>
+        update.ticketNumbers.includes(number) && !initialSelectedNumbers.includes(number)
+      );
+      if (lost.length > 0) {
+        setSelectedNumbers(prev => prev.filter(number => !lost.includes(number)));
+        toast({
+          title: "Number no longer available",
+          description: `${lost.join(", ")} ${lost.length === 1 ? 'was' : 'were'} just taken by another player. Please choose again.`,
+          variant: "destructive",
+        });
+      }
+    },
+  });
+
   const fetchTakenNumbers = async () => {
     try {
       console.log(`🔍 Fetching taken numbers for competition ${competitionId}`);
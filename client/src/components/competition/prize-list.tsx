@@ -0,0 +1,45 @@
+import { useQuery } from "@tanstack/react-query";
+import { Trophy } from "lucide-react";
+import { Prize } from "@shared/schema";
+import { formatCurrency, formatPosition } from "@/lib/utils";
+
+// Every prize in the draw, 1st prize first - hidden for single-prize competitions
+export function PrizeList({ competitionId }: { competitionId: number }) {
+  const { data: prizes = [] } = useQuery<Prize[]>({
+    queryKey: [`/api/competitions/${competitionId}/prizes`],
+  });
+
+  if (prizes.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg p-4 shadow-sm border border-gray-100">
+      <h3 className="text-sm font-semibold text-[#002147] mb-2 flex items-center">
+        <Trophy className="h-4 w-4 mr-1 text-[#bbd665]" />
+        {prizes.length} Prizes to Be Won
+      </h3>
+      <p className="text-xs text-gray-600 mb-3">
+        One ticket is drawn for each prize, starting with 1st prize. A ticket can only win once.
+      </p>
+      <ul className="space-y-2">
+        {prizes.map((prize) => (
+          <li key={prize.id} className="flex items-center gap-3 text-xs border-t border-gray-100 pt-2">
+            {prize.imageUrl && (
+              <img src={prize.imageUrl} alt={prize.title} className="h-10 w-10 rounded object-cover" />
+            )}
+            <div className="flex-1">
+              <div className="font-medium text-[#002147]">
+                {formatPosition(prize.position)} - {prize.title}
+              </div>
+              {prize.cashAlternative !== null && (
+                <div className="text-gray-500">Cash alternative {formatCurrency(prize.cashAlternative)}</div>
+              )}
+            </div>
+            <span className="text-gray-700">{formatCurrency(prize.value)}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
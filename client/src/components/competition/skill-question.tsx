@@ -0,0 +1,49 @@
+import { AlertCircle } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+
+interface SkillQuestionProps {
+  question: string;
+  options: string[];
+  value: string;
+  onChange: (answer: string) => void;
+  title?: string;
+  className?: string;
+}
+
+// Entries are accepted whatever the answer - only correct answers go into the draw
+export function SkillQuestion({ question, options, value, onChange, title, className }: SkillQuestionProps) {
+  return (
+    <div className={cn("border border-gray-200 rounded-md p-3 bg-gray-50", className)}>
+      <div className="flex items-start mb-2">
+        <AlertCircle className="h-4 w-4 text-[#002147] mr-2 mt-0.5" />
+        <div>
+          <h4 className="text-sm font-medium text-[#002147]">{title || "Question"}</h4>
+          <p className="text-xs text-gray-500 mt-0.5">Only entries with the correct answer are entered into the draw</p>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium mb-1">
+          {question}
+        </label>
+        <Select value={value} onValueChange={onChange}>
+          <SelectTrigger className="w-full">
+            <SelectValue placeholder="Select your answer" />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map(option => (
+              <SelectItem key={option} value={option}>{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
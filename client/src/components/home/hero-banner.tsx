@@ -8,6 +8,7 @@ import { formatDistanceToNow, format } from "date-fns";
 import { Progress } from "@/components/ui/progress";
 import { useState, useEffect } from "react";
 import { motion } from "framer-motion";
+import { useLiveUpdates } from "@/hooks/use-live-updates";
 
 export function HeroBanner() {
   const { data: heroBannerConfig, isLoading: isLoadingBanner } = useQuery<SiteConfig>({
@@ -59,6 +60,9 @@ export function HeroBanner() {
     staleTime: 60 * 1000, // Cache for 1 minute
   });
 
+  // Keep the competitions above current with sales, draw results and draw date changes
+  useLiveUpdates();
+
   // We're disabling the automatic competition prioritization to fix the hero banner image issue
   // The hero banner will now use only the specific hero banner image set in site config
   const heroBannerCompetition: Competition | null = null; // Removed competition image priority to fix hero banner image display
@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/use-auth";
 import { CartIcon } from "@/components/cart/cart-icon";
 import { Logo } from "@/components/ui/logo";
+import { VerifyEmailBanner } from "@/components/layout/verify-email-banner";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -74,6 +75,14 @@ export function Navbar() {
                   )}>
                     <i className="fas fa-trophy mr-1 text-xs"></i> Competitions
                   </Link>
+                  <Link href="/winners" className={cn(
+                    "px-3 py-2 text-sm font-medium flex items-center transition-all duration-200",
+                    location === "/winners" 
+                      ? "text-white font-bold relative after:absolute after:bottom-0 after:left-0 after:w-full after:h-0.5 after:bg-white after:rounded-full" 
+                      : "text-white/80 hover:text-white hover:bg-white/5"
+                  )}>
+                    <i className="fas fa-medal mr-1 text-xs"></i> Winners
+                  </Link>
                   <Link href="/how-to-play" className={cn(
                     "px-3 py-2 text-sm font-medium flex items-center transition-all duration-200",
                     location === "/how-to-play" 
@@ -248,6 +257,14 @@ export function Navbar() {
                       )}>
                       <i className="fas fa-trophy mr-2"></i> Competitions
                     </Link>
+                    <Link href="/winners" 
+                      onClick={() => setIsMenuOpen(false)}
+                      className={cn(
+                        "flex items-center text-lg font-medium",
+                        location === "/winners" ? "text-primary" : "text-foreground"
+                      )}>
+                      <i className="fas fa-medal mr-2"></i> Winners
+                    </Link>
                     <Link href="/how-to-play" 
                       onClick={() => setIsMenuOpen(false)}
                       className={cn(
@@ -364,6 +381,8 @@ export function Navbar() {
           </div>
         </div>
       </div>
+
+      <VerifyEmailBanner />
     </nav>
   );
 }
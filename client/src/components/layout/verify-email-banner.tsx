@@ -0,0 +1,47 @@
+import { useMutation } from "@tanstack/react-query";
+import { MailWarning } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+// Shown under the navbar until the signed-in user confirms their email address
+export function VerifyEmailBanner() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const resendMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/verify-email/resend");
+      return res.json() as Promise<{ message: string }>;
+    },
+    onSuccess: (result) => {
+      toast({ title: "Verification email sent", description: result.message });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not send email", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!user || user.emailVerifiedAt || user.isGuest) {
+    return null;
+  }
+
+  return (
+    <div className="bg-amber-100 text-amber-900 border-b border-amber-300">
+      <div className="max-w-[1400px] mx-auto px-4 sm:px-6 lg:px-8 py-2 text-sm flex flex-wrap items-center justify-center gap-x-2 gap-y-1 text-center">
+        <MailWarning className="h-4 w-4 flex-shrink-0" />
+        <span>
+          Please confirm your email address <span className="font-semibold">{user.email}</span> to buy tickets.
+        </span>
+        <button
+          type="button"
+          className="underline font-medium hover:text-amber-700 disabled:opacity-60"
+          disabled={resendMutation.isPending}
+          onClick={() => resendMutation.mutate()}
+        >
+          {resendMutation.isPending ? "Sending..." : "Resend the link"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,10 @@
-import { createContext, ReactNode, useContext, useEffect, useState, useCallback } from "react";
-import { Competition } from "@shared/schema";
+import { createContext, ReactNode, useContext, useEffect, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Competition, type BundleTier } from "@shared/schema";
+import { priceTickets } from "@shared/bundle-pricing";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { queryClient } from "@/lib/queryClient";
 
 export type CartItem = {
   competitionId: number;
@@ -11,271 +15,271 @@ export type CartItem = {
   selectedNumbers: number[];
   maxTicketsPerUser: number;
   totalTickets: number;
+  skillQuestion?: string | null;
+  skillAnswerOptions?: string[];
+  skillAnswer?: string | null;
+  bundleTiers: BundleTier[];
   addedAt: number; // Timestamp when the item was added to cart
-  expiresAt: number; // Timestamp when the reservation expires
+  expiresAt: number; // Timestamp when the server releases the reservation
+};
+
+// The cart as returned by /api/cart
+type ServerCart = {
+  id: number | null;
+  items: Array<{
+    competitionId: number;
+    ticketCount: number;
+    selectedNumbers: number[] | null;
+    skillAnswer: string | null;
+    reservedUntil: string;
+    createdAt: string | null;
+    competition: {
+      title: string;
+      imageUrl: string | null;
+      ticketPrice: number;
+      maxTicketsPerUser: number;
+      totalTickets: number;
+      skillQuestion: string | null;
+      skillAnswerOptions: string[] | null;
+      bundleTiers: BundleTier[] | null;
+    };
+  }>;
+  // Titles of items dropped because their reservation ran out
+  expired: string[];
 };
 
 type CartContextType = {
   cartItems: CartItem[];
   cartCount: number;
   cartTotal: number;
-  addToCart: (competition: Competition, quantity: number, selectedNumbers?: number[]) => void;
-  updateCartItem: (competitionId: number, quantity: number, selectedNumbers?: number[]) => void;
+  isLoading: boolean;
+  // Resolves to false when the numbers could not be reserved
+  addToCart: (competition: Competition, quantity: number, selectedNumbers?: number[], skillAnswer?: string) => Promise<boolean>;
+  updateCartItem: (competitionId: number, quantity: number, selectedNumbers?: number[]) => Promise<boolean>;
+  setSkillAnswer: (competitionId: number, skillAnswer: string) => void;
   removeFromCart: (competitionId: number) => void;
   clearCart: () => void;
 };
 
-const CART_STORAGE_KEY = "bluewhale-cart";
-// 30 minutes in milliseconds
-const RESERVATION_TIME = 30 * 60 * 1000;
+const CART_QUERY_KEY = ["/api/cart"];
+// Carts were kept in localStorage before they moved to the server
+const LEGACY_CART_STORAGE_KEY = "bluewhale-cart";
+
+function toCartItems(cart: ServerCart | undefined): CartItem[] {
+  return (cart?.items || []).map(item => ({
+    competitionId: item.competitionId,
+    title: item.competition.title,
+    imageUrl: item.competition.imageUrl,
+    ticketPrice: item.competition.ticketPrice,
+    ticketCount: item.ticketCount,
+    selectedNumbers: item.selectedNumbers || [],
+    maxTicketsPerUser: item.competition.maxTicketsPerUser,
+    totalTickets: item.competition.totalTickets,
+    skillQuestion: item.competition.skillQuestion,
+    skillAnswerOptions: item.competition.skillAnswerOptions || [],
+    skillAnswer: item.skillAnswer,
+    bundleTiers: item.competition.bundleTiers || [],
+    addedAt: item.createdAt ? new Date(item.createdAt).getTime() : Date.now(),
+    expiresAt: new Date(item.reservedUntil).getTime(),
+  }));
+}
+
+// Cart requests answer 409 with the lost numbers, which is not an error worth the debug overlay
+async function cartRequest(method: string, url: string, body?: unknown) {
+  const res = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+    credentials: "include",
+  });
+
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok && res.status !== 409) {
+    throw new Error(data.message || `Cart request failed (${res.status})`);
+  }
+
+  return { status: res.status, data } as {
+    status: number;
+    data: ServerCart & { message?: string; lost?: number[]; cart?: ServerCart };
+  };
+}
 
 export const CartContext = createContext<CartContextType | null>(null);
 
 export function CartProvider({ children }: { children: ReactNode }) {
-  const [cartItems, setCartItems] = useState<CartItem[]>([]);
+  const { user } = useAuth();
   const { toast } = useToast();
+  const previousUserId = useRef<number | null | undefined>(undefined);
+
+  const { data: cart, isLoading } = useQuery<ServerCart>({
+    queryKey: CART_QUERY_KEY,
+    queryFn: async () => (await cartRequest("GET", "/api/cart")).data,
+  });
 
-  // Load cart from localStorage on mount and remove expired items
+  // The server merges a guest cart into the account at login, and the
+  // account cart is no longer ours after logout
   useEffect(() => {
-    try {
-      const savedCart = localStorage.getItem(CART_STORAGE_KEY);
-      if (savedCart) {
-        const parsedCart = JSON.parse(savedCart);
-        
-        // Filter out expired items
-        const now = Date.now();
-        const validItems = parsedCart.filter(item => {
-          // First check if item is valid and has required properties
-          if (!item || typeof item !== 'object' || !('competitionId' in item)) {
-            return false;
-          }
-          
-          // Ensure selectedNumbers is an array
-          if (!Array.isArray(item.selectedNumbers)) {
-            item.selectedNumbers = [];
-          }
-          
-          // Keep items that don't have an expiration yet (for backwards compatibility)
-          // or items that haven't expired yet
-          return !item.expiresAt || item.expiresAt > now;
-        });
-        
-        // If we filtered out items, show a notification
-        if (validItems.length < parsedCart.length) {
-          toast({
-            title: "Some items in your cart have expired",
-            description: "Items are reserved for 30 minutes before they become available to others.",
-            variant: "destructive",
-          });
-        }
-        
-        setCartItems(validItems);
-      }
-    } catch (error) {
-      console.error("Failed to load cart from localStorage:", error);
+    const userId = user?.id ?? null;
+    if (previousUserId.current !== undefined && previousUserId.current !== userId) {
+      queryClient.invalidateQueries({ queryKey: CART_QUERY_KEY });
     }
-  }, [toast]);
+    previousUserId.current = userId;
+  }, [user?.id]);
 
-  // Save cart to localStorage whenever it changes
+  // Tell the user about items the server dropped when their hold ran out
   useEffect(() => {
-    try {
-      localStorage.setItem(CART_STORAGE_KEY, JSON.stringify(cartItems));
-    } catch (error) {
-      console.error("Failed to save cart to localStorage:", error);
+    if (cart?.expired?.length) {
+      toast({
+        title: "Some items in your cart have expired",
+        description: `${cart.expired.join(", ")} ${cart.expired.length === 1 ? "was" : "were"} removed. Numbers are reserved for 30 minutes before they become available to others.`,
+        variant: "destructive",
+      });
     }
-  }, [cartItems]);
-  
-  // Periodically check for expired items (every 30 seconds)
+  }, [cart, toast]);
+
+  // Refetch when the earliest reservation runs out so the server can drop it
   useEffect(() => {
-    const checkExpiredItems = () => {
-      const now = Date.now();
-      setCartItems(prevItems => {
-        // Check if any items are expired
-        const validItems = prevItems.filter(item => {
-          // First check if item is valid and has required properties
-          if (!item || typeof item !== 'object' || !('competitionId' in item)) {
-            return false;
-          }
-          
-          // Ensure selectedNumbers is an array
-          if (!Array.isArray(item.selectedNumbers)) {
-            item.selectedNumbers = [];
-          }
-          
-          return !item.expiresAt || item.expiresAt > now;
-        });
-        
-        // If we have removed items, return the new array, otherwise return the same array
-        // to avoid unnecessary re-renders
-        if (validItems.length < prevItems.length) {
-          toast({
-            title: "Some items in your cart have expired",
-            description: "Items are reserved for 30 minutes before they become available to others.",
-            variant: "destructive",
+    const expiries = toCartItems(cart).map(item => item.expiresAt);
+    if (expiries.length === 0) return;
+
+    const delay = Math.max(Math.min(...expiries) - Date.now(), 0) + 1000;
+    const timer = setTimeout(() => {
+      queryClient.invalidateQueries({ queryKey: CART_QUERY_KEY });
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [cart]);
+
+  // Move a cart saved in this browser by an older version of the site onto the server, once
+  useEffect(() => {
+    const savedCart = localStorage.getItem(LEGACY_CART_STORAGE_KEY);
+    if (!savedCart) return;
+    localStorage.removeItem(LEGACY_CART_STORAGE_KEY);
+
+    (async () => {
+      try {
+        const items = JSON.parse(savedCart);
+        for (const item of Array.isArray(items) ? items : []) {
+          if (!item?.competitionId || (item.expiresAt && item.expiresAt < Date.now())) continue;
+          await cartRequest("POST", "/api/cart", {
+            competitionId: item.competitionId,
+            ticketCount: item.ticketCount,
+            selectedNumbers: Array.isArray(item.selectedNumbers) ? item.selectedNumbers : [],
+            skillAnswer: item.skillAnswer || undefined,
           });
-          return validItems;
         }
-        
-        return prevItems;
-      });
-    };
-    
-    // Check every 30 seconds
-    const interval = setInterval(checkExpiredItems, 30 * 1000);
-    
-    // Clean up interval when component unmounts
-    return () => clearInterval(interval);
-  }, [toast]);
+      } catch (error) {
+        console.error("Failed to move saved cart to the server:", error);
+      }
+      queryClient.invalidateQueries({ queryKey: CART_QUERY_KEY });
+    })();
+  }, []);
+
+  const cartItems = toCartItems(cart);
 
   // Calculate cart total and count
   const cartCount = cartItems.reduce((total, item) => total + item.ticketCount, 0);
+  // Priced as the server will charge it, with the best mix of bundles
   const cartTotal = cartItems.reduce(
-    (total, item) => total + item.ticketPrice * item.ticketCount, 
+    (total, item) => total + priceTickets(item.ticketPrice, item.bundleTiers, item.ticketCount).total,
     0
   );
 
-  const addToCart = (competition: Competition, quantity: number, selectedNumbers: number[] = []) => {
-    if (quantity <= 0) return;
-
-    setCartItems((prevItems) => {
-      // Check if this competition is already in the cart
-      const existingItemIndex = prevItems.findIndex(
-        (item) => item.competitionId === competition.id
-      );
-
-      // If the competition exists in the cart, update the quantity
-      if (existingItemIndex >= 0) {
-        const item = prevItems[existingItemIndex];
-        const newQuantity = Math.min(
-          item.ticketCount + quantity,
-          competition.maxTicketsPerUser
-        );
-
-        // If we're not adding any more tickets, don't update
-        if (newQuantity === item.ticketCount) {
-          toast({
-            title: "Maximum tickets reached",
-            description: `You can only purchase up to ${competition.maxTicketsPerUser} tickets for this competition.`,
-            variant: "destructive",
-          });
-          return prevItems;
-        }
-
-        // Combine previously selected numbers with new ones
-        // Safely handle the case when item.selectedNumbers might not be iterable
-        const existingNumbers = Array.isArray(item.selectedNumbers) ? item.selectedNumbers : [];
-        const newNumbers = Array.isArray(selectedNumbers) ? selectedNumbers : [];
-        const updatedNumbers = [...existingNumbers, ...newNumbers].slice(0, newQuantity);
-
-        const updatedItems = [...prevItems];
-        updatedItems[existingItemIndex] = {
-          ...item,
-          ticketCount: newQuantity,
-          selectedNumbers: updatedNumbers,
-        };
+  // Apply a cart change, reporting numbers someone else got to first
+  const applyChange = async (request: Promise<Awaited<ReturnType<typeof cartRequest>>>) => {
+    try {
+      const { status, data } = await request;
 
+      if (status === 409) {
+        queryClient.setQueryData(CART_QUERY_KEY, data.cart);
+        queryClient.invalidateQueries({ predicate: query =>
+          typeof query.queryKey[0] === "string" && query.queryKey[0].endsWith("/taken-numbers")
+        });
         toast({
-          title: "Cart updated",
-          description: `Updated ${competition.title} ticket quantity to ${newQuantity}.`,
+          title: "Numbers no longer available",
+          description: `${data.message}. Please choose different numbers.`,
+          variant: "destructive",
         });
-
-        return updatedItems;
+        return false;
       }
 
-      // Otherwise, add as a new item
+      queryClient.setQueryData(CART_QUERY_KEY, data);
+      return true;
+    } catch (error: any) {
       toast({
-        title: "Added to cart",
-        description: `${quantity} ticket${quantity !== 1 ? 's' : ''} for ${competition.title} added to your cart.`,
+        title: "Cart not updated",
+        description: error.message,
+        variant: "destructive",
       });
+      return false;
+    }
+  };
 
-      // Ensure selectedNumbers is an array before we use slice
-      const safeSelectedNumbers = Array.isArray(selectedNumbers) ? selectedNumbers : [];
-
-      const now = Date.now();
-      return [
-        ...prevItems,
-        {
-          competitionId: competition.id,
-          title: competition.title,
-          imageUrl: competition.imageUrl,
-          ticketPrice: competition.ticketPrice,
-          ticketCount: quantity,
-          selectedNumbers: safeSelectedNumbers.slice(0, quantity),
-          maxTicketsPerUser: competition.maxTicketsPerUser,
-          totalTickets: competition.totalTickets,
-          addedAt: now,
-          expiresAt: now + RESERVATION_TIME,
-        },
-      ];
-    });
+  const addToCart = async (competition: Competition, quantity: number, selectedNumbers: number[] = [], skillAnswer?: string) => {
+    if (quantity <= 0) return false;
+
+    const existing = cartItems.find(item => item.competitionId === competition.id);
+    const added = await applyChange(cartRequest("POST", "/api/cart", {
+      competitionId: competition.id,
+      ticketCount: quantity,
+      selectedNumbers: Array.isArray(selectedNumbers) ? selectedNumbers : [],
+      skillAnswer: skillAnswer || undefined,
+    }));
+
+    if (added) {
+      toast(existing
+        ? {
+            title: "Cart updated",
+            description: `Updated ${competition.title} ticket quantity.`,
+          }
+        : {
+            title: "Added to cart",
+            description: `${quantity} ticket${quantity !== 1 ? 's' : ''} for ${competition.title} added to your cart.`,
+          });
+    }
+
+    return added;
   };
 
-  const updateCartItem = (competitionId: number, quantity: number, selectedNumbers?: number[]) => {
+  const updateCartItem = async (competitionId: number, quantity: number, selectedNumbers?: number[]) => {
     if (quantity <= 0) {
       removeFromCart(competitionId);
-      return;
+      return true;
     }
 
-    setCartItems((prevItems) => {
-      const item = prevItems.find((item) => item.competitionId === competitionId);
-      if (!item) return prevItems;
-
-      // Make sure we don't exceed the maximum tickets
-      const newQuantity = Math.min(quantity, item.maxTicketsPerUser);
-      
-      if (newQuantity === item.ticketCount && !selectedNumbers) {
-        return prevItems;
-      }
-
-      // Handle the selected numbers safely
-      // Ensure item.selectedNumbers is an array
-      const existingNumbers = Array.isArray(item.selectedNumbers) ? item.selectedNumbers : [];
-      let updatedNumbers = existingNumbers;
-      
-      // If new numbers are provided, use them
-      if (selectedNumbers) {
-        updatedNumbers = Array.isArray(selectedNumbers) ? selectedNumbers.slice(0, newQuantity) : [];
-      } 
-      // If quantity decreased, trim the selected numbers
-      else if (newQuantity < item.ticketCount) {
-        updatedNumbers = existingNumbers.slice(0, newQuantity);
-      }
+    return applyChange(cartRequest("PATCH", `/api/cart/${competitionId}`, {
+      ticketCount: quantity,
+      selectedNumbers,
+    }));
+  };
 
-      return prevItems.map((item) =>
-        item.competitionId === competitionId
-          ? { 
-              ...item, 
-              ticketCount: newQuantity, 
-              selectedNumbers: updatedNumbers,
-              // Keep the original timestamps when updating
-              addedAt: item.addedAt || Date.now(),
-              expiresAt: item.expiresAt || (Date.now() + RESERVATION_TIME)
-            }
-          : item
-      );
+  const setSkillAnswer = (competitionId: number, skillAnswer: string) => {
+    // Show the answer straight away - the server copy follows
+    queryClient.setQueryData<ServerCart>(CART_QUERY_KEY, data => data && {
+      ...data,
+      items: data.items.map(item => item.competitionId === competitionId ? { ...item, skillAnswer } : item),
     });
+    applyChange(cartRequest("PATCH", `/api/cart/${competitionId}`, { skillAnswer }));
   };
 
-  const removeFromCart = (competitionId: number) => {
-    setCartItems((prevItems) => {
-      const item = prevItems.find((item) => item.competitionId === competitionId);
-      if (!item) return prevItems;
+  const removeFromCart = async (competitionId: number) => {
+    const item = cartItems.find(item => item.competitionId === competitionId);
+    if (!item) return;
 
+    if (await applyChange(cartRequest("DELETE", `/api/cart/${competitionId}`))) {
       toast({
         title: "Removed from cart",
         description: `${item.title} removed from your cart.`,
       });
-
-      return prevItems.filter((item) => item.competitionId !== competitionId);
-    });
+    }
   };
 
-  const clearCart = () => {
-    setCartItems([]);
-    toast({
-      title: "Cart cleared",
-      description: "All items have been removed from your cart.",
-    });
+  const clearCart = async () => {
+    if (await applyChange(cartRequest("DELETE", "/api/cart"))) {
+      toast({
+        title: "Cart cleared",
+        description: "All items have been removed from your cart.",
+      });
+    }
   };
 
   return (
@@ -284,8 +288,10 @@ export function CartProvider({ children }: { children: ReactNode }) {
         cartItems,
         cartCount,
         cartTotal,
+        isLoading,
         addToCart,
         updateCartItem,
+        setSkillAnswer,
         removeFromCart,
         clearCart,
       }}
@@ -301,4 +307,4 @@ export function useCart() {
     throw new Error("useCart must be used within a CartProvider");
   }
   return context;
-}
\ No newline at end of file
+}
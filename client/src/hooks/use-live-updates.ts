@@ -0,0 +1,149 @@
+import { useEffect, useRef } from "react";
+import type { Competition, LiveUpdate } from "@shared/schema";
+import { getApiBaseUrl, queryClient } from "@/lib/queryClient";
+
+type LiveUpdateListener = (update: LiveUpdate) => void;
+type TicketUpdate = Extract<LiveUpdate, { type: 'tickets' }>;
+
+const EVENT_TYPES: LiveUpdate['type'][] = ['tickets', 'progress', 'draw', 'competition'];
+
+// Every component shares one stream - browsers only allow a few open connections per site
+const listeners = new Set<LiveUpdateListener>();
+let source: EventSource | null = null;
+let hasConnected = false;
+
+/**
+ * Apply a ticket update to a list of taken numbers
+ */
+export function applyTicketUpdate(takenNumbers: number[], update: TicketUpdate): number[] {
+  const taken = new Set(takenNumbers);
+  for (const number of update.ticketNumbers) {
+    if (update.status === 'available') {
+      taken.delete(number);
+    } else {
+      taken.add(number);
+    }
+  }
+  return Array.from(taken);
+}
+
+function isCompetitionQuery(queryKey: readonly unknown[]) {
+  return typeof queryKey[0] === 'string' && queryKey[0].startsWith('/api/competitions');
+}
+
+// Keep cached competition data in step so every component showing it re-renders
+function applyToCache(update: LiveUpdate) {
+  const { competitionId } = update;
+
+  switch (update.type) {
+    case 'tickets':
+      queryClient.setQueryData<{ competitionId: number; takenNumbers: number[] }>(
+        [`/api/competitions/${competitionId}/taken-numbers`],
+        data => data && { ...data, takenNumbers: applyTicketUpdate(data.takenNumbers || [], update) }
+      );
+      break;
+
+    case 'progress': {
+      const applyProgress = (competition: Competition) =>
+        competition?.id === competitionId ? { ...competition, ticketsSold: update.ticketsSold } : competition;
+
+      // Competition lists are cached under ["/api/competitions", filters]
+      queryClient.setQueriesData<Competition[] | Competition>({ queryKey: ["/api/competitions"] }, data =>
+        Array.isArray(data) ? data.map(applyProgress) : data && applyProgress(data)
+      );
+      queryClient.setQueryData<Competition>([`/api/competitions/${competitionId}`], data => data && applyProgress(data));
+      break;
+    }
+
+    case 'draw':
+    case 'competition':
+      queryClient.invalidateQueries({ queryKey: ["/api/competitions"] });
+      queryClient.invalidateQueries({
+        predicate: query => isCompetitionQuery(query.queryKey) &&
+          (query.queryKey[0] as string).startsWith(`/api/competitions/${competitionId}`)
+      });
+      break;
+  }
+}
+
+function connect() {
+  if (source) {
+    return;
+  }
+
+  const baseUrl = getApiBaseUrl();
+  source = new EventSource(baseUrl === '/api' ? '/api/live' : `${baseUrl}/api/live`, { withCredentials: true });
+
+  source.onopen = () => {
+    // Anything may have changed while the stream was down
+    if (hasConnected) {
+      console.log('📡 Live updates reconnected - refreshing competition data');
+      queryClient.invalidateQueries({ predicate: query => isCompetitionQuery(query.queryKey) });
+    }
+    hasConnected = true;
+  };
+
+  for (const type of EVENT_TYPES) {
+    source.addEventListener(type, (event) => {
+      let update: LiveUpdate;
+      try {
+        update = JSON.parse((event as MessageEvent).data);
+      } catch (error) {
+        console.error('📡 Could not parse live update:', error);
+        return;
+      }
+
+      applyToCache(update);
+      for (const listener of Array.from(listeners)) {
+        listener(update);
+      }
+    });
+  }
+}
+
+function disconnect() {
+  source?.close();
+  source = null;
+  hasConnected = false;
+}
+
+/**
+ * Subscribe to live ticket, sales and draw updates. Cached competition
+ * queries are updated automatically; onUpdate is called for anything the
+ * component keeps in its own state. Leave out competitionId to hear about
+ * every competition.
+ */
+export function useLiveUpdates({
+  competitionId,
+  enabled = true,
+  onUpdate,
+}: {
+  competitionId?: number;
+  enabled?: boolean;
+  onUpdate?: LiveUpdateListener;
+} = {}) {
+  const onUpdateRef = useRef(onUpdate);
+  onUpdateRef.current = onUpdate;
+
+  useEffect(() => {
+    if (!enabled || typeof EventSource === 'undefined') {
+      return;
+    }
+
+    const listener: LiveUpdateListener = (update) => {
+      if (competitionId === undefined || update.competitionId === competitionId) {
+        onUpdateRef.current?.(update);
+      }
+    };
+
+    listeners.add(listener);
+    connect();
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        disconnect();
+      }
+    };
+  }, [competitionId, enabled]);
+}
@@ -0,0 +1,109 @@
+import { useEffect, useRef, useState } from "react";
+import type { PricedCart } from "@shared/schema";
+import type { CartItem } from "@/hooks/use-cart";
+
+export type PromoCodeState = {
+  // The code the server last accepted for this cart
+  code: string | null;
+  // The cart as priced with that code - its total is what will be charged
+  pricedCart: PricedCart | null;
+  error: string | null;
+  isChecking: boolean;
+  applyCode: (code: string) => Promise<boolean>;
+  removeCode: () => void;
+};
+
+// A rejected code answers 400 with a message for the customer, not worth the debug overlay
+async function quoteCart(code: string, cartItems: CartItem[]): Promise<PricedCart> {
+  const res = await fetch("/api/promo-codes/validate", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      code,
+      cartItems: cartItems.map(item => ({
+        competitionId: item.competitionId,
+        ticketCount: item.ticketCount,
+        selectedNumbers: item.selectedNumbers || [],
+      })),
+    }),
+    credentials: "include",
+  });
+
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(data.message || `Promo code could not be checked (${res.status})`);
+  }
+  return data as PricedCart;
+}
+
+/**
+ * A promo code entered against the cart. The discounted price is fetched
+ * from the server and fetched again whenever the cart changes, dropping the
+ * code if it no longer applies.
+ */
+export function usePromoCode(cartItems: CartItem[]): PromoCodeState {
+  const [code, setCode] = useState<string | null>(null);
+  const [pricedCart, setPricedCart] = useState<PricedCart | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  // Only the latest check may update the state
+  const latestCheck = useRef(0);
+
+  const cartKey = cartItems.map(item => `${item.competitionId}:${item.ticketCount}`).join(",");
+
+  const check = async (candidate: string) => {
+    const checkId = ++latestCheck.current;
+    setIsChecking(true);
+
+    try {
+      const priced = await quoteCart(candidate, cartItems);
+      if (checkId !== latestCheck.current) return false;
+
+      setCode(priced.promoCode?.code ?? candidate.toUpperCase());
+      setPricedCart(priced);
+      setError(null);
+      return true;
+    } catch (checkError: any) {
+      if (checkId !== latestCheck.current) return false;
+
+      setCode(null);
+      setPricedCart(null);
+      setError(checkError.message);
+      return false;
+    } finally {
+      if (checkId === latestCheck.current) setIsChecking(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!code) return;
+
+    if (cartItems.length === 0) {
+      latestCheck.current++;
+      setCode(null);
+      setPricedCart(null);
+      return;
+    }
+
+    check(code);
+  }, [cartKey]);
+
+  const applyCode = async (candidate: string) => {
+    const trimmed = candidate.trim();
+    if (!trimmed) {
+      setError("Please enter a promo code");
+      return false;
+    }
+    return check(trimmed);
+  };
+
+  const removeCode = () => {
+    latestCheck.current++;
+    setCode(null);
+    setPricedCart(null);
+    setError(null);
+    setIsChecking(false);
+  };
+
+  return { code, pricedCart, error, isChecking, applyCode, removeCode };
+}
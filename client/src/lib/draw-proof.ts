@@ -0,0 +1,99 @@
+import type { DrawProofResponse } from "@shared/schema";
+
+/**
+ * Browser-side re-computation of a commit-reveal draw.
+ * Mirrors selectWinningIndex/selectWinners/hashEntrants in server/draw-service.ts so
+ * players can check the result without trusting the server.
+ */
+
+export const COMMIT_REVEAL_ALGORITHM = "commit-reveal-sha256-v1";
+
+// Must match the server: 48 bits of each digest, rejection sampled
+const DRAW_RANGE = 2 ** 48;
+
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export async function selectWinningIndex(seed: string, snapshotHash: string, poolSize: number): Promise<number> {
+  const limit = DRAW_RANGE - (DRAW_RANGE % poolSize);
+
+  for (let counter = 0; ; counter++) {
+    const digest = await sha256Hex(`${seed}:${snapshotHash}:${counter}`);
+    const value = parseInt(digest.slice(0, 12), 16);
+
+    if (value < limit) {
+      return value % poolSize;
+    }
+  }
+}
+
+// Mirrors selectWinners: one pick per prize, each removing its ticket from the pool
+export async function selectWinningTickets(seed: string, snapshotHash: string, ticketNumbers: number[], count: number): Promise<number[]> {
+  const remaining = [...ticketNumbers];
+  const picked: number[] = [];
+
+  for (let round = 0; round < count && remaining.length > 0; round++) {
+    const roundSeed = round === 0 ? seed : `${seed}:${round}`;
+    const index = await selectWinningIndex(roundSeed, snapshotHash, remaining.length);
+    picked.push(remaining.splice(index, 1)[0]);
+  }
+
+  return picked;
+}
+
+export interface DrawVerificationResult {
+  seedMatchesCommitment: boolean;
+  snapshotHashMatches: boolean;
+  publicInputMatches: boolean;
+  recomputedTicketNumber: number | null;
+  recomputedTicketNumbers: number[];
+  valid: boolean;
+}
+
+/**
+ * Re-run every step of the draw from the published proof
+ */
+export async function verifyDrawProof(proof: DrawProofResponse): Promise<DrawVerificationResult> {
+  const draw = proof.draw;
+
+  if (!draw || draw.algorithm !== COMMIT_REVEAL_ALGORITHM || draw.ticketNumbers.length === 0) {
+    return {
+      seedMatchesCommitment: false,
+      snapshotHashMatches: false,
+      publicInputMatches: false,
+      recomputedTicketNumber: null,
+      recomputedTicketNumbers: [],
+      valid: false,
+    };
+  }
+
+  const seedMatchesCommitment = (await sha256Hex(draw.serverSeed)) === proof.serverSeedHash;
+  const snapshotHash = await sha256Hex(draw.ticketNumbers.join(","));
+  const snapshotHashMatches = snapshotHash === draw.snapshotHash;
+
+  // The public input starts with the number of tickets in the pool
+  const publicInputMatches = draw.publicInput?.split(":")[0] === String(draw.ticketNumbers.length);
+
+  const recordedTicketNumbers = draw.results.map((result) => result.ticketNumber);
+  const recomputedTicketNumbers = await selectWinningTickets(
+    `${draw.serverSeed}:${draw.publicInput}`,
+    snapshotHash,
+    draw.ticketNumbers,
+    recordedTicketNumbers.length
+  );
+
+  return {
+    seedMatchesCommitment,
+    snapshotHashMatches,
+    publicInputMatches,
+    recomputedTicketNumber: recomputedTicketNumbers[0] ?? null,
+    recomputedTicketNumbers,
+    valid: seedMatchesCommitment && snapshotHashMatches && publicInputMatches &&
+      recomputedTicketNumbers[0] === draw.winningTicketNumber &&
+      recomputedTicketNumbers.every((ticketNumber, index) => ticketNumber === recordedTicketNumbers[index]),
+  };
+}
@@ -41,6 +41,15 @@ export function formatCurrency(amount: number, currency: string = "GBP"): string
   }).format(amount / 100);
 }
 
+export function formatPosition(position: number): string {
+  // 1 -> "1st", 2 -> "2nd", 11 -> "11th", 22 -> "22nd"
+  const lastTwo = position % 100;
+  const suffix = lastTwo >= 11 && lastTwo <= 13
+    ? "th"
+    : ({ 1: "st", 2: "nd", 3: "rd" } as Record<number, string>)[position % 10] || "th";
+  return `${position}${suffix}`;
+}
+
 export function formatDate(date: Date | string): string {
   // Format date to a user-friendly format
   if (typeof date === "string") {
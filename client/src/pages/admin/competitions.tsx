@@ -57,7 +57,9 @@ import {
   AlertTriangle,
   RefreshCw,
   DatabaseZap,
-  AlertCircle
+  AlertCircle,
+  Dices,
+  Ban
 } from 'lucide-react';
 import {
   AlertDialog,
@@ -165,6 +167,55 @@ export default function CompetitionsManager() {
     },
   });
   
+  // Run draw mutation
+  const runDrawMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('POST', `/api/admin/competitions/${id}/draw`);
+      return response.json();
+    },
+    onSuccess: (draw) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/competitions'] });
+      toast({
+        title: 'Draw complete',
+        description: draw.results?.length > 1
+          ? `Winning tickets: ${draw.results.map((result: { ticketNumber: number }) => `#${result.ticketNumber}`).join(', ')}`
+          : `Winning ticket: #${draw.winningTicketNumber}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Draw failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Cancel competition and refund every paid entry
+  const cancelCompetitionMutation = useMutation({
+    mutationFn: async ({ id, reason }: { id: number; reason: string }) => {
+      const response = await apiRequest('POST', `/api/admin/competitions/${id}/cancel`, { reason });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/competitions'] });
+      toast({
+        title: result.failed.length ? 'Competition cancelled - some refunds failed' : 'Competition cancelled',
+        description: result.failed.length
+          ? `${result.refunded.length} entries refunded, ${result.failed.length} failed. Run the cancellation again to retry.`
+          : `${result.refunded.length} entries refunded (${formatCurrency(result.totalRefunded)}).`,
+        variant: result.failed.length ? 'destructive' : 'default',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Cancellation failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
   // Reset all competitions mutation
   const resetCompetitionsMutation = useMutation({
     mutationFn: async () => {
@@ -247,6 +298,19 @@ export default function CompetitionsManager() {
     }
   };
 
+  const handleRunDraw = (id: number) => {
+    if (window.confirm('Run the draw for this competition now? This picks the winner and closes the competition.')) {
+      runDrawMutation.mutate(id);
+    }
+  };
+
+  const handleCancelCompetition = (id: number) => {
+    const reason = window.prompt('Cancel this competition and refund every paid entry? Enter the reason shown to entrants:');
+    if (reason && reason.trim()) {
+      cancelCompetitionMutation.mutate({ id, reason: reason.trim() });
+    }
+  };
+
   const handleToggleStatus = (id: number, currentStatus: boolean) => {
     toggleCompetitionStatus.mutate({ id, isLive: !currentStatus });
   };
@@ -464,13 +528,24 @@ export default function CompetitionsManager() {
                               </TableCell>
                               <TableCell>
                                 <div className="flex flex-col gap-2">
-                                  <Badge 
-                                    className="w-fit cursor-pointer justify-center" 
-                                    variant={competition.isLive ? "default" : "secondary"}
-                                    onClick={() => handleToggleStatus(competition.id, !!competition.isLive)}
-                                  >
-                                    {competition.isLive ? 'Live' : 'Draft'}
-                                  </Badge>
+                                  {competition.cancelledAt ? (
+                                    <Badge className="w-fit justify-center" variant="destructive">
+                                      Cancelled
+                                    </Badge>
+                                  ) : (
+                                    <Badge 
+                                      className="w-fit cursor-pointer justify-center" 
+                                      variant={competition.isLive ? "default" : "secondary"}
+                                      onClick={() => handleToggleStatus(competition.id, !!competition.isLive)}
+                                    >
+                                      {competition.isLive ? 'Live' : 'Draft'}
+                                    </Badge>
+                                  )}
+                                  {competition.drawError && (
+                                    <Badge className="w-fit justify-center" variant="destructive" title={competition.drawError}>
+                                      Draw failed
+                                    </Badge>
+                                  )}
                                   <div className="flex items-center space-x-2">
                                     <Checkbox 
                                       id={`featured-${competition.id}`} 
@@ -512,7 +587,22 @@ export default function CompetitionsManager() {
                                         <TicketIcon className="mr-2 h-4 w-4" />
                                         <span>Ticket Lookup</span>
                                     </DropdownMenuItem>
+                                    {isPast(new Date(competition.drawDate)) && (
+                                      <DropdownMenuItem 
+                                        onClick={() => handleRunDraw(competition.id)}
+                                        disabled={runDrawMutation.isPending}>
+                                          <Dices className="mr-2 h-4 w-4" />
+                                          <span>Run Draw</span>
+                                      </DropdownMenuItem>
+                                    )}
                                     <DropdownMenuSeparator />
+                                    <DropdownMenuItem 
+                                      onClick={() => handleCancelCompetition(competition.id)}
+                                      disabled={cancelCompetitionMutation.isPending}
+                                      className="text-red-600">
+                                        <Ban className="mr-2 h-4 w-4" />
+                                        <span>{competition.cancelledAt ? 'Retry Refunds' : 'Cancel & Refund'}</span>
+                                    </DropdownMenuItem>
                                     <DropdownMenuItem onClick={() => handleDeleteCompetition(competition.id)} className="text-red-600">
                                       <Trash className="mr-2 h-4 w-4" />
                                       <span>Delete</span>
@@ -38,6 +38,8 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
+import { SkillQuestionFields, refineSkillQuestion } from "@/components/admin/skill-question-fields";
+import { BundleTierFields, refineBundleTiers } from "@/components/admin/bundle-tier-fields";
 import { ChevronLeft, CalendarIcon } from "lucide-react";
 
 // Create a schema for the form that extends the insert schema
@@ -48,7 +50,7 @@ const formSchema = insertCompetitionSchema.extend({
   confirmDetails: z.boolean().refine(val => val === true, {
     message: "You must confirm that the competition details are correct",
   }),
-});
+}).superRefine(refineSkillQuestion).superRefine(refineBundleTiers);
 
 // Get the type from the schema
 type FormValues = z.infer<typeof formSchema>;
@@ -68,11 +70,16 @@ export default function CreateCompetition() {
       brand: "",
       imageUrl: "",
       prizeValue: 0,
+      cashAlternative: null,
       ticketPrice: 0,
       maxTicketsPerUser: 10,
       totalTickets: 1000,
       isLive: false,
       isFeatured: false,
+      skillQuestion: "",
+      skillAnswerOptions: [],
+      skillCorrectAnswer: "",
+      bundleTiers: [],
       confirmDetails: false,
     },
   });
@@ -106,7 +113,10 @@ export default function CreateCompetition() {
     setIsSubmitting(true);
     // Remove the confirmDetails field before sending to API
     const { confirmDetails, ...competitionData } = data;
-    createCompetitionMutation.mutate(competitionData);
+    createCompetitionMutation.mutate({
+      ...competitionData,
+      skillAnswerOptions: (competitionData.skillAnswerOptions || []).map(option => option.trim()).filter(Boolean)
+    });
   };
 
   return (
@@ -260,10 +270,14 @@ export default function CreateCompetition() {
                         <FormLabel>Ticket Price (£)</FormLabel>
                         <FormControl>
                           <Input 
-                            type="number" 
+                            type="text" 
                             placeholder="0.00" 
-                            {...field}
-                            onChange={e => field.onChange(parseFloat(e.target.value) || 0)}
+                            defaultValue={field.value ? (field.value / 100).toString() : ""}
+                            // Prices are stored in pence
+                            onChange={e => {
+                              const asFloat = parseFloat(e.target.value);
+                              field.onChange(isNaN(asFloat) ? 0 : Math.round(asFloat * 100));
+                            }}
                           />
                         </FormControl>
                         <FormMessage />
@@ -272,6 +286,32 @@ export default function CreateCompetition() {
                   />
                 </div>
                 
+                <FormField
+                  control={form.control}
+                  name="cashAlternative"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Cash Alternative (£, optional)</FormLabel>
+                      <FormControl>
+                        <Input 
+                          type="text" 
+                          placeholder="e.g. 500.00" 
+                          defaultValue={field.value ? (field.value / 100).toString() : ""}
+                          // Stored in pence - leave blank when the winner must take the prize
+                          onChange={e => {
+                            const asFloat = parseFloat(e.target.value);
+                            field.onChange(isNaN(asFloat) || asFloat <= 0 ? null : Math.round(asFloat * 100));
+                          }}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        The winner can choose this instead of the prize. For competitions with a prize list, set it on each prize instead.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <FormField
                     control={form.control}
@@ -357,6 +397,11 @@ export default function CreateCompetition() {
                 />
               </div>
               
+              {/* Skill Question */}
+              <SkillQuestionFields form={form} />
+
+              <BundleTierFields form={form} />
+              
               {/* Visibility Settings */}
               <div className="space-y-4 pt-4 border-t">
                 <h2 className="text-xl font-semibold">Visibility Settings</h2>
@@ -37,6 +37,10 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
+import { SkillQuestionFields, refineSkillQuestion } from "@/components/admin/skill-question-fields";
+import { BundleTierFields, refineBundleTiers } from "@/components/admin/bundle-tier-fields";
+import { PrizeManager } from "@/components/admin/prize-manager";
+import { InstantWinManager } from "@/components/admin/instant-win-manager";
 import { ChevronLeft, CalendarIcon, Loader2 } from "lucide-react";
 
 // Create a schema for the form that extends the insert schema
@@ -44,7 +48,7 @@ const formSchema = insertCompetitionSchema.extend({
   drawDate: z.date({
     required_error: "A draw date is required",
   }),
-});
+}).superRefine(refineSkillQuestion).superRefine(refineBundleTiers);
 
 // Get the type from the schema
 type FormValues = z.infer<typeof formSchema>;
@@ -81,11 +85,16 @@ export default function EditCompetition() {
       brand: "",
       imageUrl: "",
       prizeValue: 0,
+      cashAlternative: null,
       ticketPrice: 0,
       maxTicketsPerUser: 10,
       totalTickets: 1000,
       isLive: false,
       isFeatured: false,
+      skillQuestion: "",
+      skillAnswerOptions: [],
+      skillCorrectAnswer: "",
+      bundleTiers: [],
       drawDate: new Date(),
     },
   });
@@ -98,6 +107,7 @@ export default function EditCompetition() {
         const drawDate = competition.drawDate ? new Date(competition.drawDate) : new Date();
         form.reset({
           ...competition,
+          bundleTiers: competition.bundleTiers || [],
           drawDate
         });
       } catch (error) {
@@ -110,6 +120,7 @@ export default function EditCompetition() {
         // Fallback to current date
         form.reset({
           ...competition,
+          bundleTiers: competition.bundleTiers || [],
           drawDate: new Date()
         });
       }
@@ -160,7 +171,8 @@ export default function EditCompetition() {
     const processedData = {
       ...data,
       isLive: Boolean(data.isLive),
-      isFeatured: Boolean(data.isFeatured)
+      isFeatured: Boolean(data.isFeatured),
+      skillAnswerOptions: (data.skillAnswerOptions || []).map(option => option.trim()).filter(Boolean)
     };
     
     console.log("Submitting competition data:", processedData);
@@ -392,6 +404,32 @@ export default function EditCompetition() {
                   />
                 </div>
                 
+                <FormField
+                  control={form.control}
+                  name="cashAlternative"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Cash Alternative (£, optional)</FormLabel>
+                      <FormControl>
+                        <Input 
+                          type="text" 
+                          placeholder="e.g. 500.00" 
+                          defaultValue={field.value ? (field.value / 100).toString() : ""}
+                          // Stored in pence - leave blank when the winner must take the prize
+                          onChange={e => {
+                            const asFloat = parseFloat(e.target.value);
+                            field.onChange(isNaN(asFloat) || asFloat <= 0 ? null : Math.round(asFloat * 100));
+                          }}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        The winner can choose this instead of the prize. For competitions with a prize list, set it on each prize instead.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <FormField
                     control={form.control}
@@ -474,6 +512,11 @@ export default function EditCompetition() {
                 />
               </div>
               
+              {/* Skill Question */}
+              <SkillQuestionFields form={form} />
+
+              <BundleTierFields form={form} />
+              
               {/* Visibility Settings */}
               <div className="space-y-4 pt-4 border-t">
                 <h2 className="text-xl font-semibold">Visibility Settings</h2>
@@ -543,6 +586,10 @@ export default function EditCompetition() {
             </form>
           </Form>
         </div>
+
+        <PrizeManager competitionId={id} />
+
+        <InstantWinManager competitionId={id} isLive={Boolean(competition.isLive)} />
       </div>
     </div>
   );
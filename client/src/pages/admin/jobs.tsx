@@ -0,0 +1,194 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { AdminLayout } from '@/components/admin/admin-layout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Play, RefreshCw } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { ScheduledJob } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+type JobRow = Omit<ScheduledJob, 'nextRunAt' | 'lastStartedAt' | 'lastFinishedAt' | 'lockedUntil' | 'updatedAt'> & {
+  nextRunAt: string | null;
+  lastStartedAt: string | null;
+  lastFinishedAt: string | null;
+  lockedUntil: string | null;
+  updatedAt: string | null;
+  registered: boolean;
+};
+
+function formatInterval(seconds: number) {
+  if (seconds % 3600 === 0) return `${seconds / 3600}h`;
+  if (seconds % 60 === 0) return `${seconds / 60}m`;
+  return `${seconds}s`;
+}
+
+function StatusBadge({ status }: { status: string | null }) {
+  switch (status) {
+    case 'succeeded':
+      return <Badge variant="outline" className="bg-green-500/10 text-green-600 border-green-500/20">Succeeded</Badge>;
+    case 'failed':
+      return <Badge variant="destructive">Failed</Badge>;
+    case 'running':
+      return <Badge variant="outline" className="bg-blue-500/10 text-blue-600 border-blue-500/20">Running</Badge>;
+    default:
+      return <Badge variant="outline">Never run</Badge>;
+  }
+}
+
+export default function JobsManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: jobs = [], isLoading, refetch, isFetching } = useQuery<JobRow[]>({
+    queryKey: ['/api/admin/jobs'],
+    refetchInterval: 15000,
+  });
+
+  const runJobMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest('POST', `/api/admin/jobs/${name}/run`, {});
+      return response.json();
+    },
+    onSuccess: (_data, name) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/jobs'] });
+      toast({
+        title: 'Job queued',
+        description: `${name} will run within the next few seconds.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to run job: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const toggleJobMutation = useMutation({
+    mutationFn: async ({ name, enabled }: { name: string; enabled: boolean }) => {
+      const response = await apiRequest('PATCH', `/api/admin/jobs/${name}`, { enabled });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/jobs'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to update job: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <h1 className="text-3xl font-bold">Background Jobs</h1>
+          <Button variant="outline" className="flex items-center" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Scheduled Jobs</CardTitle>
+            <CardDescription>Draws, reservation expiry and housekeeping tasks run by the server</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin w-10 h-10 border-4 border-primary border-t-transparent rounded-full"></div>
+              </div>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Job</TableHead>
+                      <TableHead>Every</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Last Run</TableHead>
+                      <TableHead>Next Run</TableHead>
+                      <TableHead>Enabled</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {jobs.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                          No jobs have been registered yet
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      jobs.map((job) => (
+                        <TableRow key={job.name}>
+                          <TableCell>
+                            <div className="font-medium">{job.name}</div>
+                            <div className="text-xs text-muted-foreground">{job.description}</div>
+                            {job.lastStatus === 'failed' && job.lastError ? (
+                              <div className="text-xs text-red-500 mt-1">
+                                {job.lastError} (attempt {job.attempts})
+                              </div>
+                            ) : job.lastResult ? (
+                              <div className="text-xs text-muted-foreground mt-1">{job.lastResult}</div>
+                            ) : null}
+                          </TableCell>
+                          <TableCell>{formatInterval(job.intervalSeconds)}</TableCell>
+                          <TableCell><StatusBadge status={job.lastStatus} /></TableCell>
+                          <TableCell>
+                            {job.lastFinishedAt
+                              ? format(new Date(job.lastFinishedAt), 'dd MMM HH:mm:ss')
+                              : '-'}
+                          </TableCell>
+                          <TableCell>
+                            {job.nextRunAt
+                              ? formatDistanceToNow(new Date(job.nextRunAt), { addSuffix: true })
+                              : '-'}
+                          </TableCell>
+                          <TableCell>
+                            <Switch
+                              checked={!!job.enabled}
+                              disabled={toggleJobMutation.isPending}
+                              onCheckedChange={(enabled) => toggleJobMutation.mutate({ name: job.name, enabled })}
+                            />
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={!job.registered || runJobMutation.isPending}
+                              onClick={() => runJobMutation.mutate(job.name)}
+                            >
+                              <Play className="mr-2 h-4 w-4" />
+                              Run now
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+}
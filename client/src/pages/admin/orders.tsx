@@ -0,0 +1,229 @@
+import { Fragment, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { AdminLayout } from '@/components/admin/admin-layout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { format } from 'date-fns';
+import { OrderWithItems } from '@shared/schema';
+import { formatCurrency } from '@/lib/utils';
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: 'Pending',
+  paid: 'Paid',
+  failed: 'Failed',
+  refunded: 'Refunded',
+  partially_refunded: 'Partially refunded',
+};
+
+export function OrderStatusBadge({ status }: { status: string }) {
+  const label = STATUS_LABELS[status] || status;
+
+  switch (status) {
+    case 'paid':
+      return <Badge variant="outline" className="bg-green-500/10 text-green-600 border-green-500/20">{label}</Badge>;
+    case 'failed':
+      return <Badge variant="destructive">{label}</Badge>;
+    case 'refunded':
+    case 'partially_refunded':
+      return <Badge variant="outline" className="bg-amber-500/10 text-amber-600 border-amber-500/20">{label}</Badge>;
+    default:
+      return <Badge variant="outline">{label}</Badge>;
+  }
+}
+
+export default function OrdersManager() {
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [expandedOrderId, setExpandedOrderId] = useState<number | null>(null);
+
+  const { data: orders = [], isLoading } = useQuery<OrderWithItems[]>({
+    queryKey: [`/api/admin/orders?status=${statusFilter}`],
+  });
+
+  // Search by order number, payment reference, username or email
+  const query = searchQuery.trim().toLowerCase();
+  const filteredOrders = orders.filter(order =>
+    !query ||
+    String(order.id) === query.replace('#', '') ||
+    (order.paymentReference && order.paymentReference.toLowerCase().includes(query)) ||
+    (order.user && (
+      order.user.username.toLowerCase().includes(query) ||
+      order.user.email.toLowerCase().includes(query)
+    ))
+  );
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <h1 className="text-3xl font-bold">Orders</h1>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>All Orders</CardTitle>
+            <CardDescription>Every checkout with its payment, items and entries</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="mb-4 flex flex-col sm:flex-row gap-2">
+              <Input
+                placeholder="Search by order, payment reference or customer..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="max-w-md"
+              />
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue placeholder="Status" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin w-10 h-10 border-4 border-primary border-t-transparent rounded-full"></div>
+              </div>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[40px]"></TableHead>
+                      <TableHead className="w-[80px]">Order</TableHead>
+                      <TableHead>Customer</TableHead>
+                      <TableHead>Items</TableHead>
+                      <TableHead>Total</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Placed</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredOrders.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                          No orders found
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      filteredOrders.map((order) => {
+                        const isExpanded = expandedOrderId === order.id;
+
+                        return (
+                          <Fragment key={order.id}>
+                            <TableRow
+                              className="cursor-pointer"
+                              onClick={() => setExpandedOrderId(isExpanded ? null : order.id)}
+                            >
+                              <TableCell>
+                                {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                              </TableCell>
+                              <TableCell className="font-medium">#{order.id}</TableCell>
+                              <TableCell>
+                                {order.user ? (
+                                  <>
+                                    <div>{order.user.username}</div>
+                                    <div className="text-xs text-muted-foreground">{order.user.email}</div>
+                                  </>
+                                ) : (
+                                  <span className="text-muted-foreground">User #{order.userId}</span>
+                                )}
+                              </TableCell>
+                              <TableCell>
+                                {order.items.length} {order.items.length === 1 ? 'competition' : 'competitions'}
+                              </TableCell>
+                              <TableCell>
+                                <div>{formatCurrency(order.total)}</div>
+                                {order.promoCode && (
+                                  <div className="text-xs text-muted-foreground">{order.promoCode}</div>
+                                )}
+                              </TableCell>
+                              <TableCell><OrderStatusBadge status={order.status} /></TableCell>
+                              <TableCell>
+                                {order.createdAt ? format(new Date(order.createdAt), 'dd MMM yyyy HH:mm') : '-'}
+                              </TableCell>
+                            </TableRow>
+                            {isExpanded && (
+                              <TableRow className="bg-muted/30 hover:bg-muted/30">
+                                <TableCell></TableCell>
+                                <TableCell colSpan={6}>
+                                  <div className="space-y-3 py-2">
+                                    <div className="text-sm text-muted-foreground">
+                                      Payment: {order.paymentProvider} {order.paymentReference || '(not started)'}
+                                      {order.paidAt && <> - paid {format(new Date(order.paidAt), 'dd MMM yyyy HH:mm')}</>}
+                                    </div>
+                                    <Table>
+                                      <TableHeader>
+                                        <TableRow>
+                                          <TableHead>Competition</TableHead>
+                                          <TableHead>Tickets</TableHead>
+                                          <TableHead>Numbers</TableHead>
+                                          <TableHead>Unit Price</TableHead>
+                                          <TableHead>Discount</TableHead>
+                                          <TableHead>Total</TableHead>
+                                          <TableHead>Entry</TableHead>
+                                        </TableRow>
+                                      </TableHeader>
+                                      <TableBody>
+                                        {order.items.map((item) => (
+                                          <TableRow key={item.id}>
+                                            <TableCell>{item.competitionTitle || `Competition #${item.competitionId}`}</TableCell>
+                                            <TableCell>{item.ticketCount}</TableCell>
+                                            <TableCell className="max-w-[200px] truncate">
+                                              {item.selectedNumbers && item.selectedNumbers.length > 0
+                                                ? item.selectedNumbers.join(', ')
+                                                : '-'}
+                                            </TableCell>
+                                            <TableCell>{formatCurrency(item.unitPrice)}</TableCell>
+                                            <TableCell>{item.discount ? `-${formatCurrency(item.discount)}` : '-'}</TableCell>
+                                            <TableCell>{formatCurrency(item.total)}</TableCell>
+                                            <TableCell>{item.entryId ? `#${item.entryId}` : '-'}</TableCell>
+                                          </TableRow>
+                                        ))}
+                                      </TableBody>
+                                    </Table>
+                                    <div className="text-sm text-right space-y-1">
+                                      <div>Subtotal: {formatCurrency(order.subtotal)}</div>
+                                      {order.discount > 0 && <div>Discount{order.promoCode ? ` (${order.promoCode})` : ''}: -{formatCurrency(order.discount)}</div>}
+                                      <div className="font-semibold">Total: {formatCurrency(order.total)} {order.currency.toUpperCase()}</div>
+                                    </div>
+                                  </div>
+                                </TableCell>
+                              </TableRow>
+                            )}
+                          </Fragment>
+                        );
+                      })
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+}
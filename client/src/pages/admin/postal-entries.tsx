@@ -0,0 +1,384 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { AdminLayout } from '@/components/admin/admin-layout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Download, Mail } from 'lucide-react';
+import { format } from 'date-fns';
+import { Competition, Entry, PostalEntry, User } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+import { SkillQuestion } from '@/components/competition/skill-question';
+import { useToast } from '@/hooks/use-toast';
+
+type PostalEntryRow = PostalEntry & {
+  entry: Entry | null;
+  user: Pick<User, 'id' | 'username' | 'email' | 'displayName' | 'isGuest'> | null;
+  competitionTitle: string | null;
+};
+
+const emptyForm = {
+  userId: '',
+  guestName: '',
+  guestEmail: '',
+  guestPhone: '',
+  guestDateOfBirth: '',
+  guestLine1: '',
+  guestLine2: '',
+  guestTown: '',
+  guestCounty: '',
+  guestPostcode: '',
+  senderName: '',
+  senderAddress: '',
+  ticketCount: '1',
+  receivedAt: format(new Date(), 'yyyy-MM-dd'),
+  skillAnswer: '',
+  notes: '',
+};
+
+export default function PostalEntriesManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [competitionId, setCompetitionId] = useState('');
+  const [entrantType, setEntrantType] = useState<'user' | 'guest'>('user');
+  const [form, setForm] = useState(emptyForm);
+
+  const { data: competitions = [] } = useQuery<Competition[]>({
+    queryKey: ['/api/admin/competitions'],
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ['/api/admin/users'],
+    enabled: entrantType === 'user',
+  });
+
+  const postalEntriesKey = competitionId
+    ? `/api/admin/postal-entries?competitionId=${competitionId}`
+    : '/api/admin/postal-entries';
+
+  const { data: postalEntries = [], isLoading } = useQuery<PostalEntryRow[]>({
+    queryKey: [postalEntriesKey],
+  });
+
+  // Only competitions still taking entries can accept a postal entry
+  const openCompetitions = competitions.filter(
+    (competition) => !competition.cancelledAt && new Date(competition.drawDate) > new Date()
+  );
+
+  const selectedCompetition = competitions.find((competition) => String(competition.id) === competitionId);
+
+  const updateField = (field: keyof typeof emptyForm) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      setForm({ ...form, [field]: e.target.value });
+
+  const recordMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/admin/postal-entries', {
+        competitionId: parseInt(competitionId),
+        userId: entrantType === 'user' && form.userId ? parseInt(form.userId) : undefined,
+        guest: entrantType === 'guest'
+          ? {
+              fullName: form.guestName,
+              email: form.guestEmail,
+              phone: form.guestPhone || undefined,
+              dateOfBirth: form.guestDateOfBirth,
+              address: {
+                line1: form.guestLine1,
+                line2: form.guestLine2 || null,
+                town: form.guestTown,
+                county: form.guestCounty || null,
+                postcode: form.guestPostcode,
+              },
+            }
+          : undefined,
+        senderName: form.senderName,
+        senderAddress: form.senderAddress,
+        ticketCount: parseInt(form.ticketCount) || 1,
+        receivedAt: form.receivedAt,
+        skillAnswer: form.skillAnswer || undefined,
+        notes: form.notes || undefined,
+      });
+      return response.json() as Promise<PostalEntryRow>;
+    },
+    onSuccess: (postalEntry) => {
+      queryClient.invalidateQueries({ queryKey: [postalEntriesKey] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/competitions'] });
+      setForm({ ...emptyForm, receivedAt: form.receivedAt });
+      toast({
+        title: 'Postal entry recorded',
+        description: `Entry #${postalEntry.entryId} was allocated ticket${postalEntry.entry?.selectedNumbers?.length === 1 ? '' : 's'} ${postalEntry.entry?.selectedNumbers?.join(', ')}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to record postal entry: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const exportEntries = async () => {
+    try {
+      const response = await apiRequest('GET', `/api/admin/competitions/${competitionId}/entries/export`);
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `competition-${competitionId}-entries.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: `Failed to export entries: ${error.message}`,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const canSubmit = !!competitionId &&
+    (entrantType === 'user'
+      ? !!form.userId
+      : !!form.guestName.trim() && !!form.guestDateOfBirth && !!form.guestLine1.trim() && !!form.guestPostcode.trim()) &&
+    !!form.senderName.trim() &&
+    !!form.senderAddress.trim() &&
+    !recordMutation.isPending;
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <h1 className="text-3xl font-bold">Postal Entries</h1>
+          <Button variant="outline" onClick={exportEntries} disabled={!competitionId}>
+            <Download className="h-4 w-4 mr-2" />
+            Export Entries
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Record a Postal Entry</CardTitle>
+            <CardDescription>
+              Free entries received by post are allocated random tickets and drawn alongside paid entries
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Competition</Label>
+                <Select value={competitionId} onValueChange={setCompetitionId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a competition" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {openCompetitions.map((competition) => (
+                      <SelectItem key={competition.id} value={String(competition.id)}>
+                        {competition.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Entrant</Label>
+                <Tabs value={entrantType} onValueChange={(value) => setEntrantType(value as 'user' | 'guest')}>
+                  <TabsList>
+                    <TabsTrigger value="user">Existing user</TabsTrigger>
+                    <TabsTrigger value="guest">New guest entrant</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+              </div>
+            </div>
+
+            {entrantType === 'user' ? (
+              <div className="space-y-2">
+                <Label>User</Label>
+                <Select value={form.userId} onValueChange={(userId) => setForm({ ...form, userId })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a user" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {users.map((user) => (
+                      <SelectItem key={user.id} value={String(user.id)}>
+                        {user.username} ({user.email})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <div className="grid gap-4 md:grid-cols-3">
+                <div className="space-y-2">
+                  <Label htmlFor="guestName">Full name</Label>
+                  <Input id="guestName" value={form.guestName} onChange={updateField('guestName')} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="guestEmail">Email (optional)</Label>
+                  <Input id="guestEmail" type="email" value={form.guestEmail} onChange={updateField('guestEmail')} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="guestPhone">Phone (optional)</Label>
+                  <Input id="guestPhone" value={form.guestPhone} onChange={updateField('guestPhone')} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="guestDateOfBirth">Date of birth</Label>
+                  <Input id="guestDateOfBirth" type="date" value={form.guestDateOfBirth} onChange={updateField('guestDateOfBirth')} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="guestLine1">Home address</Label>
+                  <Input id="guestLine1" placeholder="House number and street" value={form.guestLine1} onChange={updateField('guestLine1')} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="guestLine2">Address line 2 (optional)</Label>
+                  <Input id="guestLine2" value={form.guestLine2} onChange={updateField('guestLine2')} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="guestTown">Town or city</Label>
+                  <Input id="guestTown" value={form.guestTown} onChange={updateField('guestTown')} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="guestCounty">County (optional)</Label>
+                  <Input id="guestCounty" value={form.guestCounty} onChange={updateField('guestCounty')} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="guestPostcode">UK postcode</Label>
+                  <Input id="guestPostcode" value={form.guestPostcode} onChange={updateField('guestPostcode')} />
+                </div>
+              </div>
+            )}
+
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="senderName">Name on envelope</Label>
+                <Input id="senderName" value={form.senderName} onChange={updateField('senderName')} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ticketCount">Tickets</Label>
+                <Input id="ticketCount" type="number" min={1} value={form.ticketCount} onChange={updateField('ticketCount')} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="receivedAt">Received</Label>
+                <Input id="receivedAt" type="date" value={form.receivedAt} onChange={updateField('receivedAt')} />
+              </div>
+            </div>
+
+            {selectedCompetition?.skillQuestion && (
+              <SkillQuestion
+                title="Answer on the entry"
+                question={selectedCompetition.skillQuestion}
+                options={selectedCompetition.skillAnswerOptions || []}
+                value={form.skillAnswer}
+                onChange={(skillAnswer) => setForm({ ...form, skillAnswer })}
+              />
+            )}
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="senderAddress">Return address</Label>
+                <Textarea id="senderAddress" rows={3} value={form.senderAddress} onChange={updateField('senderAddress')} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="notes">Notes</Label>
+                <Textarea id="notes" rows={3} value={form.notes} onChange={updateField('notes')} />
+              </div>
+            </div>
+
+            <div className="flex justify-end">
+              <Button onClick={() => recordMutation.mutate()} disabled={!canSubmit}>
+                <Mail className="h-4 w-4 mr-2" />
+                {recordMutation.isPending ? 'Recording...' : 'Record Entry'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Recorded Postal Entries</CardTitle>
+            <CardDescription>
+              {competitionId ? 'Postal entries for the selected competition' : 'Postal entries across all competitions'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin w-10 h-10 border-4 border-primary border-t-transparent rounded-full"></div>
+              </div>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[80px]">Entry</TableHead>
+                      <TableHead>Competition</TableHead>
+                      <TableHead>Entrant</TableHead>
+                      <TableHead>Sender</TableHead>
+                      <TableHead>Tickets</TableHead>
+                      <TableHead>Received</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {postalEntries.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                          No postal entries recorded
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      postalEntries.map((postalEntry) => (
+                        <TableRow key={postalEntry.id}>
+                          <TableCell className="font-medium">#{postalEntry.entryId}</TableCell>
+                          <TableCell>{postalEntry.competitionTitle || `Competition #${postalEntry.competitionId}`}</TableCell>
+                          <TableCell>
+                            {postalEntry.user ? (
+                              <>
+                                <div className="flex items-center gap-2">
+                                  {postalEntry.user.displayName || postalEntry.user.username}
+                                  {postalEntry.user.isGuest && <Badge variant="outline">Guest</Badge>}
+                                </div>
+                                <div className="text-xs text-muted-foreground">{postalEntry.user.email}</div>
+                              </>
+                            ) : (
+                              <span className="text-muted-foreground">User #{postalEntry.userId}</span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <div>{postalEntry.senderName}</div>
+                            <div className="text-xs text-muted-foreground whitespace-pre-line">{postalEntry.senderAddress}</div>
+                          </TableCell>
+                          <TableCell className="max-w-[200px] truncate">
+                            {postalEntry.entry?.selectedNumbers?.join(', ') || '-'}
+                          </TableCell>
+                          <TableCell>{format(new Date(postalEntry.receivedAt), 'dd MMM yyyy')}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,330 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { AdminLayout } from '@/components/admin/admin-layout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Tag } from 'lucide-react';
+import { format } from 'date-fns';
+import { Competition, PromoCodeWithUsage } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+import { formatCurrency } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+
+const SITEWIDE = 'all';
+
+const emptyForm = {
+  code: '',
+  description: '',
+  discountType: 'percentage' as 'percentage' | 'fixed',
+  discountValue: '',
+  competitionId: SITEWIDE,
+  minTickets: '1',
+  maxUses: '',
+  maxUsesPerUser: '1',
+  startsAt: '',
+  endsAt: '',
+};
+
+function describeDiscount(promoCode: Pick<PromoCodeWithUsage, 'discountType' | 'discountValue'>) {
+  return promoCode.discountType === 'percentage'
+    ? `${promoCode.discountValue}% off`
+    : `${formatCurrency(promoCode.discountValue)} off`;
+}
+
+function promoCodeStatus(promoCode: PromoCodeWithUsage): { label: string; variant: 'default' | 'secondary' | 'outline' | 'destructive' } {
+  const now = new Date();
+  if (!promoCode.isActive) return { label: 'Disabled', variant: 'secondary' };
+  if (promoCode.startsAt && new Date(promoCode.startsAt) > now) return { label: 'Scheduled', variant: 'outline' };
+  if (promoCode.endsAt && new Date(promoCode.endsAt) <= now) return { label: 'Expired', variant: 'secondary' };
+  if (promoCode.maxUses !== null && promoCode.redemptions >= promoCode.maxUses) return { label: 'Used up', variant: 'destructive' };
+  return { label: 'Active', variant: 'default' };
+}
+
+export default function PromoCodesManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState(emptyForm);
+
+  const { data: competitions = [] } = useQuery<Competition[]>({
+    queryKey: ['/api/admin/competitions'],
+  });
+
+  const { data: promoCodes = [], isLoading } = useQuery<PromoCodeWithUsage[]>({
+    queryKey: ['/api/admin/promo-codes'],
+  });
+
+  const updateField = (field: keyof typeof emptyForm) =>
+    (e: React.ChangeEvent<HTMLInputElement>) =>
+      setForm({ ...form, [field]: e.target.value });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      // Fixed discounts are entered in pounds and stored in pence
+      const discountValue = form.discountType === 'fixed'
+        ? Math.round(parseFloat(form.discountValue) * 100)
+        : parseInt(form.discountValue);
+
+      const response = await apiRequest('POST', '/api/admin/promo-codes', {
+        code: form.code,
+        description: form.description || null,
+        discountType: form.discountType,
+        discountValue,
+        competitionId: form.competitionId === SITEWIDE ? null : parseInt(form.competitionId),
+        minTickets: parseInt(form.minTickets) || 1,
+        maxUses: form.maxUses ? parseInt(form.maxUses) : null,
+        maxUsesPerUser: form.maxUsesPerUser ? parseInt(form.maxUsesPerUser) : null,
+        startsAt: form.startsAt || null,
+        endsAt: form.endsAt || null,
+      });
+      return response.json();
+    },
+    onSuccess: (promoCode) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/promo-codes'] });
+      setForm(emptyForm);
+      toast({
+        title: 'Promo code created',
+        description: `${promoCode.code} is ready to use.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to create promo code: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: number; isActive: boolean }) => {
+      const response = await apiRequest('PATCH', `/api/admin/promo-codes/${id}`, { isActive });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/promo-codes'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to update promo code: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const canSubmit = form.code.trim().length >= 3 &&
+    parseFloat(form.discountValue) > 0 &&
+    !createMutation.isPending;
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <h1 className="text-3xl font-bold">Promo Codes</h1>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Create a Promo Code</CardTitle>
+            <CardDescription>
+              Codes are entered at checkout and applied when the payment is set up. A use counts once its order is paid.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="code">Code</Label>
+                <Input id="code" className="uppercase" value={form.code} onChange={updateField('code')} />
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="description">Description (shown to customers)</Label>
+                <Input id="description" value={form.description} onChange={updateField('description')} />
+              </div>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label>Discount type</Label>
+                <Select
+                  value={form.discountType}
+                  onValueChange={(discountType) => setForm({ ...form, discountType: discountType as 'percentage' | 'fixed' })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percentage">Percentage off</SelectItem>
+                    <SelectItem value="fixed">Fixed amount off</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="discountValue">{form.discountType === 'percentage' ? 'Percent off' : 'Amount off (£)'}</Label>
+                <Input
+                  id="discountValue"
+                  type="number"
+                  min={form.discountType === 'percentage' ? 1 : 0.01}
+                  max={form.discountType === 'percentage' ? 100 : undefined}
+                  step={form.discountType === 'percentage' ? 1 : 0.01}
+                  value={form.discountValue}
+                  onChange={updateField('discountValue')}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Applies to</Label>
+                <Select value={form.competitionId} onValueChange={(competitionId) => setForm({ ...form, competitionId })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={SITEWIDE}>All competitions</SelectItem>
+                    {competitions.filter((competition) => !competition.cancelledAt).map((competition) => (
+                      <SelectItem key={competition.id} value={String(competition.id)}>
+                        {competition.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-5">
+              <div className="space-y-2">
+                <Label htmlFor="minTickets">Minimum tickets</Label>
+                <Input id="minTickets" type="number" min={1} value={form.minTickets} onChange={updateField('minTickets')} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="maxUses">Total uses (blank for no limit)</Label>
+                <Input id="maxUses" type="number" min={1} value={form.maxUses} onChange={updateField('maxUses')} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="maxUsesPerUser">Uses per customer</Label>
+                <Input id="maxUsesPerUser" type="number" min={1} value={form.maxUsesPerUser} onChange={updateField('maxUsesPerUser')} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="startsAt">Starts</Label>
+                <Input id="startsAt" type="datetime-local" value={form.startsAt} onChange={updateField('startsAt')} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="endsAt">Ends</Label>
+                <Input id="endsAt" type="datetime-local" value={form.endsAt} onChange={updateField('endsAt')} />
+              </div>
+            </div>
+
+            <div className="flex justify-end">
+              <Button onClick={() => createMutation.mutate()} disabled={!canSubmit}>
+                <Tag className="h-4 w-4 mr-2" />
+                {createMutation.isPending ? 'Creating...' : 'Create Code'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>All Promo Codes</CardTitle>
+            <CardDescription>Uses and discount given count paid orders only</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin w-10 h-10 border-4 border-primary border-t-transparent rounded-full"></div>
+              </div>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Code</TableHead>
+                      <TableHead>Discount</TableHead>
+                      <TableHead>Applies to</TableHead>
+                      <TableHead>Valid</TableHead>
+                      <TableHead>Uses</TableHead>
+                      <TableHead>Discount given</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Enabled</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {promoCodes.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
+                          No promo codes yet
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      promoCodes.map((promoCode) => {
+                        const status = promoCodeStatus(promoCode);
+                        return (
+                          <TableRow key={promoCode.id}>
+                            <TableCell>
+                              <div className="font-medium">{promoCode.code}</div>
+                              {promoCode.description && (
+                                <div className="text-xs text-muted-foreground">{promoCode.description}</div>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <div>{describeDiscount(promoCode)}</div>
+                              {promoCode.minTickets > 1 && (
+                                <div className="text-xs text-muted-foreground">Min {promoCode.minTickets} tickets</div>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              {promoCode.competitionId
+                                ? promoCode.competitionTitle || `Competition #${promoCode.competitionId}`
+                                : 'All competitions'}
+                            </TableCell>
+                            <TableCell className="text-sm">
+                              {promoCode.startsAt ? format(new Date(promoCode.startsAt), 'dd MMM yyyy HH:mm') : 'Now'}
+                              {' - '}
+                              {promoCode.endsAt ? format(new Date(promoCode.endsAt), 'dd MMM yyyy HH:mm') : 'No end'}
+                            </TableCell>
+                            <TableCell>
+                              {promoCode.redemptions}{promoCode.maxUses !== null ? ` / ${promoCode.maxUses}` : ''}
+                              {promoCode.maxUsesPerUser !== null && (
+                                <div className="text-xs text-muted-foreground">{promoCode.maxUsesPerUser} per customer</div>
+                              )}
+                            </TableCell>
+                            <TableCell>{formatCurrency(promoCode.totalDiscount)}</TableCell>
+                            <TableCell>
+                              <Badge variant={status.variant}>{status.label}</Badge>
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <Switch
+                                checked={promoCode.isActive}
+                                disabled={toggleMutation.isPending}
+                                onCheckedChange={(isActive) => toggleMutation.mutate({ id: promoCode.id, isActive })}
+                                aria-label={`Enable ${promoCode.code}`}
+                              />
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+}
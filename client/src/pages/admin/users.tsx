@@ -21,9 +21,10 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Badge } from '@/components/ui/badge';
-import { MoreHorizontal, PlusCircle, Trash, Edit, Eye, ShieldCheck, Ban } from 'lucide-react';
+import { MoreHorizontal, PlusCircle, Trash, Edit, Eye, ShieldCheck, Ban, BadgeCheck, ShieldX } from 'lucide-react';
 import { format } from 'date-fns';
-import { User } from '@shared/schema';
+import { User, SPEND_LIMIT_PERIODS } from '@shared/schema';
+import { formatCurrency } from '@/lib/utils';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 
@@ -78,6 +79,27 @@ export default function UsersManager() {
     },
   });
 
+  const ageVerificationMutation = useMutation({
+    mutationFn: async ({ id, result }: { id: number; result: 'verified' | 'failed' }) => {
+      const response = await apiRequest('POST', `/api/admin/users/${id}/age-verification`, { result });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/users'] });
+      toast({
+        title: 'Age verification updated',
+        description: 'The user\'s age verification status has been updated.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to update age verification: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
   // Filter users based on search query
   const filteredUsers = users.filter(user => 
     user.username.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -98,6 +120,56 @@ export default function UsersManager() {
     }
   };
 
+  const handleAgeVerification = (id: number, result: 'verified' | 'failed') => {
+    const message = result === 'verified'
+      ? 'Confirm you have checked photo ID showing this user is 18 or over and lives in the UK.'
+      : 'Mark this user as failing age or residency checks? They will not be able to buy tickets.';
+    if (window.confirm(message)) {
+      ageVerificationMutation.mutate({ id, result });
+    }
+  };
+
+  const renderAgeVerification = (user: User) => {
+    switch (user.ageVerificationStatus) {
+      case 'verified':
+        return <Badge variant="secondary" className="bg-green-600/10 text-green-600 border-green-600/20">ID Verified</Badge>;
+      case 'declared':
+        return <Badge variant="outline">Self-declared</Badge>;
+      case 'failed':
+        return <Badge variant="destructive">Failed</Badge>;
+      default:
+        return <Badge variant="outline" className="text-amber-600 border-amber-600/30">Not provided</Badge>;
+    }
+  };
+
+  // Breaks and spend limits the user has set themselves - admins can see but not lift them
+  const renderRestrictions = (user: User) => {
+    const now = new Date();
+    const restrictions: string[] = [];
+    if (user.selfExcludedUntil && new Date(user.selfExcludedUntil) > now) {
+      restrictions.push(`Self-excluded until ${format(new Date(user.selfExcludedUntil), 'dd MMM yyyy')}`);
+    }
+    if (user.coolOffUntil && new Date(user.coolOffUntil) > now) {
+      restrictions.push(`Cooling off until ${format(new Date(user.coolOffUntil), 'dd MMM yyyy HH:mm')}`);
+    }
+    const limits = user.spendLimits;
+    if (limits) {
+      SPEND_LIMIT_PERIODS.forEach(period => {
+        const limit = limits[period];
+        if (limit !== null) {
+          restrictions.push(`${formatCurrency(limit)} ${period} limit`);
+        }
+      });
+    }
+    if (user.pendingSpendLimits) {
+      restrictions.push(`Limit change from ${format(new Date(user.pendingSpendLimits.effectiveAt), 'dd MMM HH:mm')}`);
+    }
+
+    return restrictions.map(restriction => (
+      <div key={restriction} className="text-xs text-amber-600 mt-1">{restriction}</div>
+    ));
+  };
+
   return (
     <AdminLayout>
       <div className="space-y-6">
@@ -138,6 +210,7 @@ export default function UsersManager() {
                       <TableHead>Joined Date</TableHead>
                       <TableHead>Role</TableHead>
                       <TableHead>Status</TableHead>
+                      <TableHead>Age Verification</TableHead>
                       <TableHead className="w-[100px] text-right">Actions</TableHead>
                     </TableRow>
                   </TableHeader>
@@ -167,6 +240,16 @@ export default function UsersManager() {
                             ) : (
                               <Badge variant="secondary" className="bg-green-600/10 text-green-600 border-green-600/20">Active</Badge>
                             )}
+                            {renderRestrictions(user)}
+                          </TableCell>
+                          <TableCell>
+                            {renderAgeVerification(user)}
+                            {user.dateOfBirth && (
+                              <div className="text-xs text-muted-foreground mt-1">
+                                Born {format(new Date(user.dateOfBirth), 'dd MMM yyyy')}
+                                {user.address?.postcode && ` · ${user.address.postcode}`}
+                              </div>
+                            )}
                           </TableCell>
                           <TableCell className="text-right">
                             <DropdownMenu>
@@ -193,6 +276,19 @@ export default function UsersManager() {
                                   </DropdownMenuItem>
                                 )}
                                 <DropdownMenuSeparator />
+                                {user.ageVerificationStatus !== 'verified' && (
+                                  <DropdownMenuItem onClick={() => handleAgeVerification(user.id, 'verified')}>
+                                    <BadgeCheck className="mr-2 h-4 w-4" />
+                                    <span>Mark Age Verified</span>
+                                  </DropdownMenuItem>
+                                )}
+                                {user.ageVerificationStatus !== 'failed' && (
+                                  <DropdownMenuItem onClick={() => handleAgeVerification(user.id, 'failed')}>
+                                    <ShieldX className="mr-2 h-4 w-4" />
+                                    <span>Mark Age Check Failed</span>
+                                  </DropdownMenuItem>
+                                )}
+                                <DropdownMenuSeparator />
                                 <DropdownMenuItem 
                                   onClick={() => handleToggleBanStatus(user.id, !!user.isBanned)}
                                   className={user.isBanned ? "text-green-600" : "text-red-600"}
@@ -207,7 +303,7 @@ export default function UsersManager() {
                       ))
                     ) : (
                       <TableRow>
-                        <TableCell colSpan={7} className="h-24 text-center">
+                        <TableCell colSpan={8} className="h-24 text-center">
                           {searchQuery ? (
                             <div>
                               <p className="text-muted-foreground">No users matching "{searchQuery}"</p>
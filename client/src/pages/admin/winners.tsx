@@ -0,0 +1,534 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { AdminLayout } from '@/components/admin/admin-layout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { BadgeCheck, CheckCircle, ClipboardCheck, Pencil, ShieldX, Truck, XCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import { GuestWinnerClaim, WinnerClaimStatus, WinnerDetails } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+import { formatCurrency } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+
+// The board's columns, in the order a win moves through them
+const STAGES: { title: string; statuses: WinnerClaimStatus[] }[] = [
+  { title: 'Awaiting claim', statuses: ['pending'] },
+  { title: 'To dispatch', statuses: ['elected_prize', 'elected_cash'] },
+  { title: 'Dispatched', statuses: ['dispatched'] },
+  { title: 'Delivered', statuses: ['delivered'] },
+  { title: 'Expired', statuses: ['expired'] },
+];
+
+type FulfilmentAction = { winner: WinnerDetails; mode: 'dispatch' | 'edit' };
+
+const EMPTY_CLAIM = {
+  choice: 'prize' as GuestWinnerClaim['choice'],
+  fullName: '',
+  dateOfBirth: '',
+  line1: '',
+  line2: '',
+  town: '',
+  county: '',
+  postcode: '',
+  phone: '',
+};
+
+export default function WinnersManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [searchQuery, setSearchQuery] = useState('');
+  const [action, setAction] = useState<FulfilmentAction | null>(null);
+  const [trackingNumber, setTrackingNumber] = useState('');
+  const [notes, setNotes] = useState('');
+  const [claiming, setClaiming] = useState<WinnerDetails | null>(null);
+  const [claimForm, setClaimForm] = useState(EMPTY_CLAIM);
+
+  const { data: winners = [], isLoading } = useQuery<WinnerDetails[]>({
+    queryKey: ['/api/admin/winners?status=all'],
+  });
+
+  const onUpdated = (title: string) => {
+    queryClient.invalidateQueries({ predicate: query =>
+      typeof query.queryKey[0] === 'string' && query.queryKey[0].startsWith('/api/admin/winners')
+    });
+    setAction(null);
+    toast({ title });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: 'Error',
+      description: `Failed to update win: ${error.message}`,
+      variant: 'destructive',
+    });
+  };
+
+  const fulfilmentMutation = useMutation({
+    mutationFn: async ({ winner, mode }: FulfilmentAction) => {
+      const body = { trackingNumber: trackingNumber || null, notes: notes || null };
+      const response = mode === 'dispatch'
+        ? await apiRequest('POST', `/api/admin/winners/${winner.id}/dispatch`, body)
+        : await apiRequest('PATCH', `/api/admin/winners/${winner.id}`, body);
+      return response.json();
+    },
+    onSuccess: (_, { mode }) => onUpdated(mode === 'dispatch' ? 'Marked as dispatched' : 'Win updated'),
+    onError,
+  });
+
+  const deliverMutation = useMutation({
+    mutationFn: async (winnerId: number) => {
+      const response = await apiRequest('POST', `/api/admin/winners/${winnerId}/deliver`);
+      return response.json();
+    },
+    onSuccess: () => onUpdated('Marked as delivered'),
+    onError,
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ winnerId, status }: { winnerId: number; status: 'approved' | 'rejected' }) => {
+      const response = await apiRequest('POST', `/api/admin/winners/${winnerId}/testimonial`, { status });
+      return response.json();
+    },
+    onSuccess: (_, { status }) => onUpdated(status === 'approved' ? 'Shown in the winners gallery' : 'Testimonial rejected'),
+    onError,
+  });
+
+  const identityMutation = useMutation({
+    mutationFn: async ({ winnerId, result }: { winnerId: number; result: 'verified' | 'failed' }) => {
+      const response = await apiRequest('POST', `/api/admin/winners/${winnerId}/identity`, { result });
+      return response.json();
+    },
+    onSuccess: (_, { result }) => onUpdated(result === 'verified' ? 'ID verified - ready to dispatch' : 'ID check failed'),
+    onError,
+  });
+
+  // Guest postal winners have no account, so their claim is taken by post or phone
+  const claimMutation = useMutation({
+    mutationFn: async (winner: WinnerDetails) => {
+      const { choice, fullName, dateOfBirth, phone, ...address } = claimForm;
+      const claim: GuestWinnerClaim = {
+        choice,
+        fullName,
+        dateOfBirth,
+        address: { ...address, line2: address.line2 || null, county: address.county || null, phone },
+      };
+      const response = await apiRequest('POST', `/api/admin/winners/${winner.id}/claim`, claim);
+      return response.json();
+    },
+    onSuccess: () => {
+      setClaiming(null);
+      onUpdated('Claim recorded - check their photo ID before dispatch');
+    },
+    onError,
+  });
+
+  const openClaim = (winner: WinnerDetails) => {
+    setClaimForm({ ...EMPTY_CLAIM, fullName: winner.identityName || '', phone: winner.phone || '' });
+    setClaiming(winner);
+  };
+
+  const updateClaimField = (field: keyof typeof EMPTY_CLAIM) =>
+    (e: React.ChangeEvent<HTMLInputElement>) => setClaimForm({ ...claimForm, [field]: e.target.value });
+
+  const checkIdentity = (winner: WinnerDetails, result: 'verified' | 'failed') => {
+    const message = result === 'verified'
+      ? `Confirm ${winner.identityName || 'the winner'}'s photo ID matches their claim and shows they are 18 or over.`
+      : 'Mark this ID check as failed? The prize will be held and the winner will not be able to play again.';
+    if (window.confirm(message)) {
+      identityMutation.mutate({ winnerId: winner.id, result });
+    }
+  };
+
+  const openAction = (winner: WinnerDetails, mode: FulfilmentAction['mode']) => {
+    setTrackingNumber(winner.trackingNumber || '');
+    setNotes(winner.fulfilmentNotes || '');
+    setAction({ winner, mode });
+  };
+
+  const awaitingReview = winners.filter(winner => winner.testimonialStatus === 'pending');
+
+  // Search by winner, email, prize, competition or tracking number
+  const query = searchQuery.trim().toLowerCase();
+  const filteredWinners = winners.filter(winner =>
+    !query ||
+    (winner.username && winner.username.toLowerCase().includes(query)) ||
+    (winner.email && winner.email.toLowerCase().includes(query)) ||
+    winner.prizeTitle.toLowerCase().includes(query) ||
+    (winner.competitionTitle && winner.competitionTitle.toLowerCase().includes(query)) ||
+    (winner.trackingNumber && winner.trackingNumber.toLowerCase().includes(query))
+  );
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-2">
+          <div>
+            <h1 className="text-3xl font-bold">Winners</h1>
+            <p className="text-muted-foreground">
+              Winners claim with their address and ID before the deadline. Check their photo ID, dispatch each claimed win, then mark it delivered. Wins by postal entrants without an account don't expire - write to them and record their claim here.
+            </p>
+          </div>
+          <Input
+            placeholder="Search by winner, prize or tracking number..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="max-w-sm"
+          />
+        </div>
+
+        {awaitingReview.length > 0 && (
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">Photos and testimonials awaiting approval</CardTitle>
+            </CardHeader>
+            <CardContent className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+              {awaitingReview.map((winner) => (
+                <div key={winner.id} className="rounded-md border p-3 text-sm space-y-2">
+                  <div className="flex gap-3">
+                    {winner.photoUrl && (
+                      <img src={winner.photoUrl} alt={winner.username || 'Winner photo'} className="h-20 w-20 rounded object-cover" />
+                    )}
+                    <div>
+                      <div className="font-medium">{winner.username || `User #${winner.userId}`}</div>
+                      <div className="text-xs text-muted-foreground">{winner.prizeTitle}</div>
+                    </div>
+                  </div>
+                  {winner.testimonial && <p className="italic whitespace-pre-wrap">"{winner.testimonial}"</p>}
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      disabled={reviewMutation.isPending}
+                      onClick={() => reviewMutation.mutate({ winnerId: winner.id, status: 'approved' })}
+                    >
+                      <CheckCircle className="h-4 w-4 mr-1" />
+                      Approve
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={reviewMutation.isPending}
+                      onClick={() => reviewMutation.mutate({ winnerId: winner.id, status: 'rejected' })}
+                    >
+                      <XCircle className="h-4 w-4 mr-1" />
+                      Reject
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin w-10 h-10 border-4 border-primary border-t-transparent rounded-full"></div>
+          </div>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-5">
+            {STAGES.map((stage) => {
+              const stageWinners = filteredWinners.filter(winner =>
+                stage.statuses.includes(winner.claimStatus || 'pending')
+              );
+
+              return (
+                <Card key={stage.title} className="bg-muted/40">
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-base flex justify-between items-center">
+                      {stage.title}
+                      <Badge variant="outline">{stageWinners.length}</Badge>
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {stageWinners.length === 0 ? (
+                      <p className="text-sm text-muted-foreground text-center py-4">None</p>
+                    ) : (
+                      stageWinners.map((winner) => (
+                        <WinnerCard
+                          key={winner.id}
+                          winner={winner}
+                          onDispatch={() => openAction(winner, 'dispatch')}
+                          onRecordClaim={() => openClaim(winner)}
+                          onCheckIdentity={(result) => checkIdentity(winner, result)}
+                          isCheckingIdentity={identityMutation.isPending}
+                          onEdit={() => openAction(winner, 'edit')}
+                          onDeliver={() => deliverMutation.mutate(winner.id)}
+                          isDelivering={deliverMutation.isPending}
+                        />
+                      ))
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={!!action} onOpenChange={(open) => !open && setAction(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{action?.mode === 'dispatch' ? 'Dispatch win' : 'Edit fulfilment'}</DialogTitle>
+            <DialogDescription>
+              {action && `${action.winner.prizeTitle} for ${action.winner.username || `user #${action.winner.userId}`}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="trackingNumber">
+                {action?.winner.claimStatus === 'elected_cash' || action?.winner.cashAmount
+                  ? 'Payment reference'
+                  : 'Tracking number'} (optional)
+              </Label>
+              <Input id="trackingNumber" value={trackingNumber} onChange={(e) => setTrackingNumber(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="fulfilmentNotes">Notes (optional)</Label>
+              <Textarea id="fulfilmentNotes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={4} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAction(null)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={fulfilmentMutation.isPending}
+              onClick={() => action && fulfilmentMutation.mutate(action)}
+            >
+              {action?.mode === 'dispatch' ? 'Mark Dispatched' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!claiming} onOpenChange={(open) => !open && setClaiming(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Record claim</DialogTitle>
+            <DialogDescription>
+              {claiming && `${claiming.prizeTitle} for ${claiming.username || `user #${claiming.userId}`}. `}
+              Enter the details the winner gave by post or phone.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {claiming?.cashAlternative ? (
+              <RadioGroup
+                value={claimForm.choice}
+                onValueChange={(value) => setClaimForm({ ...claimForm, choice: value as GuestWinnerClaim['choice'] })}
+                className="space-y-1"
+              >
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="prize" id="claim-prize" />
+                  <Label htmlFor="claim-prize">Prize</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="cash" id="claim-cash" />
+                  <Label htmlFor="claim-cash">{formatCurrency(claiming.cashAlternative)} cash</Label>
+                </div>
+              </RadioGroup>
+            ) : null}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="claimFullName">Full legal name</Label>
+                <Input id="claimFullName" value={claimForm.fullName} onChange={updateClaimField('fullName')} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="claimDateOfBirth">Date of birth</Label>
+                <Input id="claimDateOfBirth" type="date" value={claimForm.dateOfBirth} onChange={updateClaimField('dateOfBirth')} />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="claimLine1">Address</Label>
+              <Input id="claimLine1" placeholder="House number and street" value={claimForm.line1} onChange={updateClaimField('line1')} />
+              <Input placeholder="Flat, building (optional)" value={claimForm.line2} onChange={updateClaimField('line2')} />
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="claimTown">Town or city</Label>
+                <Input id="claimTown" value={claimForm.town} onChange={updateClaimField('town')} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="claimCounty">County (optional)</Label>
+                <Input id="claimCounty" value={claimForm.county} onChange={updateClaimField('county')} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="claimPostcode">Postcode</Label>
+                <Input id="claimPostcode" value={claimForm.postcode} onChange={updateClaimField('postcode')} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="claimPhone">Phone number</Label>
+                <Input id="claimPhone" type="tel" value={claimForm.phone} onChange={updateClaimField('phone')} />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setClaiming(null)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={claimMutation.isPending}
+              onClick={() => claiming && claimMutation.mutate(claiming)}
+            >
+              Record Claim
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </AdminLayout>
+  );
+}
+
+function WinnerCard({
+  winner,
+  onDispatch,
+  onRecordClaim,
+  onCheckIdentity,
+  isCheckingIdentity,
+  onEdit,
+  onDeliver,
+  isDelivering
+}: {
+  winner: WinnerDetails;
+  onDispatch: () => void;
+  onRecordClaim: () => void;
+  onCheckIdentity: (result: 'verified' | 'failed') => void;
+  isCheckingIdentity: boolean;
+  onEdit: () => void;
+  onDeliver: () => void;
+  isDelivering: boolean;
+}) {
+  const address = winner.shippingAddress;
+  const claimed = winner.claimStatus === 'elected_prize' || winner.claimStatus === 'elected_cash';
+  const formatDay = (date: string | Date) => format(new Date(date), 'dd MMM yyyy');
+
+  return (
+    <div className="rounded-md border bg-card p-3 text-sm space-y-2">
+      <div>
+        <div className="font-medium">{winner.prizeTitle}</div>
+        <div className="text-xs text-muted-foreground">
+          {winner.competitionTitle || `Competition #${winner.competitionId}`}
+          {winner.ticketNumber !== null && ` - ticket ${winner.ticketNumber}`}
+        </div>
+      </div>
+
+      <div>
+        <div>{winner.username || `User #${winner.userId}`}</div>
+        {winner.email && <div className="text-xs text-muted-foreground">{winner.email}</div>}
+        {winner.isGuest && (
+          <div className="text-xs text-muted-foreground space-y-0.5 mt-1">
+            <Badge variant="outline">Postal entrant - no account</Badge>
+            {winner.postalAddress && <div className="whitespace-pre-wrap">{winner.postalAddress}</div>}
+            {winner.phone && <div>{winner.phone}</div>}
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        <Badge variant="outline">{formatCurrency(winner.prizeValue)}</Badge>
+        {winner.cashAmount !== null ? (
+          <Badge variant="outline" className="bg-blue-500/10 text-blue-600 border-blue-500/20">
+            Cash {formatCurrency(winner.cashAmount)}
+          </Badge>
+        ) : winner.claimStatus !== 'pending' && winner.claimStatus !== 'expired' ? (
+          <Badge variant="outline" className="bg-blue-500/10 text-blue-600 border-blue-500/20">Prize</Badge>
+        ) : winner.cashAlternative !== null ? (
+          <Badge variant="outline">Cash alt. {formatCurrency(winner.cashAlternative)}</Badge>
+        ) : null}
+      </div>
+
+      {(winner.claimStatus === 'pending' || winner.claimStatus === 'expired') && winner.claimDeadline && (
+        <div className="text-xs text-muted-foreground">
+          {winner.claimStatus === 'expired' ? 'Expired' : 'Claim by'} {formatDay(winner.claimDeadline)}
+        </div>
+      )}
+
+      {winner.identityName && (
+        <div className="text-xs border-t pt-2 space-y-0.5">
+          <div className="font-medium">{winner.identityName}</div>
+          {winner.identityDateOfBirth && <div>Born {formatDay(winner.identityDateOfBirth)}</div>}
+          {address && (
+            <>
+              <div>{[address.line1, address.line2].filter(Boolean).join(', ')}</div>
+              <div>{[address.town, address.county, address.postcode].filter(Boolean).join(', ')}</div>
+              <div>{address.phone}</div>
+            </>
+          )}
+          {winner.identityCheckStatus === 'verified' ? (
+            <Badge variant="outline" className="bg-green-600/10 text-green-600 border-green-600/20">ID verified</Badge>
+          ) : winner.identityCheckStatus === 'failed' ? (
+            <Badge variant="destructive">ID check failed</Badge>
+          ) : claimed ? (
+            <Badge variant="outline" className="text-amber-600 border-amber-600/30">ID not checked</Badge>
+          ) : null}
+        </div>
+      )}
+
+      {(winner.trackingNumber || winner.dispatchedAt || winner.fulfilledAt) && (
+        <div className="text-xs border-t pt-2 space-y-0.5">
+          {winner.trackingNumber && <div>Tracking: <span className="font-mono">{winner.trackingNumber}</span></div>}
+          {winner.dispatchedAt && <div>Dispatched {formatDay(winner.dispatchedAt)}</div>}
+          {winner.fulfilledAt && <div>Delivered {formatDay(winner.fulfilledAt)}</div>}
+        </div>
+      )}
+
+      {winner.fulfilmentNotes && (
+        <div className="text-xs border-t pt-2 whitespace-pre-wrap text-muted-foreground">{winner.fulfilmentNotes}</div>
+      )}
+
+      <div className="flex flex-wrap gap-2 pt-1">
+        {winner.isGuest && winner.claimStatus === 'pending' && (
+          <Button size="sm" onClick={onRecordClaim}>
+            <ClipboardCheck className="h-4 w-4 mr-1" />
+            Record Claim
+          </Button>
+        )}
+        {claimed && winner.identityCheckStatus !== 'verified' && (
+          <>
+            <Button size="sm" variant="outline" onClick={() => onCheckIdentity('verified')} disabled={isCheckingIdentity}>
+              <BadgeCheck className="h-4 w-4 mr-1" />
+              ID OK
+            </Button>
+            {winner.identityCheckStatus !== 'failed' && (
+              <Button size="sm" variant="ghost" onClick={() => onCheckIdentity('failed')} disabled={isCheckingIdentity}>
+                <ShieldX className="h-4 w-4 mr-1" />
+                ID Failed
+              </Button>
+            )}
+          </>
+        )}
+        {claimed && (
+          <Button
+            size="sm"
+            onClick={onDispatch}
+            disabled={winner.identityCheckStatus !== 'verified'}
+            title={winner.identityCheckStatus !== 'verified' ? 'Check the winner\'s photo ID first' : undefined}
+          >
+            <Truck className="h-4 w-4 mr-1" />
+            Dispatch
+          </Button>
+        )}
+        {winner.claimStatus === 'dispatched' && (
+          <Button size="sm" onClick={onDeliver} disabled={isDelivering}>
+            <CheckCircle className="h-4 w-4 mr-1" />
+            Delivered
+          </Button>
+        )}
+        <Button size="sm" variant="ghost" onClick={onEdit} aria-label="Edit tracking and notes">
+          <Pencil className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useLocation } from "wouter";
+import { useLocation, Link } from "wouter";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -69,6 +69,14 @@ export default function AuthPage() {
       password: "",
       confirmPassword: "",
       displayName: "",
+      dateOfBirth: "",
+      address: {
+        line1: "",
+        line2: "",
+        town: "",
+        county: "",
+        postcode: ""
+      },
       mascot: "blue-whale",
       agreeToTerms: false,
       notificationSettings: {
@@ -267,9 +275,9 @@ export default function AuthPage() {
                             Remember me
                           </label>
                         </div>
-                        <a href="#" className="text-sm text-primary hover:text-primary/80">
+                        <Link href="/reset-password" className="text-sm text-primary hover:text-primary/80">
                           Forgot password?
-                        </a>
+                        </Link>
                       </div>
                       
                       <Button
@@ -355,6 +363,73 @@ export default function AuthPage() {
                         )}
                       </div>
                       
+                      <div>
+                        <Label htmlFor="date-of-birth" className="block text-sm font-medium mb-1">Date of Birth</Label>
+                        <Input
+                          id="date-of-birth"
+                          type="date"
+                          autoComplete="bday"
+                          {...registerForm.register("dateOfBirth")}
+                          className="bg-black/10 border-gray-400/20"
+                        />
+                        <p className="text-xs text-muted-foreground mt-1">You must be 18 or over to play.</p>
+                        {registerForm.formState.errors.dateOfBirth && (
+                          <p className="text-red-500 text-sm mt-1">{registerForm.formState.errors.dateOfBirth.message}</p>
+                        )}
+                      </div>
+                      
+                      <div className="space-y-2">
+                        <Label htmlFor="address-line1" className="block text-sm font-medium">UK Address</Label>
+                        <Input
+                          id="address-line1"
+                          placeholder="Address line 1"
+                          autoComplete="address-line1"
+                          {...registerForm.register("address.line1")}
+                          className="bg-black/10 border-gray-400/20"
+                        />
+                        {registerForm.formState.errors.address?.line1 && (
+                          <p className="text-red-500 text-sm">{registerForm.formState.errors.address.line1.message}</p>
+                        )}
+                        <Input
+                          id="address-line2"
+                          placeholder="Address line 2 (Optional)"
+                          autoComplete="address-line2"
+                          {...registerForm.register("address.line2")}
+                          className="bg-black/10 border-gray-400/20"
+                        />
+                        <div className="grid grid-cols-2 gap-2">
+                          <div>
+                            <Input
+                              id="address-town"
+                              placeholder="Town or city"
+                              autoComplete="address-level2"
+                              {...registerForm.register("address.town")}
+                              className="bg-black/10 border-gray-400/20"
+                            />
+                            {registerForm.formState.errors.address?.town && (
+                              <p className="text-red-500 text-sm mt-1">{registerForm.formState.errors.address.town.message}</p>
+                            )}
+                          </div>
+                          <Input
+                            id="address-county"
+                            placeholder="County (Optional)"
+                            {...registerForm.register("address.county")}
+                            className="bg-black/10 border-gray-400/20"
+                          />
+                        </div>
+                        <Input
+                          id="address-postcode"
+                          placeholder="Postcode"
+                          autoComplete="postal-code"
+                          {...registerForm.register("address.postcode")}
+                          className="bg-black/10 border-gray-400/20"
+                        />
+                        {registerForm.formState.errors.address?.postcode && (
+                          <p className="text-red-500 text-sm">{registerForm.formState.errors.address.postcode.message}</p>
+                        )}
+                        <p className="text-xs text-muted-foreground">Competitions are open to UK residents only.</p>
+                      </div>
+                      
                       <div>
                         <Label htmlFor="register-password" className="block text-sm font-medium mb-1">Password</Label>
                         <div className="relative">
@@ -8,43 +8,59 @@ import { useAuth } from "@/hooks/use-auth";
 import { useLocation } from "wouter";
 import { useState } from "react";
 import { processImageUrl } from "@/lib/image-utils";
+import { formatCurrency } from "@/lib/utils";
 import { CheckoutModal } from "@/components/checkout/checkout-modal";
 import { CartExpiryTimer } from "@/components/cart/cart-expiry-timer";
+import { PromoCodeInput } from "@/components/checkout/promo-code-input";
+import { usePromoCode } from "@/hooks/use-promo-code";
+import { priceTickets } from "@shared/bundle-pricing";
+import type { InstantWinResult } from "@shared/schema";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 
 export default function CartPage() {
-  const { cartItems, cartTotal, updateCartItem, removeFromCart, clearCart } = useCart();
+  const { cartItems, cartTotal, updateCartItem, setSkillAnswer, removeFromCart, clearCart } = useCart();
   const { user } = useAuth();
   const { toast } = useToast();
   const [, navigate] = useLocation();
   const [isProcessing, setIsProcessing] = useState(false);
   const [isCheckoutOpen, setIsCheckoutOpen] = useState(false);
   const [clientSecret, setClientSecret] = useState<string | null>(null);
+  const [paymentIntentId, setPaymentIntentId] = useState<string | null>(null);
+  const [chargedAmount, setChargedAmount] = useState<number | null>(null);
+  const [answersConfirmed, setAnswersConfirmed] = useState(false);
+  const promo = usePromoCode(cartItems);
+  const discount = promo.pricedCart?.discount ?? 0;
+  // The server's price with the promo code applied, otherwise the plain ticket prices
+  const amountDue = promo.pricedCart?.total ?? cartTotal;
 
   // We'll now allow non-logged in users to view the cart, but will prompt for login at checkout
 
   const createPaymentIntentMutation = useMutation({
     mutationFn: async () => {
       console.log('Creating payment intent with cart data:', {
-        amount: cartTotal,
+        amount: amountDue,
+        promoCode: promo.code,
         itemCount: cartItems.length,
         cartItemsSummary: cartItems.map(item => ({
           id: item.competitionId,
           title: item.title,
           price: item.ticketPrice,
           quantity: item.ticketCount,
-          subtotal: item.ticketPrice * item.ticketCount
+          subtotal: priceTickets(item.ticketPrice, item.bundleTiers, item.ticketCount).total
         }))
       });
       
       try {
-        // Create payment intent for the total cart amount
+        // Create payment intent - the server prices the cart itself and
+        // rejects the request if its total (in pence) differs from ours
         const paymentRes = await apiRequest("POST", "/api/create-payment-intent", {
-          amount: cartTotal,
+          amount: amountDue,
+          promoCode: promo.code || undefined,
           cartItems: cartItems.map(item => ({
             competitionId: item.competitionId,
             ticketCount: item.ticketCount,
-            selectedNumbers: item.selectedNumbers || []
+            selectedNumbers: item.selectedNumbers || [],
+            skillAnswer: item.skillAnswer || undefined
           }))
         });
         
@@ -95,10 +111,13 @@ export default function CartPage() {
       }
       
       setClientSecret(data.clientSecret);
+      setPaymentIntentId(data.paymentIntentId);
+      setChargedAmount(data.pricedCart?.total ?? null);
       setIsCheckoutOpen(true);
     },
     onError: (error: any) => {
       console.error('Payment intent mutation error:', error);
+      setIsCheckoutOpen(false);
       toast({
         title: "Checkout initialization failed",
         description: error.message || "Failed to initialize checkout",
@@ -110,15 +129,16 @@ export default function CartPage() {
 
   const createEntriesMutation = useMutation({
     mutationFn: async () => {
-      // Send the entire cart in a single request
-      const stripePaymentId = `stripe_payment_${Date.now()}`;
+      // Send the entire cart in a single request - the server checks the
+      // payment with Stripe before creating the entries
       const entryRes = await apiRequest("POST", "/api/entries", {
         paymentStatus: "completed",
-        stripePaymentId,
+        stripePaymentId: paymentIntentId,
         cartItems: cartItems.map(item => ({
           competitionId: item.competitionId,
           ticketCount: item.ticketCount,
-          selectedNumbers: item.selectedNumbers || []
+          selectedNumbers: item.selectedNumbers || [],
+          skillAnswer: item.skillAnswer || undefined
         }))
       });
       
@@ -130,6 +150,9 @@ export default function CartPage() {
       return entryRes.json();
     },
     onSuccess: (data) => {
+      // Instant wins are revealed as soon as the tickets are bought
+      const instantWins: InstantWinResult[] = data.instantWins || [];
+
       // Check if there were any errors in the response
       if (data.errors && data.errors.length > 0) {
         // Show a warning if some entries were created but others failed
@@ -138,6 +161,13 @@ export default function CartPage() {
           description: "Some entries were created but others failed. Check your entries page for details.",
           variant: "warning",
         });
+      } else if (instantWins.length > 0) {
+        toast({
+          title: instantWins.length === 1 ? "Purchase successful - instant win!" : `Purchase successful - ${instantWins.length} instant wins!`,
+          description: instantWins
+            .map(win => `Ticket ${win.ticketNumber} in ${win.competitionTitle || "your competition"} won ${win.prize.title} (${formatCurrency(win.prize.value)})`)
+            .join(". ") + ". See My Wins for details.",
+        });
       } else {
         toast({
           title: "Purchase successful!",
@@ -186,8 +216,48 @@ export default function CartPage() {
       navigate('/auth');
       return;
     }
+
+    // Tickets are for UK residents aged 18 or over - the server checks this too
+    if (user.ageVerificationStatus === 'unverified') {
+      toast({
+        title: "Confirm your age and address",
+        description: "Please add your date of birth and UK address to your profile before buying tickets",
+      });
+      navigate('/profile');
+      return;
+    }
+    if (user.ageVerificationStatus === 'failed') {
+      toast({
+        title: "Unable to check out",
+        description: "We could not verify that you are 18 or over and live in the UK. Please contact support.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // A break the user chose can't be lifted early - the server refuses too
+    const breakUntil = [user.selfExcludedUntil, user.coolOffUntil]
+      .filter((until): until is Date => !!until && new Date(until) > new Date())[0];
+    if (breakUntil) {
+      toast({
+        title: "You're taking a break",
+        description: `You can't buy tickets until ${new Date(breakUntil).toLocaleString("en-GB")}`,
+        variant: "destructive",
+      });
+      return;
+    }
     
     setIsProcessing(true);
+    setClientSecret(null);
+    setChargedAmount(null);
+    
+    // Skill questions are answered, and a promo code can be added, in the checkout modal first
+    setAnswersConfirmed(false);
+    setIsCheckoutOpen(true);
+  };
+  
+  const handleAnswersConfirmed = () => {
+    setAnswersConfirmed(true);
     createPaymentIntentMutation.mutate();
   };
 
@@ -238,94 +308,105 @@ export default function CartPage() {
             </div>
             
             <div className="divide-y">
-              {cartItems.map((item) => (
-                <div 
-                  key={item.competitionId} 
-                  className="grid grid-cols-1 sm:grid-cols-12 gap-4 p-4 items-center"
-                >
-                  <div className="sm:col-span-6 flex gap-3 items-start">
-                    <div className="w-16 h-16 bg-muted rounded flex-shrink-0 overflow-hidden">
-                      {item.imageUrl && (
-                        <img 
-                          src={processImageUrl(item.imageUrl)} 
-                          alt={item.title}
-                          className="w-full h-full object-cover"
-                        />
-                      )}
+              {cartItems.map((item) => {
+                const linePrice = priceTickets(item.ticketPrice, item.bundleTiers, item.ticketCount);
+                return (
+                  <div 
+                    key={item.competitionId} 
+                    className="grid grid-cols-1 sm:grid-cols-12 gap-4 p-4 items-center"
+                  >
+                    <div className="sm:col-span-6 flex gap-3 items-start">
+                      <div className="w-16 h-16 bg-muted rounded flex-shrink-0 overflow-hidden">
+                        {item.imageUrl && (
+                          <img 
+                            src={processImageUrl(item.imageUrl)} 
+                            alt={item.title}
+                            className="w-full h-full object-cover"
+                          />
+                        )}
+                      </div>
+                      <div>
+                        <h3 className="font-medium">{item.title}</h3>
+                        <p className="text-sm text-muted-foreground sm:hidden">
+                          {formatCurrency(item.ticketPrice)} per ticket
+                        </p>
+                        
+                        {item.expiresAt && (
+                          <div className="mt-1">
+                            <CartExpiryTimer expiresAt={item.expiresAt} />
+                          </div>
+                        )}
+                        
+                        {item.selectedNumbers && item.selectedNumbers.length > 0 && (
+                          <div className="mt-1">
+                            <p className="text-xs font-medium text-[#002147] mb-1">Your lucky numbers:</p>
+                            <div className="flex flex-wrap gap-1" data-testid={`selected-numbers-${item.competitionId}`}>
+                              {item.selectedNumbers.sort((a, b) => a - b).map(number => (
+                                <span 
+                                  key={`${item.competitionId}-${number}`}
+                                  className="inline-flex items-center justify-center bg-[#002147] text-white text-xs rounded-full h-6 w-6 shadow-sm"
+                                  data-testid={`cart-number-${item.competitionId}-${number}`}
+                                >
+                                  {number}
+                                </span>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+                      </div>
                     </div>
-                    <div>
-                      <h3 className="font-medium">{item.title}</h3>
-                      <p className="text-sm text-muted-foreground sm:hidden">
-                        £{item.ticketPrice.toFixed(2)} per ticket
-                      </p>
+                    
+                    <div className="sm:col-span-2 hidden sm:block">
+                      {formatCurrency(item.ticketPrice)}
+                    </div>
+                    
+                    <div className="sm:col-span-2 flex items-center gap-2">
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => updateCartItem(item.competitionId, item.ticketCount - 1)}
+                        aria-label="Decrease quantity"
+                      >
+                        <Minus className="h-4 w-4" />
+                      </Button>
                       
-                      {item.expiresAt && (
-                        <div className="mt-1">
-                          <CartExpiryTimer expiresAt={item.expiresAt} />
-                        </div>
-                      )}
+                      <span className="w-8 text-center">{item.ticketCount}</span>
                       
-                      {item.selectedNumbers && item.selectedNumbers.length > 0 && (
-                        <div className="mt-1">
-                          <p className="text-xs font-medium text-[#002147] mb-1">Your lucky numbers:</p>
-                          <div className="flex flex-wrap gap-1" data-testid={`selected-numbers-${item.competitionId}`}>
-                            {item.selectedNumbers.sort((a, b) => a - b).map(number => (
-                              <span 
-                                key={`${item.competitionId}-${number}`}
-                                className="inline-flex items-center justify-center bg-[#002147] text-white text-xs rounded-full h-6 w-6 shadow-sm"
-                                data-testid={`cart-number-${item.competitionId}-${number}`}
-                              >
-                                {number}
-                              </span>
-                            ))}
-                          </div>
-                        </div>
-                      )}
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => updateCartItem(item.competitionId, item.ticketCount + 1)}
+                        aria-label="Increase quantity"
+                      >
+                        <Plus className="h-4 w-4" />
+                      </Button>
                     </div>
-                  </div>
-                  
-                  <div className="sm:col-span-2 hidden sm:block">
-                    £{item.ticketPrice.toFixed(2)}
-                  </div>
-                  
-                  <div className="sm:col-span-2 flex items-center gap-2">
-                    <Button
-                      variant="outline"
-                      size="icon"
-                      className="h-8 w-8"
-                      onClick={() => updateCartItem(item.competitionId, item.ticketCount - 1)}
-                      aria-label="Decrease quantity"
-                    >
-                      <Minus className="h-4 w-4" />
-                    </Button>
-                    
-                    <span className="w-8 text-center">{item.ticketCount}</span>
                     
-                    <Button
-                      variant="outline"
-                      size="icon"
-                      className="h-8 w-8"
-                      onClick={() => updateCartItem(item.competitionId, item.ticketCount + 1)}
-                      aria-label="Increase quantity"
-                    >
-                      <Plus className="h-4 w-4" />
-                    </Button>
-                  </div>
-                  
-                  <div className="sm:col-span-2 flex justify-between sm:justify-end items-center">
-                    <span className="sm:mr-4">£{(item.ticketPrice * item.ticketCount).toFixed(2)}</span>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="h-8 w-8 text-destructive"
-                      onClick={() => removeFromCart(item.competitionId)}
-                      aria-label="Remove item"
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
+                    <div className="sm:col-span-2 flex justify-between sm:justify-end items-center">
+                      <div className="sm:mr-4 text-right">
+                        <div>{formatCurrency(linePrice.total)}</div>
+                        {linePrice.saving > 0 && (
+                          <div className="text-xs text-green-700">
+                            {linePrice.bundles.map(bundle => `${bundle.quantity > 1 ? `${bundle.quantity} x ` : ''}${bundle.ticketCount} for ${formatCurrency(bundle.price)}`).join(' + ')}
+                            {' '}(save {formatCurrency(linePrice.saving)})
+                          </div>
+                        )}
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive"
+                        onClick={() => removeFromCart(item.competitionId)}
+                        aria-label="Remove item"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
           </div>
           
@@ -340,11 +421,18 @@ export default function CartPage() {
             <div className="bg-card p-4 rounded-lg shadow-sm">
               <div className="flex justify-between mb-2">
                 <span className="font-medium">Subtotal:</span>
-                <span>£{cartTotal.toFixed(2)}</span>
+                <span>{formatCurrency(cartTotal)}</span>
               </div>
+              {discount > 0 && (
+                <div className="flex justify-between mb-2 text-green-700">
+                  <span className="font-medium">Discount ({promo.code}):</span>
+                  <span>-{formatCurrency(discount)}</span>
+                </div>
+              )}
+              <PromoCodeInput promo={promo} className="mb-4" />
               <div className="flex justify-between mb-4">
                 <span className="font-medium">Total:</span>
-                <span className="text-lg font-bold">£{cartTotal.toFixed(2)}</span>
+                <span className="text-lg font-bold">{formatCurrency(amountDue)}</span>
               </div>
               <Button 
                 className="w-full"
@@ -365,8 +453,12 @@ export default function CartPage() {
             }}
             onSuccess={() => createEntriesMutation.mutate()}
             clientSecret={clientSecret}
-            amount={cartTotal}
+            amount={chargedAmount ?? amountDue}
             cartItems={cartItems}
+            answersConfirmed={answersConfirmed}
+            onAnswerChange={setSkillAnswer}
+            onAnswersConfirmed={handleAnswersConfirmed}
+            promo={promo}
           />
         </>
       )}
@@ -9,18 +9,16 @@ import { useToast } from "@/hooks/use-toast";
 import { formatCurrency } from "@/lib/utils";
 import { useAuth } from "@/hooks/use-auth";
 import { useCart } from "@/hooks/use-cart";
+import { useLiveUpdates } from "@/hooks/use-live-updates";
 import { ChevronLeft, Heart, ShieldCheck, Plus, Minus, CreditCard, AppleIcon, Lock, AlertCircle, Shuffle } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { apiRequest } from "@/lib/queryClient";
 import { AddToCart } from "@/components/cart/add-to-cart";
+import { SkillQuestion } from "@/components/competition/skill-question";
+import { InstantWins } from "@/components/competition/instant-wins";
+import { PrizeList } from "@/components/competition/prize-list";
 import { CartIcon } from "@/components/cart/cart-icon";
-import { 
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
+import { priceTickets } from "@shared/bundle-pricing";
 
 export default function CompetitionDetails() {
   const [location, navigate] = useLocation();
@@ -30,7 +28,7 @@ export default function CompetitionDetails() {
   const [ticketQuantity, setTicketQuantity] = useState(1);
   const [isProcessing, setIsProcessing] = useState(false);
   const [activeTab, setActiveTab] = useState("details");
-  const [competencyAnswer, setCompetencyAnswer] = useState("");
+  const [skillAnswer, setSkillAnswer] = useState("");
   
   // Extract competition ID from the URL
   const competitionId = location.split("/")[2];
@@ -152,6 +150,9 @@ export default function CompetitionDetails() {
     retry: 3, // Retry failed requests up to 3 times
     retryDelay: attemptIndex => Math.min(1000 * 2 ** attemptIndex, 15000), // Exponential backoff up to 15 seconds
   });
+
+  // Live sales progress and draw results for this competition
+  useLiveUpdates({ competitionId: competition?.id, enabled: !!competition });
   
   // Handle error state with more details
   useEffect(() => {
@@ -218,7 +219,7 @@ export default function CompetitionDetails() {
       console.log(`💰 Preparing payment: ${competition.ticketPrice} x ${ticketQuantity} tickets`);
       
       // Competition price is stored in pounds, but Stripe needs pence (integer)
-      const totalAmount = Math.round(competition.ticketPrice * ticketQuantity);
+      const totalAmount = priceTickets(competition.ticketPrice, competition.bundleTiers, ticketQuantity).total;
       
       console.log(`💰 Total amount for payment: £${totalAmount} (${totalAmount * 100} pence)`);
       
@@ -258,6 +259,12 @@ export default function CompetitionDetails() {
     }
   };
   
+  // Any answer lets the entrant continue - wrong answers are simply not drawn
+  const needsAnswer = !!competition?.skillQuestion && !skillAnswer;
+  
+  // What the chosen quantity costs with the competition's bundles
+  const quantityPrice = priceTickets(competition?.ticketPrice || 0, competition?.bundleTiers, ticketQuantity);
+  
   // Calculate remaining tickets
   const remainingTickets = competition ? (competition.totalTickets - (competition.ticketsSold || 0)) : 0;
   
@@ -348,6 +355,10 @@ export default function CompetitionDetails() {
                 </ul>
               </div>
             </div>
+
+            <PrizeList competitionId={competition.id} />
+
+            <InstantWins competitionId={competition.id} />
             
             {/* Mini How It Works section */}
             <div className="bg-gray-50 rounded-lg p-4 shadow-sm border border-gray-100">
@@ -402,9 +413,11 @@ export default function CompetitionDetails() {
                 <h1 className="text-xl font-bold uppercase tracking-tight text-center">
                   {competition.title}
                 </h1>
-                <div className="text-center mt-1">
-                  <div className="text-white/90 text-xs">Cash Alternative: {formatCurrency(competition.prizeValue)}</div>
-                </div>
+                {competition.cashAlternative ? (
+                  <div className="text-center mt-1">
+                    <div className="text-white/90 text-xs">Cash Alternative: {formatCurrency(competition.cashAlternative)}</div>
+                  </div>
+                ) : null}
               </div>
               
               <div className="p-4">
@@ -419,9 +432,13 @@ export default function CompetitionDetails() {
                       })}
                     </span>
                   </div>
-                  <div className="py-1 px-3 bg-[#002147] text-white rounded-md text-xs inline-flex items-center">
-                    <span className="font-semibold">Automated Draw</span>
-                  </div>
+                  <Link 
+                    href={`/competitions/${competition.id}/verify`}
+                    className="py-1 px-3 bg-[#002147] text-white rounded-md text-xs inline-flex items-center hover:bg-[#002147]/90"
+                  >
+                    <ShieldCheck className="h-3 w-3 mr-1" />
+                    <span className="font-semibold">Provably Fair Draw</span>
+                  </Link>
                 </div>
                 
                 {/* Price */}
@@ -482,7 +499,10 @@ export default function CompetitionDetails() {
                     </button>
                     
                     <div className="text-center">
-                      <div className="text-xs text-gray-700">Number of tickets: <span className="font-semibold">{ticketQuantity}</span> (£{(ticketQuantity * competition.ticketPrice).toFixed(2)})</div>
+                      <div className="text-xs text-gray-700">Number of tickets: <span className="font-semibold">{ticketQuantity}</span> ({formatCurrency(quantityPrice.total)})</div>
+                      {quantityPrice.saving > 0 && (
+                        <div className="text-xs text-green-700">Bundle saving: {formatCurrency(quantityPrice.saving)}</div>
+                      )}
                     </div>
                     
                     <button 
@@ -493,41 +513,21 @@ export default function CompetitionDetails() {
                     </button>
                   </div>
                   
-                  {/* Competency Question */}
-                  <div className="mb-4 border border-gray-200 rounded-md p-3 bg-gray-50">
-                    <div className="flex items-start mb-2">
-                      <AlertCircle className="h-4 w-4 text-[#002147] mr-2 mt-0.5" />
-                      <div>
-                        <h4 className="text-sm font-medium text-[#002147]">Question</h4>
-                        <p className="text-xs text-gray-500 mt-0.5">Please answer the following question correctly to continue</p>
-                      </div>
-                    </div>
-                    
-                    <div className="mb-3">
-                      <label className="block text-sm font-medium mb-1">
-                        What is 4 + 8?
-                      </label>
-                      <Select
-                        value={competencyAnswer}
-                        onValueChange={setCompetencyAnswer}
-                      >
-                        <SelectTrigger className="w-full">
-                          <SelectValue placeholder="Select your answer" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="6">6</SelectItem>
-                          <SelectItem value="10">10</SelectItem>
-                          <SelectItem value="12">12</SelectItem>
-                          <SelectItem value="14">14</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
-                  </div>
+                  {/* Skill Question */}
+                  {competition.skillQuestion && (
+                    <SkillQuestion
+                      question={competition.skillQuestion}
+                      options={competition.skillAnswerOptions || []}
+                      value={skillAnswer}
+                      onChange={setSkillAnswer}
+                      className="mb-4"
+                    />
+                  )}
                   
                   {/* Number Selection and Add to Cart */}
                   <div 
-                    className={competencyAnswer !== "12" ? "opacity-50 pointer-events-none" : ""}
-                    title={competencyAnswer !== "12" ? "Please correctly answer the question to continue" : ""}
+                    className={needsAnswer ? "opacity-50 pointer-events-none" : ""}
+                    title={needsAnswer ? "Please answer the question to continue" : ""}
                   >
                     {/* Select Numbers Button */}
                     <div className="mb-3">
@@ -553,13 +553,15 @@ export default function CompetitionDetails() {
                       withNavigation={true}
                       showNumberPicker={true}
                       quantity={ticketQuantity}
+                      skillAnswer={skillAnswer}
+                      onQuantityChange={setTicketQuantity}
                     />
                   </div>
                   
-                  {competencyAnswer !== "12" && (
+                  {needsAnswer && (
                     <div className="mt-2 text-xs text-destructive flex items-center gap-1">
                       <AlertCircle className="h-3 w-3" />
-                      Please correctly answer the question to continue
+                      Please answer the question to continue
                     </div>
                   )}
                   
@@ -608,7 +610,7 @@ export default function CompetitionDetails() {
               <div>
                 <h3 className="text-base font-semibold text-[#002147] mb-1">What's the cash alternative?</h3>
                 <p className="text-gray-700 text-sm">
-                  A cash alternative is available for this prize at the value shown in the competition details. You must notify us within 14 days of winning if you prefer the cash alternative.
+                  Where a cash alternative is shown, the winner can choose it instead of the prize from their My Wins page. The choice must be made within 14 days of winning.
                 </p>
               </div>
               
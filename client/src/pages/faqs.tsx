@@ -68,13 +68,16 @@ export default function FAQsPage() {
               <AccordionTrigger className="text-lg font-medium">How do I claim my prize if I win?</AccordionTrigger>
               <AccordionContent>
                 <p>
-                  If you're lucky enough to win, we'll contact you directly using the email address and phone number you provided during registration. You'll receive instructions on how to claim your prize, which may involve:
+                  If you're lucky enough to win, your prize appears in My Wins. Claim it there within 14 days of the announcement by:
                 </p>
                 <ul className="list-disc ml-5 mt-2 space-y-2">
-                  <li>Providing proof of identity</li>
-                  <li>Confirming your delivery address</li>
-                  <li>Arranging a convenient delivery time</li>
+                  <li>Confirming your name and date of birth as shown on your photo ID</li>
+                  <li>Confirming your delivery address and phone number</li>
+                  <li>Choosing the cash alternative instead, where one is offered</li>
                 </ul>
+                <p className="mt-4">
+                  Prizes not claimed within 14 days expire. Once your prize is on its way, its tracking number appears in My Wins.
+                </p>
                 <p className="mt-4">
                   For physical prizes, we handle all delivery arrangements and costs. For cash prizes, we'll coordinate the transfer to your preferred bank account or payment method.
                 </p>
@@ -163,7 +166,7 @@ export default function FAQsPage() {
               <AccordionTrigger className="text-lg font-medium">Are there age restrictions for entering competitions?</AccordionTrigger>
               <AccordionContent>
                 <p>
-                  Yes, you must be at least 18 years old to create an account and enter our competitions. This is verified during the registration process and we may require proof of age before delivering prizes.
+                  Yes, you must be at least 18 years old to create an account and enter our competitions. You give your date of birth and UK address when you register, and we check every winner's photo ID before releasing their prize.
                 </p>
                 <p className="mt-4">
                   Some specific competitions may have additional age requirements, particularly those involving alcohol, driving experiences, or other age-restricted activities. These additional requirements will be clearly stated in the competition details.
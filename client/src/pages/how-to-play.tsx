@@ -339,7 +339,7 @@ export default function HowToPlay() {
                 <CardContent className="p-6">
                   <h3 className="font-semibold text-lg mb-2">How long do I have to claim my prize?</h3>
                   <p className="text-muted-foreground">
-                    You have 14 days from the announcement to claim your prize. If unclaimed, a new winner may be selected.
+                    You have 14 days from the announcement to claim your prize in My Wins. Prizes not claimed by then expire.
                   </p>
                 </CardContent>
               </Card>
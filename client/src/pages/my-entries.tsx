@@ -83,7 +83,7 @@ export default function MyEntries() {
   const activeEntries = entries?.filter(entry => 
     new Date(entry.competition.drawDate) > new Date() && 
     entry.competition.isLive && 
-    entry.paymentStatus === "completed"
+    (entry.paymentStatus === "completed" || entry.paymentStatus === "free")
   ) || [];
   
   const pastEntries = entries?.filter(entry => 
@@ -93,6 +93,7 @@ export default function MyEntries() {
   
   const pendingEntries = entries?.filter(entry => 
     entry.paymentStatus !== "completed" && 
+    entry.paymentStatus !== "free" && 
     new Date(entry.competition.drawDate) > new Date()
   ) || [];
   
@@ -1,20 +1,40 @@
-import { useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
 import { Layout } from "@/components/layout/layout";
 import { useAuth } from "@/hooks/use-auth";
 import { Link, useLocation } from "wouter";
 import { 
   Button, Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter,
-  Tabs, TabsContent, TabsList, TabsTrigger 
+  Tabs, TabsContent, TabsList, TabsTrigger, Input, Checkbox, RadioGroup, RadioGroupItem,
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+  Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage
 } from "@/components/ui/index";
+import { Textarea } from "@/components/ui/textarea";
+import { ImageUpload } from "@/components/ui/image-upload";
 import { CategoryBadge } from "@/components/competition/category-badge";
 import { 
   Ticket, ChevronRight, Award, Check, 
-  Calendar, Clock, Package, Trophy, ArrowDownToLine
+  Calendar, Clock, Package, Trophy, Truck, Zap, Camera
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { motion } from "framer-motion";
-import { formatCurrency } from "@/lib/utils";
+import { formatCurrency, formatDate, formatPosition } from "@/lib/utils";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  winnerClaimSchema,
+  type TestimonialStatus,
+  type WinnerClaim,
+  type WinnerClaimStatus,
+  type WinnerTestimonial
+} from "@shared/schema";
+
+const TESTIMONIAL_LABELS: Record<TestimonialStatus, string> = {
+  pending: "Your photo and story are awaiting approval",
+  approved: "Your photo and story are in the winners gallery",
+  rejected: "Your photo and story were not approved - you can send new ones",
+};
 
 type WinnerWithCompetition = {
   id: number;
@@ -22,7 +42,35 @@ type WinnerWithCompetition = {
   competitionId: number;
   entryId: number;
   announcedAt: string;
-  claimStatus: 'pending' | 'claimed' | 'expired';
+  claimStatus: WinnerClaimStatus;
+  claimDeadline: string | null;
+  cashAmount: number | null; // the cash chosen, in pence
+  dispatchedAt: string | null;
+  trackingNumber: string | null;
+  fulfilledAt: string | null; // when delivered
+  // What the winner may take instead of the prize, if anything
+  cashAlternative: number | null;
+  ticketNumber: number | null;
+  // Opt-in photo and testimonial for the public winners gallery
+  photoUrl: string | null;
+  testimonial: string | null;
+  testimonialStatus: TestimonialStatus | null;
+  // The place won in the draw, for competitions with more than one prize
+  prize: {
+    id: number;
+    position: number;
+    title: string;
+    value: number;
+    imageUrl: string | null;
+    cashAlternative: number | null;
+  } | null;
+  // Set when the win came from an instant win ticket rather than the draw
+  instantWinPrize: {
+    id: number;
+    title: string;
+    prizeType: 'cash' | 'site_credit';
+    value: number;
+  } | null;
   competition: {
     id: number;
     title: string;
@@ -41,6 +89,8 @@ export default function MyWins() {
   const [location, navigate] = useLocation();
   const { user } = useAuth();
   const { toast } = useToast();
+  const [claimingWin, setClaimingWin] = useState<WinnerWithCompetition | null>(null);
+  const [sharingWin, setSharingWin] = useState<WinnerWithCompetition | null>(null);
   
   // Redirect if not logged in
   useEffect(() => {
@@ -73,17 +123,62 @@ export default function MyWins() {
   
   // Filter wins by claim status
   const pendingClaims = wins?.filter(win => win.claimStatus === "pending") || [];
-  const claimedPrizes = wins?.filter(win => win.claimStatus === "claimed") || [];
+  const claimedPrizes = wins?.filter(win =>
+    win.claimStatus !== "pending" && win.claimStatus !== "expired"
+  ) || [];
   const expiredClaims = wins?.filter(win => win.claimStatus === "expired") || [];
   
-  // Handle claiming a prize
-  const handleClaim = (winId: number) => {
-    toast({
-      title: "Prize Claim Initiated",
-      description: "We'll contact you shortly with next steps to deliver your prize!",
-    });
-    // In a real application, this would trigger a backend API call to update the claim status
-  };
+  // Claim the prize or its cash alternative with the winner's address and ID
+  const claimMutation = useMutation({
+    mutationFn: async ({ winId, claim }: { winId: number; claim: WinnerClaim }) => {
+      const res = await apiRequest("POST", `/api/winners/${winId}/claim`, claim);
+      return res.json();
+    },
+    onSuccess: (_, { claim }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/winners"] });
+      setClaimingWin(null);
+      toast({
+        title: claim.choice === "cash" ? "Cash alternative claimed" : "Prize claimed",
+        description: claim.choice === "cash"
+          ? "We'll check your details and arrange your payment."
+          : "We'll check your details and let you know when your prize is on its way.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not claim prize",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  // Opt in to, or back out of, the public winners gallery
+  const testimonialMutation = useMutation({
+    mutationFn: async ({ winId, testimonial }: { winId: number; testimonial: WinnerTestimonial | null }) => {
+      const res = testimonial
+        ? await apiRequest("PUT", `/api/winners/${winId}/testimonial`, testimonial)
+        : await apiRequest("DELETE", `/api/winners/${winId}/testimonial`);
+      return res.json();
+    },
+    onSuccess: (_, { testimonial }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/winners"] });
+      setSharingWin(null);
+      toast({
+        title: testimonial ? "Thanks for sharing!" : "Removed from the gallery",
+        description: testimonial
+          ? "We'll add your photo and story to the winners gallery once they're approved."
+          : "Your photo and story will no longer be shown.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not update your story",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
   
   if (!user) {
     return <div className="min-h-screen flex items-center justify-center">Redirecting to login...</div>;
@@ -139,7 +234,7 @@ export default function MyWins() {
                             key={win.id} 
                             win={win} 
                             status="pending"
-                            onClaim={() => handleClaim(win.id)}
+                            onClaim={() => setClaimingWin(win)}
                           />
                         ))}
                       </div>
@@ -157,7 +252,7 @@ export default function MyWins() {
                     {claimedPrizes.length > 0 ? (
                       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                         {claimedPrizes.map((win) => (
-                          <WinCard key={win.id} win={win} status="claimed" />
+                          <WinCard key={win.id} win={win} status="claimed" onShare={() => setSharingWin(win)} />
                         ))}
                       </div>
                     ) : (
@@ -199,6 +294,26 @@ export default function MyWins() {
             </>
           )}
           
+          {claimingWin && (
+            <ClaimDialog
+              win={claimingWin}
+              defaultName={user.fullName || ""}
+              defaultPhone={user.phone || ""}
+              onSubmit={(claim) => claimMutation.mutate({ winId: claimingWin.id, claim })}
+              onClose={() => setClaimingWin(null)}
+              isClaiming={claimMutation.isPending}
+            />
+          )}
+          
+          {sharingWin && (
+            <TestimonialDialog
+              win={sharingWin}
+              onSubmit={(testimonial) => testimonialMutation.mutate({ winId: sharingWin.id, testimonial })}
+              onClose={() => setSharingWin(null)}
+              isSaving={testimonialMutation.isPending}
+            />
+          )}
+          
           <div className="mt-12 text-center">
             <h2 className="text-2xl font-bold mb-4">Want to Win More Prizes?</h2>
             <p className="text-muted-foreground mb-6">
@@ -220,12 +335,16 @@ export default function MyWins() {
 function WinCard({ 
   win, 
   status,
-  onClaim 
+  onClaim,
+  onShare
 }: { 
   win: WinnerWithCompetition; 
   status: 'pending' | 'claimed' | 'expired';
   onClaim?: () => void;
+  onShare?: () => void;
 }) {
+  const isCash = win.claimStatus === 'elected_cash' || !!win.cashAmount;
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -235,8 +354,8 @@ function WinCard({
       <Card className={`overflow-hidden h-full flex flex-col ${status === 'expired' ? 'opacity-70' : ''}`}>
         <div className="relative h-40">
           <img 
-            src={win.competition.imageUrl || "https://placehold.co/400x200/1a1f2b/FFFFFF/png?text=No+Image"} 
-            alt={win.competition.title}
+            src={win.prize?.imageUrl || win.competition.imageUrl || "https://placehold.co/400x200/1a1f2b/FFFFFF/png?text=No+Image"} 
+            alt={win.prize?.title || win.competition.title}
             className="w-full h-full object-cover"
           />
           <div className="absolute top-0 left-0 w-full h-full bg-gradient-to-b from-transparent to-background/80"></div>
@@ -268,20 +387,36 @@ function WinCard({
           
           <div className="absolute bottom-2 left-2 right-2 flex justify-between">
             <div className="text-xs bg-primary text-white rounded px-2 py-1 font-semibold">
-              WINNER!
+              {win.instantWinPrize ? 'INSTANT WIN!' : 'WINNER!'}
             </div>
             <div className="text-xs bg-background/80 text-primary rounded px-2 py-1">
-              Value: {formatCurrency(win.competition.prizeValue)}
+              Value: {formatCurrency((win.instantWinPrize || win.prize)?.value ?? win.competition.prizeValue)}
             </div>
           </div>
         </div>
         
         <CardHeader className="pb-2">
-          <CardTitle className="text-lg">{win.competition.title}</CardTitle>
+          <CardTitle className="text-lg">{(win.instantWinPrize || win.prize)?.title ?? win.competition.title}</CardTitle>
           <CardDescription className="flex items-center justify-between">
             <span className="flex items-center">
-              <Trophy className="h-4 w-4 mr-1 text-orange-500" /> 
-              <span>You won!</span>
+              {win.instantWinPrize ? (
+                <>
+                  <Zap className="h-4 w-4 mr-1 text-orange-500" />
+                  <span>
+                    {win.instantWinPrize.prizeType === 'site_credit' ? 'Site credit' : 'Cash'} on ticket {win.ticketNumber} in {win.competition.title}
+                  </span>
+                </>
+              ) : win.prize ? (
+                <>
+                  <Trophy className="h-4 w-4 mr-1 text-orange-500" />
+                  <span>{formatPosition(win.prize.position)} prize in {win.competition.title}</span>
+                </>
+              ) : (
+                <>
+                  <Trophy className="h-4 w-4 mr-1 text-orange-500" /> 
+                  <span>You won!</span>
+                </>
+              )}
             </span>
             <span className="text-muted-foreground text-xs">
               <Calendar className="h-3 w-3 inline mr-1" />
@@ -299,10 +434,12 @@ function WinCard({
             <div className="mb-2">
               <p className="text-sm text-orange-500 flex items-center mb-1">
                 <Clock className="h-4 w-4 mr-1" />
-                <span>Claim within 14 days</span>
+                <span>{win.claimDeadline ? `Claim by ${formatDate(win.claimDeadline)}` : "Claim within 14 days"}</span>
               </p>
               <p className="text-xs text-muted-foreground">
-                You need to claim this prize before it expires. Once claimed, we'll arrange delivery.
+                  {win.cashAlternative
+                  ? `Choose the prize or ${formatCurrency(win.cashAlternative)} cash and confirm your address and ID before the deadline.`
+                  : "Confirm your address and ID before the deadline. Once claimed, we'll arrange delivery."}
               </p>
             </div>
           )}
@@ -310,12 +447,34 @@ function WinCard({
           {status === 'claimed' && (
             <div className="mb-2">
               <p className="text-sm text-green-500 flex items-center mb-1">
-                <Check className="h-4 w-4 mr-1" />
-                <span>Prize claimed successfully!</span>
+                {win.claimStatus === 'dispatched' ? (
+                  <Truck className="h-4 w-4 mr-1" />
+                ) : (
+                  <Check className="h-4 w-4 mr-1" />
+                )}
+                <span>
+                  {win.claimStatus === 'delivered'
+                    ? `Delivered${win.fulfilledAt ? ` on ${formatDate(win.fulfilledAt)}` : ""}`
+                    : win.claimStatus === 'dispatched'
+                      ? isCash ? "Payment sent" : "On its way"
+                      : isCash ? `You chose ${formatCurrency(win.cashAmount || 0)} cash` : "Prize claimed successfully!"}
+                </span>
               </p>
               <p className="text-xs text-muted-foreground">
-                Your prize has been claimed and is being processed for delivery.
+                {win.claimStatus === 'dispatched' || win.claimStatus === 'delivered'
+                  ? win.trackingNumber
+                    ? `${isCash ? "Payment reference" : "Tracking number"}: ${win.trackingNumber}`
+                    : `Sent${win.dispatchedAt ? ` on ${formatDate(win.dispatchedAt)}` : ""}.`
+                  : isCash
+                    ? "We're checking your details and will arrange your payment."
+                    : "We're checking your details and preparing your prize for delivery."}
               </p>
+              {win.testimonialStatus && (
+                <p className="text-xs text-muted-foreground mt-2 flex items-center">
+                  <Camera className="h-3 w-3 mr-1" />
+                  {TESTIMONIAL_LABELS[win.testimonialStatus]}
+                </p>
+              )}
             </div>
           )}
           
@@ -332,7 +491,7 @@ function WinCard({
           )}
         </CardContent>
         
-        <CardFooter>
+        <CardFooter className="flex-col gap-2">
           {status === 'pending' && (
             <Button
               onClick={onClaim}
@@ -348,7 +507,16 @@ function WinCard({
               variant="outline"
               className="w-full border-green-500 text-green-500"
             >
-              <Check className="mr-2 h-4 w-4" /> Already Claimed
+              <Check className="mr-2 h-4 w-4" />
+              {win.claimStatus === 'delivered' ? "Delivered" : win.claimStatus === 'dispatched' ? "Dispatched" : "Already Claimed"}
+            </Button>
+          )}
+          
+          {/* Only draw wins appear in the winners gallery */}
+          {status === 'claimed' && !win.instantWinPrize && onShare && (
+            <Button variant="ghost" size="sm" className="w-full" onClick={onShare}>
+              <Camera className="mr-2 h-4 w-4" />
+              {win.testimonialStatus ? "Edit Your Winner's Story" : "Share Your Win"}
             </Button>
           )}
           
@@ -367,6 +535,286 @@ function WinCard({
   );
 }
 
+// Claim form - the winner's choice, where to send it and confirmation of their ID
+function ClaimDialog({
+  win,
+  defaultName,
+  defaultPhone,
+  onSubmit,
+  onClose,
+  isClaiming
+}: {
+  win: WinnerWithCompetition;
+  defaultName: string;
+  defaultPhone: string;
+  onSubmit: (claim: WinnerClaim) => void;
+  onClose: () => void;
+  isClaiming: boolean;
+}) {
+  const form = useForm<WinnerClaim>({
+    resolver: zodResolver(winnerClaimSchema),
+    defaultValues: {
+      choice: "prize",
+      fullName: defaultName,
+      dateOfBirth: "",
+      address: { line1: "", line2: "", town: "", county: "", postcode: "", phone: defaultPhone },
+      confirmIdentity: false,
+    },
+  });
+  const choice = form.watch("choice");
+  const prizeTitle = (win.instantWinPrize || win.prize)?.title ?? win.competition.title;
+  const cashAlternative = win.cashAlternative;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Claim {prizeTitle}</DialogTitle>
+          <DialogDescription>
+            {win.claimDeadline ? `Claim by ${formatDate(win.claimDeadline)}. ` : ""}
+            We'll check these details against your photo ID before sending your prize.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            {cashAlternative ? (
+              <FormField
+                control={form.control}
+                name="choice"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Your choice</FormLabel>
+                    <FormControl>
+                      <RadioGroup value={field.value} onValueChange={field.onChange} className="space-y-1">
+                        <div className="flex items-center space-x-2">
+                          <RadioGroupItem value="prize" id="choice-prize" />
+                          <label htmlFor="choice-prize" className="text-sm">Take the prize</label>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <RadioGroupItem value="cash" id="choice-cash" />
+                          <label htmlFor="choice-cash" className="text-sm">
+                            Take {formatCurrency(cashAlternative)} cash instead
+                          </label>
+                        </div>
+                      </RadioGroup>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ) : null}
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="fullName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Full legal name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="As shown on your photo ID" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="dateOfBirth"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date of birth</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="address.line1"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Address</FormLabel>
+                  <FormControl>
+                    <Input placeholder="House number and street" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    {choice === "cash"
+                      ? "Your home address, used to confirm your identity."
+                      : "Where we should deliver your prize."}
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="address.line2"
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <Input placeholder="Flat, building (optional)" {...field} value={field.value ?? ""} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="address.town"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Town or city</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="address.county"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>County (optional)</FormLabel>
+                    <FormControl>
+                      <Input {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="address.postcode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Postcode</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="address.phone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Phone number</FormLabel>
+                    <FormControl>
+                      <Input type="tel" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="confirmIdentity"
+              render={({ field }) => (
+                <FormItem>
+                  <div className="flex items-start space-x-2">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) => field.onChange(checked === true)}
+                      />
+                    </FormControl>
+                    <FormLabel className="text-sm font-normal leading-snug">
+                      I confirm these details match my photo ID, which I'll show if asked before my prize is sent
+                    </FormLabel>
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isClaiming} className="bg-orange-500 hover:bg-orange-600">
+                {isClaiming ? "Claiming..." : choice === "cash" ? "Claim Cash" : "Claim Prize"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Opt-in photo and testimonial for the public winners gallery
+function TestimonialDialog({
+  win,
+  onSubmit,
+  onClose,
+  isSaving
+}: {
+  win: WinnerWithCompetition;
+  onSubmit: (testimonial: WinnerTestimonial | null) => void;
+  onClose: () => void;
+  isSaving: boolean;
+}) {
+  const [photoUrl, setPhotoUrl] = useState(win.photoUrl || "");
+  const [testimonial, setTestimonial] = useState(win.testimonial || "");
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share Your Win</DialogTitle>
+          <DialogDescription>
+            Add a photo and a few words for our winners gallery. They're shown next to your
+            display name once approved, and you can remove them at any time.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Photo (optional)</label>
+            <ImageUpload existingImageUrl={win.photoUrl} onImageUploaded={setPhotoUrl} />
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="testimonial" className="text-sm font-medium">Your story (optional)</label>
+            <Textarea
+              id="testimonial"
+              rows={4}
+              maxLength={1000}
+              placeholder="How did it feel to win?"
+              value={testimonial}
+              onChange={(e) => setTestimonial(e.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter className="gap-2">
+          {win.testimonialStatus && (
+            <Button variant="outline" disabled={isSaving} onClick={() => onSubmit(null)}>
+              Remove from Gallery
+            </Button>
+          )}
+          <Button
+            disabled={isSaving || (!photoUrl && !testimonial.trim())}
+            onClick={() => onSubmit({ photoUrl: photoUrl || null, testimonial: testimonial.trim() || null })}
+            className="bg-orange-500 hover:bg-orange-600"
+          >
+            {isSaving ? "Sending..." : "Send for Approval"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 // Empty state component
 function EmptyState({ 
   title, 
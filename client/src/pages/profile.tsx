@@ -50,16 +50,19 @@ import {
   Bell,
   Check,
   AlertCircle,
-  Calendar,
+  PoundSterling,
   Trophy,
   Ticket,
   LineChart,
   ChevronRight,
+  ShieldCheck,
 } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { MASCOT_OPTIONS } from "@/lib/constants";
-import { cn } from "@/lib/utils";
+import { ResponsiblePlaySettings } from "@/components/account/responsible-play-settings";
+import { cn, formatCurrency } from "@/lib/utils";
+import { UserStats, User as SelectUser, dateOfBirthSchema, postalAddressSchema } from "@shared/schema";
 
 // Profile update schema
 const profileUpdateSchema = z.object({
@@ -82,7 +85,14 @@ const passwordUpdateSchema = z.object({
   path: ["confirmPassword"],
 });
 
+// Players must be 18 or over and live in the UK
+const ageDetailsSchema = z.object({
+  dateOfBirth: dateOfBirthSchema,
+  address: postalAddressSchema,
+});
+
 type ProfileUpdateInput = z.infer<typeof profileUpdateSchema>;
+type AgeDetailsInput = z.infer<typeof ageDetailsSchema>;
 type PasswordUpdateInput = z.infer<typeof passwordUpdateSchema>;
 
 export default function ProfilePage() {
@@ -100,28 +110,8 @@ export default function ProfilePage() {
   }, [user, navigate]);
 
   // Fetch user stats
-  const { data: userStats, isLoading: statsLoading } = useQuery({
+  const { data: userStats, isLoading: statsLoading } = useQuery<UserStats>({
     queryKey: ["/api/user/stats"],
-    queryFn: async () => {
-      try {
-        // Since this API doesn't exist yet, we'll return mock data
-        // In a real app, you would fetch from the API
-        return {
-          totalEntries: 15,
-          activeCompetitions: 5,
-          wins: 2,
-          spentAmount: 8500, // in cents (£85.00)
-        };
-      } catch (error) {
-        console.error("Error fetching user stats:", error);
-        return {
-          totalEntries: 0,
-          activeCompetitions: 0,
-          wins: 0,
-          spentAmount: 0,
-        };
-      }
-    },
     enabled: !!user,
   });
 
@@ -270,7 +260,7 @@ export default function ProfilePage() {
           {/* Main content */}
           <div className="w-full lg:w-2/3">
             <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-              <TabsList className="grid w-full grid-cols-3 mb-8">
+              <TabsList className="grid w-full grid-cols-4 mb-8">
                 <TabsTrigger value="profile">
                   <User className="h-4 w-4 mr-2" /> Profile
                 </TabsTrigger>
@@ -280,6 +270,9 @@ export default function ProfilePage() {
                 <TabsTrigger value="security">
                   <Settings className="h-4 w-4 mr-2" /> Security
                 </TabsTrigger>
+                <TabsTrigger value="responsible-play">
+                  <ShieldCheck className="h-4 w-4 mr-2" /> Play Limits
+                </TabsTrigger>
               </TabsList>
 
               <TabsContent value="profile">
@@ -378,6 +371,8 @@ export default function ProfilePage() {
                       </Form>
                     </CardContent>
                   </Card>
+
+                  <AgeDetailsCard user={user} />
                 </TabsContent>
 
                 <TabsContent value="notifications">
@@ -591,6 +586,10 @@ export default function ProfilePage() {
                     </CardContent>
                   </Card>
                 </TabsContent>
+
+                <TabsContent value="responsible-play">
+                  <ResponsiblePlaySettings />
+                </TabsContent>
               </Tabs>
             </div>
 
@@ -645,11 +644,11 @@ export default function ProfilePage() {
 
                     <div className="bg-card rounded-lg border border-border p-3">
                       <div className="flex items-center space-x-2 mb-1">
-                        <Calendar className="h-4 w-4 text-muted-foreground" />
-                        <span className="text-xs text-muted-foreground">Last Login</span>
+                        <PoundSterling className="h-4 w-4 text-muted-foreground" />
+                        <span className="text-xs text-muted-foreground">Total Spent</span>
                       </div>
-                      <p className="text-sm font-medium">
-                        Today
+                      <p className="text-2xl font-bold">
+                        {statsLoading ? "..." : formatCurrency(userStats?.spentAmount ?? 0)}
                       </p>
                     </div>
                   </div>
@@ -739,3 +738,176 @@ function LogOut(props: React.SVGProps<SVGSVGElement>) {
     </svg>
   );
 }
+
+const AGE_STATUS_TEXT: Record<SelectUser["ageVerificationStatus"], string> = {
+  unverified: "Add your date of birth and UK address to start buying tickets.",
+  declared: "Thanks - you can buy tickets. If you win, we'll check your photo ID before releasing the prize.",
+  verified: "Your age and address have been checked against your photo ID.",
+  failed: "We could not verify your age or address, so you cannot enter competitions. Please contact support.",
+};
+
+function AgeDetailsCard({ user }: { user: Omit<SelectUser, "password"> }) {
+  const { toast } = useToast();
+  // The date of birth is fixed once an admin has checked it against photo ID
+  const dateOfBirthLocked = user.ageVerificationStatus === "verified" || user.ageVerificationStatus === "failed";
+
+  const form = useForm<AgeDetailsInput>({
+    resolver: zodResolver(ageDetailsSchema),
+    defaultValues: {
+      dateOfBirth: user.dateOfBirth || "",
+      address: {
+        line1: user.address?.line1 || "",
+        line2: user.address?.line2 || "",
+        town: user.address?.town || "",
+        county: user.address?.county || "",
+        postcode: user.address?.postcode || "",
+      },
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: AgeDetailsInput) => {
+      const res = await apiRequest("PATCH", "/api/user", { email: user.email, ...data });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Details Saved",
+        description: "Your date of birth and address have been saved.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update Failed",
+        description: error.message || "Failed to save your details",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ShieldCheck className="h-5 w-5 mr-2 text-primary" /> Age &amp; Residency
+        </CardTitle>
+        <CardDescription>
+          Competitions are open to UK residents aged 18 or over
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Alert variant={user.ageVerificationStatus === "failed" ? "destructive" : "default"} className="mb-6">
+          {user.ageVerificationStatus === "unverified" || user.ageVerificationStatus === "failed" ? (
+            <AlertCircle className="h-4 w-4" />
+          ) : (
+            <Check className="h-4 w-4" />
+          )}
+          <AlertDescription>{AGE_STATUS_TEXT[user.ageVerificationStatus]}</AlertDescription>
+        </Alert>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-6">
+            <FormField
+              control={form.control}
+              name="dateOfBirth"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Date of Birth</FormLabel>
+                  <FormControl>
+                    <Input type="date" disabled={dateOfBirthLocked} {...field} />
+                  </FormControl>
+                  {dateOfBirthLocked && (
+                    <FormDescription>Contact support if your date of birth needs correcting.</FormDescription>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="address.line1"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Address</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Address line 1" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="address.line2"
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <Input placeholder="Address line 2 (optional)" {...field} value={field.value || ""} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="address.town"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Town or City</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="address.county"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>County</FormLabel>
+                    <FormControl>
+                      <Input {...field} value={field.value || ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="address.postcode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Postcode</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="flex justify-end">
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? "Saving..." : (
+                  <span className="flex items-center">
+                    <Check className="mr-2 h-4 w-4" /> Save Details
+                  </span>
+                )}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { passwordResetRequestSchema, passwordResetConfirmSchema } from "@shared/schema";
+import { Alert, AlertDescription, Button, Card, CardContent, CardDescription, CardHeader, CardTitle, Input, Label } from "@/components/ui/index";
+import { CheckCircle2, KeyRound, Mail } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+
+type ResetRequestInput = z.infer<typeof passwordResetRequestSchema>;
+type ResetConfirmInput = z.infer<typeof passwordResetConfirmSchema>;
+
+// Without a token the page asks for an email address; the emailed link
+// brings the user back with ?token= to choose a new password
+export default function ResetPasswordPage() {
+  const token = new URLSearchParams(window.location.search).get("token");
+
+  return (
+    <section className="py-16 bg-background flex-grow">
+      <div className="max-w-md mx-auto px-4">
+        {token ? <ChooseNewPassword token={token} /> : <RequestResetLink />}
+      </div>
+    </section>
+  );
+}
+
+function RequestResetLink() {
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+
+  const form = useForm<ResetRequestInput>({
+    resolver: zodResolver(passwordResetRequestSchema),
+    defaultValues: { email: "" },
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: async (data: ResetRequestInput) => {
+      const res = await apiRequest("POST", "/api/password-reset/request", data);
+      return res.json() as Promise<{ message: string }>;
+    },
+    onSuccess: (result) => setSentMessage(result.message),
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <Mail className="h-8 w-8 text-primary mb-2" />
+        <CardTitle>Forgot your password?</CardTitle>
+        <CardDescription>
+          Enter the email address on your account and we'll send you a link to choose a new password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {sentMessage ? (
+          <Alert>
+            <CheckCircle2 className="h-4 w-4" />
+            <AlertDescription>{sentMessage}</AlertDescription>
+          </Alert>
+        ) : (
+          <form onSubmit={form.handleSubmit((data) => requestMutation.mutate(data))} className="space-y-4">
+            {requestMutation.error && (
+              <Alert variant="destructive">
+                <AlertDescription>{requestMutation.error.message}</AlertDescription>
+              </Alert>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="email">Email</Label>
+              <Input id="email" type="email" autoComplete="email" {...form.register("email")} />
+              {form.formState.errors.email && (
+                <p className="text-red-500 text-sm">{form.formState.errors.email.message}</p>
+              )}
+            </div>
+            <Button type="submit" className="w-full" disabled={requestMutation.isPending}>
+              {requestMutation.isPending ? "Sending..." : "Send reset link"}
+            </Button>
+          </form>
+        )}
+        <p className="text-sm text-muted-foreground text-center mt-6">
+          Remembered it? <Link href="/auth" className="text-primary hover:text-primary/80">Back to sign in</Link>
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
+
+function ChooseNewPassword({ token }: { token: string }) {
+  const [doneMessage, setDoneMessage] = useState<string | null>(null);
+
+  const form = useForm<ResetConfirmInput>({
+    resolver: zodResolver(passwordResetConfirmSchema),
+    defaultValues: { token, password: "", confirmPassword: "" },
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async (data: ResetConfirmInput) => {
+      const res = await apiRequest("POST", "/api/password-reset/confirm", data);
+      return res.json() as Promise<{ message: string }>;
+    },
+    onSuccess: (result) => {
+      // Keep the used token out of the browser history
+      window.history.replaceState(null, "", "/reset-password");
+      setDoneMessage(result.message);
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <KeyRound className="h-8 w-8 text-primary mb-2" />
+        <CardTitle>Choose a new password</CardTitle>
+        <CardDescription>You'll be signed out everywhere else once it's changed.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {doneMessage ? (
+          <div className="space-y-4">
+            <Alert>
+              <CheckCircle2 className="h-4 w-4" />
+              <AlertDescription>{doneMessage}</AlertDescription>
+            </Alert>
+            <Link href="/auth">
+              <Button className="w-full">Sign in</Button>
+            </Link>
+          </div>
+        ) : (
+          <form onSubmit={form.handleSubmit((data) => confirmMutation.mutate(data))} className="space-y-4">
+            {confirmMutation.error && (
+              <Alert variant="destructive">
+                <AlertDescription>
+                  {confirmMutation.error.message}{" "}
+                  <a href="/reset-password" className="underline">Request a new link</a>
+                </AlertDescription>
+              </Alert>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="password">New password</Label>
+              <Input id="password" type="password" autoComplete="new-password" {...form.register("password")} />
+              {form.formState.errors.password && (
+                <p className="text-red-500 text-sm">{form.formState.errors.password.message}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirmPassword">Confirm new password</Label>
+              <Input id="confirmPassword" type="password" autoComplete="new-password" {...form.register("confirmPassword")} />
+              {form.formState.errors.confirmPassword && (
+                <p className="text-red-500 text-sm">{form.formState.errors.confirmPassword.message}</p>
+              )}
+            </div>
+            <Button type="submit" className="w-full" disabled={confirmMutation.isPending}>
+              {confirmMutation.isPending ? "Saving..." : "Reset password"}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,197 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { Competition, DrawProofResponse } from "@shared/schema";
+import {
+  Button, Card, CardContent, CardHeader, CardTitle, CardDescription, Badge
+} from "@/components/ui/index";
+import { ChevronLeft, ShieldCheck, ShieldAlert, Lock, Hash, RefreshCw } from "lucide-react";
+import { verifyDrawProof, type DrawVerificationResult } from "@/lib/draw-proof";
+import { formatDate, formatPosition } from "@/lib/utils";
+
+export default function VerifyDraw() {
+  const params = useParams<{ id: string }>();
+  const competitionId = params.id;
+  const [result, setResult] = useState<DrawVerificationResult | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const { data: competition } = useQuery<Competition>({
+    queryKey: [`/api/competitions/${competitionId}`],
+  });
+
+  const { data: proof, isLoading, error } = useQuery<DrawProofResponse>({
+    queryKey: [`/api/competitions/${competitionId}/draw-proof`],
+  });
+
+  // Recompute the draw in the browser as soon as the proof has loaded
+  useEffect(() => {
+    if (proof?.status !== "drawn") return;
+
+    setIsVerifying(true);
+    verifyDrawProof(proof)
+      .then(setResult)
+      .finally(() => setIsVerifying(false));
+  }, [proof]);
+
+  return (
+    <section className="py-16 bg-background flex-grow">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
+        <Link href={`/competitions/${competitionId}`} className="inline-flex items-center text-sm text-muted-foreground hover:text-primary">
+          <ChevronLeft className="h-4 w-4 mr-1" /> Back to competition
+        </Link>
+
+        <div className="text-center">
+          <ShieldCheck className="h-10 w-10 text-primary mx-auto mb-2" />
+          <h1 className="text-3xl font-bold mb-2">Verify the Draw</h1>
+          <p className="text-muted-foreground">
+            {competition ? competition.title : "Competition"} uses a provably fair commit-reveal draw.
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center my-12">
+            <div className="animate-spin w-10 h-10 border-4 border-primary border-t-transparent rounded-full"></div>
+          </div>
+        ) : error || !proof ? (
+          <Card>
+            <CardContent className="py-8 text-center text-muted-foreground">
+              The draw proof for this competition could not be loaded.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Lock className="h-5 w-5" /> Seed Commitment
+                </CardTitle>
+                <CardDescription>
+                  Published when the competition went live, before any tickets were sold.
+                  The seed itself is kept secret until the draw.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {proof.serverSeedHash ? (
+                  <>
+                    <ProofField label="SHA-256 of server seed" value={proof.serverSeedHash} />
+                    {proof.committedAt && (
+                      <ProofField label="Committed" value={new Date(proof.committedAt).toLocaleString("en-GB")} />
+                    )}
+                  </>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No seed has been committed for this competition yet.</p>
+                )}
+              </CardContent>
+            </Card>
+
+            {proof.status === "drawn" && proof.draw ? (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Hash className="h-5 w-5" /> Draw Result
+                  </CardTitle>
+                  <CardDescription>
+                    Winning ticket <span className="font-bold text-foreground">#{proof.draw.winningTicketNumber}</span>
+                    {proof.draw.drawnAt && <> drawn on {formatDate(proof.draw.drawnAt)}</>}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {proof.draw.results.length > 1 && (
+                    <ul className="rounded-md border divide-y text-sm">
+                      {proof.draw.results.map((drawResult) => (
+                        <li key={drawResult.position} className="flex justify-between px-4 py-2">
+                          <span>
+                            {formatPosition(drawResult.position)} prize{drawResult.title && <span className="text-muted-foreground"> - {drawResult.title}</span>}
+                          </span>
+                          <span className="font-bold">#{drawResult.ticketNumber}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  <div className="space-y-2">
+                    <ProofField label="Algorithm" value={proof.draw.algorithm} />
+                    <ProofField label="Revealed server seed" value={proof.draw.serverSeed} />
+                    <ProofField label="Public input (tickets sold : draw date)" value={proof.draw.publicInput ?? "-"} />
+                    <ProofField label="SHA-256 of ticket numbers" value={proof.draw.snapshotHash} />
+                    <ProofField label="Tickets in the draw" value={String(proof.draw.ticketNumbers.length)} />
+                  </div>
+
+                  <div className="rounded-md border p-4">
+                    {isVerifying || !result ? (
+                      <p className="flex items-center text-sm text-muted-foreground">
+                        <RefreshCw className="h-4 w-4 mr-2 animate-spin" /> Recomputing the draw in your browser...
+                      </p>
+                    ) : (
+                      <div className="space-y-2">
+                        <p className={`flex items-center font-semibold ${result.valid ? "text-green-500" : "text-red-500"}`}>
+                          {result.valid ? <ShieldCheck className="h-5 w-5 mr-2" /> : <ShieldAlert className="h-5 w-5 mr-2" />}
+                          {result.valid
+                            ? `Verified - your browser picked the same winning ticket${result.recomputedTicketNumbers.length > 1 ? "s" : ""}`
+                            : "Verification failed"}
+                        </p>
+                        <div className="flex flex-wrap gap-2">
+                          <CheckBadge ok={result.seedMatchesCommitment} label="Seed matches commitment" />
+                          <CheckBadge ok={result.snapshotHashMatches} label="Ticket list matches hash" />
+                          <CheckBadge ok={result.publicInputMatches} label="Public input matches tickets sold" />
+                        </div>
+                        {result.recomputedTicketNumbers.length > 0 && (
+                          <p className="text-sm text-muted-foreground">
+                            Recomputed winning ticket{result.recomputedTicketNumbers.length > 1 ? "s" : ""}:{" "}
+                            {result.recomputedTicketNumbers.map((ticketNumber) => `#${ticketNumber}`).join(", ")}
+                          </p>
+                        )}
+                      </div>
+                    )}
+                  </div>
+
+                  <details className="text-sm">
+                    <summary className="cursor-pointer text-muted-foreground">How is the winner picked?</summary>
+                    <p className="mt-2 text-muted-foreground">
+                      The ticket numbers are sorted and hashed. We then compute
+                      SHA-256("seed:public input:ticket hash:counter") starting with counter 0, read the first
+                      12 hex characters as a number and, if it falls inside the largest multiple of the ticket
+                      count below 2^48, take it modulo the ticket count as the winning position. Otherwise the
+                      counter is increased and the step repeated, so every ticket has exactly the same chance.
+                      With more than one prize the winning ticket is taken out and the step repeated for each
+                      lower prize, adding ":1" to the seed for 2nd prize, ":2" for 3rd and so on.
+                    </p>
+                  </details>
+                </CardContent>
+              </Card>
+            ) : (
+              <Card>
+                <CardContent className="py-8 text-center text-muted-foreground">
+                  This competition has not been drawn yet. Come back after the draw to check the result.
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+
+        <div className="text-center">
+          <Link href="/competitions">
+            <Button variant="outline">Browse Competitions</Button>
+          </Link>
+        </div>
+      </div>
+    </section>
+  );
+}
+
+function ProofField({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <div className="text-xs text-muted-foreground">{label}</div>
+      <div className="font-mono text-sm break-all">{value}</div>
+    </div>
+  );
+}
+
+function CheckBadge({ ok, label }: { ok: boolean; label: string }) {
+  return (
+    <Badge variant={ok ? "secondary" : "destructive"} className={ok ? "bg-green-600/10 text-green-600 border-green-600/20" : ""}>
+      {ok ? "✓" : "✗"} {label}
+    </Badge>
+  );
+}
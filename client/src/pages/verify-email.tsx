@@ -0,0 +1,77 @@
+import { useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button, Card, CardContent, CardHeader, CardTitle } from "@/components/ui/index";
+import { CheckCircle2, MailWarning } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+// Opened from the link in the verification email
+export default function VerifyEmailPage() {
+  const token = new URLSearchParams(window.location.search).get("token");
+
+  const verifyMutation = useMutation({
+    mutationFn: async (verificationToken: string) => {
+      const res = await apiRequest("POST", "/api/verify-email", { token: verificationToken });
+      return res.json() as Promise<{ message: string; email: string }>;
+    },
+    onSuccess: () => {
+      // Clears the navbar banner if this browser is signed in
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    },
+  });
+
+  useEffect(() => {
+    if (token) {
+      verifyMutation.mutate(token);
+    }
+  }, [token]);
+
+  const failed = !token || verifyMutation.isError;
+
+  return (
+    <section className="py-16 bg-background flex-grow">
+      <div className="max-w-md mx-auto px-4">
+        <Card>
+          <CardHeader>
+            {verifyMutation.isSuccess ? (
+              <CheckCircle2 className="h-8 w-8 text-green-500 mb-2" />
+            ) : (
+              <MailWarning className="h-8 w-8 text-primary mb-2" />
+            )}
+            <CardTitle>
+              {verifyMutation.isSuccess ? "Email address verified" : failed ? "We couldn't verify your email" : "Verifying your email..."}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {verifyMutation.isSuccess && (
+              <>
+                <p className="text-muted-foreground">
+                  {verifyMutation.data.message} You can now buy tickets with {verifyMutation.data.email}.
+                </p>
+                <Link href="/competitions">
+                  <Button className="w-full">Browse Competitions</Button>
+                </Link>
+              </>
+            )}
+            {failed && (
+              <>
+                <p className="text-muted-foreground">
+                  {verifyMutation.error?.message || "This verification link is invalid."} Sign in and use
+                  the "Resend the link" option at the top of the page to get a new one.
+                </p>
+                <Link href="/auth">
+                  <Button variant="outline" className="w-full">Sign in</Button>
+                </Link>
+              </>
+            )}
+            {verifyMutation.isPending && (
+              <div className="flex justify-center py-4">
+                <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full"></div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </section>
+  );
+}
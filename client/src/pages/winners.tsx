@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { PublicWinnersPage } from "@shared/schema";
+import { Button, Card, CardContent } from "@/components/ui/index";
+import { ChevronLeft, ChevronRight, Quote, ShieldCheck, Trophy } from "lucide-react";
+import { formatCurrency, formatDate, formatPosition } from "@/lib/utils";
+
+const PAGE_SIZE = 12;
+
+export default function WinnersPage() {
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading, error } = useQuery<PublicWinnersPage>({
+    queryKey: [`/api/public/winners?page=${page}&pageSize=${PAGE_SIZE}`],
+  });
+
+  return (
+    <section className="py-16 bg-background flex-grow">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="text-center mb-12">
+          <Trophy className="h-10 w-10 text-orange-500 mx-auto mb-2" />
+          <h1 className="text-3xl font-bold mb-2">Our Winners</h1>
+          <p className="text-muted-foreground max-w-2xl mx-auto">
+            Every finished draw with its winning ticket. Each draw can be checked independently
+            from its draw proof.
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center my-12">
+            <div className="animate-spin w-10 h-10 border-4 border-primary border-t-transparent rounded-full"></div>
+          </div>
+        ) : error || !data ? (
+          <Card>
+            <CardContent className="py-8 text-center text-muted-foreground">
+              The winners could not be loaded. Please try again later.
+            </CardContent>
+          </Card>
+        ) : data.winners.length === 0 ? (
+          <div className="text-center py-16 px-4 bg-card rounded-lg border border-border">
+            <Trophy className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-xl font-bold mb-2">No Winners Yet</h3>
+            <p className="text-muted-foreground mb-6 max-w-md mx-auto">
+              Winners appear here as soon as each competition is drawn.
+            </p>
+            <Link href="/competitions">
+              <Button>
+                Browse Competitions <ChevronRight className="ml-2 h-4 w-4" />
+              </Button>
+            </Link>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {data.winners.map((winner) => (
+                <Card key={winner.winnerId} className="overflow-hidden flex flex-col">
+                  <div className="relative h-40">
+                    <img
+                      src={winner.photoUrl || winner.competitionImageUrl || "https://placehold.co/400x200/1a1f2b/FFFFFF/png?text=No+Image"}
+                      alt={winner.photoUrl ? `${winner.winnerName} with their prize` : winner.competitionTitle}
+                      className="w-full h-full object-cover"
+                    />
+                    <div className="absolute bottom-2 left-2 text-xs bg-primary text-white rounded px-2 py-1 font-semibold">
+                      Ticket #{winner.ticketNumber}
+                    </div>
+                  </div>
+                  <CardContent className="pt-4 flex-grow flex flex-col gap-2">
+                    <div>
+                      <h3 className="font-semibold text-lg">{winner.prizeTitle}</h3>
+                      <p className="text-sm text-muted-foreground">
+                        {winner.position ? `${formatPosition(winner.position)} prize in ` : ""}
+                        {winner.competitionTitle} - {formatCurrency(winner.prizeValue)}
+                      </p>
+                    </div>
+                    <p className="text-sm">
+                      Won by <span className="font-medium">{winner.winnerName}</span>
+                      {winner.drawnAt && <> on {formatDate(winner.drawnAt)}</>}
+                    </p>
+                    {winner.testimonial && (
+                      <blockquote className="text-sm italic text-muted-foreground border-l-2 border-orange-500 pl-3">
+                        <Quote className="h-3 w-3 inline mr-1" />
+                        {winner.testimonial}
+                      </blockquote>
+                    )}
+                    <Link
+                      href={`/competitions/${winner.competitionId}/verify`}
+                      className="mt-auto inline-flex items-center text-sm text-primary hover:underline"
+                    >
+                      <ShieldCheck className="h-4 w-4 mr-1" /> Verify the draw
+                    </Link>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            {data.totalPages > 1 && (
+              <div className="flex justify-center items-center gap-4 mt-8">
+                <Button variant="outline" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                  <ChevronLeft className="mr-1 h-4 w-4" /> Previous
+                </Button>
+                <span className="text-sm text-muted-foreground">
+                  Page {data.page} of {data.totalPages}
+                </span>
+                <Button variant="outline" disabled={page >= data.totalPages} onClick={() => setPage(page + 1)}>
+                  Next <ChevronRight className="ml-1 h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,88 @@
+import { db } from './db';
+import { competitions, draws, entries, orderItems, winners, type UserStats } from '@shared/schema';
+import { and, eq, gte, inArray, isNull, sql } from 'drizzle-orm';
+
+// Spend is what the order line charged, or the ticket price for entries
+// bought before orders were recorded
+const entrySpend = sql<number>`coalesce(sum(
+  case when ${entries.paymentStatus} = 'completed'
+    then coalesce(${orderItems.total}, ${entries.ticketCount} * ${competitions.ticketPrice})
+    else 0
+  end
+), 0)`;
+
+/**
+ * Account Service - a signed-in user's view of their own account
+ */
+export class AccountService {
+  /**
+   * Entries, live competitions, wins and spend for the profile page.
+   * Refunded and unpaid entries are not counted.
+   */
+  static async getStats(userId: number): Promise<UserStats> {
+    const countedEntry = and(
+      eq(entries.userId, userId),
+      inArray(entries.paymentStatus, ['completed', 'free'])
+    );
+
+    const [entryTotals] = await db.select({
+      totalEntries: sql<number>`count(*)`,
+      spentAmount: entrySpend
+    })
+      .from(entries)
+      .leftJoin(orderItems, eq(orderItems.entryId, entries.id))
+      .leftJoin(competitions, eq(competitions.id, entries.competitionId))
+      .where(countedEntry);
+
+    const [active] = await db.select({
+      count: sql<number>`count(distinct ${entries.competitionId})`
+    })
+      .from(entries)
+      .innerJoin(competitions, eq(competitions.id, entries.competitionId))
+      .leftJoin(draws, eq(draws.competitionId, entries.competitionId))
+      .where(and(countedEntry, isNull(competitions.cancelledAt), isNull(draws.id)));
+
+    const [won] = await db.select({ count: sql<number>`count(*)` })
+      .from(winners)
+      .where(eq(winners.userId, userId));
+
+    return {
+      totalEntries: Number(entryTotals.totalEntries),
+      activeCompetitions: Number(active.count),
+      wins: Number(won.count),
+      spentAmount: Number(entryTotals.spentAmount)
+    };
+  }
+
+  /**
+   * What a user has paid for tickets since the given time, in pence.
+   * Refunded entries are not counted.
+   */
+  static async getSpendSince(userId: number, since: Date): Promise<number> {
+    const [totals] = await db.select({ spentAmount: entrySpend })
+      .from(entries)
+      .leftJoin(orderItems, eq(orderItems.entryId, entries.id))
+      .leftJoin(competitions, eq(competitions.id, entries.competitionId))
+      .where(and(
+        eq(entries.userId, userId),
+        eq(entries.paymentStatus, 'completed'),
+        gte(entries.createdAt, since)
+      ));
+
+    return Number(totals.spentAmount);
+  }
+
+  /**
+   * Sign a user out of every session, except keepSessionId when given -
+   * e.g. the session that just changed the password
+   * @returns how many sessions were ended
+   */
+  static async revokeSessions(userId: number, keepSessionId?: string): Promise<number> {
+    const result = await db.execute(sql`
+      DELETE FROM session
+      WHERE sess->'passport'->>'user' = ${String(userId)}
+        ${keepSessionId ? sql`AND sid <> ${keepSessionId}` : sql``}
+    `);
+    return result.rowCount || 0;
+  }
+}
@@ -1,8 +1,20 @@
 import { Router } from 'express';
 import { db } from './db';
-import { competitions, entries, winners, siteConfig, users } from '@shared/schema';
+import { competitions, entries, winners, siteConfig, users, draws, drawCommitments, prizes, instantWinPrizes, instantWinTickets, orders, orderItems, postalEntries, cartItems, promoRedemptions, ticketStatuses, insertPostalEntrySchema, createPromoCodeSchema, updatePromoCodeSchema, insertInstantWinPrizeSchema, insertPrizeSchema, winnerFulfilmentSchema, guestWinnerClaimSchema, testimonialReviewSchema, identityCheckSchema, WINNER_CLAIM_STATUSES, type OrderStatus, type WinnerClaimStatus } from '@shared/schema';
 import { TicketService } from './ticket-service';
-import { eq, desc } from 'drizzle-orm';
+import { DrawService } from './draw-service';
+import { scheduler } from './scheduler';
+import { OrderService } from './order-service';
+import { RefundService } from './refund-service';
+import { AuditService } from './audit-service';
+import { PostalEntryService } from './postal-entry-service';
+import { PromoCodeService } from './promo-code-service';
+import { InstantWinService } from './instant-win-service';
+import { PrizeService } from './prize-service';
+import { WinnerService } from './winner-service';
+import { AgeVerificationService } from './age-verification-service';
+import { eq, desc, asc, and, inArray, sql } from 'drizzle-orm';
+import { z } from 'zod';
 
 // Create a router
 const adminRouter = Router();
@@ -42,6 +54,18 @@ adminRouter.post('/reset-competitions', isAdmin, async (req, res) => {
       await db.delete(winners);
       console.log('✓ Winners deleted');
       
+      // Delete all draw records and orders
+      await db.delete(draws);
+      await db.delete(drawCommitments);
+      await db.delete(instantWinTickets);
+      await db.delete(instantWinPrizes);
+      await db.delete(prizes);
+      await db.delete(orderItems);
+      await db.delete(postalEntries);
+      await db.delete(cartItems);
+      await db.delete(promoRedemptions);
+      await db.delete(orders);
+      
       // Delete all competitions
       console.log('🗑️ Deleting competitions...');
       await db.delete(competitions);
@@ -77,6 +101,17 @@ adminRouter.post('/reset-competitions', isAdmin, async (req, res) => {
       await pool.query('DELETE FROM winners');
       console.log('✓ Winners deleted via SQL');
       
+      await pool.query('DELETE FROM draws');
+      await pool.query('DELETE FROM draw_commitments');
+      await pool.query('DELETE FROM instant_win_tickets');
+      await pool.query('DELETE FROM instant_win_prizes');
+      await pool.query('DELETE FROM prizes');
+      await pool.query('DELETE FROM order_items');
+      await pool.query('DELETE FROM postal_entries');
+      await pool.query('DELETE FROM cart_items');
+      await pool.query('DELETE FROM promo_redemptions');
+      await pool.query('DELETE FROM orders');
+      
       // Finally clear competitions
       console.log('🗑️ Deleting competitions via SQL...');
       await pool.query('DELETE FROM competitions');
@@ -85,6 +120,16 @@ adminRouter.post('/reset-competitions', isAdmin, async (req, res) => {
       // Reset sequences
       await pool.query('ALTER SEQUENCE IF EXISTS entries_id_seq RESTART WITH 1');
       await pool.query('ALTER SEQUENCE IF EXISTS winners_id_seq RESTART WITH 1');
+      await pool.query('ALTER SEQUENCE IF EXISTS draws_id_seq RESTART WITH 1');
+      await pool.query('ALTER SEQUENCE IF EXISTS draw_commitments_id_seq RESTART WITH 1');
+      await pool.query('ALTER SEQUENCE IF EXISTS prizes_id_seq RESTART WITH 1');
+      await pool.query('ALTER SEQUENCE IF EXISTS instant_win_prizes_id_seq RESTART WITH 1');
+      await pool.query('ALTER SEQUENCE IF EXISTS instant_win_tickets_id_seq RESTART WITH 1');
+      await pool.query('ALTER SEQUENCE IF EXISTS order_items_id_seq RESTART WITH 1');
+      await pool.query('ALTER SEQUENCE IF EXISTS postal_entries_id_seq RESTART WITH 1');
+      await pool.query('ALTER SEQUENCE IF EXISTS cart_items_id_seq RESTART WITH 1');
+      await pool.query('ALTER SEQUENCE IF EXISTS promo_redemptions_id_seq RESTART WITH 1');
+      await pool.query('ALTER SEQUENCE IF EXISTS orders_id_seq RESTART WITH 1');
       await pool.query('ALTER SEQUENCE IF EXISTS competitions_id_seq RESTART WITH 1');
       
       await pool.query('COMMIT');
@@ -111,11 +156,21 @@ adminRouter.post('/reset-competitions', isAdmin, async (req, res) => {
         const { pool } = await import('./db');
         
         console.log('🔄 Emergency Attempt: Using TRUNCATE CASCADE');
-        await pool.query('TRUNCATE competitions, entries, winners CASCADE');
+        await pool.query('TRUNCATE competitions, entries, winners, draws, draw_commitments, prizes, instant_win_prizes, instant_win_tickets, orders, order_items, postal_entries, cart_items, promo_redemptions CASCADE');
         
         // Reset sequences
         await pool.query('ALTER SEQUENCE IF EXISTS entries_id_seq RESTART WITH 1');
         await pool.query('ALTER SEQUENCE IF EXISTS winners_id_seq RESTART WITH 1');
+        await pool.query('ALTER SEQUENCE IF EXISTS draws_id_seq RESTART WITH 1');
+        await pool.query('ALTER SEQUENCE IF EXISTS draw_commitments_id_seq RESTART WITH 1');
+        await pool.query('ALTER SEQUENCE IF EXISTS prizes_id_seq RESTART WITH 1');
+        await pool.query('ALTER SEQUENCE IF EXISTS instant_win_prizes_id_seq RESTART WITH 1');
+        await pool.query('ALTER SEQUENCE IF EXISTS instant_win_tickets_id_seq RESTART WITH 1');
+        await pool.query('ALTER SEQUENCE IF EXISTS order_items_id_seq RESTART WITH 1');
+        await pool.query('ALTER SEQUENCE IF EXISTS postal_entries_id_seq RESTART WITH 1');
+        await pool.query('ALTER SEQUENCE IF EXISTS cart_items_id_seq RESTART WITH 1');
+        await pool.query('ALTER SEQUENCE IF EXISTS promo_redemptions_id_seq RESTART WITH 1');
+        await pool.query('ALTER SEQUENCE IF EXISTS orders_id_seq RESTART WITH 1');
         await pool.query('ALTER SEQUENCE IF EXISTS competitions_id_seq RESTART WITH 1');
         
         console.log('✅ Emergency TRUNCATE completed successfully');
@@ -163,6 +218,16 @@ adminRouter.post('/dev-create-test-competitions', isAdmin, async (req, res) => {
     console.log('🧹 Clearing existing test data...');
     await db.delete(entries);
     await db.delete(winners);
+    await db.delete(draws);
+    await db.delete(drawCommitments);
+    await db.delete(instantWinTickets);
+    await db.delete(instantWinPrizes);
+    await db.delete(prizes);
+    await db.delete(orderItems);
+    await db.delete(postalEntries);
+    await db.delete(cartItems);
+    await db.delete(promoRedemptions);
+    await db.delete(orders);
     await db.delete(competitions);
     console.log('✅ Existing data cleared');
     
@@ -218,9 +283,17 @@ adminRouter.post('/dev-create-test-competitions', isAdmin, async (req, res) => {
       console.log(`📌 Creating test competition: ${comp.title}`);
       
       try {
-        const result = await db.insert(competitions).values(comp).returning();
-        const newCompId = result[0].id;
-        results.push(result[0]);
+        // Inserted offline and only put live once the draw seed is committed
+        let [created] = await db.insert(competitions).values({ ...comp, isLive: false }).returning();
+        const newCompId = created.id;
+        if (comp.isLive) {
+          await DrawService.commitSeed(newCompId);
+          [created] = await db.update(competitions)
+            .set({ isLive: true })
+            .where(eq(competitions.id, newCompId))
+            .returning();
+        }
+        results.push(created);
         console.log(`✅ Created competition: ${comp.title} with ID ${newCompId}`);
         
         // Initialize ticket statuses for this test competition
@@ -301,7 +374,8 @@ adminRouter.post('/dev-create-competition', isAdmin, async (req, res) => {
       prizeValue: prizeValue ? Number(prizeValue) : 0,
       category: category || 'APPLIANCES',
       brand: brand || '',
-      isLive: isLive || false,
+      // Goes live below, once its draw seed commitment is published
+      isLive: false,
       isFeatured: isFeatured || false,
       drawDate // Proper Date object for Drizzle
     };
@@ -311,11 +385,19 @@ adminRouter.post('/dev-create-competition', isAdmin, async (req, res) => {
       drawDate: competitionData.drawDate.toISOString() // Show it's a proper Date object
     });
     
-    const result = await db.insert(competitions).values(competitionData).returning();
-    const newCompetitionId = result[0].id;
+    let [competition] = await db.insert(competitions).values(competitionData).returning();
+    const newCompetitionId = competition.id;
     
     console.log(`✅ Successfully created competition: ${title} with ID ${newCompetitionId}`);
     
+    if (isLive) {
+      await DrawService.commitSeed(newCompetitionId);
+      [competition] = await db.update(competitions)
+        .set({ isLive: true })
+        .where(eq(competitions.id, newCompetitionId))
+        .returning();
+    }
+    
     // Initialize ticket statuses for the new competition
     try {
       console.log(`🎟️ Initializing ticket statuses for new competition ${newCompetitionId}`);
@@ -326,7 +408,7 @@ adminRouter.post('/dev-create-competition', isAdmin, async (req, res) => {
       // We don't fail the request if this fails, as the competition was created successfully
     }
     
-    return res.status(201).json(result[0]);
+    return res.status(201).json(competition);
   } catch (error: any) {
     console.error('❌ Error creating competition:', error);
     return res.status(500).json({
@@ -353,14 +435,65 @@ adminRouter.delete('/competitions/:id', isAdmin, async (req, res) => {
     const { id } = req.params;
     const numId = parseInt(id);
     
-    // Start with entries referencing this competition
-    await db.delete(entries).where(eq(entries.competitionId, numId));
+    // Paid competitions keep their records - they have to be cancelled and refunded instead
+    if (await RefundService.hasPaidEntries(numId)) {
+      return res.status(409).json({ 
+        message: 'This competition has paid entries. Cancel it to refund the entrants instead of deleting it.' 
+      });
+    }
     
-    // Then delete winners related to this competition
-    await db.delete(winners).where(eq(winners.competitionId, numId));
+    // Orders that took money stay as the record of it, even once refunded
+    const [chargedOrder] = await db.select({ id: orders.id })
+      .from(orderItems)
+      .innerJoin(orders, eq(orders.id, orderItems.orderId))
+      .where(and(
+        eq(orderItems.competitionId, numId),
+        inArray(orders.status, ['paid', 'refunded', 'partially_refunded'])
+      ))
+      .limit(1);
+    if (chargedOrder) {
+      return res.status(409).json({
+        message: 'This competition has paid or refunded orders and cannot be deleted. Cancel it instead.'
+      });
+    }
     
-    // Finally delete the competition itself
-    const result = await db.delete(competitions).where(eq(competitions.id, numId)).returning();
+    // Everything goes together or not at all, so nothing is left pointing at a missing competition
+    const result = await db.transaction(async (tx) => {
+      // Unpaid order lines for this competition, and any order left with no lines
+      const orderLines = await tx.delete(orderItems)
+        .where(eq(orderItems.competitionId, numId))
+        .returning({ orderId: orderItems.orderId });
+      const orderIds = Array.from(new Set(orderLines.map(line => line.orderId)));
+      if (orderIds.length) {
+        const emptyOrders = and(
+          inArray(orders.id, orderIds),
+          sql`NOT EXISTS (SELECT 1 FROM ${orderItems} WHERE ${orderItems.orderId} = ${orders.id})`
+        );
+        const removed = await tx.delete(orders).where(emptyOrders).returning({ id: orders.id });
+        if (removed.length) {
+          await tx.delete(promoRedemptions).where(inArray(promoRedemptions.orderId, removed.map(order => order.id)));
+        }
+      }
+      
+      // Entries, their tickets and anything still sitting in a cart
+      await tx.delete(postalEntries).where(eq(postalEntries.competitionId, numId));
+      await tx.delete(entries).where(eq(entries.competitionId, numId));
+      await tx.delete(ticketStatuses).where(eq(ticketStatuses.competitionId, numId));
+      await tx.delete(cartItems).where(eq(cartItems.competitionId, numId));
+      
+      // Then delete winners related to this competition
+      await tx.delete(winners).where(eq(winners.competitionId, numId));
+      
+      // And the draw record, seed commitment and prizes
+      await tx.delete(draws).where(eq(draws.competitionId, numId));
+      await tx.delete(drawCommitments).where(eq(drawCommitments.competitionId, numId));
+      await tx.delete(instantWinTickets).where(eq(instantWinTickets.competitionId, numId));
+      await tx.delete(instantWinPrizes).where(eq(instantWinPrizes.competitionId, numId));
+      await tx.delete(prizes).where(eq(prizes.competitionId, numId));
+      
+      // Finally delete the competition itself
+      return tx.delete(competitions).where(eq(competitions.id, numId)).returning();
+    });
     
     if (result.length === 0) {
       return res.status(404).json({ message: 'Competition not found' });
@@ -635,6 +768,684 @@ adminRouter.get('/competitions/:competitionId/ticket/:ticketNumber/owner', isAdm
   }
 });
 
+// Admin endpoint to run the draw for a competition
+adminRouter.post('/competitions/:id/draw', isAdmin, async (req, res) => {
+  try {
+    const competitionId = parseInt(req.params.id);
+
+    if (isNaN(competitionId)) {
+      return res.status(400).json({ message: 'Invalid competition ID format' });
+    }
+
+    const competition = await db.select()
+      .from(competitions)
+      .where(eq(competitions.id, competitionId))
+      .limit(1);
+
+    if (!competition.length) {
+      return res.status(404).json({ message: 'Competition not found' });
+    }
+
+    try {
+      const draw = await DrawService.runDraw(competitionId, req.user?.id ?? null);
+      return res.status(201).json(draw);
+    } catch (drawError: any) {
+      console.error(`❌ Draw failed for competition ${competitionId}:`, drawError);
+      return res.status(400).json({ message: drawError.message });
+    }
+  } catch (error: any) {
+    console.error('❌ Error running draw:', error);
+    res.status(500).json({ message: 'Failed to run draw', error: error.message });
+  }
+});
+
+// Admin endpoint to view the full draw record, including the entrant snapshot
+adminRouter.get('/competitions/:id/draw', isAdmin, async (req, res) => {
+  try {
+    const competitionId = parseInt(req.params.id);
+
+    if (isNaN(competitionId)) {
+      return res.status(400).json({ message: 'Invalid competition ID format' });
+    }
+
+    const draw = await DrawService.getDraw(competitionId);
+    if (!draw) {
+      return res.status(404).json({ message: 'This competition has not been drawn yet' });
+    }
+
+    res.json({ ...draw, verification: DrawService.verifyDraw(draw) });
+  } catch (error: any) {
+    console.error('❌ Error fetching draw:', error);
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Admin endpoint to cancel a competition and refund every paid entry
+adminRouter.post('/competitions/:id/cancel', isAdmin, async (req, res) => {
+  try {
+    const competitionId = parseInt(req.params.id);
+
+    if (isNaN(competitionId)) {
+      return res.status(400).json({ message: 'Invalid competition ID format' });
+    }
+
+    const reason = typeof req.body.reason === 'string' ? req.body.reason.trim() : '';
+    if (!reason) {
+      return res.status(400).json({ message: 'A cancellation reason is required' });
+    }
+
+    try {
+      const result = await RefundService.cancelCompetition(competitionId, reason, req.user?.id ?? null);
+      // 207 tells the admin some refunds need another attempt
+      return res.status(result.failed.length ? 207 : 200).json(result);
+    } catch (cancelError: any) {
+      if (cancelError.message === 'Competition not found') {
+        return res.status(404).json({ message: cancelError.message });
+      }
+      return res.status(400).json({ message: cancelError.message });
+    }
+  } catch (error: any) {
+    console.error('❌ Error cancelling competition:', error);
+    res.status(500).json({ message: 'Failed to cancel competition', error: error.message });
+  }
+});
+
+// Admin endpoint to list refunds and the audit trail for a competition
+adminRouter.get('/competitions/:id/refunds', isAdmin, async (req, res) => {
+  try {
+    const competitionId = parseInt(req.params.id);
+
+    if (isNaN(competitionId)) {
+      return res.status(400).json({ message: 'Invalid competition ID format' });
+    }
+
+    res.json({
+      refunds: await RefundService.getRefundsForCompetition(competitionId),
+      auditLog: await AuditService.getForEntity('competition', competitionId)
+    });
+  } catch (error: any) {
+    console.error('❌ Error fetching refunds:', error);
+    res.status(500).json({ message: 'Failed to fetch refunds', error: error.message });
+  }
+});
+
+// Admin endpoint to add a prize below a competition's existing prizes
+adminRouter.post('/competitions/:id/prizes', isAdmin, async (req, res) => {
+  try {
+    const competitionId = parseInt(req.params.id);
+
+    if (isNaN(competitionId)) {
+      return res.status(400).json({ message: 'Invalid competition ID format' });
+    }
+
+    const data = insertPrizeSchema.parse(req.body);
+
+    try {
+      const prize = await PrizeService.addPrize(competitionId, data, req.user!.id);
+      return res.status(201).json(prize);
+    } catch (addError: any) {
+      if (addError.message === 'Competition not found') {
+        return res.status(404).json({ message: addError.message });
+      }
+      return res.status(400).json({ message: addError.message });
+    }
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid prize', errors: error.errors });
+    }
+    console.error('❌ Error adding prize:', error);
+    res.status(500).json({ message: 'Failed to add prize', error: error.message });
+  }
+});
+
+// Admin endpoint to remove a prize before the draw - the prizes below move up a place
+adminRouter.delete('/prizes/:id', isAdmin, async (req, res) => {
+  try {
+    const prizeId = parseInt(req.params.id);
+
+    if (isNaN(prizeId)) {
+      return res.status(400).json({ message: 'Invalid prize ID format' });
+    }
+
+    try {
+      await PrizeService.removePrize(prizeId, req.user!.id);
+      return res.json({ success: true });
+    } catch (removeError: any) {
+      if (removeError.message === 'Prize not found') {
+        return res.status(404).json({ message: removeError.message });
+      }
+      return res.status(400).json({ message: removeError.message });
+    }
+  } catch (error: any) {
+    console.error('❌ Error removing prize:', error);
+    res.status(500).json({ message: 'Failed to remove prize', error: error.message });
+  }
+});
+
+// Admin endpoint to list winners, optionally by claim status
+adminRouter.get('/winners', isAdmin, async (req, res) => {
+  try {
+    const status = typeof req.query.status === 'string' && req.query.status !== 'all'
+      ? req.query.status as WinnerClaimStatus
+      : undefined;
+
+    if (status && !WINNER_CLAIM_STATUSES.includes(status)) {
+      return res.status(400).json({ message: 'Invalid claim status' });
+    }
+
+    res.json(await WinnerService.listWinners(status));
+  } catch (error: any) {
+    console.error('❌ Error fetching winners:', error);
+    res.status(500).json({ message: 'Failed to fetch winners', error: error.message });
+  }
+});
+
+// Admin endpoint to record the claim of a guest postal winner, who has no
+// account to claim from
+adminRouter.post('/winners/:id/claim', isAdmin, async (req, res) => {
+  try {
+    const winnerId = parseInt(req.params.id);
+
+    if (isNaN(winnerId)) {
+      return res.status(400).json({ message: 'Invalid winner ID format' });
+    }
+
+    const data = guestWinnerClaimSchema.parse(req.body);
+
+    try {
+      res.json(await WinnerService.claimOnBehalf(winnerId, req.user!.id, data));
+    } catch (claimError: any) {
+      if (claimError.message === 'Winner not found') {
+        return res.status(404).json({ message: claimError.message });
+      }
+      return res.status(400).json({ message: claimError.message });
+    }
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid claim details', errors: error.errors });
+    }
+    console.error('❌ Error claiming win:', error);
+    res.status(500).json({ message: 'Failed to claim win', error: error.message });
+  }
+});
+
+// Admin endpoint to mark a claimed win as sent, with its tracking number
+adminRouter.post('/winners/:id/dispatch', isAdmin, async (req, res) => {
+  try {
+    const winnerId = parseInt(req.params.id);
+
+    if (isNaN(winnerId)) {
+      return res.status(400).json({ message: 'Invalid winner ID format' });
+    }
+
+    const data = winnerFulfilmentSchema.parse(req.body);
+
+    try {
+      res.json(await WinnerService.dispatch(winnerId, req.user!.id, data));
+    } catch (dispatchError: any) {
+      if (dispatchError.message === 'Winner not found') {
+        return res.status(404).json({ message: dispatchError.message });
+      }
+      return res.status(400).json({ message: dispatchError.message });
+    }
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid fulfilment details', errors: error.errors });
+    }
+    console.error('❌ Error dispatching win:', error);
+    res.status(500).json({ message: 'Failed to dispatch win', error: error.message });
+  }
+});
+
+// Admin endpoint to mark a dispatched win as delivered
+adminRouter.post('/winners/:id/deliver', isAdmin, async (req, res) => {
+  try {
+    const winnerId = parseInt(req.params.id);
+
+    if (isNaN(winnerId)) {
+      return res.status(400).json({ message: 'Invalid winner ID format' });
+    }
+
+    try {
+      res.json(await WinnerService.deliver(winnerId, req.user!.id));
+    } catch (deliverError: any) {
+      if (deliverError.message === 'Winner not found') {
+        return res.status(404).json({ message: deliverError.message });
+      }
+      return res.status(400).json({ message: deliverError.message });
+    }
+  } catch (error: any) {
+    console.error('❌ Error marking win delivered:', error);
+    res.status(500).json({ message: 'Failed to mark win delivered', error: error.message });
+  }
+});
+
+// Admin endpoint to change a win's tracking number or fulfilment notes
+adminRouter.patch('/winners/:id', isAdmin, async (req, res) => {
+  try {
+    const winnerId = parseInt(req.params.id);
+
+    if (isNaN(winnerId)) {
+      return res.status(400).json({ message: 'Invalid winner ID format' });
+    }
+
+    const data = winnerFulfilmentSchema.parse(req.body);
+
+    try {
+      res.json(await WinnerService.updateFulfilment(winnerId, req.user!.id, data));
+    } catch (updateError: any) {
+      if (updateError.message === 'Winner not found') {
+        return res.status(404).json({ message: updateError.message });
+      }
+      return res.status(400).json({ message: updateError.message });
+    }
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid fulfilment details', errors: error.errors });
+    }
+    console.error('❌ Error updating win fulfilment:', error);
+    res.status(500).json({ message: 'Failed to update win', error: error.message });
+  }
+});
+
+// Admin endpoint to approve or reject a winner's photo and testimonial for the public gallery
+adminRouter.post('/winners/:id/testimonial', isAdmin, async (req, res) => {
+  try {
+    const winnerId = parseInt(req.params.id);
+
+    if (isNaN(winnerId)) {
+      return res.status(400).json({ message: 'Invalid winner ID format' });
+    }
+
+    const { status } = testimonialReviewSchema.parse(req.body);
+
+    try {
+      res.json(await WinnerService.reviewTestimonial(winnerId, req.user!.id, status));
+    } catch (reviewError: any) {
+      if (reviewError.message === 'Winner not found') {
+        return res.status(404).json({ message: reviewError.message });
+      }
+      return res.status(400).json({ message: reviewError.message });
+    }
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid review', errors: error.errors });
+    }
+    console.error('❌ Error reviewing testimonial:', error);
+    res.status(500).json({ message: 'Failed to review testimonial', error: error.message });
+  }
+});
+
+// Admin endpoint to record the result of checking a winner's photo ID,
+// which must pass before the prize can be dispatched
+adminRouter.post('/winners/:id/identity', isAdmin, async (req, res) => {
+  try {
+    const winnerId = parseInt(req.params.id);
+
+    if (isNaN(winnerId)) {
+      return res.status(400).json({ message: 'Invalid winner ID format' });
+    }
+
+    const { result } = identityCheckSchema.parse(req.body);
+
+    try {
+      res.json(await WinnerService.checkIdentity(winnerId, req.user!.id, result));
+    } catch (checkError: any) {
+      if (checkError.message === 'Winner not found') {
+        return res.status(404).json({ message: checkError.message });
+      }
+      return res.status(400).json({ message: checkError.message });
+    }
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid ID check result', errors: error.errors });
+    }
+    console.error('❌ Error recording ID check:', error);
+    res.status(500).json({ message: 'Failed to record ID check', error: error.message });
+  }
+});
+
+// Admin endpoint to mark a user's age and residency verified or failed after checking their ID
+adminRouter.post('/users/:id/age-verification', isAdmin, async (req, res) => {
+  try {
+    const userId = parseInt(req.params.id);
+
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: 'Invalid user ID format' });
+    }
+
+    const { result } = identityCheckSchema.parse(req.body);
+
+    try {
+      const { password, ...user } = await AgeVerificationService.setStatus(userId, req.user!.id, result);
+      res.json(user);
+    } catch (verifyError: any) {
+      if (verifyError.message === 'User not found') {
+        return res.status(404).json({ message: verifyError.message });
+      }
+      return res.status(400).json({ message: verifyError.message });
+    }
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid verification result', errors: error.errors });
+    }
+    console.error('❌ Error updating age verification:', error);
+    res.status(500).json({ message: 'Failed to update age verification', error: error.message });
+  }
+});
+
+// Admin endpoint to list a competition's instant win prizes with their ticket numbers and winners
+adminRouter.get('/competitions/:id/instant-wins', isAdmin, async (req, res) => {
+  try {
+    const competitionId = parseInt(req.params.id);
+
+    if (isNaN(competitionId)) {
+      return res.status(400).json({ message: 'Invalid competition ID format' });
+    }
+
+    res.json(await InstantWinService.getPrizeDetails(competitionId));
+  } catch (error: any) {
+    console.error('❌ Error fetching instant win prizes:', error);
+    res.status(500).json({ message: 'Failed to fetch instant win prizes', error: error.message });
+  }
+});
+
+// Admin endpoint to add an instant win prize at chosen ticket numbers or hidden at random
+adminRouter.post('/competitions/:id/instant-wins', isAdmin, async (req, res) => {
+  try {
+    const competitionId = parseInt(req.params.id);
+
+    if (isNaN(competitionId)) {
+      return res.status(400).json({ message: 'Invalid competition ID format' });
+    }
+
+    const data = insertInstantWinPrizeSchema.parse(req.body);
+
+    try {
+      const prize = await InstantWinService.addPrize(competitionId, data, req.user!.id);
+      return res.status(201).json(prize);
+    } catch (addError: any) {
+      if (addError.message === 'Competition not found') {
+        return res.status(404).json({ message: addError.message });
+      }
+      return res.status(400).json({ message: addError.message });
+    }
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid instant win prize', errors: error.errors });
+    }
+    console.error('❌ Error adding instant win prize:', error);
+    res.status(500).json({ message: 'Failed to add instant win prize', error: error.message });
+  }
+});
+
+// Admin endpoint to remove an instant win prize that nobody has won
+adminRouter.delete('/instant-wins/:id', isAdmin, async (req, res) => {
+  try {
+    const prizeId = parseInt(req.params.id);
+
+    if (isNaN(prizeId)) {
+      return res.status(400).json({ message: 'Invalid instant win prize ID format' });
+    }
+
+    try {
+      await InstantWinService.removePrize(prizeId, req.user!.id);
+      return res.json({ success: true });
+    } catch (removeError: any) {
+      if (removeError.message === 'Instant win prize not found') {
+        return res.status(404).json({ message: removeError.message });
+      }
+      return res.status(400).json({ message: removeError.message });
+    }
+  } catch (error: any) {
+    console.error('❌ Error removing instant win prize:', error);
+    res.status(500).json({ message: 'Failed to remove instant win prize', error: error.message });
+  }
+});
+
+// Admin endpoint to list recorded postal entries, optionally for one competition
+adminRouter.get('/postal-entries', isAdmin, async (req, res) => {
+  try {
+    const competitionId = req.query.competitionId ? parseInt(req.query.competitionId as string) : undefined;
+
+    if (competitionId !== undefined && isNaN(competitionId)) {
+      return res.status(400).json({ message: 'Invalid competition ID format' });
+    }
+
+    res.json(await PostalEntryService.getPostalEntries({ competitionId }));
+  } catch (error: any) {
+    console.error('❌ Error fetching postal entries:', error);
+    res.status(500).json({ message: 'Failed to fetch postal entries', error: error.message });
+  }
+});
+
+// Admin endpoint to record a free postal entry for a user or a new guest entrant
+adminRouter.post('/postal-entries', isAdmin, async (req, res) => {
+  try {
+    const data = insertPostalEntrySchema.parse(req.body);
+
+    try {
+      const postalEntry = await PostalEntryService.recordPostalEntry(data, req.user!.id);
+      return res.status(201).json(postalEntry);
+    } catch (recordError: any) {
+      if (recordError.message === 'Competition not found' || recordError.message === 'User not found') {
+        return res.status(404).json({ message: recordError.message });
+      }
+      return res.status(400).json({ message: recordError.message });
+    }
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid postal entry', errors: error.errors });
+    }
+    console.error('❌ Error recording postal entry:', error);
+    res.status(500).json({ message: 'Failed to record postal entry', error: error.message });
+  }
+});
+
+function toCsvValue(value: unknown): string {
+  let text = value === null || value === undefined ? '' : String(value);
+  // Text a spreadsheet would run as a formula (names, addresses, answers) is
+  // prefixed with a quote so it opens as plain text
+  if (typeof value !== 'number' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Admin endpoint to export every entry for a competition as CSV, paid and postal alike
+adminRouter.get('/competitions/:id/entries/export', isAdmin, async (req, res) => {
+  try {
+    const competitionId = parseInt(req.params.id);
+
+    if (isNaN(competitionId)) {
+      return res.status(400).json({ message: 'Invalid competition ID format' });
+    }
+
+    const rows = await db.select({
+      entry: entries,
+      username: users.username,
+      email: users.email,
+      fullName: users.fullName,
+      isGuest: users.isGuest,
+      discount: orderItems.discount,
+      promoCode: orders.promoCode
+    })
+      .from(entries)
+      .leftJoin(users, eq(users.id, entries.userId))
+      .leftJoin(orderItems, eq(orderItems.entryId, entries.id))
+      .leftJoin(orders, eq(orders.id, orderItems.orderId))
+      .where(eq(entries.competitionId, competitionId))
+      .orderBy(asc(entries.id));
+
+    const header = ['Entry ID', 'Entry Method', 'Payment Status', 'User ID', 'Username', 'Full Name', 'Email', 'Guest', 'Ticket Count', 'Ticket Numbers', 'Skill Answer', 'Answer Correct', 'Payment Reference', 'Discount (pence)', 'Promo Code', 'Created At'];
+    const lines = rows.map(({ entry, discount, promoCode, ...user }) => [
+      entry.id,
+      entry.entryMethod,
+      entry.paymentStatus,
+      entry.userId,
+      user.username,
+      user.fullName,
+      user.email,
+      user.isGuest ? 'yes' : 'no',
+      entry.ticketCount,
+      (entry.selectedNumbers || []).join(' '),
+      entry.skillAnswer,
+      entry.skillAnswerCorrect === null ? '' : entry.skillAnswerCorrect ? 'yes' : 'no',
+      entry.stripePaymentId,
+      discount,
+      promoCode,
+      entry.createdAt ? new Date(entry.createdAt).toISOString() : ''
+    ].map(toCsvValue).join(','));
+
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', `attachment; filename="competition-${competitionId}-entries.csv"`);
+    res.send([header.join(','), ...lines].join('\n'));
+  } catch (error: any) {
+    console.error('❌ Error exporting entries:', error);
+    res.status(500).json({ message: 'Failed to export entries', error: error.message });
+  }
+});
+
+// Admin endpoint to list orders, optionally filtered by status
+adminRouter.get('/orders', isAdmin, async (req, res) => {
+  try {
+    const status = typeof req.query.status === 'string' && req.query.status !== 'all'
+      ? req.query.status as OrderStatus
+      : undefined;
+
+    res.json(await OrderService.getAllOrders(status));
+  } catch (error: any) {
+    console.error('❌ Error fetching orders:', error);
+    res.status(500).json({ message: 'Failed to fetch orders', error: error.message });
+  }
+});
+
+// Admin endpoint to view a single order with its items
+adminRouter.get('/orders/:id', isAdmin, async (req, res) => {
+  try {
+    const orderId = parseInt(req.params.id);
+
+    if (isNaN(orderId)) {
+      return res.status(400).json({ message: 'Invalid order ID format' });
+    }
+
+    const order = await OrderService.getOrderWithItems(orderId);
+    if (!order) {
+      return res.status(404).json({ message: 'Order not found' });
+    }
+
+    res.json(order);
+  } catch (error: any) {
+    console.error('❌ Error fetching order:', error);
+    res.status(500).json({ message: 'Failed to fetch order', error: error.message });
+  }
+});
+
+// Admin endpoint to list promo codes with how often each has been redeemed
+adminRouter.get('/promo-codes', isAdmin, async (req, res) => {
+  try {
+    res.json(await PromoCodeService.listPromoCodes());
+  } catch (error: any) {
+    console.error('❌ Error fetching promo codes:', error);
+    res.status(500).json({ message: 'Failed to fetch promo codes', error: error.message });
+  }
+});
+
+// Admin endpoint to create a promo code
+adminRouter.post('/promo-codes', isAdmin, async (req, res) => {
+  try {
+    const data = createPromoCodeSchema.parse(req.body);
+
+    try {
+      const promoCode = await PromoCodeService.createPromoCode(data, req.user!.id);
+      return res.status(201).json(promoCode);
+    } catch (createError: any) {
+      if (createError.message === 'Competition not found') {
+        return res.status(404).json({ message: createError.message });
+      }
+      return res.status(400).json({ message: createError.message });
+    }
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid promo code', errors: error.errors });
+    }
+    console.error('❌ Error creating promo code:', error);
+    res.status(500).json({ message: 'Failed to create promo code', error: error.message });
+  }
+});
+
+// Admin endpoint to change a promo code's terms or switch it off - the code itself is fixed
+adminRouter.patch('/promo-codes/:id', isAdmin, async (req, res) => {
+  try {
+    const promoCodeId = parseInt(req.params.id);
+
+    if (isNaN(promoCodeId)) {
+      return res.status(400).json({ message: 'Invalid promo code ID format' });
+    }
+
+    const data = updatePromoCodeSchema.parse(req.body);
+
+    try {
+      res.json(await PromoCodeService.updatePromoCode(promoCodeId, data, req.user!.id));
+    } catch (updateError: any) {
+      if (updateError.message === 'Promo code not found' || updateError.message === 'Competition not found') {
+        return res.status(404).json({ message: updateError.message });
+      }
+      return res.status(400).json({ message: updateError.message });
+    }
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid promo code', errors: error.errors });
+    }
+    console.error('❌ Error updating promo code:', error);
+    res.status(500).json({ message: 'Failed to update promo code', error: error.message });
+  }
+});
+
+// Admin endpoint to list background jobs and their last run
+adminRouter.get('/jobs', isAdmin, async (req, res) => {
+  try {
+    res.json(await scheduler.getJobs());
+  } catch (error: any) {
+    console.error('❌ Error fetching scheduled jobs:', error);
+    res.status(500).json({ message: 'Failed to fetch scheduled jobs', error: error.message });
+  }
+});
+
+// Admin endpoint to run a background job straight away
+adminRouter.post('/jobs/:name/run', isAdmin, async (req, res) => {
+  try {
+    const job = await scheduler.triggerNow(req.params.name);
+    if (!job) {
+      return res.status(404).json({ message: 'Job not found' });
+    }
+
+    res.json(job);
+  } catch (error: any) {
+    console.error('❌ Error triggering scheduled job:', error);
+    res.status(500).json({ message: 'Failed to trigger job', error: error.message });
+  }
+});
+
+// Admin endpoint to pause or resume a background job
+adminRouter.patch('/jobs/:name', isAdmin, async (req, res) => {
+  try {
+    if (typeof req.body.enabled !== 'boolean') {
+      return res.status(400).json({ message: 'enabled must be true or false' });
+    }
+
+    const job = await scheduler.setEnabled(req.params.name, req.body.enabled);
+    if (!job) {
+      return res.status(404).json({ message: 'Job not found' });
+    }
+
+    res.json(job);
+  } catch (error: any) {
+    console.error('❌ Error updating scheduled job:', error);
+    res.status(500).json({ message: 'Failed to update job', error: error.message });
+  }
+});
+
 // Prepare for Render deployment endpoint
 adminRouter.post('/prepare-render-deploy', isAdmin, async (req, res) => {
   try {
@@ -0,0 +1,70 @@
+import { db } from './db';
+import { users, type AgeVerificationStatus, type User } from '@shared/schema';
+import { AuditService } from './audit-service';
+import { eq } from 'drizzle-orm';
+
+/**
+ * Age Verification Service - players must be UK residents aged 18 or over
+ *
+ * A date of birth and UK postal address, validated at registration or on the
+ * profile page, make an account 'declared' and able to buy tickets. An admin
+ * marks the account 'verified' or 'failed' after checking photo ID - always
+ * before a prize is released. Failed accounts cannot play.
+ */
+export class AgeVerificationService {
+  static isEligible(user: Pick<User, 'ageVerificationStatus'>): boolean {
+    return user.ageVerificationStatus === 'declared' || user.ageVerificationStatus === 'verified';
+  }
+
+  /**
+   * Why the user cannot buy tickets, or null when they can
+   */
+  static ineligibleReason(user: Pick<User, 'ageVerificationStatus'>): string | null {
+    if (this.isEligible(user)) {
+      return null;
+    }
+    if (user.ageVerificationStatus === 'failed') {
+      return 'We could not verify that you are 18 or over and live in the UK, so you cannot enter competitions. Please contact support.';
+    }
+    return 'Please add your date of birth and UK address to your profile before buying tickets.';
+  }
+
+  /**
+   * The status after the user gives their own date of birth and address.
+   * An admin's verified or failed result is never overwritten.
+   */
+  static declaredStatus(
+    user: Pick<User, 'ageVerificationStatus'>,
+    details: Pick<User, 'dateOfBirth' | 'address'>
+  ): AgeVerificationStatus {
+    if (user.ageVerificationStatus === 'verified' || user.ageVerificationStatus === 'failed') {
+      return user.ageVerificationStatus;
+    }
+    return details.dateOfBirth && details.address ? 'declared' : 'unverified';
+  }
+
+  /**
+   * Record an admin's result after checking the user's photo ID
+   */
+  static async setStatus(
+    userId: number,
+    actorId: number,
+    status: Extract<AgeVerificationStatus, 'verified' | 'failed'>
+  ): Promise<User> {
+    const [updated] = await db.update(users)
+      .set({ ageVerificationStatus: status, ageVerifiedAt: new Date(), ageVerifiedBy: actorId })
+      .where(eq(users.id, userId))
+      .returning();
+
+    if (!updated) {
+      throw new Error('User not found');
+    }
+
+    await AuditService.record(actorId, `user.age_${status}`, 'user', userId, {
+      dateOfBirth: updated.dateOfBirth
+    });
+
+    console.log(`🪪 Age verification for user ${userId} marked ${status}`);
+    return updated;
+  }
+}
@@ -1,11 +1,18 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupAuth } from "./auth";
+import { scheduler } from "./scheduler";
+import { EmailService } from "./email-service";
 import { log } from "./vite";
 
 // Create Express application
 const app = express();
-app.use(express.json());
+// Keep the raw body so Stripe webhook signatures can be verified
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    (req as any).rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 
 // Setup CORS for separate frontend deployment
@@ -113,12 +120,21 @@ app.use((req, res, next) => {
 
 // Start server
 (async () => {
+  EmailService.checkTransport();
+
   // First register the authentication routes
   setupAuth(app);
   
   // Then register all other routes
   const server = await registerRoutes(app);
 
+  // Start background jobs (draws, reservation expiry, housekeeping)
+  if (process.env.DISABLE_SCHEDULER !== 'true') {
+    scheduler.start().catch(error => {
+      console.error('❌ Failed to start job scheduler:', error);
+    });
+  }
+
   // Error handling middleware
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
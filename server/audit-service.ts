@@ -0,0 +1,32 @@
+import { db } from './db';
+import { auditLogs, type AuditLog } from '@shared/schema';
+import { and, eq, desc } from 'drizzle-orm';
+
+/**
+ * Audit Service - an append-only record of admin and system actions
+ * that move money or change results
+ */
+export class AuditService {
+  static async record(
+    actorId: number | null,
+    action: string,
+    entityType: string,
+    entityId: number,
+    details: Record<string, unknown> = {}
+  ): Promise<void> {
+    try {
+      await db.insert(auditLogs).values({ actorId, action, entityType, entityId, details });
+      console.log(`📝 Audit: ${action} on ${entityType} ${entityId} by ${actorId ?? 'system'}`);
+    } catch (error) {
+      // Losing an audit row must never undo the action it describes
+      console.error(`❌ Failed to write audit log for ${action} on ${entityType} ${entityId}:`, error);
+    }
+  }
+
+  static async getForEntity(entityType: string, entityId: number): Promise<AuditLog[]> {
+    return db.select()
+      .from(auditLogs)
+      .where(and(eq(auditLogs.entityType, entityType), eq(auditLogs.entityId, entityId)))
+      .orderBy(desc(auditLogs.createdAt));
+  }
+}
@@ -5,7 +5,15 @@ import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User, insertUserSchema, loginSchema } from "@shared/schema";
+import { CartService } from "./cart-service";
+import { EmailService } from "./email-service";
+import { AccountService } from "./account-service";
+import { PasswordResetService } from "./password-reset-service";
+import { AgeVerificationService } from "./age-verification-service";
+import { EmailVerificationService } from "./email-verification-service";
+import { ResponsiblePlayService } from "./responsible-play-service";
+import { rateLimit } from "./rate-limit";
+import { User, insertUserSchema, loginSchema, updateProfileSchema, changePasswordSchema, passwordResetRequestSchema, passwordResetConfirmSchema, verifyEmailSchema, spendLimitsSchema, coolOffSchema, selfExclusionSchema } from "@shared/schema";
 import { z } from "zod";
 
 // Add proper type declaration for Express User
@@ -31,6 +39,24 @@ async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
+// Logging in starts a new session, so the guest cart is found by the old session id.
+// A failed merge must never stop the user logging in.
+async function mergeGuestCart(guestSessionId: string, userId: number) {
+  try {
+    await CartService.mergeGuestCart(guestSessionId, userId);
+  } catch (error) {
+    console.error('❌ Failed to merge guest cart into account cart:', error);
+  }
+}
+
+async function sendWelcomeEmail(user: User) {
+  try {
+    await EmailService.sendToUser(user, 'welcome', { verifyUrl: EmailVerificationService.verifyUrl(user) });
+  } catch (error) {
+    console.error('❌ Failed to queue welcome email:', error);
+  }
+}
+
 export function setupAuth(app: Express) {
   // Session configuration with cross-domain compatibility for production
   const sessionSecret = process.env.SESSION_SECRET || "blue-whale-competitions-secret";
@@ -133,6 +159,11 @@ export function setupAuth(app: Express) {
           return done(null, false, { message: "Your account has been suspended. Please contact support." });
         }
         
+        if (user.isGuest) {
+          console.error('❌ Guest entrant cannot log in:', username);
+          return done(null, false, { message: "Invalid username or password" });
+        }
+        
         return done(null, user);
       } catch (error) {
         console.error('❌ Error in LocalStrategy:', error);
@@ -204,23 +235,28 @@ export function setupAuth(app: Express) {
         email: validatedData.email,
         password: hashedPassword,
         displayName: validatedData.displayName,
+        dateOfBirth: validatedData.dateOfBirth,
+        address: validatedData.address,
         mascot: validatedData.mascot,
         notificationSettings: validatedData.notificationSettings,
         isAdmin: false
       });
       console.log('✅ User created successfully:', { id: user.id, username: user.username });
+      await sendWelcomeEmail(user);
       
       // Remove password before sending to client
       const { password, ...userWithoutPassword } = user;
       
       // Log the user in
       console.log('Logging in the newly registered user');
-      req.login(user, (err) => {
+      const guestSessionId = req.sessionID;
+      req.login(user, async (err) => {
         if (err) {
           console.error('❌ Error logging in new user:', err);
           return next(err);
         }
         console.log('✅ User logged in successfully');
+        await mergeGuestCart(guestSessionId, user.id);
         res.status(201).json(userWithoutPassword);
       });
     } catch (error) {
@@ -266,13 +302,15 @@ export function setupAuth(app: Express) {
         
         console.log('✅ User authenticated successfully:', { id: user.id, username: user.username, isAdmin: user.isAdmin });
         
-        req.login(user, (loginErr) => {
+        const guestSessionId = req.sessionID;
+        req.login(user, async (loginErr) => {
           if (loginErr) {
             console.error('❌ Login session creation error:', loginErr);
             return next(loginErr);
           }
           
           console.log('✅ Login session created successfully');
+          await mergeGuestCart(guestSessionId, user.id);
           
           // Remove password before sending to client
           const { password, ...userWithoutPassword } = user;
@@ -369,6 +407,282 @@ export function setupAuth(app: Express) {
     }
   });
 
+  // Update the signed-in user's profile
+  app.patch("/api/user", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const data = updateProfileSchema.parse(req.body);
+
+      // A new address has to be verified again before the next purchase
+      const emailChanged = data.email !== req.user.email;
+
+      if (emailChanged) {
+        const existingEmail = await storage.getUserByEmail(data.email);
+        if (existingEmail && existingEmail.id !== req.user.id) {
+          return res.status(400).json({ message: "Email already exists" });
+        }
+      }
+
+      // Once photo ID has been checked the date of birth is fixed
+      const checked = req.user.ageVerificationStatus === 'verified' || req.user.ageVerificationStatus === 'failed';
+      if (checked && data.dateOfBirth !== undefined && data.dateOfBirth !== req.user.dateOfBirth) {
+        return res.status(400).json({ message: "Your date of birth has been checked against your ID - please contact support to change it" });
+      }
+
+      const dateOfBirth = data.dateOfBirth ?? req.user.dateOfBirth;
+      const address = data.address ?? req.user.address;
+
+      const updated = await storage.updateUser(req.user.id, {
+        email: data.email,
+        ...(emailChanged && { emailVerifiedAt: null }),
+        ...(data.dateOfBirth !== undefined && { dateOfBirth: data.dateOfBirth }),
+        ...(data.address !== undefined && { address: data.address }),
+        ageVerificationStatus: AgeVerificationService.declaredStatus(req.user, { dateOfBirth, address }),
+        ...(data.displayName !== undefined && { displayName: data.displayName || null }),
+        ...(data.mascot !== undefined && { mascot: data.mascot }),
+        ...(data.notificationSettings !== undefined && { notificationSettings: data.notificationSettings })
+      });
+      if (!updated) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      console.log('✅ Profile updated:', { id: updated.id, username: updated.username });
+      if (emailChanged) {
+        try {
+          await EmailVerificationService.sendVerification(updated);
+        } catch (error) {
+          console.error('❌ Failed to queue verification email:', error);
+        }
+      }
+      const { password, ...userWithoutPassword } = updated;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid profile data", errors: error.errors });
+      }
+      console.error('❌ Error updating profile:', error);
+      next(error);
+    }
+  });
+
+  // Change the signed-in user's password and sign out their other sessions
+  app.post("/api/user/password", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const data = changePasswordSchema.parse(req.body);
+
+      const user = await storage.getUser(req.user.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      if (!(await comparePasswords(data.currentPassword, user.password))) {
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+
+      if (data.currentPassword === data.newPassword) {
+        return res.status(400).json({ message: "New password must be different from your current password" });
+      }
+
+      await storage.updateUser(user.id, { password: await hashPassword(data.newPassword) });
+      const revoked = await AccountService.revokeSessions(user.id, req.sessionID);
+
+      console.log(`✅ Password changed for user ${user.id}, signed out ${revoked} other sessions`);
+      res.json({ message: "Password updated successfully" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid password data", errors: error.errors });
+      }
+      console.error('❌ Error changing password:', error);
+      next(error);
+    }
+  });
+
+  // Entries, wins and spend for the signed-in user's profile
+  app.get("/api/user/stats", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      res.json(await AccountService.getStats(req.user.id));
+    } catch (error) {
+      console.error('❌ Error fetching user stats:', error);
+      next(error);
+    }
+  });
+
+  // Responsible play - the player's own spend limits and breaks from play
+  app.get("/api/user/responsible-play", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      res.json(await ResponsiblePlayService.getStatus(req.user.id));
+    } catch (error) {
+      console.error('❌ Error fetching responsible play settings:', error);
+      next(error);
+    }
+  });
+
+  app.put("/api/user/spend-limits", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const limits = spendLimitsSchema.parse(req.body);
+      res.json(await ResponsiblePlayService.setSpendLimits(req.user.id, limits));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid spend limits", errors: error.errors });
+      }
+      console.error('❌ Error updating spend limits:', error);
+      next(error);
+    }
+  });
+
+  app.post("/api/user/cool-off", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const { hours } = coolOffSchema.parse(req.body);
+      res.json(await ResponsiblePlayService.startCoolOff(req.user.id, hours));
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid cool-off period", errors: error.errors });
+      }
+      if (error.message?.startsWith('You are already')) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('❌ Error starting cool-off:', error);
+      next(error);
+    }
+  });
+
+  app.post("/api/user/self-exclusion", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const { months } = selfExclusionSchema.parse(req.body);
+      res.json(await ResponsiblePlayService.selfExclude(req.user.id, months));
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid self-exclusion period", errors: error.errors });
+      }
+      if (error.message?.startsWith('You are already')) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('❌ Error starting self-exclusion:', error);
+      next(error);
+    }
+  });
+
+  // Email verification - a link is sent on signup and whenever the address changes
+  const resendVerificationLimit = rateLimit({
+    windowMs: 60 * 60 * 1000,
+    max: 3,
+    message: "Too many verification emails requested. Please try again later.",
+    key: (req) => `user:${req.user?.id}`
+  });
+
+  app.post("/api/user/verify-email/resend", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    next();
+  }, resendVerificationLimit, async (req, res, next) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await EmailVerificationService.sendVerification(user);
+      res.json({ message: `We've sent a new verification link to ${user.email}.` });
+    } catch (error: any) {
+      if (error.message === 'Your email address is already verified') {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('❌ Error resending verification email:', error);
+      next(error);
+    }
+  });
+
+  // Works without signing in, so the link can be opened on any device
+  app.post("/api/verify-email", async (req, res, next) => {
+    try {
+      const { token } = verifyEmailSchema.parse(req.body);
+      const user = await EmailVerificationService.verify(token);
+      res.json({ message: "Thanks - your email address is verified.", email: user.email });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid verification link", errors: error.errors });
+      }
+      if (error.message?.startsWith('This verification link')) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('❌ Error verifying email:', error);
+      next(error);
+    }
+  });
+
+  // Password reset by emailed link, limited per IP to slow down abuse
+  const resetRequestLimit = rateLimit({
+    windowMs: 15 * 60 * 1000,
+    max: 5,
+    message: "Too many password reset requests. Please try again later."
+  });
+  const resetConfirmLimit = rateLimit({
+    windowMs: 15 * 60 * 1000,
+    max: 10,
+    message: "Too many attempts. Please try again later."
+  });
+
+  app.post("/api/password-reset/request", resetRequestLimit, async (req, res, next) => {
+    try {
+      const { email } = passwordResetRequestSchema.parse(req.body);
+      await PasswordResetService.requestReset(email, req.ip || null);
+
+      // The same answer whether or not the address is registered
+      res.json({ message: "If an account exists for that email address, we've sent a link to reset its password." });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid email address", errors: error.errors });
+      }
+      console.error('❌ Error requesting password reset:', error);
+      next(error);
+    }
+  });
+
+  app.post("/api/password-reset/confirm", resetConfirmLimit, async (req, res, next) => {
+    try {
+      const data = passwordResetConfirmSchema.parse(req.body);
+      await PasswordResetService.resetPassword(data.token, await hashPassword(data.password));
+      res.json({ message: "Your password has been reset. You can now sign in with your new password." });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid password reset", errors: error.errors });
+      }
+      if (error.message === 'This reset link is invalid or has expired') {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('❌ Error resetting password:', error);
+      next(error);
+    }
+  });
+
   // Health check endpoint is now in routes.ts
   
   // Delete user account endpoint
@@ -0,0 +1,410 @@
+import { db } from './db';
+import {
+  cartItems,
+  carts,
+  competitions,
+  type AddCartItem,
+  type Cart,
+  type CartItem,
+  type Competition,
+  type UpdateCartItem
+} from '@shared/schema';
+import { TicketService } from './ticket-service';
+import { EmailService } from './email-service';
+import { eq, and, asc, gt, inArray, isNotNull, lte } from 'drizzle-orm';
+
+// Signed-in users are emailed when their earliest hold has this long left
+const EXPIRY_REMINDER_MS = 10 * 60 * 1000;
+
+// Signed-in users own one cart; guests own the cart bound to their session
+export type CartOwner = { userId: number } | { sessionId: string };
+
+export interface CartItemDetails extends CartItem {
+  competition: Pick<
+    Competition,
+    'title' | 'imageUrl' | 'ticketPrice' | 'maxTicketsPerUser' | 'totalTickets' | 'skillQuestion' | 'skillAnswerOptions' | 'bundleTiers'
+  >;
+}
+
+export interface CartDetails {
+  id: number | null;
+  items: CartItemDetails[];
+  // Titles of items removed because their reservation ran out
+  expired: string[];
+}
+
+export interface CartChangeResult {
+  cart: CartDetails;
+  // Numbers that could not be reserved - nothing was changed if any are listed
+  lost: number[];
+}
+
+function uniqueNumbers(numbers: number[]): number[] {
+  return Array.from(new Set(numbers.map(Number)));
+}
+
+/**
+ * Cart Service - the persisted cart behind /api/cart
+ *
+ * Every change that picks numbers reserves them through TicketService, so
+ * an item's reservedUntil is the authoritative expiry of its hold. Items are
+ * dropped once that passes. A guest's cart is merged into their account
+ * cart when they sign in.
+ */
+export class CartService {
+  static async getCart(owner: CartOwner): Promise<CartDetails> {
+    const cart = await this.findCart(owner);
+    if (!cart) {
+      return { id: null, items: [], expired: [] };
+    }
+
+    return this.loadCart(cart.id);
+  }
+
+  static async addItem(owner: CartOwner, data: AddCartItem): Promise<CartChangeResult> {
+    const competition = await this.getOpenCompetition(data.competitionId);
+    const cart = await this.getOrCreateCart(owner);
+
+    const [existing] = await db.select()
+      .from(cartItems)
+      .where(and(eq(cartItems.cartId, cart.id), eq(cartItems.competitionId, competition.id)))
+      .limit(1);
+
+    const currentCount = existing?.ticketCount ?? 0;
+    const ticketCount = Math.min(currentCount + data.ticketCount, competition.maxTicketsPerUser);
+    if (ticketCount === currentCount) {
+      throw new Error(`You can only purchase up to ${competition.maxTicketsPerUser} tickets for ${competition.title}`);
+    }
+
+    const selectedNumbers = uniqueNumbers([...(existing?.selectedNumbers || []), ...data.selectedNumbers])
+      .slice(0, ticketCount);
+
+    if (selectedNumbers.length > 0) {
+      await TicketService.initializeTicketStatuses(competition.id);
+    }
+
+    // Reserving the whole set extends the hold on numbers already in the cart
+    const reservation = await TicketService.reserveTickets(competition.id, selectedNumbers, this.userIdOf(owner), cart.id);
+    if (reservation.lost.length > 0) {
+      return { cart: await this.loadCart(cart.id), lost: reservation.lost };
+    }
+
+    await db.insert(cartItems)
+      .values({
+        cartId: cart.id,
+        competitionId: competition.id,
+        ticketCount,
+        selectedNumbers,
+        skillAnswer: data.skillAnswer || existing?.skillAnswer || null,
+        reservedUntil: reservation.reservedUntil
+      })
+      .onConflictDoUpdate({
+        target: [cartItems.cartId, cartItems.competitionId],
+        set: {
+          ticketCount,
+          selectedNumbers,
+          skillAnswer: data.skillAnswer || existing?.skillAnswer || null,
+          reservedUntil: reservation.reservedUntil,
+          updatedAt: new Date()
+        }
+      });
+
+    await this.touch(cart.id);
+    console.log(`🛒 Cart ${cart.id} now holds ${ticketCount} tickets for competition ${competition.id}`);
+    return { cart: await this.loadCart(cart.id), lost: [] };
+  }
+
+  static async updateItem(owner: CartOwner, competitionId: number, data: UpdateCartItem): Promise<CartChangeResult> {
+    const cart = await this.findCart(owner);
+    const [item] = cart
+      ? await db.select()
+          .from(cartItems)
+          .where(and(eq(cartItems.cartId, cart.id), eq(cartItems.competitionId, competitionId)))
+          .limit(1)
+      : [];
+
+    if (!cart || !item) {
+      throw new Error('This competition is not in your cart');
+    }
+
+    const changes: Partial<CartItem> = { updatedAt: new Date() };
+    if (data.skillAnswer !== undefined) {
+      changes.skillAnswer = data.skillAnswer || null;
+    }
+
+    const currentNumbers = item.selectedNumbers || [];
+    if (data.ticketCount !== undefined || data.selectedNumbers !== undefined) {
+      const competition = await this.getOpenCompetition(competitionId);
+      const ticketCount = Math.min(data.ticketCount ?? item.ticketCount, competition.maxTicketsPerUser);
+      const selectedNumbers = uniqueNumbers(data.selectedNumbers ?? currentNumbers).slice(0, ticketCount);
+
+      const reservation = await TicketService.reserveTickets(competitionId, selectedNumbers, this.userIdOf(owner), cart.id);
+      if (reservation.lost.length > 0) {
+        return { cart: await this.loadCart(cart.id), lost: reservation.lost };
+      }
+
+      await TicketService.releaseCartTickets(
+        cart.id,
+        competitionId,
+        currentNumbers.filter(number => !selectedNumbers.includes(number))
+      );
+
+      changes.ticketCount = ticketCount;
+      changes.selectedNumbers = selectedNumbers;
+      changes.reservedUntil = reservation.reservedUntil;
+    }
+
+    await db.update(cartItems)
+      .set(changes)
+      .where(eq(cartItems.id, item.id));
+
+    await this.touch(cart.id);
+    return { cart: await this.loadCart(cart.id), lost: [] };
+  }
+
+  static async removeItem(owner: CartOwner, competitionId: number): Promise<CartDetails> {
+    const cart = await this.findCart(owner);
+    if (!cart) {
+      return { id: null, items: [], expired: [] };
+    }
+
+    await TicketService.releaseCartTickets(cart.id, competitionId);
+    await db.delete(cartItems)
+      .where(and(eq(cartItems.cartId, cart.id), eq(cartItems.competitionId, competitionId)));
+
+    await this.touch(cart.id);
+    return this.loadCart(cart.id);
+  }
+
+  static async clearCart(owner: CartOwner): Promise<CartDetails> {
+    const cart = await this.findCart(owner);
+    if (!cart) {
+      return { id: null, items: [], expired: [] };
+    }
+
+    const items = await db.select().from(cartItems).where(eq(cartItems.cartId, cart.id));
+    for (const item of items) {
+      await TicketService.releaseCartTickets(cart.id, item.competitionId);
+    }
+    await db.delete(cartItems).where(eq(cartItems.cartId, cart.id));
+
+    await this.touch(cart.id);
+    return { id: cart.id, items: [], expired: [] };
+  }
+
+  /**
+   * Move a guest's cart into the account they just signed in to. Items for
+   * the same competition are combined up to the per-user limit and the
+   * guest's reservations pass to the account.
+   */
+  static async mergeGuestCart(sessionId: string, userId: number): Promise<void> {
+    const [guestCart] = await db.select().from(carts).where(eq(carts.sessionId, sessionId)).limit(1);
+    if (!guestCart) {
+      return;
+    }
+
+    const guestItems = await db.select().from(cartItems).where(eq(cartItems.cartId, guestCart.id));
+    if (guestItems.length === 0) {
+      await db.delete(carts).where(eq(carts.id, guestCart.id));
+      return;
+    }
+
+    const accountCart = await this.getOrCreateCart({ userId });
+    await TicketService.transferCartReservations(guestCart.id, accountCart.id, userId);
+
+    const accountItems = await db.select().from(cartItems).where(eq(cartItems.cartId, accountCart.id));
+
+    for (const guestItem of guestItems) {
+      const accountItem = accountItems.find(item => item.competitionId === guestItem.competitionId);
+
+      if (!accountItem) {
+        await db.update(cartItems)
+          .set({ cartId: accountCart.id, updatedAt: new Date() })
+          .where(eq(cartItems.id, guestItem.id));
+        continue;
+      }
+
+      const [competition] = await db.select({ maxTicketsPerUser: competitions.maxTicketsPerUser })
+        .from(competitions)
+        .where(eq(competitions.id, guestItem.competitionId))
+        .limit(1);
+      const limit = competition?.maxTicketsPerUser ?? accountItem.ticketCount;
+
+      const ticketCount = Math.min(accountItem.ticketCount + guestItem.ticketCount, limit);
+      const combined = uniqueNumbers([...(accountItem.selectedNumbers || []), ...(guestItem.selectedNumbers || [])]);
+      const selectedNumbers = combined.slice(0, ticketCount);
+
+      // Numbers over the limit go back on sale
+      await TicketService.releaseCartTickets(accountCart.id, guestItem.competitionId, combined.slice(ticketCount));
+
+      await db.update(cartItems)
+        .set({
+          ticketCount,
+          selectedNumbers,
+          skillAnswer: accountItem.skillAnswer || guestItem.skillAnswer,
+          reservedUntil: accountItem.reservedUntil > guestItem.reservedUntil ? accountItem.reservedUntil : guestItem.reservedUntil,
+          updatedAt: new Date()
+        })
+        .where(eq(cartItems.id, accountItem.id));
+      await db.delete(cartItems).where(eq(cartItems.id, guestItem.id));
+    }
+
+    await db.delete(carts).where(eq(carts.id, guestCart.id));
+    await this.touch(accountCart.id);
+    console.log(`🛒 Merged guest cart ${guestCart.id} (${guestItems.length} items) into cart ${accountCart.id} for user ${userId}`);
+  }
+
+  /**
+   * Drop items a user has just paid for. Their tickets are already
+   * purchased, so only leftover holds are released.
+   */
+  static async removePurchasedItems(userId: number, competitionIds: number[]): Promise<void> {
+    const cart = await this.findCart({ userId });
+    if (!cart || competitionIds.length === 0) {
+      return;
+    }
+
+    for (const competitionId of competitionIds) {
+      await TicketService.releaseCartTickets(cart.id, competitionId);
+    }
+    await db.delete(cartItems)
+      .where(and(eq(cartItems.cartId, cart.id), inArray(cartItems.competitionId, competitionIds)));
+  }
+
+  /**
+   * Email signed-in users whose reserved numbers are about to be released.
+   * Each cart is reminded once per hold - extending the hold allows another.
+   * @returns the ids of the carts reminded
+   */
+  static async sendExpiryReminders(): Promise<number[]> {
+    const now = new Date();
+    const rows = await db.select({ cart: carts, reservedUntil: cartItems.reservedUntil, title: competitions.title })
+      .from(cartItems)
+      .innerJoin(carts, eq(carts.id, cartItems.cartId))
+      .innerJoin(competitions, eq(competitions.id, cartItems.competitionId))
+      .where(and(
+        isNotNull(carts.userId),
+        gt(cartItems.reservedUntil, now),
+        lte(cartItems.reservedUntil, new Date(now.getTime() + EXPIRY_REMINDER_MS))
+      ))
+      .orderBy(asc(cartItems.reservedUntil));
+
+    const expiring = new Map<number, { cart: Cart; expiresAt: Date; titles: string[] }>();
+    for (const row of rows) {
+      const current = expiring.get(row.cart.id);
+      if (current) {
+        current.titles.push(row.title);
+      } else {
+        expiring.set(row.cart.id, { cart: row.cart, expiresAt: row.reservedUntil, titles: [row.title] });
+      }
+    }
+
+    const reminded: number[] = [];
+    for (const { cart, expiresAt, titles } of Array.from(expiring.values())) {
+      if (cart.expiryReminderSentFor && cart.expiryReminderSentFor >= expiresAt) {
+        continue;
+      }
+
+      await db.update(carts).set({ expiryReminderSentFor: expiresAt }).where(eq(carts.id, cart.id));
+      try {
+        await EmailService.sendToUser(cart.userId!, 'cart_expiry', { competitionTitles: titles, expiresAt });
+        reminded.push(cart.id);
+      } catch (error) {
+        console.error(`❌ Failed to queue cart expiry reminder for cart ${cart.id}:`, error);
+      }
+    }
+
+    return reminded;
+  }
+
+  private static async loadCart(cartId: number): Promise<CartDetails> {
+    const rows = await db.select({
+      item: cartItems,
+      competition: {
+        title: competitions.title,
+        imageUrl: competitions.imageUrl,
+        ticketPrice: competitions.ticketPrice,
+        maxTicketsPerUser: competitions.maxTicketsPerUser,
+        totalTickets: competitions.totalTickets,
+        skillQuestion: competitions.skillQuestion,
+        skillAnswerOptions: competitions.skillAnswerOptions,
+        bundleTiers: competitions.bundleTiers
+      }
+    })
+      .from(cartItems)
+      .innerJoin(competitions, eq(competitions.id, cartItems.competitionId))
+      .where(eq(cartItems.cartId, cartId))
+      .orderBy(asc(cartItems.createdAt));
+
+    const now = new Date();
+    const expired = rows.filter(row => row.item.reservedUntil <= now);
+
+    for (const { item } of expired) {
+      await TicketService.releaseCartTickets(cartId, item.competitionId);
+      await db.delete(cartItems).where(eq(cartItems.id, item.id));
+    }
+
+    if (expired.length > 0) {
+      console.log(`🛒 Removed ${expired.length} expired items from cart ${cartId}`);
+    }
+
+    return {
+      id: cartId,
+      items: rows
+        .filter(row => row.item.reservedUntil > now)
+        .map(row => ({ ...row.item, competition: row.competition })),
+      expired: expired.map(row => row.competition.title)
+    };
+  }
+
+  private static async findCart(owner: CartOwner): Promise<Cart | undefined> {
+    const [cart] = await db.select()
+      .from(carts)
+      .where('userId' in owner ? eq(carts.userId, owner.userId) : eq(carts.sessionId, owner.sessionId))
+      .limit(1);
+    return cart;
+  }
+
+  private static async getOrCreateCart(owner: CartOwner): Promise<Cart> {
+    const existing = await this.findCart(owner);
+    if (existing) {
+      return existing;
+    }
+
+    // Two first adds racing each other end up sharing one cart
+    await db.insert(carts)
+      .values('userId' in owner ? { userId: owner.userId } : { sessionId: owner.sessionId })
+      .onConflictDoNothing();
+
+    const cart = await this.findCart(owner);
+    if (!cart) {
+      throw new Error('Failed to create cart');
+    }
+    return cart;
+  }
+
+  private static async getOpenCompetition(competitionId: number): Promise<Competition> {
+    const [competition] = await db.select()
+      .from(competitions)
+      .where(eq(competitions.id, competitionId))
+      .limit(1);
+
+    if (!competition) {
+      throw new Error('Competition not found');
+    }
+
+    if (!competition.isLive || competition.cancelledAt || new Date(competition.drawDate) <= new Date()) {
+      throw new Error(`${competition.title} is no longer open for entries`);
+    }
+
+    return competition;
+  }
+
+  private static userIdOf(owner: CartOwner): number | null {
+    return 'userId' in owner ? owner.userId : null;
+  }
+
+  private static async touch(cartId: number) {
+    await db.update(carts).set({ updatedAt: new Date() }).where(eq(carts.id, cartId));
+  }
+}
@@ -1,3 +1,4 @@
+import { randomBytes, createHash } from 'crypto';
 import { db } from './db';
 import { sql } from 'drizzle-orm';
 
@@ -33,6 +34,564 @@ export async function runAutomaticMigrations() {
       console.log('[INFO] push_to_hero_banner column already exists');
     }
 
+    // Draws table holds the auditable record of every competition draw
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS draws (
+        id SERIAL PRIMARY KEY,
+        competition_id INTEGER NOT NULL UNIQUE,
+        winner_id INTEGER,
+        entry_id INTEGER,
+        user_id INTEGER,
+        winning_ticket_number INTEGER NOT NULL,
+        seed TEXT NOT NULL,
+        algorithm TEXT NOT NULL,
+        entrant_snapshot JSON NOT NULL,
+        snapshot_hash TEXT NOT NULL,
+        drawn_by INTEGER,
+        drawn_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    console.log('[INFO] draws table is present');
+
+    // Commit-reveal columns and the table holding each competition's secret seed
+    await db.execute(sql`
+      ALTER TABLE draws
+      ADD COLUMN IF NOT EXISTS server_seed_hash TEXT,
+      ADD COLUMN IF NOT EXISTS public_input TEXT;
+    `);
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS draw_commitments (
+        id SERIAL PRIMARY KEY,
+        competition_id INTEGER NOT NULL UNIQUE,
+        server_seed TEXT NOT NULL,
+        server_seed_hash TEXT NOT NULL,
+        committed_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    console.log('[INFO] draw_commitments table is present');
+
+    // Persisted job rows for the in-process scheduler
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS scheduled_jobs (
+        id SERIAL PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE,
+        description TEXT,
+        interval_seconds INTEGER NOT NULL,
+        enabled BOOLEAN DEFAULT TRUE,
+        next_run_at TIMESTAMP DEFAULT NOW(),
+        locked_by TEXT,
+        locked_until TIMESTAMP,
+        attempts INTEGER DEFAULT 0,
+        last_status TEXT,
+        last_result TEXT,
+        last_error TEXT,
+        last_started_at TIMESTAMP,
+        last_finished_at TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    console.log('[INFO] scheduled_jobs table is present');
+
+    // Processed Stripe webhook events, used to ignore retried deliveries
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS stripe_events (
+        id SERIAL PRIMARY KEY,
+        event_id TEXT NOT NULL UNIQUE,
+        type TEXT NOT NULL,
+        payment_intent_id TEXT,
+        status TEXT NOT NULL DEFAULT 'processing',
+        received_at TIMESTAMP DEFAULT NOW(),
+        processed_at TIMESTAMP
+      );
+    `);
+    // One entry per competition per payment intent, so a webhook retry can never double-book
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS entries_payment_competition_idx
+      ON entries (stripe_payment_id, competition_id)
+      WHERE LEFT(stripe_payment_id, 3) = 'pi_';
+    `);
+    console.log('[INFO] stripe_events table is present');
+
+    // Orders group everything bought in one checkout
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS orders (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        subtotal INTEGER NOT NULL,
+        discount INTEGER NOT NULL DEFAULT 0,
+        total INTEGER NOT NULL,
+        currency TEXT NOT NULL DEFAULT 'gbp',
+        payment_provider TEXT NOT NULL DEFAULT 'stripe',
+        payment_reference TEXT UNIQUE,
+        created_at TIMESTAMP DEFAULT NOW(),
+        paid_at TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS order_items (
+        id SERIAL PRIMARY KEY,
+        order_id INTEGER NOT NULL,
+        competition_id INTEGER NOT NULL,
+        entry_id INTEGER,
+        ticket_count INTEGER NOT NULL,
+        selected_numbers JSON DEFAULT '[]',
+        unit_price INTEGER NOT NULL,
+        discount INTEGER NOT NULL DEFAULT 0,
+        total INTEGER NOT NULL
+      );
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS order_items_order_id_idx ON order_items (order_id);
+    `);
+    console.log('[INFO] orders and order_items tables are present');
+
+    // Competition cancellation, refunds and the audit log
+    await db.execute(sql`
+      ALTER TABLE competitions
+      ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP,
+      ADD COLUMN IF NOT EXISTS cancellation_reason TEXT;
+    `);
+    await db.execute(sql`
+      ALTER TABLE competitions
+      ADD COLUMN IF NOT EXISTS draw_error TEXT,
+      ADD COLUMN IF NOT EXISTS draw_attempted_at TIMESTAMP;
+    `);
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS refunds (
+        id SERIAL PRIMARY KEY,
+        entry_id INTEGER NOT NULL,
+        order_id INTEGER,
+        user_id INTEGER NOT NULL,
+        competition_id INTEGER NOT NULL,
+        amount INTEGER NOT NULL,
+        currency TEXT NOT NULL DEFAULT 'gbp',
+        provider TEXT NOT NULL,
+        provider_refund_id TEXT,
+        status TEXT NOT NULL DEFAULT 'pending',
+        reason TEXT,
+        error TEXT,
+        created_by INTEGER,
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS audit_logs (
+        id SERIAL PRIMARY KEY,
+        actor_id INTEGER,
+        action TEXT NOT NULL,
+        entity_type TEXT NOT NULL,
+        entity_id INTEGER NOT NULL,
+        details JSON,
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    console.log('[INFO] refunds and audit_logs tables are present');
+
+    // Live competitions from before draws needed a seed commitment get one
+    // now, otherwise they could never be drawn
+    const uncommitted = await db.execute(sql`
+      SELECT c.id FROM competitions c
+      WHERE c.is_live = TRUE
+        AND c.cancelled_at IS NULL
+        AND NOT EXISTS (SELECT 1 FROM draw_commitments dc WHERE dc.competition_id = c.id)
+        AND NOT EXISTS (SELECT 1 FROM draws d WHERE d.competition_id = c.id);
+    `);
+    for (const row of (uncommitted.rows || []) as { id: number }[]) {
+      const serverSeed = randomBytes(32).toString('hex');
+      const serverSeedHash = createHash('sha256').update(serverSeed).digest('hex');
+      await db.execute(sql`
+        INSERT INTO draw_commitments (competition_id, server_seed, server_seed_hash)
+        VALUES (${row.id}, ${serverSeed}, ${serverSeedHash})
+        ON CONFLICT (competition_id) DO NOTHING;
+      `);
+      console.log(`[INFO] Committed draw seed for live competition ${row.id}`);
+    }
+
+    // Free postal entry route
+    await db.execute(sql`
+      ALTER TABLE entries
+      ADD COLUMN IF NOT EXISTS entry_method TEXT NOT NULL DEFAULT 'online';
+    `);
+    await db.execute(sql`
+      ALTER TABLE users
+      ADD COLUMN IF NOT EXISTS is_guest BOOLEAN DEFAULT FALSE;
+    `);
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS postal_entries (
+        id SERIAL PRIMARY KEY,
+        entry_id INTEGER NOT NULL UNIQUE,
+        competition_id INTEGER NOT NULL,
+        user_id INTEGER NOT NULL,
+        sender_name TEXT NOT NULL,
+        sender_address TEXT NOT NULL,
+        received_at TIMESTAMP NOT NULL,
+        notes TEXT,
+        recorded_by INTEGER,
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    console.log('[INFO] postal_entries table is present');
+
+    // Skill question on competitions and the answer given on each entry
+    await db.execute(sql`
+      ALTER TABLE competitions
+      ADD COLUMN IF NOT EXISTS skill_question TEXT,
+      ADD COLUMN IF NOT EXISTS skill_answer_options JSON DEFAULT '[]',
+      ADD COLUMN IF NOT EXISTS skill_correct_answer TEXT;
+    `);
+    await db.execute(sql`
+      ALTER TABLE entries
+      ADD COLUMN IF NOT EXISTS skill_answer TEXT,
+      ADD COLUMN IF NOT EXISTS skill_answer_correct BOOLEAN;
+    `);
+    await db.execute(sql`
+      ALTER TABLE order_items
+      ADD COLUMN IF NOT EXISTS skill_answer TEXT;
+    `);
+    console.log('[INFO] skill question columns are present');
+
+    // One status row per ticket number - remove any duplicates left by
+    // concurrent initialisation, keeping the most advanced row for each ticket
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS ticket_statuses (
+        id SERIAL PRIMARY KEY,
+        competition_id INTEGER NOT NULL,
+        ticket_number INTEGER NOT NULL,
+        status TEXT NOT NULL DEFAULT 'available',
+        entry_id INTEGER,
+        user_id INTEGER,
+        reserved_until TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      DELETE FROM ticket_statuses t
+      USING ticket_statuses keep
+      WHERE t.competition_id = keep.competition_id
+        AND t.ticket_number = keep.ticket_number
+        AND t.id <> keep.id
+        AND (
+          CASE t.status WHEN 'purchased' THEN 2 WHEN 'reserved' THEN 1 ELSE 0 END,
+          -t.id
+        ) < (
+          CASE keep.status WHEN 'purchased' THEN 2 WHEN 'reserved' THEN 1 ELSE 0 END,
+          -keep.id
+        );
+    `);
+    await db.execute(sql`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM pg_constraint WHERE conname = 'ticket_statuses_competition_ticket_key'
+        ) THEN
+          ALTER TABLE ticket_statuses
+          ADD CONSTRAINT ticket_statuses_competition_ticket_key UNIQUE (competition_id, ticket_number);
+        END IF;
+      END $$;
+    `);
+    console.log('[INFO] ticket_statuses unique ticket constraint is present');
+
+    // Server-side carts - reserved tickets record the cart holding them
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS carts (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER UNIQUE,
+        session_id TEXT UNIQUE,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS cart_items (
+        id SERIAL PRIMARY KEY,
+        cart_id INTEGER NOT NULL,
+        competition_id INTEGER NOT NULL,
+        ticket_count INTEGER NOT NULL,
+        selected_numbers JSON DEFAULT '[]',
+        skill_answer TEXT,
+        reserved_until TIMESTAMP NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW(),
+        CONSTRAINT cart_items_cart_competition_key UNIQUE (cart_id, competition_id)
+      );
+    `);
+    await db.execute(sql`
+      ALTER TABLE ticket_statuses
+      ADD COLUMN IF NOT EXISTS cart_id INTEGER;
+    `);
+    console.log('[INFO] carts and cart_items tables are present');
+
+    // Promo codes and their redemptions - orders keep the code they were placed with
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS promo_codes (
+        id SERIAL PRIMARY KEY,
+        code TEXT NOT NULL UNIQUE,
+        description TEXT,
+        discount_type TEXT NOT NULL,
+        discount_value INTEGER NOT NULL,
+        competition_id INTEGER,
+        min_tickets INTEGER NOT NULL DEFAULT 1,
+        max_uses INTEGER,
+        max_uses_per_user INTEGER,
+        starts_at TIMESTAMP,
+        ends_at TIMESTAMP,
+        is_active BOOLEAN NOT NULL DEFAULT TRUE,
+        created_by INTEGER,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS promo_redemptions (
+        id SERIAL PRIMARY KEY,
+        promo_code_id INTEGER NOT NULL,
+        order_id INTEGER NOT NULL UNIQUE,
+        user_id INTEGER NOT NULL,
+        discount INTEGER NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      ALTER TABLE promo_redemptions
+      ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'redeemed',
+      ADD COLUMN IF NOT EXISTS reserved_until TIMESTAMP;
+    `);
+    await db.execute(sql`
+      ALTER TABLE orders
+      ADD COLUMN IF NOT EXISTS promo_code_id INTEGER,
+      ADD COLUMN IF NOT EXISTS promo_code TEXT;
+    `);
+    console.log('[INFO] promo_codes and promo_redemptions tables are present');
+
+    // Multi-buy bundle prices on competitions
+    await db.execute(sql`
+      ALTER TABLE competitions
+      ADD COLUMN IF NOT EXISTS bundle_tiers JSON DEFAULT '[]';
+    `);
+    console.log('[INFO] bundle_tiers column is present');
+
+    // Instant win prizes, the tickets holding them and the winners they produced
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS instant_win_prizes (
+        id SERIAL PRIMARY KEY,
+        competition_id INTEGER NOT NULL,
+        title TEXT NOT NULL,
+        prize_type TEXT NOT NULL,
+        value INTEGER NOT NULL,
+        quantity INTEGER NOT NULL,
+        placement TEXT NOT NULL,
+        created_by INTEGER,
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS instant_win_tickets (
+        id SERIAL PRIMARY KEY,
+        prize_id INTEGER NOT NULL,
+        competition_id INTEGER NOT NULL,
+        ticket_number INTEGER NOT NULL,
+        winner_id INTEGER,
+        created_at TIMESTAMP DEFAULT NOW(),
+        won_at TIMESTAMP,
+        CONSTRAINT instant_win_tickets_competition_ticket_key UNIQUE (competition_id, ticket_number)
+      );
+    `);
+    await db.execute(sql`
+      ALTER TABLE winners
+      ADD COLUMN IF NOT EXISTS instant_win_prize_id INTEGER,
+      ADD COLUMN IF NOT EXISTS ticket_number INTEGER;
+    `);
+    console.log('[INFO] instant_win_prizes and instant_win_tickets tables are present');
+
+    // Prize lists for competitions drawing more than one winner
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS prizes (
+        id SERIAL PRIMARY KEY,
+        competition_id INTEGER NOT NULL,
+        position INTEGER NOT NULL,
+        title TEXT NOT NULL,
+        value INTEGER NOT NULL,
+        image_url TEXT,
+        cash_alternative INTEGER,
+        created_at TIMESTAMP DEFAULT NOW(),
+        CONSTRAINT prizes_competition_position_key UNIQUE (competition_id, position)
+      );
+    `);
+    await db.execute(sql`
+      ALTER TABLE winners
+      ADD COLUMN IF NOT EXISTS prize_id INTEGER;
+    `);
+    await db.execute(sql`
+      ALTER TABLE draws
+      ADD COLUMN IF NOT EXISTS results JSON DEFAULT '[]';
+    `);
+    console.log('[INFO] prizes table is present');
+
+    // Cash alternatives and the winner's choice between prize and cash
+    await db.execute(sql`
+      ALTER TABLE competitions
+      ADD COLUMN IF NOT EXISTS cash_alternative INTEGER;
+    `);
+    const checkElectedAtColumn = await db.execute(sql`
+      SELECT column_name
+      FROM information_schema.columns
+      WHERE table_name = 'winners'
+      AND column_name = 'elected_at';
+    `);
+    await db.execute(sql`
+      ALTER TABLE winners
+      ADD COLUMN IF NOT EXISTS claim_deadline TIMESTAMP,
+      ADD COLUMN IF NOT EXISTS elected_at TIMESTAMP,
+      ADD COLUMN IF NOT EXISTS cash_amount INTEGER,
+      ADD COLUMN IF NOT EXISTS fulfilled_at TIMESTAMP,
+      ADD COLUMN IF NOT EXISTS fulfilled_by INTEGER;
+    `);
+    await db.execute(sql`
+      UPDATE winners SET claim_deadline = announced_at + INTERVAL '14 days'
+      WHERE claim_deadline IS NULL AND announced_at IS NOT NULL;
+    `);
+    // The old free-text "claimed" status meant the prize had been handed over -
+    // remapped once, when the election columns first arrive
+    if ((checkElectedAtColumn.rows || []).length === 0) {
+      await db.execute(sql`
+        UPDATE winners SET claim_status = 'fulfilled' WHERE claim_status = 'claimed';
+      `);
+      console.log('[INFO] Moved claimed wins to fulfilled');
+    }
+    console.log('[INFO] cash alternative and winner election columns are present');
+
+    // Claim details confirmed by the winner and the fulfilment stages
+    const checkDispatchedAtColumn = await db.execute(sql`
+      SELECT column_name
+      FROM information_schema.columns
+      WHERE table_name = 'winners'
+      AND column_name = 'dispatched_at';
+    `);
+    await db.execute(sql`
+      ALTER TABLE winners
+      ADD COLUMN IF NOT EXISTS shipping_address JSON,
+      ADD COLUMN IF NOT EXISTS identity_name TEXT,
+      ADD COLUMN IF NOT EXISTS identity_date_of_birth TEXT,
+      ADD COLUMN IF NOT EXISTS dispatched_at TIMESTAMP,
+      ADD COLUMN IF NOT EXISTS dispatched_by INTEGER,
+      ADD COLUMN IF NOT EXISTS tracking_number TEXT,
+      ADD COLUMN IF NOT EXISTS fulfilment_notes TEXT;
+    `);
+    // A fulfilled win has been sent and received - remapped once, when the
+    // fulfilment columns first arrive
+    if ((checkDispatchedAtColumn.rows || []).length === 0) {
+      await db.execute(sql`
+        UPDATE winners SET claim_status = 'delivered' WHERE claim_status = 'fulfilled';
+      `);
+      console.log('[INFO] Moved fulfilled wins to delivered');
+    }
+    console.log('[INFO] winner claim and fulfilment columns are present');
+
+    // Winners' opt-in photos and testimonials for the public gallery
+    await db.execute(sql`
+      ALTER TABLE winners
+      ADD COLUMN IF NOT EXISTS photo_url TEXT,
+      ADD COLUMN IF NOT EXISTS testimonial TEXT,
+      ADD COLUMN IF NOT EXISTS testimonial_status TEXT,
+      ADD COLUMN IF NOT EXISTS testimonial_reviewed_at TIMESTAMP,
+      ADD COLUMN IF NOT EXISTS testimonial_reviewed_by INTEGER;
+    `);
+    console.log('[INFO] winner testimonial columns are present');
+
+    // Queued transactional emails and cart expiry reminders
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS email_outbox (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER,
+        to_address TEXT NOT NULL,
+        template TEXT,
+        subject TEXT NOT NULL,
+        text TEXT NOT NULL,
+        html TEXT,
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        next_attempt_at TIMESTAMP DEFAULT NOW(),
+        sent_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS email_outbox_status_next_attempt_idx ON email_outbox (status, next_attempt_at);
+    `);
+    await db.execute(sql`
+      ALTER TABLE carts
+      ADD COLUMN IF NOT EXISTS expiry_reminder_sent_for TIMESTAMP;
+    `);
+    console.log('[INFO] email_outbox table is present');
+
+    // Hashed one-time tokens for emailed password reset links
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS password_reset_tokens (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        expires_at TIMESTAMP NOT NULL,
+        used_at TIMESTAMP,
+        requested_ip TEXT,
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS password_reset_tokens_user_id_idx ON password_reset_tokens (user_id);
+    `);
+    console.log('[INFO] password_reset_tokens table is present');
+
+    // Email verification - accounts that existed before it was introduced are
+    // treated as verified so they can keep buying tickets
+    const checkEmailVerifiedColumn = await db.execute(sql`
+      SELECT column_name
+      FROM information_schema.columns
+      WHERE table_name = 'users'
+      AND column_name = 'email_verified_at';
+    `);
+    if ((checkEmailVerifiedColumn.rows || []).length === 0) {
+      await db.execute(sql`
+        ALTER TABLE users
+        ADD COLUMN email_verified_at TIMESTAMP;
+      `);
+      await db.execute(sql`
+        UPDATE users SET email_verified_at = COALESCE(created_at, NOW()) WHERE is_guest IS NOT TRUE;
+      `);
+      console.log('[INFO] Added email_verified_at column and marked existing accounts verified');
+    } else {
+      console.log('[INFO] email_verified_at column already exists');
+    }
+
+    // Age and UK residency checks for players, and the photo ID check on winners
+    await db.execute(sql`
+      ALTER TABLE users
+      ADD COLUMN IF NOT EXISTS date_of_birth TEXT,
+      ADD COLUMN IF NOT EXISTS address JSON,
+      ADD COLUMN IF NOT EXISTS age_verification_status TEXT NOT NULL DEFAULT 'unverified',
+      ADD COLUMN IF NOT EXISTS age_verified_at TIMESTAMP,
+      ADD COLUMN IF NOT EXISTS age_verified_by INTEGER;
+    `);
+    await db.execute(sql`
+      ALTER TABLE winners
+      ADD COLUMN IF NOT EXISTS identity_check_status TEXT,
+      ADD COLUMN IF NOT EXISTS identity_checked_at TIMESTAMP,
+      ADD COLUMN IF NOT EXISTS identity_checked_by INTEGER;
+    `);
+    console.log('[INFO] Age verification columns are present');
+
+    // Responsible play - spend limits, cool-offs and self-exclusion
+    await db.execute(sql`
+      ALTER TABLE users
+      ADD COLUMN IF NOT EXISTS spend_limits JSON,
+      ADD COLUMN IF NOT EXISTS pending_spend_limits JSON,
+      ADD COLUMN IF NOT EXISTS cool_off_until TIMESTAMP,
+      ADD COLUMN IF NOT EXISTS self_excluded_until TIMESTAMP;
+    `);
+    console.log('[INFO] Responsible play columns are present');
+
     console.log('[INFO] Automatic database migrations completed successfully');
   } catch (error) {
     console.error('[ERROR] Error during automatic database migrations:', error);
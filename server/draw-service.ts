@@ -0,0 +1,455 @@
+import { createHash, randomBytes } from 'crypto';
+import { db } from './db';
+import { competitions, draws, drawCommitments, entries, prizes, ticketStatuses, users, winners, type Draw, type DrawCommitment, type DrawEntrant, type DrawProofResponse, type DrawResult } from '@shared/schema';
+import { eq, and, asc, inArray } from 'drizzle-orm';
+import { liveUpdates } from './live-updates';
+import { WinnerService } from './winner-service';
+import { EmailService } from './email-service';
+
+/**
+ * Identifiers stored with every draw so old results can still be
+ * re-computed if the selection method ever changes.
+ */
+export const DRAW_ALGORITHM = 'sha256-rejection-v1';
+export const COMMIT_REVEAL_ALGORITHM = 'commit-reveal-sha256-v1';
+
+// 48 bits of each digest are used so the value stays a safe JS integer
+const DRAW_RANGE = 2 ** 48;
+
+export function sha256Hex(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Public input mixed into the revealed seed - the final number of tickets
+ * and the advertised draw date. Both are fixed before the draw is run, so
+ * whoever runs it cannot move the input to change the result.
+ */
+export function buildPublicInput(ticketsSold: number, drawDate: Date): string {
+  return `${ticketsSold}:${drawDate.toISOString()}`;
+}
+
+/**
+ * Hash the ordered list of ticket numbers that took part in a draw
+ */
+export function hashEntrants(ticketNumbers: number[]): string {
+  return sha256Hex(ticketNumbers.join(','));
+}
+
+/**
+ * Deterministically pick an index into the entrant pool.
+ * Digests falling in the uneven tail of the range are rejected and the
+ * counter is bumped, so every ticket has exactly the same chance.
+ */
+export function selectWinningIndex(seed: string, snapshotHash: string, poolSize: number): number {
+  if (poolSize <= 0) {
+    throw new Error('Cannot draw from an empty pool');
+  }
+
+  const limit = DRAW_RANGE - (DRAW_RANGE % poolSize);
+
+  for (let counter = 0; ; counter++) {
+    const digest = sha256Hex(`${seed}:${snapshotHash}:${counter}`);
+    const value = parseInt(digest.slice(0, 12), 16);
+
+    if (value < limit) {
+      return value % poolSize;
+    }
+  }
+}
+
+/**
+ * Pick a winner for each prize in turn, 1st prize first. Each pick removes
+ * the ticket from the pool so no ticket wins twice. The first pick uses the
+ * seed exactly as a single-prize draw does; later picks append the round
+ * number, e.g. "<seed>:1" for 2nd prize.
+ */
+export function selectWinners<T>(seed: string, snapshotHash: string, pool: T[], count: number): T[] {
+  const remaining = [...pool];
+  const picked: T[] = [];
+
+  for (let round = 0; round < count && remaining.length > 0; round++) {
+    const roundSeed = round === 0 ? seed : `${seed}:${round}`;
+    picked.push(remaining.splice(selectWinningIndex(roundSeed, snapshotHash, remaining.length), 1)[0]);
+  }
+
+  return picked;
+}
+
+/**
+ * Draw Service - picks competition winners and keeps an auditable record
+ *
+ * Every draw stores the seed, algorithm and the full entrant snapshot so
+ * anyone can re-run the selection later and confirm it gives the same ticket.
+ * Draws are commit-reveal: a hashed seed is published when the competition
+ * goes live and only revealed once the winner has been picked.
+ */
+export class DrawService {
+  /**
+   * Get the seed commitment for a competition, if one has been made
+   */
+  static async getCommitment(competitionId: number): Promise<DrawCommitment | undefined> {
+    const [commitment] = await db.select()
+      .from(drawCommitments)
+      .where(eq(drawCommitments.competitionId, competitionId))
+      .limit(1);
+    return commitment;
+  }
+
+  /**
+   * Generate and store the secret server seed for a competition.
+   * Safe to call repeatedly - an existing commitment is never replaced.
+   */
+  static async commitSeed(competitionId: number): Promise<DrawCommitment> {
+    const existing = await this.getCommitment(competitionId);
+    if (existing) {
+      return existing;
+    }
+
+    const serverSeed = randomBytes(32).toString('hex');
+
+    await db.insert(drawCommitments)
+      .values({
+        competitionId,
+        serverSeed,
+        serverSeedHash: sha256Hex(serverSeed)
+      })
+      .onConflictDoNothing({ target: drawCommitments.competitionId });
+
+    // Re-read so a concurrent commit wins consistently
+    const commitment = await this.getCommitment(competitionId);
+    console.log(`🎲 Committed draw seed for competition ${competitionId}: ${commitment!.serverSeedHash}`);
+    return commitment!;
+  }
+
+  /**
+   * Get the stored draw for a competition, if it has been drawn
+   */
+  static async getDraw(competitionId: number): Promise<Draw | undefined> {
+    const [draw] = await db.select()
+      .from(draws)
+      .where(eq(draws.competitionId, competitionId))
+      .limit(1);
+    return draw;
+  }
+
+  /**
+   * Capture every purchased ticket for a competition, ordered by ticket number,
+   * leaving out entries that answered the skill question wrongly
+   */
+  static async getEntrantSnapshot(competitionId: number): Promise<DrawEntrant[]> {
+    const purchased = await db.select()
+      .from(ticketStatuses)
+      .where(
+        and(
+          eq(ticketStatuses.competitionId, competitionId),
+          eq(ticketStatuses.status, 'purchased')
+        )
+      )
+      .orderBy(asc(ticketStatuses.ticketNumber));
+
+    // Older tickets may be missing their entry link, so fall back to the entries table
+    const needsLookup = purchased.some(ticket => !ticket.entryId);
+    const competitionEntries = needsLookup
+      ? await db.select().from(entries).where(eq(entries.competitionId, competitionId))
+      : [];
+
+    // Entries that got the skill question wrong keep their tickets but are not drawn
+    const incorrectEntries = await db.select({ id: entries.id })
+      .from(entries)
+      .where(and(eq(entries.competitionId, competitionId), eq(entries.skillAnswerCorrect, false)));
+    const excludedEntryIds = new Set(incorrectEntries.map(entry => entry.id));
+
+    const snapshot: DrawEntrant[] = [];
+    for (const ticket of purchased) {
+      if (!ticket.userId) {
+        console.warn(`🎲 Ticket ${ticket.ticketNumber} in competition ${competitionId} is purchased but has no owner - skipping`);
+        continue;
+      }
+
+      let entryId = ticket.entryId;
+      if (!entryId) {
+        const entry = competitionEntries.find(e =>
+          e.userId === ticket.userId &&
+          e.paymentStatus === 'completed' &&
+          Array.isArray(e.selectedNumbers) &&
+          e.selectedNumbers.map(Number).includes(ticket.ticketNumber)
+        );
+        entryId = entry?.id ?? null;
+      }
+
+      if (!entryId) {
+        console.warn(`🎲 Ticket ${ticket.ticketNumber} in competition ${competitionId} has no matching entry - skipping`);
+        continue;
+      }
+
+      if (excludedEntryIds.has(entryId)) {
+        continue;
+      }
+
+      snapshot.push({ ticketNumber: ticket.ticketNumber, userId: ticket.userId, entryId });
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Run the draw for a competition whose draw date has passed.
+   * Creates a winner for every prize (or a single winner when the competition
+   * has no prize list), closes the competition and stores the draw record
+   * in a single transaction.
+   */
+  static async runDraw(competitionId: number, drawnBy: number | null = null): Promise<Draw> {
+    console.log(`🎲 Running draw for competition ${competitionId}`);
+
+    const [competition] = await db.select()
+      .from(competitions)
+      .where(eq(competitions.id, competitionId))
+      .limit(1);
+
+    if (!competition) {
+      throw new Error('Competition not found');
+    }
+
+    if (competition.cancelledAt) {
+      throw new Error('This competition has been cancelled');
+    }
+
+    if (await this.getDraw(competitionId)) {
+      throw new Error('This competition has already been drawn');
+    }
+
+    if (new Date(competition.drawDate).getTime() > Date.now()) {
+      throw new Error('The draw date for this competition has not been reached yet');
+    }
+
+    const snapshot = await this.getEntrantSnapshot(competitionId);
+    if (snapshot.length === 0) {
+      throw new Error('There are no eligible purchased tickets to draw from');
+    }
+
+    // A seed committed now would be chosen knowing every ticket in the draw
+    const drawDate = new Date(competition.drawDate);
+    const commitment = await this.getCommitment(competitionId);
+    if (!commitment) {
+      throw new Error('This competition has no published seed commitment and cannot be drawn');
+    }
+    if (!commitment.committedAt || commitment.committedAt >= drawDate) {
+      throw new Error('The seed commitment for this competition was not published before the draw date');
+    }
+
+    const competitionPrizes = await db.select()
+      .from(prizes)
+      .where(eq(prizes.competitionId, competitionId))
+      .orderBy(asc(prizes.position));
+    const prizeCount = Math.max(competitionPrizes.length, 1);
+
+    const publicInput = buildPublicInput(snapshot.length, drawDate);
+    const snapshotHash = hashEntrants(snapshot.map(e => e.ticketNumber));
+    const winningEntrants = selectWinners(`${commitment.serverSeed}:${publicInput}`, snapshotHash, snapshot, prizeCount);
+
+    if (winningEntrants.length < prizeCount) {
+      console.warn(`🎲 Competition ${competitionId} has ${prizeCount} prizes but only ${snapshot.length} eligible tickets - the lower prizes are not awarded`);
+    }
+
+    const draw = await db.transaction(async (tx) => {
+      const results: DrawResult[] = [];
+      for (let index = 0; index < winningEntrants.length; index++) {
+        const entrant = winningEntrants[index];
+        const prize = competitionPrizes[index];
+        const [winner] = await tx
+          .insert(winners)
+          .values({
+            userId: entrant.userId,
+            competitionId,
+            entryId: entrant.entryId!,
+            claimStatus: 'pending',
+            claimDeadline: WinnerService.claimDeadline(),
+            prizeId: prize?.id ?? null,
+            ticketNumber: entrant.ticketNumber
+          })
+          .returning();
+
+        results.push({
+          position: prize?.position ?? 1,
+          prizeId: prize?.id ?? null,
+          ticketNumber: entrant.ticketNumber,
+          userId: entrant.userId,
+          entryId: entrant.entryId,
+          winnerId: winner.id
+        });
+      }
+
+      // The first prize's winner is also kept in the single-winner columns
+      const [first] = results;
+
+      // The unique competition_id constraint stops two draws racing each other
+      const [draw] = await tx
+        .insert(draws)
+        .values({
+          competitionId,
+          winnerId: first.winnerId,
+          entryId: first.entryId,
+          userId: first.userId,
+          winningTicketNumber: first.ticketNumber,
+          results,
+          seed: commitment.serverSeed,
+          algorithm: COMMIT_REVEAL_ALGORITHM,
+          serverSeedHash: commitment.serverSeedHash,
+          publicInput,
+          entrantSnapshot: snapshot,
+          snapshotHash,
+          drawnBy
+        })
+        .returning();
+
+      await tx
+        .update(competitions)
+        .set({ isLive: false, drawError: null })
+        .where(eq(competitions.id, competitionId));
+
+      return draw;
+    });
+
+    console.log(`🎲 Competition ${competitionId} drawn: ticket${winningEntrants.length > 1 ? 's' : ''} ${winningEntrants.map(e => e.ticketNumber).join(', ')} from ${snapshot.length} entrants`);
+    liveUpdates.draw(draw);
+    await this.notifyEntrants(draw, competition.title);
+    return draw;
+  }
+
+  /**
+   * Email each winner their prize and every other entrant the result.
+   * A mail problem is logged and never fails the draw.
+   */
+  private static async notifyEntrants(draw: Draw, competitionTitle: string): Promise<void> {
+    try {
+      const drawResults = draw.results || [];
+      for (const result of drawResults) {
+        await WinnerService.notifyWinner(result.winnerId);
+      }
+
+      const winnerIds = new Set(drawResults.map(result => result.userId));
+      const loserIds = Array.from(new Set(draw.entrantSnapshot.map(entrant => entrant.userId)))
+        .filter(userId => !winnerIds.has(userId));
+      if (loserIds.length === 0) {
+        return;
+      }
+
+      const results = (await this.getPublicResults(draw)).map(result => ({
+        ...result,
+        title: result.title ?? competitionTitle
+      }));
+      const entrants = await db.select().from(users).where(inArray(users.id, loserIds));
+
+      for (const entrant of entrants) {
+        await EmailService.sendToUser(entrant, 'draw_result', {
+          competitionId: draw.competitionId,
+          competitionTitle,
+          results
+        });
+      }
+    } catch (error) {
+      console.error(`❌ Failed to queue draw emails for competition ${draw.competitionId}:`, error);
+    }
+  }
+
+  /**
+   * Re-run a stored draw from its seed and snapshot and check it still
+   * selects the recorded winning ticket for every prize
+   */
+  static verifyDraw(draw: Draw): {
+    valid: boolean;
+    snapshotHashMatches: boolean;
+    recomputedTicketNumber: number | null;
+    recomputedTicketNumbers: number[];
+  } {
+    const ticketNumbers = draw.entrantSnapshot.map(e => e.ticketNumber);
+    const recomputedHash = hashEntrants(ticketNumbers);
+    const snapshotHashMatches = recomputedHash === draw.snapshotHash;
+
+    if (ticketNumbers.length === 0) {
+      return { valid: false, snapshotHashMatches, recomputedTicketNumber: null, recomputedTicketNumbers: [] };
+    }
+
+    let seed: string;
+    let seedMatchesCommitment = true;
+
+    if (draw.algorithm === COMMIT_REVEAL_ALGORITHM) {
+      seed = `${draw.seed}:${draw.publicInput}`;
+      seedMatchesCommitment = sha256Hex(draw.seed) === draw.serverSeedHash;
+    } else if (draw.algorithm === DRAW_ALGORITHM) {
+      seed = draw.seed;
+    } else {
+      return { valid: false, snapshotHashMatches, recomputedTicketNumber: null, recomputedTicketNumbers: [] };
+    }
+
+    // Draws from before prize lists only stored the single winning ticket
+    const recordedTicketNumbers = draw.results?.length
+      ? draw.results.map(result => result.ticketNumber)
+      : [draw.winningTicketNumber];
+    const recomputedTicketNumbers = selectWinners(seed, recomputedHash, ticketNumbers, recordedTicketNumbers.length);
+
+    return {
+      valid: seedMatchesCommitment && snapshotHashMatches &&
+        recomputedTicketNumbers[0] === draw.winningTicketNumber &&
+        recomputedTicketNumbers.every((ticketNumber, index) => ticketNumber === recordedTicketNumbers[index]),
+      snapshotHashMatches,
+      recomputedTicketNumber: recomputedTicketNumbers[0],
+      recomputedTicketNumbers
+    };
+  }
+
+  /**
+   * Each prize's winning ticket with the prize title - winner identities are left out
+   */
+  static async getPublicResults(draw: Draw): Promise<{ position: number; title: string | null; ticketNumber: number }[]> {
+    if (!draw.results?.length) {
+      return [{ position: 1, title: null, ticketNumber: draw.winningTicketNumber }];
+    }
+
+    const competitionPrizes = await db.select()
+      .from(prizes)
+      .where(eq(prizes.competitionId, draw.competitionId));
+
+    return draw.results.map(result => ({
+      position: result.position,
+      title: competitionPrizes.find(prize => prize.id === result.prizeId)?.title ?? null,
+      ticketNumber: result.ticketNumber
+    }));
+  }
+
+  /**
+   * Build the public proof for a competition. The server seed is only
+   * included once the draw has taken place.
+   */
+  static async getDrawProof(competitionId: number): Promise<DrawProofResponse> {
+    const draw = await this.getDraw(competitionId);
+
+    if (draw) {
+      return {
+        competitionId,
+        status: 'drawn',
+        serverSeedHash: draw.serverSeedHash,
+        committedAt: (await this.getCommitment(competitionId))?.committedAt?.toISOString() ?? null,
+        draw: {
+          algorithm: draw.algorithm,
+          serverSeed: draw.seed,
+          publicInput: draw.publicInput,
+          ticketNumbers: draw.entrantSnapshot.map(e => e.ticketNumber),
+          snapshotHash: draw.snapshotHash,
+          winningTicketNumber: draw.winningTicketNumber,
+          results: await this.getPublicResults(draw),
+          drawnAt: draw.drawnAt?.toISOString() ?? null
+        }
+      };
+    }
+
+    const commitment = await this.getCommitment(competitionId);
+    return {
+      competitionId,
+      status: commitment ? 'committed' : 'uncommitted',
+      serverSeedHash: commitment?.serverSeedHash ?? null,
+      committedAt: commitment?.committedAt?.toISOString() ?? null
+    };
+  }
+}
@@ -0,0 +1,183 @@
+import { db } from './db';
+import { emailOutbox, users, type EmailOutboxMessage, type User } from '@shared/schema';
+import { renderEmail, OPTIONAL_TEMPLATES, type EmailTemplate, type EmailTemplates } from './email-templates';
+import { createTransport, type MailTransport } from './email-transport';
+import { and, asc, eq, lte } from 'drizzle-orm';
+
+// Failed sends retry after 1, 2, 4... minutes, giving up after MAX_ATTEMPTS
+const RETRY_BASE_MS = 60 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+const MAX_ATTEMPTS = 8;
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  userId?: number | null;
+}
+
+type UserTemplateData<T extends EmailTemplate> = Omit<EmailTemplates[T], 'name'>;
+
+/**
+ * Email Service - queues transactional messages and delivers them
+ *
+ * Nothing is sent inline: every message is written to the email_outbox table
+ * and the send-queued-emails job hands it to the configured mail transport,
+ * retrying with backoff until it is delivered or MAX_ATTEMPTS is reached.
+ */
+export class EmailService {
+  private static transport: MailTransport | null = null;
+
+  /**
+   * Queue a one-off message
+   */
+  static async send(message: EmailMessage): Promise<EmailOutboxMessage> {
+    const [queued] = await db.insert(emailOutbox)
+      .values({
+        userId: message.userId ?? null,
+        toAddress: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html || null
+      })
+      .returning();
+
+    return queued;
+  }
+
+  /**
+   * Queue a templated message to any address
+   */
+  static async sendTemplate<T extends EmailTemplate>(
+    template: T,
+    to: string,
+    data: EmailTemplates[T],
+    userId: number | null = null
+  ): Promise<EmailOutboxMessage> {
+    const rendered = renderEmail(template, data);
+
+    const [queued] = await db.insert(emailOutbox)
+      .values({
+        userId,
+        toAddress: to,
+        template,
+        subject: rendered.subject,
+        text: rendered.text,
+        html: rendered.html
+      })
+      .returning();
+
+    console.log(`📧 Queued ${template} email ${queued.id} to ${to}`);
+    return queued;
+  }
+
+  /**
+   * Queue a templated message to a user, filling in their name. Returns null
+   * when the user has no real address or has turned off this kind of email.
+   */
+  static async sendToUser<T extends EmailTemplate>(
+    userOrId: User | number,
+    template: T,
+    data: UserTemplateData<T>
+  ): Promise<EmailOutboxMessage | null> {
+    const user = typeof userOrId === 'number' ? await this.getUser(userOrId) : userOrId;
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    // Postal entrants without an email are given a placeholder .invalid address
+    if (!user.email || user.email.endsWith('.invalid')) {
+      return null;
+    }
+
+    if (OPTIONAL_TEMPLATES.includes(template) && user.notificationSettings?.email === false) {
+      return null;
+    }
+
+    const name = user.displayName || user.fullName || user.username;
+    return this.sendTemplate(template, user.email, { ...data, name } as EmailTemplates[T], user.id);
+  }
+
+  /**
+   * Send queued messages that are due, oldest first
+   * @returns how many were sent and how many failed this run
+   */
+  static async processOutbox(limit = 50): Promise<{ sent: number; failed: number }> {
+    // Without a transport the whole run fails and every message stays queued
+    const transport = this.getTransport();
+
+    const due = await db.select()
+      .from(emailOutbox)
+      .where(and(eq(emailOutbox.status, 'pending'), lte(emailOutbox.nextAttemptAt, new Date())))
+      .orderBy(asc(emailOutbox.nextAttemptAt), asc(emailOutbox.id))
+      .limit(limit);
+
+    let sent = 0;
+    let failed = 0;
+
+    for (const message of due) {
+      try {
+        await transport.send({
+          to: message.toAddress,
+          subject: message.subject,
+          text: message.text,
+          html: message.html
+        });
+
+        await db.update(emailOutbox)
+          .set({ status: 'sent', attempts: message.attempts + 1, lastError: null, sentAt: new Date() })
+          .where(eq(emailOutbox.id, message.id));
+        sent++;
+      } catch (error: any) {
+        const attempts = message.attempts + 1;
+        const givenUp = attempts >= MAX_ATTEMPTS;
+        const retryIn = Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+
+        await db.update(emailOutbox)
+          .set({
+            status: givenUp ? 'failed' : 'pending',
+            attempts,
+            lastError: error?.message || String(error),
+            nextAttemptAt: givenUp ? null : new Date(Date.now() + retryIn)
+          })
+          .where(eq(emailOutbox.id, message.id));
+        failed++;
+
+        console.error(
+          `❌ Email ${message.id} to ${message.toAddress} failed (attempt ${attempts})` +
+          (givenUp ? ', giving up' : `, retrying in ${retryIn / 1000}s`) + ':',
+          error
+        );
+      }
+    }
+
+    return { sent, failed };
+  }
+
+  /**
+   * Set up the mail transport at startup. A missing mail configuration is
+   * reported loudly but the site keeps running - emails wait in the outbox
+   * and the send job fails until it is fixed.
+   */
+  static checkTransport(): void {
+    try {
+      this.getTransport();
+    } catch (error: any) {
+      console.error(`❌❌❌ EMAIL IS NOT CONFIGURED - no email will be sent until it is: ${error.message}`);
+    }
+  }
+
+  private static getTransport(): MailTransport {
+    if (!this.transport) {
+      this.transport = createTransport();
+      console.log(`📧 Sending email with the ${this.transport.name} transport`);
+    }
+    return this.transport;
+  }
+
+  private static async getUser(userId: number): Promise<User | null> {
+    const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+    return user || null;
+  }
+}
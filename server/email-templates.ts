@@ -0,0 +1,192 @@
+/**
+ * Email Templates - the wording of every transactional email
+ *
+ * Each template renders to a plain text body and a matching HTML body. Links
+ * point at FRONTEND_URL so emails sent from the API-only server still open
+ * the site.
+ */
+
+const SITE_NAME = 'Blue Whale Competitions';
+
+export interface ReceiptLine {
+  competitionTitle: string;
+  ticketNumbers: number[];
+  total: number; // in pence
+}
+
+export interface DrawnPrize {
+  position: number;
+  title: string;
+  ticketNumber: number;
+}
+
+// The data each template needs, keyed by template name
+export interface EmailTemplates {
+  welcome: { name: string; verifyUrl: string };
+  verify_email: { name: string; verifyUrl: string; expiresInHours: number };
+  order_receipt: { name: string; orderId: number; items: ReceiptLine[]; total: number };
+  cart_expiry: { name: string; competitionTitles: string[]; expiresAt: Date };
+  draw_result: { name: string; competitionId: number; competitionTitle: string; results: DrawnPrize[] };
+  winner: { name: string; competitionTitle: string; prizeTitle: string; ticketNumber: number | null; instant: boolean; claimDeadline: Date | null };
+  password_reset: { name: string; resetUrl: string; expiresInMinutes: number };
+}
+
+export type EmailTemplate = keyof EmailTemplates;
+
+// Emails a user can turn off with their email notification setting. Account,
+// order and winner emails are always sent.
+export const OPTIONAL_TEMPLATES: EmailTemplate[] = ['cart_expiry', 'draw_result'];
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export function siteUrl(path = ''): string {
+  const base = (process.env.FRONTEND_URL || `http://localhost:${process.env.PORT || 5000}`).replace(/\/$/, '');
+  return `${base}${path}`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function money(pence: number): string {
+  return `£${(pence / 100).toFixed(2)}`;
+}
+
+function ordinal(position: number): string {
+  const suffix = position % 100 >= 11 && position % 100 <= 13
+    ? 'th'
+    : ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[position % 10] || 'th';
+  return `${position}${suffix}`;
+}
+
+function dateTime(date: Date): string {
+  return date.toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'Europe/London' });
+}
+
+/**
+ * A message body is a list of paragraphs; a paragraph given as an array is a
+ * bulleted list. Both bodies are built from the same content so they never
+ * drift apart.
+ */
+type Paragraph = string | string[];
+
+function layout(subject: string, name: string, paragraphs: Paragraph[], action?: { label: string; url: string }): RenderedEmail {
+  const body: Paragraph[] = [`Hi ${name},`, ...paragraphs];
+
+  const text = [
+    ...body.map(p => Array.isArray(p) ? p.map(line => `- ${line}`).join('\n') : p),
+    ...(action ? [`${action.label}: ${action.url}`] : []),
+    `Thanks for playing with us,\n${SITE_NAME}`
+  ].join('\n\n');
+
+  const html = [
+    '<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; color: #1a1f2b;">',
+    `<h2 style="color: #0b5cab;">${escapeHtml(SITE_NAME)}</h2>`,
+    ...body.map(p => Array.isArray(p)
+      ? `<ul>${p.map(line => `<li>${escapeHtml(line)}</li>`).join('')}</ul>`
+      : `<p>${escapeHtml(p)}</p>`),
+    ...(action
+      ? [`<p><a href="${escapeHtml(action.url)}" style="display: inline-block; padding: 10px 18px; background: #f97316; color: #ffffff; text-decoration: none; border-radius: 4px;">${escapeHtml(action.label)}</a></p>`]
+      : []),
+    `<p>Thanks for playing with us,<br>${escapeHtml(SITE_NAME)}</p>`,
+    '</div>'
+  ].join('\n');
+
+  return { subject, text, html };
+}
+
+const renderers: { [T in EmailTemplate]: (data: EmailTemplates[T]) => RenderedEmail } = {
+  welcome: ({ name, verifyUrl }) => layout(
+    `Welcome to ${SITE_NAME}`,
+    name,
+    [
+      'Your account is ready. Please confirm your email address so we can reach you if you win - you can buy tickets once it is confirmed.',
+      'Then browse the live competitions, pick your numbers and good luck in the draws.'
+    ],
+    { label: 'Confirm my email address', url: verifyUrl }
+  ),
+
+  verify_email: ({ name, verifyUrl, expiresInHours }) => layout(
+    'Confirm your email address',
+    name,
+    [
+      `Please confirm this is your email address. The link below expires in ${expiresInHours} hours.`,
+      'If you did not ask for this you can ignore this email.'
+    ],
+    { label: 'Confirm my email address', url: verifyUrl }
+  ),
+
+  order_receipt: ({ name, orderId, items, total }) => layout(
+    `Your tickets - order #${orderId}`,
+    name,
+    [
+      `Thanks for your order. Payment of ${money(total)} has been received and these tickets are yours:`,
+      items.map(item =>
+        `${item.competitionTitle}: ticket${item.ticketNumbers.length === 1 ? '' : 's'} ${item.ticketNumbers.join(', ')} (${money(item.total)})`
+      ),
+      'You can see all of your tickets at any time from your account.'
+    ],
+    { label: 'View my tickets', url: siteUrl('/my-entries') }
+  ),
+
+  cart_expiry: ({ name, competitionTitles, expiresAt }) => layout(
+    'Your reserved tickets are about to be released',
+    name,
+    [
+      `The numbers in your basket are held until ${dateTime(expiresAt)}. After that they go back on sale:`,
+      competitionTitles,
+      'Check out before then to keep them.'
+    ],
+    { label: 'Go to my basket', url: siteUrl('/cart') }
+  ),
+
+  draw_result: ({ name, competitionId, competitionTitle, results }) => layout(
+    `${competitionTitle} has been drawn`,
+    name,
+    [
+      `The draw for ${competitionTitle} has taken place. The winning tickets are:`,
+      results.map(result => `${ordinal(result.position)} prize, ${result.title}: ticket #${result.ticketNumber}`),
+      'None of your tickets won this time. Every draw can be checked independently from its draw proof.'
+    ],
+    { label: 'Verify the draw', url: siteUrl(`/competitions/${competitionId}/verify`) }
+  ),
+
+  winner: ({ name, competitionTitle, prizeTitle, ticketNumber, instant, claimDeadline }) => layout(
+    `Congratulations - you have won ${prizeTitle}!`,
+    name,
+    [
+      instant
+        ? `Your ticket #${ticketNumber} in ${competitionTitle} was an instant win. You have won ${prizeTitle}.`
+        : ticketNumber !== null
+          ? `Your ticket #${ticketNumber} was drawn in ${competitionTitle}. You have won ${prizeTitle}.`
+          : `You have won ${prizeTitle} in the ${competitionTitle} draw.`,
+      claimDeadline
+        ? `Claim your prize from your account before ${dateTime(claimDeadline)}, telling us where to send it.`
+        : 'Claim your prize from your account, telling us where to send it.'
+    ],
+    { label: 'Claim my prize', url: siteUrl('/my-wins') }
+  ),
+
+  password_reset: ({ name, resetUrl, expiresInMinutes }) => layout(
+    `Reset your ${SITE_NAME} password`,
+    name,
+    [
+      `We received a request to reset your password. The link below works once and expires in ${expiresInMinutes} minutes.`,
+      'If you did not ask for this you can ignore this email - your password has not changed.'
+    ],
+    { label: 'Reset my password', url: resetUrl }
+  ),
+};
+
+export function renderEmail<T extends EmailTemplate>(template: T, data: EmailTemplates[T]): RenderedEmail {
+  return renderers[template](data);
+}
@@ -0,0 +1,112 @@
+import fs from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+/**
+ * Mail transports - how a queued email actually leaves the server
+ *
+ * MAIL_TRANSPORT picks one of:
+ * - smtp: sends through SMTP_HOST (the default whenever SMTP_HOST is set,
+ *   and always in production)
+ * - file: writes each email to MAIL_OUTPUT_DIR as a .eml file, for dev and tests
+ * - console: prints each email to the server log (the default otherwise)
+ */
+export interface OutgoingEmail {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string | null;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(email: OutgoingEmail): Promise<void>;
+}
+
+const DEFAULT_FROM = 'Blue Whale Competitions <no-reply@bluewhalecompetitions.co.uk>';
+
+function fromAddress(): string {
+  return process.env.MAIL_FROM || DEFAULT_FROM;
+}
+
+export class SmtpTransport implements MailTransport {
+  readonly name = 'smtp';
+  private transporter: nodemailer.Transporter;
+
+  constructor() {
+    const port = parseInt(process.env.SMTP_PORT || '587', 10);
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+        : undefined
+    });
+  }
+
+  async send(email: OutgoingEmail): Promise<void> {
+    await this.transporter.sendMail({
+      from: fromAddress(),
+      to: email.to,
+      subject: email.subject,
+      text: email.text,
+      html: email.html || undefined
+    });
+  }
+}
+
+export class FileTransport implements MailTransport {
+  readonly name = 'file';
+  private readonly directory: string;
+
+  constructor(directory = process.env.MAIL_OUTPUT_DIR || path.join(process.cwd(), 'mail')) {
+    this.directory = directory;
+  }
+
+  async send(email: OutgoingEmail): Promise<void> {
+    // Render the message exactly as SMTP would so it opens in a mail client
+    const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+    const info = await transporter.sendMail({
+      from: fromAddress(),
+      to: email.to,
+      subject: email.subject,
+      text: email.text,
+      html: email.html || undefined
+    });
+
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    const safeTo = email.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const file = path.join(this.directory, `${Date.now()}-${safeTo}.eml`);
+    await fs.promises.writeFile(file, info.message as Buffer);
+  }
+}
+
+export class ConsoleTransport implements MailTransport {
+  readonly name = 'console';
+
+  async send(email: OutgoingEmail): Promise<void> {
+    console.log(`📧 Email to ${email.to}: ${email.subject}\n${email.text}`);
+  }
+}
+
+export function createTransport(): MailTransport {
+  const production = process.env.NODE_ENV === 'production';
+  const configured = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST || production ? 'smtp' : 'console');
+
+  switch (configured) {
+    case 'smtp':
+      if (!process.env.SMTP_HOST) {
+        throw new Error(production
+          ? 'SMTP_HOST must be set in production - emails would otherwise never be delivered'
+          : 'MAIL_TRANSPORT is smtp but SMTP_HOST is not set');
+      }
+      return new SmtpTransport();
+    case 'file':
+      return new FileTransport();
+    case 'console':
+      return new ConsoleTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${configured}" - use smtp, file or console`);
+  }
+}
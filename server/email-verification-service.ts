@@ -0,0 +1,92 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { db } from './db';
+import { users, type User } from '@shared/schema';
+import { EmailService } from './email-service';
+import { siteUrl } from './email-templates';
+import { eq } from 'drizzle-orm';
+
+// How long an emailed verification link works for
+export const VERIFY_TOKEN_HOURS = 48;
+
+function signingSecret(): string {
+  return process.env.EMAIL_VERIFICATION_SECRET || process.env.SESSION_SECRET || 'blue-whale-competitions-secret';
+}
+
+function sign(userId: number, email: string, expiresAt: number): string {
+  return createHmac('sha256', signingSecret())
+    .update(`${userId}:${email.toLowerCase()}:${expiresAt}`)
+    .digest('base64url');
+}
+
+/**
+ * Email Verification Service - confirms a user owns their email address
+ *
+ * Links carry a signed token of the user id, an expiry and an HMAC over both
+ * plus the address, so nothing is stored and changing the address makes any
+ * earlier link stop working. Tickets can only be bought once verified.
+ */
+export class EmailVerificationService {
+  static isVerified(user: Pick<User, 'emailVerifiedAt'>): boolean {
+    return !!user.emailVerifiedAt;
+  }
+
+  static createToken(user: Pick<User, 'id' | 'email'>, now = Date.now()): string {
+    const expiresAt = now + VERIFY_TOKEN_HOURS * 60 * 60 * 1000;
+    return `${user.id}.${expiresAt}.${sign(user.id, user.email, expiresAt)}`;
+  }
+
+  static verifyUrl(user: Pick<User, 'id' | 'email'>): string {
+    return siteUrl(`/verify-email?token=${this.createToken(user)}`);
+  }
+
+  /**
+   * Email a fresh link for the user's current address
+   */
+  static async sendVerification(user: User): Promise<void> {
+    if (this.isVerified(user)) {
+      throw new Error('Your email address is already verified');
+    }
+
+    await EmailService.sendToUser(user, 'verify_email', {
+      verifyUrl: this.verifyUrl(user),
+      expiresInHours: VERIFY_TOKEN_HOURS
+    });
+    console.log(`✉️ Verification link sent to user ${user.id}`);
+  }
+
+  /**
+   * Mark the address in a valid token as verified. Using a link again after
+   * it has worked is harmless.
+   */
+  static async verify(token: string): Promise<User> {
+    const [userIdPart, expiresPart, signature] = token.split('.');
+    const userId = parseInt(userIdPart);
+    const expiresAt = parseInt(expiresPart);
+    if (isNaN(userId) || isNaN(expiresAt) || !signature) {
+      throw new Error('This verification link is invalid');
+    }
+
+    if (expiresAt < Date.now()) {
+      throw new Error('This verification link has expired');
+    }
+
+    const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+    const expected = user ? Buffer.from(sign(user.id, user.email, expiresAt)) : null;
+    const supplied = Buffer.from(signature);
+    if (!user || !expected || expected.length !== supplied.length || !timingSafeEqual(expected, supplied)) {
+      throw new Error('This verification link is invalid');
+    }
+
+    if (user.emailVerifiedAt) {
+      return user;
+    }
+
+    const [verified] = await db.update(users)
+      .set({ emailVerifiedAt: new Date() })
+      .where(eq(users.id, user.id))
+      .returning();
+
+    console.log(`✉️ Email address verified for user ${user.id}`);
+    return verified;
+  }
+}
@@ -2,6 +2,8 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { setupAuth } from "./auth";
+import { scheduler } from "./scheduler";
+import { EmailService } from "./email-service";
 import adminRouter from "./admin-routes";
 import cors from "cors";
 import path from "path";
@@ -63,7 +65,12 @@ app.use(cors(corsOptions));
 // Special preflighted requests handler for cross-domain requests with cookies
 app.options('*', cors(corsOptions));
 
-app.use(express.json());
+// Keep the raw body so Stripe webhook signatures can be verified
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    (req as any).rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -97,6 +104,8 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  EmailService.checkTransport();
+
   // Set up authentication
   console.log('🔐 Setting up authentication...');
   setupAuth(app);
@@ -114,6 +123,13 @@ app.use((req, res, next) => {
   console.log('🌐 Registering API routes...');
   const server = await registerRoutes(app);
 
+  // Start background jobs (draws, reservation expiry, housekeeping)
+  if (process.env.DISABLE_SCHEDULER !== 'true') {
+    scheduler.start().catch(error => {
+      console.error('❌ Failed to start job scheduler:', error);
+    });
+  }
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
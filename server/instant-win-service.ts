@@ -0,0 +1,367 @@
+import { randomInt } from 'crypto';
+import { db } from './db';
+import {
+  competitions,
+  draws,
+  entries,
+  instantWinPrizes,
+  instantWinTickets,
+  ticketStatuses,
+  users,
+  winners,
+  type InsertInstantWinPrize,
+  type InstantWinPrize,
+  type InstantWinPrizeDetails,
+  type InstantWinResult,
+  type InstantWinSummary
+} from '@shared/schema';
+import { AuditService } from './audit-service';
+import { liveUpdates } from './live-updates';
+import { WinnerService } from './winner-service';
+import { eq, and, asc, inArray, isNull, isNotNull } from 'drizzle-orm';
+
+/**
+ * Instant Win Service - prizes hidden behind individual ticket numbers
+ *
+ * Each prize sits on one or more ticket numbers, either chosen by an admin
+ * or picked at random when the competition goes live. Random numbers are
+ * fixed from then on and never shown until someone buys one. Buying a prize
+ * ticket creates a winners row for the prize straight away; entries that
+ * answered the skill question wrongly win nothing, as in the main draw.
+ */
+export class InstantWinService {
+  /**
+   * Prizes for the competition page, with the numbers that have been won
+   */
+  static async getSummaries(competitionId: number): Promise<InstantWinSummary[]> {
+    const prizes = await this.getPrizes(competitionId);
+    const tickets = await db.select()
+      .from(instantWinTickets)
+      .where(and(eq(instantWinTickets.competitionId, competitionId), isNotNull(instantWinTickets.wonAt)));
+
+    return prizes.map(prize => {
+      const won = tickets.filter(ticket => ticket.prizeId === prize.id);
+      return {
+        id: prize.id,
+        title: prize.title,
+        prizeType: prize.prizeType as InstantWinSummary['prizeType'],
+        value: prize.value,
+        quantity: prize.quantity,
+        won: won.length,
+        wonTicketNumbers: won.map(ticket => ticket.ticketNumber).sort((a, b) => a - b)
+      };
+    });
+  }
+
+  /**
+   * Prizes for admins, with every ticket number and who won it
+   */
+  static async getPrizeDetails(competitionId: number): Promise<InstantWinPrizeDetails[]> {
+    const prizes = await this.getPrizes(competitionId);
+    const tickets = await db.select({ ticket: instantWinTickets, username: users.username })
+      .from(instantWinTickets)
+      .leftJoin(winners, eq(winners.id, instantWinTickets.winnerId))
+      .leftJoin(users, eq(users.id, winners.userId))
+      .where(eq(instantWinTickets.competitionId, competitionId))
+      .orderBy(asc(instantWinTickets.ticketNumber));
+
+    return prizes.map(prize => ({
+      ...prize,
+      tickets: tickets
+        .filter(row => row.ticket.prizeId === prize.id)
+        .map(row => ({ ...row.ticket, username: row.username }))
+    }));
+  }
+
+  static async getPrize(prizeId: number): Promise<InstantWinPrize | null> {
+    const [prize] = await db.select().from(instantWinPrizes).where(eq(instantWinPrizes.id, prizeId)).limit(1);
+    return prize || null;
+  }
+
+  private static async getPrizes(competitionId: number): Promise<InstantWinPrize[]> {
+    return db.select()
+      .from(instantWinPrizes)
+      .where(eq(instantWinPrizes.competitionId, competitionId))
+      .orderBy(asc(instantWinPrizes.id));
+  }
+
+  static async addPrize(competitionId: number, data: InsertInstantWinPrize, actorId: number): Promise<InstantWinPrizeDetails> {
+    const [competition] = await db.select()
+      .from(competitions)
+      .where(eq(competitions.id, competitionId))
+      .limit(1);
+
+    if (!competition) {
+      throw new Error('Competition not found');
+    }
+
+    if (competition.cancelledAt) {
+      throw new Error('This competition has been cancelled');
+    }
+
+    const [draw] = await db.select({ id: draws.id }).from(draws).where(eq(draws.competitionId, competitionId)).limit(1);
+    if (draw) {
+      throw new Error('This competition has already been drawn');
+    }
+
+    if (data.placement === 'specific') {
+      const outOfRange = data.ticketNumbers.filter(number => number > competition.totalTickets);
+      if (outOfRange.length > 0) {
+        throw new Error(`Ticket ${outOfRange.join(', ')} is outside 1 to ${competition.totalTickets}`);
+      }
+
+      const taken = await this.getUnavailableNumbers(competitionId, data.ticketNumbers);
+      if (taken.length > 0) {
+        throw new Error(`Ticket ${taken.join(', ')} already carries a prize or has been sold`);
+      }
+    }
+
+    const prize = await db.transaction(async (tx) => {
+      const [prize] = await tx.insert(instantWinPrizes)
+        .values({
+          competitionId,
+          title: data.title,
+          prizeType: data.prizeType,
+          value: data.value,
+          quantity: data.quantity,
+          placement: data.placement,
+          createdBy: actorId
+        })
+        .returning();
+
+      if (data.placement === 'specific') {
+        await tx.insert(instantWinTickets)
+          .values(data.ticketNumbers.map(ticketNumber => ({ prizeId: prize.id, competitionId, ticketNumber })));
+      }
+
+      return prize;
+    });
+
+    // Random prizes added after go-live are hidden straight away
+    if (prize.placement === 'random' && competition.isLive) {
+      await this.placeRandomPrizes(competitionId);
+    }
+
+    await AuditService.record(actorId, 'instant_win.prize_added', 'competition', competitionId, {
+      prizeId: prize.id,
+      title: prize.title,
+      prizeType: prize.prizeType,
+      value: prize.value,
+      quantity: prize.quantity,
+      placement: prize.placement
+    });
+
+    console.log(`⚡ Added instant win prize ${prize.id} (${prize.title} x${prize.quantity}) to competition ${competitionId}`);
+
+    const details = await this.getPrizeDetails(competitionId);
+    return details.find(item => item.id === prize.id)!;
+  }
+
+  /**
+   * Remove a prize nobody has won yet
+   */
+  static async removePrize(prizeId: number, actorId: number): Promise<void> {
+    const prize = await this.getPrize(prizeId);
+    if (!prize) {
+      throw new Error('Instant win prize not found');
+    }
+
+    const [won] = await db.select({ id: instantWinTickets.id })
+      .from(instantWinTickets)
+      .where(and(eq(instantWinTickets.prizeId, prizeId), isNotNull(instantWinTickets.wonAt)))
+      .limit(1);
+    if (won) {
+      throw new Error('This prize has already been won and cannot be removed');
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.delete(instantWinTickets).where(eq(instantWinTickets.prizeId, prizeId));
+      await tx.delete(instantWinPrizes).where(eq(instantWinPrizes.id, prizeId));
+    });
+
+    await AuditService.record(actorId, 'instant_win.prize_removed', 'competition', prize.competitionId, {
+      prizeId,
+      title: prize.title
+    });
+  }
+
+  /**
+   * Hide every random prize's tickets on numbers nobody has bought.
+   * Called when the competition goes live; numbers already placed are
+   * kept, so calling it again only fills in newly added prizes.
+   */
+  static async placeRandomPrizes(competitionId: number): Promise<number> {
+    const prizes = (await this.getPrizes(competitionId)).filter(prize => prize.placement === 'random');
+    if (prizes.length === 0) {
+      return 0;
+    }
+
+    const [competition] = await db.select({ totalTickets: competitions.totalTickets })
+      .from(competitions)
+      .where(eq(competitions.id, competitionId))
+      .limit(1);
+    if (!competition) {
+      throw new Error('Competition not found');
+    }
+
+    const existing = await db.select()
+      .from(instantWinTickets)
+      .where(eq(instantWinTickets.competitionId, competitionId));
+
+    const sold = await db.select({ ticketNumber: ticketStatuses.ticketNumber })
+      .from(ticketStatuses)
+      .where(and(eq(ticketStatuses.competitionId, competitionId), eq(ticketStatuses.status, 'purchased')));
+
+    const unavailable = new Set([
+      ...existing.map(ticket => ticket.ticketNumber),
+      ...sold.map(ticket => ticket.ticketNumber)
+    ]);
+    const pool = Array.from({ length: competition.totalTickets }, (_, i) => i + 1)
+      .filter(number => !unavailable.has(number));
+
+    const rows: { prizeId: number; competitionId: number; ticketNumber: number }[] = [];
+    for (const prize of prizes) {
+      const missing = prize.quantity - existing.filter(ticket => ticket.prizeId === prize.id).length;
+      for (let i = 0; i < missing; i++) {
+        if (pool.length === 0) {
+          throw new Error('There are not enough unsold tickets left to hide every instant win prize');
+        }
+        const [ticketNumber] = pool.splice(randomInt(pool.length), 1);
+        rows.push({ prizeId: prize.id, competitionId, ticketNumber });
+      }
+    }
+
+    if (rows.length > 0) {
+      await db.insert(instantWinTickets).values(rows);
+      console.log(`⚡ Hid ${rows.length} instant win tickets in competition ${competitionId}`);
+    }
+    return rows.length;
+  }
+
+  /**
+   * Award the instant wins on an entry's purchased tickets. Only tickets the
+   * entry actually holds are matched, so a retried purchase finds the same
+   * wins without awarding them twice.
+   */
+  static async awardWins(competitionId: number, ticketNumbers: number[], entryId: number): Promise<InstantWinResult[]> {
+    if (ticketNumbers.length === 0) {
+      return [];
+    }
+
+    const hits = await db.select({ ticket: instantWinTickets })
+      .from(instantWinTickets)
+      .innerJoin(ticketStatuses, and(
+        eq(ticketStatuses.competitionId, instantWinTickets.competitionId),
+        eq(ticketStatuses.ticketNumber, instantWinTickets.ticketNumber)
+      ))
+      .where(and(
+        eq(instantWinTickets.competitionId, competitionId),
+        inArray(instantWinTickets.ticketNumber, ticketNumbers),
+        isNull(instantWinTickets.wonAt),
+        eq(ticketStatuses.status, 'purchased'),
+        eq(ticketStatuses.entryId, entryId)
+      ));
+
+    if (hits.length === 0) {
+      return [];
+    }
+
+    const [entry] = await db.select().from(entries).where(eq(entries.id, entryId)).limit(1);
+    if (!entry) {
+      throw new Error(`Entry ${entryId} not found`);
+    }
+
+    if (entry.skillAnswerCorrect === false) {
+      console.log(`⚡ Entry ${entryId} hit instant win tickets ${hits.map(hit => hit.ticket.ticketNumber).join(', ')} but answered the question wrongly`);
+      return [];
+    }
+
+    for (const { ticket } of hits) {
+      const winner = await db.transaction(async (tx) => {
+        // Claim the ticket first so two deliveries of the same purchase cannot both award it
+        const [claimed] = await tx.update(instantWinTickets)
+          .set({ wonAt: new Date() })
+          .where(and(eq(instantWinTickets.id, ticket.id), isNull(instantWinTickets.wonAt)))
+          .returning();
+        if (!claimed) {
+          return null;
+        }
+
+        const [winner] = await tx.insert(winners)
+          .values({
+            userId: entry.userId,
+            competitionId,
+            entryId,
+            claimStatus: 'pending',
+            claimDeadline: WinnerService.claimDeadline(),
+            instantWinPrizeId: ticket.prizeId,
+            ticketNumber: ticket.ticketNumber
+          })
+          .returning();
+
+        await tx.update(instantWinTickets)
+          .set({ winnerId: winner.id })
+          .where(eq(instantWinTickets.id, ticket.id));
+
+        return winner;
+      });
+
+      if (winner) {
+        console.log(`⚡ Ticket ${ticket.ticketNumber} in competition ${competitionId} won instant prize ${ticket.prizeId} for entry ${entryId}`);
+        await WinnerService.notifyWinner(winner.id);
+      }
+    }
+
+    liveUpdates.competition(competitionId);
+    return this.getWinsForEntries([entryId]);
+  }
+
+  /**
+   * The instant wins on a set of entries, for the purchase confirmation
+   */
+  static async getWinsForEntries(entryIds: number[]): Promise<InstantWinResult[]> {
+    if (entryIds.length === 0) {
+      return [];
+    }
+
+    const rows = await db.select({
+      winner: winners,
+      prize: instantWinPrizes,
+      competitionTitle: competitions.title
+    })
+      .from(winners)
+      .innerJoin(instantWinPrizes, eq(instantWinPrizes.id, winners.instantWinPrizeId))
+      .leftJoin(competitions, eq(competitions.id, winners.competitionId))
+      .where(inArray(winners.entryId, entryIds))
+      .orderBy(asc(winners.id));
+
+    return rows.map(({ winner, prize, competitionTitle }) => ({
+      winnerId: winner.id,
+      entryId: winner.entryId,
+      competitionId: winner.competitionId,
+      competitionTitle,
+      ticketNumber: winner.ticketNumber!,
+      prize: { id: prize.id, title: prize.title, prizeType: prize.prizeType, value: prize.value }
+    }));
+  }
+
+  private static async getUnavailableNumbers(competitionId: number, ticketNumbers: number[]): Promise<number[]> {
+    if (ticketNumbers.length === 0) {
+      return [];
+    }
+
+    const prized = await db.select({ ticketNumber: instantWinTickets.ticketNumber })
+      .from(instantWinTickets)
+      .where(and(eq(instantWinTickets.competitionId, competitionId), inArray(instantWinTickets.ticketNumber, ticketNumbers)));
+
+    const sold = await db.select({ ticketNumber: ticketStatuses.ticketNumber })
+      .from(ticketStatuses)
+      .where(and(
+        eq(ticketStatuses.competitionId, competitionId),
+        eq(ticketStatuses.status, 'purchased'),
+        inArray(ticketStatuses.ticketNumber, ticketNumbers)
+      ));
+
+    return Array.from(new Set([...prized, ...sold].map(row => row.ticketNumber))).sort((a, b) => a - b);
+  }
+}
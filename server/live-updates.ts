@@ -0,0 +1,111 @@
+import { EventEmitter } from 'events';
+import type { Request, Response } from 'express';
+import { db } from './db';
+import { competitions, type Draw, type LiveUpdate } from '@shared/schema';
+import { eq } from 'drizzle-orm';
+
+// Comment lines keep idle connections open through proxies that time them out
+const HEARTBEAT_MS = 25 * 1000;
+
+/**
+ * Live Updates - pushes ticket, sales and draw changes to browsers over
+ * Server-Sent Events
+ *
+ * Events are fanned out in memory, so a browser only hears about changes made
+ * by the instance it is connected to. Clients refetch when they reconnect,
+ * which covers anything missed while the stream was down.
+ */
+class LiveUpdates {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open stream
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(update: LiveUpdate) {
+    this.emitter.emit('update', update);
+  }
+
+  tickets(competitionId: number, status: 'available' | 'reserved' | 'purchased', ticketNumbers: number[]) {
+    if (ticketNumbers.length === 0) {
+      return;
+    }
+    this.publish({ type: 'tickets', competitionId, status, ticketNumbers });
+  }
+
+  /**
+   * Publish a competition's current ticketsSold. Read from the database so
+   * concurrent sales never push a stale count.
+   */
+  async progress(competitionId: number) {
+    try {
+      const [competition] = await db.select({
+        ticketsSold: competitions.ticketsSold,
+        totalTickets: competitions.totalTickets
+      })
+        .from(competitions)
+        .where(eq(competitions.id, competitionId))
+        .limit(1);
+
+      if (competition) {
+        this.publish({
+          type: 'progress',
+          competitionId,
+          ticketsSold: competition.ticketsSold || 0,
+          totalTickets: competition.totalTickets
+        });
+      }
+    } catch (error) {
+      // A missed progress event must never fail the sale behind it
+      console.error(`❌ Failed to publish progress for competition ${competitionId}:`, error);
+    }
+  }
+
+  draw(draw: Draw) {
+    this.publish({
+      type: 'draw',
+      competitionId: draw.competitionId,
+      winningTicketNumber: draw.winningTicketNumber,
+      drawnAt: (draw.drawnAt || new Date()).toISOString()
+    });
+  }
+
+  competition(competitionId: number) {
+    this.publish({ type: 'competition', competitionId });
+  }
+
+  /**
+   * Stream updates to a client until it disconnects. A null filter streams
+   * every competition.
+   */
+  stream(req: Request, res: Response, competitionIds: number[] | null) {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      // Stop nginx buffering the stream
+      'X-Accel-Buffering': 'no'
+    });
+    res.write('retry: 5000\n\n');
+
+    const filter = competitionIds ? new Set(competitionIds) : null;
+    const listener = (update: LiveUpdate) => {
+      if (!filter || filter.has(update.competitionId)) {
+        res.write(`event: ${update.type}\ndata: ${JSON.stringify(update)}\n\n`);
+      }
+    };
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_MS);
+
+    this.emitter.on('update', listener);
+    console.log(`📡 Live stream opened (${filter ? `competitions ${Array.from(filter).join(', ')}` : 'all competitions'}), ${this.emitter.listenerCount('update')} open`);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      this.emitter.off('update', listener);
+      console.log(`📡 Live stream closed, ${this.emitter.listenerCount('update')} open`);
+    });
+  }
+}
+
+export const liveUpdates = new LiveUpdates();
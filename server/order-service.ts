@@ -0,0 +1,152 @@
+import { db } from './db';
+import { competitions, orders, orderItems, users, type Order, type OrderItem, type OrderStatus, type OrderWithItems, type PricedCart } from '@shared/schema';
+import { PromoCodeService } from './promo-code-service';
+import { eq, desc, inArray } from 'drizzle-orm';
+
+/**
+ * Order Service - one order per checkout
+ *
+ * An order is created, pending, before the customer is sent to Stripe. Its
+ * items hold the server-priced lines and are linked to the entries created
+ * when the payment succeeds. Creating the order reserves a use of its promo
+ * code, which is given back if the order fails.
+ */
+export class OrderService {
+  static async createOrder(userId: number, pricedCart: PricedCart): Promise<Order> {
+    return db.transaction(async (tx) => {
+      const [order] = await tx.insert(orders)
+        .values({
+          userId,
+          status: 'pending',
+          subtotal: pricedCart.subtotal,
+          discount: pricedCart.discount,
+          total: pricedCart.total,
+          promoCodeId: pricedCart.promoCode?.id ?? null,
+          promoCode: pricedCart.promoCode?.code ?? null
+        })
+        .returning();
+
+      await tx.insert(orderItems)
+        .values(pricedCart.items.map(item => ({
+          orderId: order.id,
+          competitionId: item.competitionId,
+          ticketCount: item.ticketCount,
+          selectedNumbers: item.selectedNumbers,
+          skillAnswer: item.skillAnswer ?? null,
+          unitPrice: item.unitPrice,
+          discount: item.discount,
+          total: item.total
+        })));
+
+      await PromoCodeService.reserveUse(tx, order);
+
+      console.log(`🧾 Created order ${order.id} for user ${userId}: ${pricedCart.items.length} items, ${order.total} pence`);
+      return order;
+    });
+  }
+
+  static async getOrder(orderId: number): Promise<Order | undefined> {
+    const [order] = await db.select().from(orders).where(eq(orders.id, orderId)).limit(1);
+    return order;
+  }
+
+  static async getOrderByPaymentReference(paymentReference: string): Promise<Order | undefined> {
+    const [order] = await db.select()
+      .from(orders)
+      .where(eq(orders.paymentReference, paymentReference))
+      .limit(1);
+    return order;
+  }
+
+  static async getOrderItems(orderId: number): Promise<OrderItem[]> {
+    return db.select().from(orderItems).where(eq(orderItems.orderId, orderId)).orderBy(orderItems.id);
+  }
+
+  static async setPaymentReference(orderId: number, paymentReference: string): Promise<void> {
+    await db.update(orders)
+      .set({ paymentReference, updatedAt: new Date() })
+      .where(eq(orders.id, orderId));
+  }
+
+  static async linkEntry(orderItemId: number, entryId: number): Promise<void> {
+    await db.update(orderItems)
+      .set({ entryId })
+      .where(eq(orderItems.id, orderItemId));
+  }
+
+  static async updateStatus(orderId: number, status: OrderStatus): Promise<Order | undefined> {
+    const [order] = await db.update(orders)
+      .set({
+        status,
+        updatedAt: new Date(),
+        ...(status === 'paid' ? { paidAt: new Date() } : {})
+      })
+      .where(eq(orders.id, orderId))
+      .returning();
+
+    if (order) {
+      console.log(`🧾 Order ${orderId} is now ${status}`);
+    }
+    if (order && status === 'failed') {
+      await PromoCodeService.releaseUse(orderId);
+    }
+    return order;
+  }
+
+  /**
+   * Attach items (with competition titles) and optionally the buyer to a list of orders
+   */
+  private static async withItems(orderRows: Order[], includeUser = false): Promise<OrderWithItems[]> {
+    if (orderRows.length === 0) {
+      return [];
+    }
+
+    const orderIds = orderRows.map(order => order.id);
+    const itemRows = await db.select({
+      item: orderItems,
+      competitionTitle: competitions.title
+    })
+      .from(orderItems)
+      .leftJoin(competitions, eq(orderItems.competitionId, competitions.id))
+      .where(inArray(orderItems.orderId, orderIds))
+      .orderBy(orderItems.id);
+
+    const buyers = includeUser
+      ? await db.select({ id: users.id, username: users.username, email: users.email })
+          .from(users)
+          .where(inArray(users.id, Array.from(new Set(orderRows.map(order => order.userId)))))
+      : [];
+
+    return orderRows.map(order => ({
+      ...order,
+      items: itemRows
+        .filter(row => row.item.orderId === order.id)
+        .map(row => ({ ...row.item, competitionTitle: row.competitionTitle })),
+      ...(includeUser ? { user: buyers.find(buyer => buyer.id === order.userId) } : {})
+    }));
+  }
+
+  static async getOrdersForUser(userId: number): Promise<OrderWithItems[]> {
+    const orderRows = await db.select()
+      .from(orders)
+      .where(eq(orders.userId, userId))
+      .orderBy(desc(orders.createdAt));
+    return this.withItems(orderRows);
+  }
+
+  static async getAllOrders(status?: OrderStatus): Promise<OrderWithItems[]> {
+    const orderRows = status
+      ? await db.select().from(orders).where(eq(orders.status, status)).orderBy(desc(orders.createdAt))
+      : await db.select().from(orders).orderBy(desc(orders.createdAt));
+    return this.withItems(orderRows, true);
+  }
+
+  static async getOrderWithItems(orderId: number): Promise<OrderWithItems | undefined> {
+    const order = await this.getOrder(orderId);
+    if (!order) {
+      return undefined;
+    }
+    const [withItems] = await this.withItems([order], true);
+    return withItems;
+  }
+}
@@ -0,0 +1,101 @@
+import { createHash, randomBytes } from 'crypto';
+import { db } from './db';
+import { passwordResetTokens, users } from '@shared/schema';
+import { AccountService } from './account-service';
+import { AuditService } from './audit-service';
+import { EmailService } from './email-service';
+import { siteUrl } from './email-templates';
+import { and, eq, gt, isNull, sql } from 'drizzle-orm';
+
+// How long an emailed reset link works for
+export const RESET_TOKEN_MINUTES = 60;
+
+// Reset emails sent to one account per hour - further requests are ignored
+const MAX_REQUESTS_PER_HOUR = 3;
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Password Reset Service - "forgot password" by emailed one-time link
+ *
+ * The link carries a random token; only its SHA-256 hash is stored, so the
+ * table alone cannot be used to reset anyone's password. A token works
+ * once, before it expires, and using it ends every session on the account.
+ */
+export class PasswordResetService {
+  /**
+   * Email a reset link if the address belongs to an account that can sign
+   * in. Resolves the same way whether or not it does, so callers never
+   * reveal which addresses are registered.
+   */
+  static async requestReset(email: string, requestedIp: string | null): Promise<void> {
+    const [user] = await db.select().from(users).where(eq(users.email, email)).limit(1);
+    if (!user || user.isGuest || user.isBanned) {
+      console.log('🔑 Password reset requested for an address with no active account');
+      return;
+    }
+
+    const [{ recent }] = await db.select({ recent: sql<number>`count(*)` })
+      .from(passwordResetTokens)
+      .where(and(
+        eq(passwordResetTokens.userId, user.id),
+        gt(passwordResetTokens.createdAt, new Date(Date.now() - 60 * 60 * 1000))
+      ));
+    if (Number(recent) >= MAX_REQUESTS_PER_HOUR) {
+      console.warn(`🔑 Password reset limit reached for user ${user.id} - not sending another link`);
+      return;
+    }
+
+    const token = randomBytes(32).toString('hex');
+    await db.insert(passwordResetTokens).values({
+      userId: user.id,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + RESET_TOKEN_MINUTES * 60 * 1000),
+      requestedIp
+    });
+
+    await EmailService.sendToUser(user, 'password_reset', {
+      resetUrl: siteUrl(`/reset-password?token=${token}`),
+      expiresInMinutes: RESET_TOKEN_MINUTES
+    });
+    console.log(`🔑 Password reset link sent to user ${user.id}`);
+  }
+
+  /**
+   * Set a new password with an emailed token. The token and any others
+   * outstanding for the account stop working.
+   * @param passwordHash the new password, already hashed
+   */
+  static async resetPassword(token: string, passwordHash: string): Promise<void> {
+    const userId = await db.transaction(async (tx) => {
+      // Claiming the token in one conditional update stops it being used twice
+      const [claimed] = await tx.update(passwordResetTokens)
+        .set({ usedAt: new Date() })
+        .where(and(
+          eq(passwordResetTokens.tokenHash, hashToken(token)),
+          isNull(passwordResetTokens.usedAt),
+          gt(passwordResetTokens.expiresAt, new Date())
+        ))
+        .returning();
+      if (!claimed) {
+        throw new Error('This reset link is invalid or has expired');
+      }
+
+      await tx.update(users)
+        .set({ password: passwordHash })
+        .where(eq(users.id, claimed.userId));
+
+      await tx.update(passwordResetTokens)
+        .set({ usedAt: new Date() })
+        .where(and(eq(passwordResetTokens.userId, claimed.userId), isNull(passwordResetTokens.usedAt)));
+
+      return claimed.userId;
+    });
+
+    const revoked = await AccountService.revokeSessions(userId);
+    await AuditService.record(userId, 'user.password_reset', 'user', userId, { sessionsEnded: revoked });
+    console.log(`🔑 Password reset for user ${userId}, signed out ${revoked} sessions`);
+  }
+}
@@ -0,0 +1,474 @@
+import type Stripe from 'stripe';
+import { db } from './db';
+import { storage } from './storage';
+import { entries, orders, stripeEvents, type CheckoutCartItem, type Entry, type Order } from '@shared/schema';
+import { TicketService } from './ticket-service';
+import { CartService } from './cart-service';
+import { PromoCodeService } from './promo-code-service';
+import { OrderService } from './order-service';
+import { SkillQuestionService } from './skill-question-service';
+import { EmailService } from './email-service';
+import { RefundService } from './refund-service';
+import { liveUpdates } from './live-updates';
+import { stripe } from './stripe';
+import { eq, and, sql } from 'drizzle-orm';
+import { TransactionRollbackError } from 'drizzle-orm/errors';
+
+// Stripe caps each metadata value at 500 characters, so long carts are split across keys
+const METADATA_VALUE_LIMIT = 500;
+
+// Payment intents the customer has not paid yet, which can still be cancelled
+const UNPAID_INTENT_STATUSES: Stripe.PaymentIntent.Status[] = ['requires_payment_method', 'requires_confirmation', 'requires_action'];
+
+// A delivery still marked as processing after this long is assumed to have crashed
+const STALE_EVENT_MS = 5 * 60 * 1000;
+
+/**
+ * Encode cart items into payment intent metadata, chunking the JSON over
+ * cartItems_0, cartItems_1... when it does not fit in a single value
+ */
+export function buildCartMetadata(cartItems: CheckoutCartItem[]): Record<string, string> {
+  const json = JSON.stringify(cartItems.map(item => ({
+    competitionId: item.competitionId,
+    ticketCount: item.ticketCount,
+    selectedNumbers: item.selectedNumbers || [],
+    skillAnswer: item.skillAnswer,
+    unitPrice: item.unitPrice,
+    discount: item.discount,
+    total: item.total
+  })));
+
+  if (json.length <= METADATA_VALUE_LIMIT) {
+    return { cartItems: json };
+  }
+
+  const metadata: Record<string, string> = {};
+  let chunks = 0;
+  for (let i = 0; i < json.length; i += METADATA_VALUE_LIMIT) {
+    metadata[`cartItems_${chunks++}`] = json.slice(i, i + METADATA_VALUE_LIMIT);
+  }
+  metadata.cartItemsChunks = String(chunks);
+  return metadata;
+}
+
+/**
+ * Read the cart back out of payment intent metadata. Older single
+ * competition payments only carry competitionId and ticketCount.
+ */
+export function parseCartMetadata(metadata: Record<string, string>): CheckoutCartItem[] {
+  let json = metadata.cartItems;
+
+  if (metadata.cartItemsChunks) {
+    json = '';
+    for (let i = 0; i < parseInt(metadata.cartItemsChunks); i++) {
+      json += metadata[`cartItems_${i}`] || '';
+    }
+  }
+
+  if (json && json !== 'undefined') {
+    const parsed = JSON.parse(json);
+    if (!Array.isArray(parsed)) {
+      throw new Error('Cart metadata is not a list of items');
+    }
+
+    return parsed.map((item: any) => ({
+      competitionId: Number(item.competitionId),
+      ticketCount: Number(item.ticketCount),
+      selectedNumbers: Array.isArray(item.selectedNumbers) ? item.selectedNumbers.map(Number) : [],
+      skillAnswer: typeof item.skillAnswer === 'string' ? item.skillAnswer : undefined,
+      unitPrice: item.unitPrice,
+      discount: item.discount,
+      total: item.total
+    }));
+  }
+
+  if (metadata.competitionId && metadata.ticketCount) {
+    return [{
+      competitionId: parseInt(metadata.competitionId),
+      ticketCount: parseInt(metadata.ticketCount),
+      selectedNumbers: []
+    }];
+  }
+
+  return [];
+}
+
+/**
+ * Payment Service - turns successful Stripe payments into competition entries
+ *
+ * The webhook is the source of truth for paid entries. The order created at
+ * checkout says what was bought; every step is keyed on the payment intent id,
+ * so the same payment can be reconciled any number of times (webhook retries,
+ * the browser confirming checkout) without duplicates.
+ */
+export class PaymentService {
+  /**
+   * Find the order a payment intent was created for
+   */
+  private static async findOrder(paymentIntent: Stripe.PaymentIntent): Promise<Order | undefined> {
+    const orderId = parseInt(paymentIntent.metadata.orderId);
+    if (!isNaN(orderId)) {
+      return OrderService.getOrder(orderId);
+    }
+    return OrderService.getOrderByPaymentReference(paymentIntent.id);
+  }
+
+  /**
+   * Create or complete one entry per cart item for a succeeded payment intent,
+   * move the chosen tickets to purchased and mark the order as paid
+   */
+  static async reconcilePaymentIntent(paymentIntent: Stripe.PaymentIntent): Promise<Entry[]> {
+    if (paymentIntent.status !== 'succeeded') {
+      throw new Error(`Payment intent ${paymentIntent.id} has not succeeded (${paymentIntent.status})`);
+    }
+
+    const userId = parseInt(paymentIntent.metadata.userId);
+    if (isNaN(userId)) {
+      throw new Error(`Payment intent ${paymentIntent.id} has no user in its metadata`);
+    }
+
+    const order = await this.findOrder(paymentIntent);
+    let cartItems: (CheckoutCartItem & { orderItemId?: number; entryId?: number | null })[];
+
+    if (order) {
+      if (order.userId !== userId) {
+        throw new Error(`Order ${order.id} does not belong to the user on payment intent ${paymentIntent.id}`);
+      }
+
+      // Entries are only created for the amount Stripe actually collected
+      if (order.total !== paymentIntent.amount_received) {
+        throw new Error(`Payment intent ${paymentIntent.id} collected ${paymentIntent.amount_received} but order ${order.id} totals ${order.total}`);
+      }
+
+      cartItems = (await OrderService.getOrderItems(order.id)).map(item => ({
+        competitionId: item.competitionId,
+        ticketCount: item.ticketCount,
+        selectedNumbers: item.selectedNumbers || [],
+        skillAnswer: item.skillAnswer ?? undefined,
+        total: item.total,
+        orderItemId: item.id,
+        entryId: item.entryId
+      }));
+    } else {
+      cartItems = parseCartMetadata(paymentIntent.metadata);
+
+      if (cartItems.every(item => typeof item.total === 'number')) {
+        const pricedTotal = cartItems.reduce((sum, item) => sum + item.total!, 0);
+        if (pricedTotal !== paymentIntent.amount_received) {
+          throw new Error(`Payment intent ${paymentIntent.id} collected ${paymentIntent.amount_received} but the cart was priced at ${pricedTotal}`);
+        }
+      } else {
+        console.warn(`💳 Payment intent ${paymentIntent.id} predates server-side pricing - reconciling without an amount check`);
+      }
+    }
+
+    if (cartItems.length === 0) {
+      throw new Error(`Payment intent ${paymentIntent.id} has no cart items to reconcile`);
+    }
+
+    console.log(`💳 Reconciling payment ${paymentIntent.id} for user ${userId}: ${cartItems.length} items`);
+
+    const reconciled: Entry[] = [];
+    const unfulfilled: { entry: Entry; refundReason: string }[] = [];
+    for (const item of cartItems) {
+      const { entry, refundReason } = await this.reconcileCartItem(paymentIntent.id, userId, item);
+      if (item.orderItemId && item.entryId !== entry.id) {
+        await OrderService.linkEntry(item.orderItemId, entry.id);
+      }
+      if (refundReason) {
+        unfulfilled.push({ entry, refundReason });
+      } else {
+        reconciled.push(entry);
+      }
+    }
+
+    // The paid-for lines leave the cart wherever the payment was completed
+    await CartService.removePurchasedItems(userId, cartItems.map(item => item.competitionId));
+
+    // Never move a refunded order back to paid on a late retry
+    if (order && (order.status === 'pending' || order.status === 'failed')) {
+      await OrderService.updateStatus(order.id, 'paid');
+      await this.sendReceipt(order, reconciled);
+    }
+
+    // The promo code use reserved at checkout counts once its order is paid
+    if (order) {
+      await PromoCodeService.recordRedemption(order);
+    }
+
+    // Refunded after the order is marked paid so its refund status sticks
+    for (const { entry, refundReason } of unfulfilled) {
+      await RefundService.refundEntry(entry, refundReason, null);
+    }
+
+    return reconciled;
+  }
+
+  /**
+   * Mark the order for a failed or cancelled payment intent as failed
+   */
+  static async failPaymentIntent(paymentIntent: Stripe.PaymentIntent): Promise<void> {
+    // A retried payment can succeed after an earlier attempt failed
+    if (paymentIntent.status === 'succeeded') {
+      return;
+    }
+
+    const order = await this.findOrder(paymentIntent);
+    if (order && order.status === 'pending') {
+      await OrderService.updateStatus(order.id, 'failed');
+    }
+  }
+
+  /**
+   * Cancel the user's unpaid checkouts holding a use of a promo code, so a
+   * new checkout with the code can take the use over. A checkout Stripe is
+   * already processing keeps its use and counts against the new one.
+   */
+  static async cancelSupersededCheckouts(userId: number, promoCodeId: number): Promise<void> {
+    if (!stripe) {
+      return;
+    }
+
+    const pending = await db.select()
+      .from(orders)
+      .where(
+        and(
+          eq(orders.userId, userId),
+          eq(orders.promoCodeId, promoCodeId),
+          eq(orders.status, 'pending')
+        )
+      );
+
+    for (const order of pending) {
+      // Still being set up by another request - its reservation expires on its own
+      if (!order.paymentReference) {
+        continue;
+      }
+
+      const paymentIntent = await stripe.paymentIntents.retrieve(order.paymentReference);
+      if (!UNPAID_INTENT_STATUSES.includes(paymentIntent.status)) {
+        continue;
+      }
+
+      await stripe.paymentIntents.cancel(paymentIntent.id);
+      await OrderService.updateStatus(order.id, 'failed');
+      console.log(`💳 Cancelled payment ${paymentIntent.id} for order ${order.id} - replaced by a new checkout`);
+    }
+  }
+
+  /**
+   * Email the buyer their ticket numbers. Only sent as the order first becomes
+   * paid, so webhook retries never send it twice.
+   */
+  private static async sendReceipt(order: Order, reconciled: Entry[]): Promise<void> {
+    try {
+      const paid = await OrderService.getOrderWithItems(order.id);
+      if (!paid) {
+        return;
+      }
+
+      await EmailService.sendToUser(order.userId, 'order_receipt', {
+        orderId: order.id,
+        total: paid.total,
+        items: paid.items.flatMap(item => {
+          const entry = reconciled.find(e => e.id === item.entryId) ||
+            reconciled.find(e => e.competitionId === item.competitionId);
+          // Lines that could not be fulfilled are refunded instead
+          if (!entry) {
+            return [];
+          }
+          return [{
+            competitionTitle: item.competitionTitle || `Competition ${item.competitionId}`,
+            ticketNumbers: [...(entry.selectedNumbers || item.selectedNumbers || [])].sort((a, b) => a - b),
+            total: item.total
+          }];
+        })
+      });
+    } catch (error) {
+      console.error(`❌ Failed to queue receipt email for order ${order.id}:`, error);
+    }
+  }
+
+  private static async findEntry(paymentIntentId: string, competitionId: number): Promise<Entry | undefined> {
+    const [entry] = await db.select()
+      .from(entries)
+      .where(
+        and(
+          eq(entries.stripePaymentId, paymentIntentId),
+          eq(entries.competitionId, competitionId)
+        )
+      )
+      .limit(1);
+    return entry;
+  }
+
+  /**
+   * Complete the entry for one cart line and give it its tickets: the chosen
+   * numbers, then random ones for the rest of the ticket count. If the entry
+   * would take the user over the competition's per-person limit, or any
+   * chosen number has gone to someone else, no tickets are taken and the
+   * reason is returned so the entry can be refunded.
+   */
+  private static async reconcileCartItem(
+    paymentIntentId: string,
+    userId: number,
+    item: CheckoutCartItem
+  ): Promise<{ entry: Entry; refundReason: string | null }> {
+    const competition = await storage.getCompetition(item.competitionId);
+    if (!competition) {
+      throw new Error(`Competition ${item.competitionId} not found`);
+    }
+
+    let entry = await this.findEntry(paymentIntentId, item.competitionId);
+
+    if (!entry) {
+      try {
+        entry = await storage.createEntry({
+          userId,
+          competitionId: item.competitionId,
+          ticketCount: item.ticketCount,
+          selectedNumbers: item.selectedNumbers,
+          paymentStatus: 'completed',
+          stripePaymentId: paymentIntentId,
+          ...SkillQuestionService.grade(competition, item.skillAnswer)
+        });
+        console.log(`💳 Created entry ${entry.id} for competition ${item.competitionId} from payment ${paymentIntentId}`);
+      } catch (error: any) {
+        // A concurrent delivery created it first - the unique index stopped the duplicate
+        if (error.code !== '23505') {
+          throw error;
+        }
+        entry = await this.findEntry(paymentIntentId, item.competitionId);
+        if (!entry) {
+          throw error;
+        }
+      }
+    } else if (entry.paymentStatus === 'refunded') {
+      // Refunded on an earlier delivery - never revive it
+      return { entry, refundReason: null };
+    } else if (entry.paymentStatus !== 'completed') {
+      entry = (await storage.updateEntryPaymentStatus(entry.id, 'completed', paymentIntentId)) ?? entry;
+      console.log(`💳 Completed entry ${entry.id} for competition ${item.competitionId} from payment ${paymentIntentId}`);
+    }
+
+    const entryId = entry.id;
+    const ticketCount = entry.ticketCount;
+
+    const held = await TicketService.countUserTickets(item.competitionId, userId, entryId);
+    if (held + ticketCount > competition.maxTicketsPerUser) {
+      console.warn(`💳 Entry ${entryId} would give user ${userId} ${held + ticketCount} tickets in competition ${item.competitionId} - over the limit of ${competition.maxTicketsPerUser}`);
+      return {
+        entry,
+        refundReason: `Over the limit of ${competition.maxTicketsPerUser} tickets per person - ${held} already held`
+      };
+    }
+
+    let lost: number[] = [];
+    let added: number[] = [];
+
+    try {
+      [entry, added] = await db.transaction(async (tx): Promise<[Entry, number[]]> => {
+        const purchase = await TicketService.purchaseTickets(item.competitionId, item.selectedNumbers, userId, entryId, tx);
+        if (purchase.lost.length > 0) {
+          lost = purchase.lost;
+          tx.rollback();
+        }
+
+        const held = await TicketService.getEntryTicketNumbers(item.competitionId, entryId, tx);
+        const allocated = held.length < ticketCount
+          ? await TicketService.allocateTickets(item.competitionId, ticketCount - held.length, userId, entryId, tx)
+          : [];
+
+        const [updated] = await tx.update(entries)
+          .set({ selectedNumbers: [...held, ...allocated].sort((a, b) => a - b) })
+          .where(eq(entries.id, entryId))
+          .returning();
+
+        return [updated, [...purchase.purchased, ...allocated]];
+      });
+    } catch (error) {
+      if (!(error instanceof TransactionRollbackError)) {
+        throw error;
+      }
+      return {
+        entry,
+        refundReason: `Ticket${lost.length === 1 ? '' : 's'} ${lost.join(', ')} sold to another player before payment completed`
+      };
+    }
+
+    // Only announce once the transaction has committed
+    liveUpdates.tickets(item.competitionId, 'purchased', added);
+    await TicketService.revealInstantWins(item.competitionId, added, entryId);
+
+    return { entry, refundReason: null };
+  }
+
+  /**
+   * Process a webhook event exactly once per event id. The payment intent is
+   * always fetched from Stripe rather than trusted from the event body.
+   * Returns false when the event has already been handled.
+   */
+  static async handleWebhookEvent(event: Stripe.Event): Promise<boolean> {
+    const paymentIntentId = event.type.startsWith('payment_intent.')
+      ? (event.data.object as Stripe.PaymentIntent).id
+      : null;
+
+    if (!(await this.claimEvent(event, paymentIntentId))) {
+      console.log(`💳 Stripe event ${event.id} already handled - skipping`);
+      return false;
+    }
+
+    try {
+      if (event.type === 'payment_intent.succeeded') {
+        await this.reconcilePaymentIntent(await this.retrievePaymentIntent(paymentIntentId!));
+      } else if (event.type === 'payment_intent.payment_failed' || event.type === 'payment_intent.canceled') {
+        await this.failPaymentIntent(await this.retrievePaymentIntent(paymentIntentId!));
+      }
+
+      await db.update(stripeEvents)
+        .set({ status: 'processed', processedAt: new Date() })
+        .where(eq(stripeEvents.eventId, event.id));
+      return true;
+    } catch (error) {
+      // Release the claim so Stripe's retry can process the event again
+      await db.delete(stripeEvents).where(eq(stripeEvents.eventId, event.id));
+      throw error;
+    }
+  }
+
+  private static async retrievePaymentIntent(paymentIntentId: string): Promise<Stripe.PaymentIntent> {
+    if (!stripe) {
+      throw new Error('Stripe is not configured');
+    }
+    return stripe.paymentIntents.retrieve(paymentIntentId);
+  }
+
+  /**
+   * Record the event id before processing. Fails if another delivery has
+   * already processed it or is processing it right now.
+   */
+  private static async claimEvent(event: Stripe.Event, paymentIntentId: string | null): Promise<boolean> {
+    const [claimed] = await db.insert(stripeEvents)
+      .values({ eventId: event.id, type: event.type, paymentIntentId })
+      .onConflictDoNothing({ target: stripeEvents.eventId })
+      .returning();
+
+    if (claimed) {
+      return true;
+    }
+
+    // Take over a claim left behind by a delivery that crashed mid-way
+    const [reclaimed] = await db.update(stripeEvents)
+      .set({ receivedAt: new Date() })
+      .where(
+        and(
+          eq(stripeEvents.eventId, event.id),
+          eq(stripeEvents.status, 'processing'),
+          sql`${stripeEvents.receivedAt} < ${new Date(Date.now() - STALE_EVENT_MS)}`
+        )
+      )
+      .returning();
+
+    return !!reclaimed;
+  }
+}
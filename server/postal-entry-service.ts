@@ -0,0 +1,222 @@
+import { randomBytes } from 'crypto';
+import { db } from './db';
+import {
+  competitions,
+  entries,
+  postalEntries,
+  users,
+  type Entry,
+  type InsertPostalEntry,
+  type PostalEntry,
+  type User
+} from '@shared/schema';
+import { TicketService } from './ticket-service';
+import { AuditService } from './audit-service';
+import { SkillQuestionService } from './skill-question-service';
+import { ResponsiblePlayService } from './responsible-play-service';
+import { AgeVerificationService } from './age-verification-service';
+import { liveUpdates } from './live-updates';
+import { eq, and, desc, sql } from 'drizzle-orm';
+
+export interface PostalEntryDetails extends PostalEntry {
+  entry: Entry | null;
+  user: Pick<User, 'id' | 'username' | 'email' | 'displayName' | 'isGuest'> | null;
+  competitionTitle: string | null;
+}
+
+/**
+ * Postal Entry Service - records free "no purchase necessary" entries
+ *
+ * A postal entry is a normal entry row with entryMethod 'postal' and a
+ * paymentStatus of 'free', so it is drawn like any other entry but never
+ * refunded. Senders without an account get a guest user record that
+ * cannot log in.
+ */
+export class PostalEntryService {
+  static async recordPostalEntry(data: InsertPostalEntry, actorId: number): Promise<PostalEntryDetails> {
+    const [competition] = await db.select()
+      .from(competitions)
+      .where(eq(competitions.id, data.competitionId))
+      .limit(1);
+
+    if (!competition) {
+      throw new Error('Competition not found');
+    }
+
+    if (competition.cancelledAt) {
+      throw new Error('This competition has been cancelled');
+    }
+
+    if (new Date(competition.drawDate) <= new Date()) {
+      throw new Error('This competition has closed for entries');
+    }
+
+    const user = data.userId
+      ? await this.getUser(data.userId)
+      : await this.createGuestEntrant(data.guest!);
+
+    // Postal entries count towards the same per-user limit as paid ones
+    if (competition.maxTicketsPerUser) {
+      const held = await TicketService.countUserTickets(competition.id, user.id);
+      if (held + data.ticketCount > competition.maxTicketsPerUser) {
+        throw new Error(`This entrant already holds ${held} of the ${competition.maxTicketsPerUser} tickets allowed per person`);
+      }
+    }
+
+    await TicketService.initializeTicketStatuses(competition.id);
+
+    const { postal: postalEntry, ticketNumbers } = await db.transaction(async (tx) => {
+      const [entry] = await tx.insert(entries)
+        .values({
+          userId: user.id,
+          competitionId: competition.id,
+          ticketCount: data.ticketCount,
+          paymentStatus: 'free',
+          entryMethod: 'postal',
+          ...SkillQuestionService.grade(competition, data.skillAnswer)
+        })
+        .returning();
+
+      const ticketNumbers = await TicketService.allocateTickets(competition.id, data.ticketCount, user.id, entry.id, tx);
+
+      await tx.update(entries)
+        .set({ selectedNumbers: ticketNumbers })
+        .where(eq(entries.id, entry.id));
+
+      await tx.update(competitions)
+        .set({ ticketsSold: sql`COALESCE(${competitions.ticketsSold}, 0) + ${data.ticketCount}` })
+        .where(eq(competitions.id, competition.id));
+
+      const [postal] = await tx.insert(postalEntries)
+        .values({
+          entryId: entry.id,
+          competitionId: competition.id,
+          userId: user.id,
+          senderName: data.senderName,
+          senderAddress: data.senderAddress,
+          receivedAt: data.receivedAt,
+          notes: data.notes || null,
+          recordedBy: actorId
+        })
+        .returning();
+
+      return { postal, ticketNumbers };
+    });
+
+    liveUpdates.tickets(competition.id, 'purchased', ticketNumbers);
+    await liveUpdates.progress(competition.id);
+    await TicketService.revealInstantWins(competition.id, ticketNumbers, postalEntry.entryId);
+
+    await AuditService.record(actorId, 'entry.postal_recorded', 'entry', postalEntry.entryId, {
+      competitionId: competition.id,
+      userId: user.id,
+      ticketCount: data.ticketCount,
+      guest: user.isGuest,
+      skillAnswer: data.skillAnswer || null
+    });
+
+    console.log(`✉️ Recorded postal entry ${postalEntry.entryId} for user ${user.id} in competition ${competition.id}`);
+
+    const [details] = await this.getPostalEntries({ entryId: postalEntry.entryId });
+    return details;
+  }
+
+  static async getPostalEntries(filter: { competitionId?: number; entryId?: number } = {}): Promise<PostalEntryDetails[]> {
+    const conditions = [];
+    if (filter.competitionId) {
+      conditions.push(eq(postalEntries.competitionId, filter.competitionId));
+    }
+    if (filter.entryId) {
+      conditions.push(eq(postalEntries.entryId, filter.entryId));
+    }
+
+    const rows = await db.select({
+      postal: postalEntries,
+      entry: entries,
+      user: {
+        id: users.id,
+        username: users.username,
+        email: users.email,
+        displayName: users.displayName,
+        isGuest: users.isGuest
+      },
+      competitionTitle: competitions.title
+    })
+      .from(postalEntries)
+      .leftJoin(entries, eq(entries.id, postalEntries.entryId))
+      .leftJoin(users, eq(users.id, postalEntries.userId))
+      .leftJoin(competitions, eq(competitions.id, postalEntries.competitionId))
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(desc(postalEntries.createdAt));
+
+    return rows.map(row => ({
+      ...row.postal,
+      entry: row.entry,
+      user: row.user,
+      competitionTitle: row.competitionTitle
+    }));
+  }
+
+  /**
+   * The account a postal entry is recorded against. A free entry is still an
+   * entry, so the account holder's own break or self-exclusion and the age
+   * and residency check apply just as they do online.
+   */
+  private static async getUser(userId: number): Promise<User> {
+    const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+    if (!user) {
+      throw new Error('User not found');
+    }
+    if (user.isBanned) {
+      throw new Error('This user is banned and cannot enter');
+    }
+    if (ResponsiblePlayService.restrictionFor(user)) {
+      throw new Error('This user is self-excluded or taking a break and cannot enter');
+    }
+    if (user.ageVerificationStatus === 'failed') {
+      throw new Error('This user failed the age and residency check and cannot enter');
+    }
+    if (!AgeVerificationService.isEligible(user)) {
+      throw new Error('This user has not given their date of birth and UK address and cannot enter until they do');
+    }
+    return user;
+  }
+
+  /**
+   * Create a user record for a postal entrant without an account. The
+   * password is random and never disclosed, and guests are refused at login.
+   * Their date of birth and UK address are declared just as at registration.
+   */
+  private static async createGuestEntrant(guest: NonNullable<InsertPostalEntry['guest']>): Promise<User> {
+    if (guest.email) {
+      const [existing] = await db.select({ id: users.id }).from(users).where(eq(users.email, guest.email)).limit(1);
+      if (existing) {
+        throw new Error('A user with this email already exists - record the entry against their account instead');
+      }
+    }
+
+    const suffix = randomBytes(6).toString('hex');
+    const username = `guest-${suffix}`;
+
+    const [user] = await db.insert(users)
+      .values({
+        username,
+        email: guest.email || `${username}@postal.invalid`,
+        password: `${randomBytes(64).toString('hex')}.${randomBytes(16).toString('hex')}`,
+        displayName: guest.fullName,
+        fullName: guest.fullName,
+        phone: guest.phone || null,
+        dateOfBirth: guest.dateOfBirth,
+        address: guest.address,
+        ageVerificationStatus: AgeVerificationService.declaredStatus(
+          { ageVerificationStatus: 'unverified' },
+          { dateOfBirth: guest.dateOfBirth, address: guest.address }
+        ),
+        isGuest: true
+      })
+      .returning();
+
+    console.log(`✉️ Created guest entrant ${user.id} (${username})`);
+    return user;
+  }
+}
@@ -0,0 +1,156 @@
+import { db } from './db';
+import { SkillQuestionService } from './skill-question-service';
+import { PromoCodeService } from './promo-code-service';
+import { TicketService } from './ticket-service';
+import { bundleTierErrors, priceTickets, type BundleTier } from '@shared/bundle-pricing';
+import { competitions, type CheckoutCartItem, type PricedCart } from '@shared/schema';
+import { eq } from 'drizzle-orm';
+
+// Stripe will not take card payments below 30p
+export const MINIMUM_CHARGE = 30;
+
+export interface PriceCartOptions {
+  promoCode?: string | null;
+  userId?: number | null;
+  // Quotes shown in the cart are priced before the questions are answered
+  requireAnswers?: boolean;
+}
+
+/**
+ * Total up a cart's priced lines. Throws if the order comes to less than a
+ * card payment can be, which a large enough promo code discount can cause.
+ */
+export function totalCart(items: PricedCart['items'], promoCode: PricedCart['promoCode']): PricedCart {
+  const priced: PricedCart = {
+    items,
+    subtotal: items.reduce((sum, item) => sum + item.subtotal, 0),
+    discount: items.reduce((sum, item) => sum + item.discount, 0),
+    total: items.reduce((sum, item) => sum + item.total, 0),
+    promoCode
+  };
+
+  if (priced.total < MINIMUM_CHARGE) {
+    throw new Error(promoCode
+      ? `With promo code ${promoCode.code} the order total is below the minimum card payment of £0.30`
+      : 'The order total is below the minimum card payment of £0.30');
+  }
+
+  return priced;
+}
+
+/**
+ * Pricing Service - works out what a cart costs from the stored ticket prices
+ *
+ * The browser only ever says which competitions and how many tickets; every
+ * amount charged through Stripe comes from here, including the best mix of
+ * multi-buy bundles and any promo code discount. All amounts are in pence.
+ */
+export class PricingService {
+  static async priceCart(cartItems: CheckoutCartItem[], options: PriceCartOptions = {}): Promise<PricedCart> {
+    const { promoCode, userId = null, requireAnswers = true } = options;
+
+    if (!Array.isArray(cartItems) || cartItems.length === 0) {
+      throw new Error('Your cart is empty');
+    }
+
+    const seen = new Set<number>();
+    const items: PricedCart['items'] = [];
+
+    for (const item of cartItems) {
+      const competitionId = Number(item.competitionId);
+      const ticketCount = Number(item.ticketCount);
+      const selectedNumbers = Array.isArray(item.selectedNumbers) ? item.selectedNumbers.map(Number) : [];
+
+      if (!Number.isInteger(competitionId) || competitionId <= 0) {
+        throw new Error(`Invalid competition ID in cart: ${item.competitionId}`);
+      }
+
+      if (seen.has(competitionId)) {
+        throw new Error(`Competition ${competitionId} appears in the cart more than once`);
+      }
+      seen.add(competitionId);
+
+      if (!Number.isInteger(ticketCount) || ticketCount <= 0) {
+        throw new Error(`Invalid ticket count for competition ${competitionId}`);
+      }
+
+      if (selectedNumbers.length > ticketCount) {
+        throw new Error(`More numbers were selected than tickets bought for competition ${competitionId}`);
+      }
+
+      const [competition] = await db.select()
+        .from(competitions)
+        .where(eq(competitions.id, competitionId))
+        .limit(1);
+      if (!competition) {
+        throw new Error(`Competition with ID ${competitionId} not found`);
+      }
+
+      if (!competition.isLive) {
+        throw new Error(`Competition ${competition.title} is no longer active`);
+      }
+
+      if (competition.totalTickets - (competition.ticketsSold || 0) < ticketCount) {
+        throw new Error(`Not enough tickets available for ${competition.title}`);
+      }
+
+      // Tickets the user already holds count towards the per-person limit
+      const held = userId === null ? 0 : await TicketService.countUserTickets(competitionId, userId);
+      if (held + ticketCount > competition.maxTicketsPerUser) {
+        throw new Error(held > 0
+          ? `You can only purchase up to ${competition.maxTicketsPerUser} tickets for ${competition.title} and already have ${held}`
+          : `You can only purchase up to ${competition.maxTicketsPerUser} tickets for ${competition.title}`);
+      }
+
+      // Nobody pays for an entry they have not answered - wrong answers are still accepted
+      if (requireAnswers) {
+        SkillQuestionService.requireAnswer(competition, item.skillAnswer);
+      }
+
+      const unitPrice = competition.ticketPrice;
+      const ticketPrice = priceTickets(unitPrice, competition.bundleTiers, ticketCount);
+      const subtotal = ticketPrice.total;
+      const discount = 0;
+
+      items.push({
+        competitionId,
+        ticketCount,
+        selectedNumbers,
+        skillAnswer: SkillQuestionService.grade(competition, item.skillAnswer).skillAnswer ?? undefined,
+        title: competition.title,
+        unitPrice,
+        subtotal,
+        bundleSaving: ticketPrice.saving,
+        discount,
+        total: subtotal - discount
+      });
+    }
+
+    let appliedCode: PricedCart['promoCode'] = null;
+    if (promoCode?.trim()) {
+      const applied = await PromoCodeService.applyToCart(promoCode, items, userId);
+      for (const item of items) {
+        item.discount = applied.discounts.get(item.competitionId) ?? 0;
+        item.total = item.subtotal - item.discount;
+      }
+      appliedCode = {
+        id: applied.promoCode.id,
+        code: applied.promoCode.code,
+        description: applied.promoCode.description
+      };
+    }
+
+    return totalCart(items, appliedCode);
+  }
+
+  /**
+   * Check a competition's bundles before saving them.
+   * Throws with every problem found.
+   */
+  static validateBundleTiers(ticketPrice: number, maxTicketsPerUser: number, tiers: BundleTier[] | null | undefined): void {
+    const errors = bundleTierErrors(ticketPrice, maxTicketsPerUser, tiers || []);
+    if (errors.length > 0) {
+      throw new Error(errors.join('. '));
+    }
+  }
+}
@@ -0,0 +1,121 @@
+import { db } from './db';
+import {
+  competitions,
+  draws,
+  prizes,
+  type InsertPrize,
+  type Prize
+} from '@shared/schema';
+import { AuditService } from './audit-service';
+import { liveUpdates } from './live-updates';
+import { and, eq, gt, asc, sql } from 'drizzle-orm';
+
+/**
+ * Prize Service - the places drawn in a competition
+ *
+ * A competition without a prize list draws one winner for its headline
+ * prize. Once prizes are listed the draw picks one ticket per prize in
+ * position order, 1st prize first. The list is fixed once the draw has run.
+ */
+export class PrizeService {
+  static async getPrizes(competitionId: number): Promise<Prize[]> {
+    return db.select()
+      .from(prizes)
+      .where(eq(prizes.competitionId, competitionId))
+      .orderBy(asc(prizes.position));
+  }
+
+  static async getPrize(prizeId: number): Promise<Prize | null> {
+    const [prize] = await db.select().from(prizes).where(eq(prizes.id, prizeId)).limit(1);
+    return prize || null;
+  }
+
+  /**
+   * Add a prize below the existing ones
+   */
+  static async addPrize(competitionId: number, data: InsertPrize, actorId: number): Promise<Prize> {
+    await this.checkCompetition(competitionId);
+
+    const [{ lastPosition }] = await db.select({ lastPosition: sql<number>`coalesce(max(${prizes.position}), 0)` })
+      .from(prizes)
+      .where(eq(prizes.competitionId, competitionId));
+
+    const [prize] = await db.insert(prizes)
+      .values({
+        competitionId,
+        position: Number(lastPosition) + 1,
+        title: data.title,
+        value: data.value,
+        imageUrl: data.imageUrl || null,
+        cashAlternative: data.cashAlternative ?? null
+      })
+      .returning();
+
+    await AuditService.record(actorId, 'prize.added', 'competition', competitionId, {
+      prizeId: prize.id,
+      position: prize.position,
+      title: prize.title,
+      value: prize.value
+    });
+
+    console.log(`🏆 Added prize ${prize.position} (${prize.title}) to competition ${competitionId}`);
+    liveUpdates.competition(competitionId);
+    return prize;
+  }
+
+  /**
+   * Remove a prize and move the prizes below it up a place
+   */
+  static async removePrize(prizeId: number, actorId: number): Promise<void> {
+    const prize = await this.getPrize(prizeId);
+    if (!prize) {
+      throw new Error('Prize not found');
+    }
+
+    await this.checkCompetition(prize.competitionId);
+
+    await db.transaction(async (tx) => {
+      await tx.delete(prizes).where(eq(prizes.id, prizeId));
+
+      // One at a time from the top so the unique position is never held twice
+      const below = await tx.select()
+        .from(prizes)
+        .where(and(eq(prizes.competitionId, prize.competitionId), gt(prizes.position, prize.position)))
+        .orderBy(asc(prizes.position));
+      for (const next of below) {
+        await tx.update(prizes)
+          .set({ position: next.position - 1 })
+          .where(eq(prizes.id, next.id));
+      }
+    });
+
+    await AuditService.record(actorId, 'prize.removed', 'competition', prize.competitionId, {
+      prizeId,
+      position: prize.position,
+      title: prize.title
+    });
+
+    liveUpdates.competition(prize.competitionId);
+  }
+
+  // Prizes can change until the competition is drawn or cancelled
+  private static async checkCompetition(competitionId: number): Promise<void> {
+    const [competition] = await db.select()
+      .from(competitions)
+      .where(eq(competitions.id, competitionId))
+      .limit(1);
+
+    if (!competition) {
+      throw new Error('Competition not found');
+    }
+
+    if (competition.cancelledAt) {
+      throw new Error('This competition has been cancelled');
+    }
+
+    const [draw] = await db.select({ id: draws.id }).from(draws).where(eq(draws.competitionId, competitionId)).limit(1);
+    if (draw) {
+      throw new Error('This competition has already been drawn');
+    }
+  }
+}
@@ -0,0 +1,331 @@
+import { db } from './db';
+import {
+  competitions,
+  promoCodes,
+  promoRedemptions,
+  type InsertPromoCode,
+  type Order,
+  type PricedCart,
+  type PromoCode,
+  type PromoCodeWithUsage,
+  type UpdatePromoCode
+} from '@shared/schema';
+import { AuditService } from './audit-service';
+import { and, eq, desc, gt, ne, or, sql, type SQL } from 'drizzle-orm';
+
+type PricedLine = PricedCart['items'][number];
+
+// Either the shared connection or a transaction opened from it
+type PromoExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// How long a checkout holds a use of a code before it is given back
+const RESERVATION_MINUTES = 30;
+
+export interface AppliedPromoCode {
+  promoCode: PromoCode;
+  // Discount in pence for each competition in the cart
+  discounts: Map<number, number>;
+}
+
+/**
+ * Spread a code's discount over the lines it applies to. A fixed amount is
+ * shared in proportion to each line's subtotal, with the odd pence on the
+ * biggest line (or the next biggest once a line is free), and never comes
+ * to more than the lines cost.
+ */
+export function splitDiscount(
+  promoCode: Pick<PromoCode, 'discountType' | 'discountValue'>,
+  eligible: Pick<PricedLine, 'competitionId' | 'subtotal'>[]
+): Map<number, number> {
+  const discounts = new Map<number, number>();
+
+  if (promoCode.discountType === 'percentage') {
+    const percent = Math.min(promoCode.discountValue, 100);
+    for (const item of eligible) {
+      discounts.set(item.competitionId, Math.floor(item.subtotal * percent / 100));
+    }
+    return discounts;
+  }
+
+  const eligibleSubtotal = eligible.reduce((sum, item) => sum + item.subtotal, 0);
+  const amount = Math.min(promoCode.discountValue, eligibleSubtotal);
+  let remaining = amount;
+
+  for (const item of eligible) {
+    const share = Math.floor(amount * item.subtotal / eligibleSubtotal);
+    discounts.set(item.competitionId, share);
+    remaining -= share;
+  }
+
+  for (const item of [...eligible].sort((a, b) => b.subtotal - a.subtotal)) {
+    const share = discounts.get(item.competitionId)!;
+    const extra = Math.min(remaining, item.subtotal - share);
+    discounts.set(item.competitionId, share + extra);
+    remaining -= extra;
+  }
+
+  return discounts;
+}
+
+/**
+ * Promo Code Service - discount codes entered at checkout
+ *
+ * A code takes a percentage off, or a fixed amount off the whole order,
+ * across either every line in the cart or the lines for one competition.
+ * Limits are checked each time the cart is priced and again, with the code
+ * locked, when checkout starts. Starting checkout reserves a use, so two
+ * checkouts racing for the last use cannot both get it. The reservation
+ * becomes a redemption once the order is paid, and is given back if the
+ * payment fails or is not completed within RESERVATION_MINUTES. A user's
+ * reservations count against their own new checkouts too; starting one
+ * cancels their earlier unpaid checkouts with the code.
+ */
+export class PromoCodeService {
+  static normaliseCode(code: string): string {
+    return code.trim().toUpperCase();
+  }
+
+  static async findByCode(code: string): Promise<PromoCode | undefined> {
+    const [promoCode] = await db.select()
+      .from(promoCodes)
+      .where(eq(promoCodes.code, this.normaliseCode(code)))
+      .limit(1);
+    return promoCode;
+  }
+
+  /**
+   * Work out the discount a code gives a priced cart.
+   * Throws with a message for the customer if the code cannot be used.
+   * Per-user limits are skipped when there is no user yet (a guest's quote).
+   */
+  static async applyToCart(code: string, items: PricedLine[], userId: number | null): Promise<AppliedPromoCode> {
+    const promoCode = await this.findByCode(code);
+    if (!promoCode || !promoCode.isActive) {
+      throw new Error('This promo code is not valid');
+    }
+
+    const now = new Date();
+    if (promoCode.startsAt && promoCode.startsAt > now) {
+      throw new Error('This promo code is not active yet');
+    }
+    if (promoCode.endsAt && promoCode.endsAt <= now) {
+      throw new Error('This promo code has expired');
+    }
+
+    // The user's own reservations are left out of a quote, as starting a new
+    // checkout cancels the unpaid ones holding them
+    await this.checkLimits(db, promoCode, userId, userId);
+
+    const eligible = items.filter(item =>
+      promoCode.competitionId === null || item.competitionId === promoCode.competitionId
+    );
+    if (eligible.length === 0) {
+      throw new Error('This promo code does not apply to anything in your cart');
+    }
+
+    const eligibleTickets = eligible.reduce((sum, item) => sum + item.ticketCount, 0);
+    if (eligibleTickets < promoCode.minTickets) {
+      throw new Error(`This promo code needs at least ${promoCode.minTickets} eligible tickets in your cart`);
+    }
+
+    return { promoCode, discounts: splitDiscount(promoCode, eligible) };
+  }
+
+  private static async checkLimits(
+    executor: PromoExecutor,
+    promoCode: PromoCode,
+    userId: number | null,
+    replacingFor: number | null = null
+  ): Promise<void> {
+    if (promoCode.maxUses !== null) {
+      const used = await this.countUses(executor, promoCode.id, { replacingFor });
+      if (used >= promoCode.maxUses) {
+        throw new Error('This promo code has been fully redeemed');
+      }
+    }
+
+    if (userId !== null && promoCode.maxUsesPerUser !== null) {
+      const used = await this.countUses(executor, promoCode.id, { userId, replacingFor });
+      if (used >= promoCode.maxUsesPerUser) {
+        throw new Error('You have already used this promo code');
+      }
+    }
+  }
+
+  /**
+   * Uses of a code by paid orders plus reservations that have not expired,
+   * optionally for one user only, and optionally leaving out one user's
+   * reservations
+   */
+  private static async countUses(
+    executor: PromoExecutor,
+    promoCodeId: number,
+    { userId, replacingFor = null }: { userId?: number; replacingFor?: number | null }
+  ): Promise<number> {
+    const reservations: SQL[] = [gt(promoRedemptions.reservedUntil, new Date())];
+    if (replacingFor !== null) {
+      reservations.push(ne(promoRedemptions.userId, replacingFor));
+    }
+
+    const [row] = await executor.select({ count: sql<number>`count(*)::int` })
+      .from(promoRedemptions)
+      .where(and(
+        eq(promoRedemptions.promoCodeId, promoCodeId),
+        userId === undefined ? undefined : eq(promoRedemptions.userId, userId),
+        or(eq(promoRedemptions.status, 'redeemed'), and(...reservations))
+      ));
+    return row?.count ?? 0;
+  }
+
+  /**
+   * Reserve a use of the order's code as checkout starts. The code is locked
+   * while its limits are checked again, counting every live reservation -
+   * including the user's own from other checkouts still open - so no code is
+   * used more often than allowed. Throws with a message for the customer if
+   * the code has run out.
+   */
+  static async reserveUse(executor: PromoExecutor, order: Order): Promise<void> {
+    if (!order.promoCodeId) {
+      return;
+    }
+
+    const [promoCode] = await executor.select()
+      .from(promoCodes)
+      .where(eq(promoCodes.id, order.promoCodeId))
+      .for('update');
+    if (!promoCode) {
+      throw new Error('This promo code is not valid');
+    }
+
+    await this.checkLimits(executor, promoCode, order.userId);
+
+    await executor.insert(promoRedemptions)
+      .values({
+        promoCodeId: promoCode.id,
+        orderId: order.id,
+        userId: order.userId,
+        discount: order.discount,
+        status: 'reserved',
+        reservedUntil: new Date(Date.now() + RESERVATION_MINUTES * 60 * 1000)
+      });
+  }
+
+  /**
+   * Give back the use reserved by an order whose payment failed
+   */
+  static async releaseUse(orderId: number): Promise<void> {
+    await db.delete(promoRedemptions)
+      .where(and(eq(promoRedemptions.orderId, orderId), eq(promoRedemptions.status, 'reserved')));
+  }
+
+  /**
+   * Count a paid order's code towards its limits, turning its reservation
+   * into a redemption. Safe to call more than once for the same order.
+   */
+  static async recordRedemption(order: Order): Promise<void> {
+    if (!order.promoCodeId) {
+      return;
+    }
+
+    const redeemed = await db.insert(promoRedemptions)
+      .values({
+        promoCodeId: order.promoCodeId,
+        orderId: order.id,
+        userId: order.userId,
+        discount: order.discount,
+        status: 'redeemed'
+      })
+      .onConflictDoUpdate({
+        target: promoRedemptions.orderId,
+        set: { status: 'redeemed', reservedUntil: null },
+        setWhere: eq(promoRedemptions.status, 'reserved')
+      })
+      .returning();
+
+    if (redeemed.length > 0) {
+      console.log(`🏷️ Promo code ${order.promoCode} redeemed on order ${order.id}: ${order.discount} pence off`);
+    }
+  }
+
+  static async listPromoCodes(): Promise<PromoCodeWithUsage[]> {
+    const rows = await db.select({
+      promoCode: promoCodes,
+      competitionTitle: competitions.title,
+      redemptions: sql<number>`(select count(*)::int from promo_redemptions r where r.promo_code_id = ${promoCodes.id} and r.status = 'redeemed')`,
+      totalDiscount: sql<number>`(select coalesce(sum(r.discount), 0)::int from promo_redemptions r where r.promo_code_id = ${promoCodes.id} and r.status = 'redeemed')`
+    })
+      .from(promoCodes)
+      .leftJoin(competitions, eq(promoCodes.competitionId, competitions.id))
+      .orderBy(desc(promoCodes.createdAt));
+
+    return rows.map(row => ({
+      ...row.promoCode,
+      competitionTitle: row.competitionTitle,
+      redemptions: row.redemptions,
+      totalDiscount: row.totalDiscount
+    }));
+  }
+
+  static async createPromoCode(data: InsertPromoCode, actorId: number): Promise<PromoCode> {
+    if (await this.findByCode(data.code)) {
+      throw new Error(`A promo code ${this.normaliseCode(data.code)} already exists`);
+    }
+
+    await this.checkCompetition(data.competitionId);
+
+    const [promoCode] = await db.insert(promoCodes)
+      .values({ ...data, code: this.normaliseCode(data.code), createdBy: actorId })
+      .returning();
+
+    await AuditService.record(actorId, 'promo_code.created', 'promo_code', promoCode.id, {
+      code: promoCode.code,
+      discountType: promoCode.discountType,
+      discountValue: promoCode.discountValue
+    });
+
+    return promoCode;
+  }
+
+  static async updatePromoCode(id: number, data: UpdatePromoCode, actorId: number): Promise<PromoCode> {
+    const [existing] = await db.select().from(promoCodes).where(eq(promoCodes.id, id)).limit(1);
+    if (!existing) {
+      throw new Error('Promo code not found');
+    }
+
+    const merged = { ...existing, ...data };
+    if (merged.discountType === 'percentage' && merged.discountValue > 100) {
+      throw new Error('A percentage discount cannot be more than 100');
+    }
+    if (merged.startsAt && merged.endsAt && merged.startsAt >= merged.endsAt) {
+      throw new Error('The code must start before it ends');
+    }
+
+    if (data.competitionId !== undefined) {
+      await this.checkCompetition(data.competitionId);
+    }
+
+    const [promoCode] = await db.update(promoCodes)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(promoCodes.id, id))
+      .returning();
+
+    await AuditService.record(actorId, 'promo_code.updated', 'promo_code', id, { changes: data });
+
+    return promoCode;
+  }
+
+  private static async checkCompetition(competitionId: number | null | undefined): Promise<void> {
+    if (competitionId === null || competitionId === undefined) {
+      return;
+    }
+
+    const [competition] = await db.select({ id: competitions.id })
+      .from(competitions)
+      .where(eq(competitions.id, competitionId))
+      .limit(1);
+
+    if (!competition) {
+      throw new Error('Competition not found');
+    }
+  }
+}
@@ -0,0 +1,50 @@
+import type { Request, Response, NextFunction } from 'express';
+
+export interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+  message: string;
+  // Requests with the same key share a budget - the client IP by default
+  key?: (req: Request) => string;
+}
+
+/**
+ * Fixed-window rate limiter held in memory
+ *
+ * Each server instance counts on its own, which is enough to slow down
+ * guessing and abuse of sensitive endpoints without a shared store.
+ */
+export function rateLimit(options: RateLimitOptions) {
+  const hits = new Map<string, { count: number; resetAt: number }>();
+
+  // Drop finished windows so the map does not grow without bound
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    hits.forEach((window, key) => {
+      if (window.resetAt <= now) {
+        hits.delete(key);
+      }
+    });
+  }, options.windowMs);
+  sweep.unref();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const key = options.key ? options.key(req) : req.ip || 'unknown';
+    const now = Date.now();
+
+    let window = hits.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + options.windowMs };
+      hits.set(key, window);
+    }
+
+    window.count++;
+    if (window.count > options.max) {
+      res.setHeader('Retry-After', Math.ceil((window.resetAt - now) / 1000));
+      console.warn(`🚫 Rate limit hit for ${key} on ${req.method} ${req.path}`);
+      return res.status(429).json({ message: options.message });
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,291 @@
+import { randomBytes } from 'crypto';
+import { db } from './db';
+import { stripe } from './stripe';
+import { competitions, entries, orderItems, refunds, users, type Competition, type Entry, type Refund } from '@shared/schema';
+import { priceTickets } from '@shared/bundle-pricing';
+import { TicketService } from './ticket-service';
+import { DrawService } from './draw-service';
+import { OrderService } from './order-service';
+import { AuditService } from './audit-service';
+import { EmailService } from './email-service';
+import { liveUpdates } from './live-updates';
+import { eq, and, sql, inArray } from 'drizzle-orm';
+
+interface RefundProvider {
+  name: string;
+  refund(paymentReference: string, amount: number, idempotencyKey: string): Promise<{ id: string }>;
+}
+
+const stripeRefundProvider: RefundProvider = {
+  name: 'stripe',
+  async refund(paymentReference, amount, idempotencyKey) {
+    const refund = await stripe!.refunds.create(
+      { payment_intent: paymentReference, amount, reason: 'requested_by_customer' },
+      { idempotencyKey }
+    );
+    return { id: refund.id };
+  }
+};
+
+// Used outside production for entries that never went through Stripe
+const fakeRefundProvider: RefundProvider = {
+  name: 'fake',
+  async refund() {
+    return { id: `fake_re_${randomBytes(8).toString('hex')}` };
+  }
+};
+
+function getRefundProvider(entry: Entry): RefundProvider {
+  if (stripe && entry.stripePaymentId?.startsWith('pi_')) {
+    return stripeRefundProvider;
+  }
+
+  if (process.env.NODE_ENV !== 'production') {
+    return fakeRefundProvider;
+  }
+
+  throw new Error(`Entry ${entry.id} has no Stripe payment to refund`);
+}
+
+export interface CancellationResult {
+  competition: Competition;
+  refunded: Refund[];
+  failed: { entryId: number; error: string }[];
+  totalRefunded: number;
+}
+
+/**
+ * Refund Service - gives money back for entries and cancels competitions
+ *
+ * Nothing is deleted: each refund is stored alongside the entry it reverses,
+ * refunded entries keep their row with a 'refunded' status and every action
+ * is written to the audit log.
+ */
+export class RefundService {
+  static async getRefundsForCompetition(competitionId: number): Promise<Refund[]> {
+    return db.select().from(refunds).where(eq(refunds.competitionId, competitionId)).orderBy(refunds.id);
+  }
+
+  /**
+   * Whether a competition has paid entries, in which case it must be
+   * cancelled and refunded rather than deleted
+   */
+  static async hasPaidEntries(competitionId: number): Promise<boolean> {
+    const [paid] = await db.select({ id: entries.id })
+      .from(entries)
+      .where(and(eq(entries.competitionId, competitionId), eq(entries.paymentStatus, 'completed')))
+      .limit(1);
+    return !!paid;
+  }
+
+  /**
+   * Work out what was paid for an entry: the order line if there is one,
+   * otherwise the ticket and bundle prices at the time of the refund
+   */
+  private static async getPaidAmount(entry: Entry): Promise<{ amount: number; orderId: number | null }> {
+    const [item] = await db.select().from(orderItems).where(eq(orderItems.entryId, entry.id)).limit(1);
+    if (item) {
+      return { amount: item.total, orderId: item.orderId };
+    }
+
+    const [competition] = await db.select().from(competitions).where(eq(competitions.id, entry.competitionId)).limit(1);
+    return {
+      amount: competition ? priceTickets(competition.ticketPrice, competition.bundleTiers, entry.ticketCount).total : 0,
+      orderId: null
+    };
+  }
+
+  /**
+   * Refund a single completed entry and release its tickets.
+   * Returns the existing refund if the entry has already been refunded.
+   */
+  static async refundEntry(entry: Entry, reason: string, actorId: number | null): Promise<Refund> {
+    const [existing] = await db.select()
+      .from(refunds)
+      .where(and(eq(refunds.entryId, entry.id), eq(refunds.status, 'succeeded')))
+      .limit(1);
+    if (existing) {
+      return existing;
+    }
+
+    if (entry.paymentStatus !== 'completed') {
+      throw new Error(`Entry ${entry.id} is ${entry.paymentStatus} and cannot be refunded`);
+    }
+
+    const provider = getRefundProvider(entry);
+    const { amount, orderId } = await this.getPaidAmount(entry);
+
+    const [refund] = await db.insert(refunds)
+      .values({
+        entryId: entry.id,
+        orderId,
+        userId: entry.userId,
+        competitionId: entry.competitionId,
+        amount,
+        provider: provider.name,
+        reason,
+        createdBy: actorId
+      })
+      .returning();
+
+    try {
+      // Zero value entries (e.g. free entries) have nothing to send back
+      const providerRefund = amount > 0 && entry.stripePaymentId
+        ? await provider.refund(entry.stripePaymentId, amount, `refund-entry-${entry.id}`)
+        : { id: null };
+
+      const [succeeded] = await db.update(refunds)
+        .set({ status: 'succeeded', providerRefundId: providerRefund.id })
+        .where(eq(refunds.id, refund.id))
+        .returning();
+
+      await db.update(entries)
+        .set({ paymentStatus: 'refunded' })
+        .where(eq(entries.id, entry.id));
+
+      await TicketService.releaseEntryTickets(entry);
+
+      await db.update(competitions)
+        .set({ ticketsSold: sql`GREATEST(COALESCE(${competitions.ticketsSold}, 0) - ${entry.ticketCount}, 0)` })
+        .where(eq(competitions.id, entry.competitionId));
+      await liveUpdates.progress(entry.competitionId);
+
+      if (orderId) {
+        await this.updateOrderRefundStatus(orderId);
+      }
+
+      await AuditService.record(actorId, 'entry.refunded', 'entry', entry.id, {
+        refundId: refund.id,
+        amount,
+        provider: provider.name,
+        providerRefundId: providerRefund.id,
+        reason
+      });
+
+      console.log(`💸 Refunded entry ${entry.id}: ${amount} pence via ${provider.name}`);
+      return succeeded;
+    } catch (error: any) {
+      await db.update(refunds)
+        .set({ status: 'failed', error: error.message })
+        .where(eq(refunds.id, refund.id));
+      throw error;
+    }
+  }
+
+  /**
+   * Mark an order refunded once every entry in it has been refunded,
+   * or partially refunded while some are still paid
+   */
+  private static async updateOrderRefundStatus(orderId: number): Promise<void> {
+    const items = await OrderService.getOrderItems(orderId);
+    const entryIds = items.map(item => item.entryId).filter((id): id is number => !!id);
+    if (entryIds.length === 0) {
+      return;
+    }
+
+    const orderEntries = await db.select({ paymentStatus: entries.paymentStatus })
+      .from(entries)
+      .where(inArray(entries.id, entryIds));
+
+    const allRefunded = orderEntries.every(entry => entry.paymentStatus === 'refunded');
+    await OrderService.updateStatus(orderId, allRefunded ? 'refunded' : 'partially_refunded');
+  }
+
+  /**
+   * Cancel a competition that has not been drawn: take it off sale, refund
+   * every completed entry and email the affected users. Safe to run again
+   * to retry refunds that failed the first time.
+   */
+  static async cancelCompetition(competitionId: number, reason: string, actorId: number | null): Promise<CancellationResult> {
+    const [competition] = await db.select()
+      .from(competitions)
+      .where(eq(competitions.id, competitionId))
+      .limit(1);
+
+    if (!competition) {
+      throw new Error('Competition not found');
+    }
+
+    if (await DrawService.getDraw(competitionId)) {
+      throw new Error('This competition has already been drawn and cannot be cancelled');
+    }
+
+    const [cancelled] = await db.update(competitions)
+      .set({
+        isLive: false,
+        cancelledAt: competition.cancelledAt ?? new Date(),
+        cancellationReason: reason
+      })
+      .where(eq(competitions.id, competitionId))
+      .returning();
+
+    if (!competition.cancelledAt) {
+      await AuditService.record(actorId, 'competition.cancelled', 'competition', competitionId, { reason });
+      liveUpdates.competition(competitionId);
+    }
+
+    const paidEntries = await db.select()
+      .from(entries)
+      .where(and(eq(entries.competitionId, competitionId), eq(entries.paymentStatus, 'completed')));
+
+    console.log(`💸 Cancelling competition ${competitionId}: refunding ${paidEntries.length} entries`);
+
+    const refunded: Refund[] = [];
+    const failed: CancellationResult['failed'] = [];
+
+    for (const entry of paidEntries) {
+      try {
+        refunded.push(await this.refundEntry(entry, reason, actorId));
+      } catch (error: any) {
+        console.error(`❌ Refund failed for entry ${entry.id}:`, error);
+        failed.push({ entryId: entry.id, error: error.message });
+      }
+    }
+
+    await this.notifyRefundedUsers(cancelled, refunded, reason);
+
+    return {
+      competition: cancelled,
+      refunded,
+      failed,
+      totalRefunded: refunded.reduce((sum, refund) => sum + refund.amount, 0)
+    };
+  }
+
+  private static async notifyRefundedUsers(competition: Competition, refunded: Refund[], reason: string) {
+    const totals = new Map<number, number>();
+    for (const refund of refunded) {
+      totals.set(refund.userId, (totals.get(refund.userId) || 0) + refund.amount);
+    }
+
+    if (totals.size === 0) {
+      return;
+    }
+
+    const recipients = await db.select({ id: users.id, email: users.email, displayName: users.displayName, username: users.username })
+      .from(users)
+      .where(inArray(users.id, Array.from(totals.keys())));
+
+    for (const recipient of recipients) {
+      const amount = `£${((totals.get(recipient.id) || 0) / 100).toFixed(2)}`;
+
+      try {
+        await EmailService.send({
+          userId: recipient.id,
+          to: recipient.email,
+          subject: `${competition.title} has been cancelled - you have been refunded`,
+          text: [
+            `Hi ${recipient.displayName || recipient.username},`,
+            '',
+            `Unfortunately ${competition.title} has been cancelled (${reason}).`,
+            `We have refunded ${amount} to your original payment method. Refunds usually appear within 5-10 working days.`,
+            '',
+            'Thanks for playing with us.'
+          ].join('\n')
+        });
+      } catch (error) {
+        console.error(`❌ Failed to send refund email to user ${recipient.id}:`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,262 @@
+import { db } from './db';
+import {
+  users,
+  SPEND_LIMIT_PERIODS,
+  SPEND_LIMIT_INCREASE_DELAY_HOURS,
+  type PendingSpendLimits,
+  type ResponsiblePlayStatus,
+  type SpendLimitPeriod,
+  type SpendLimits,
+  type User
+} from '@shared/schema';
+import { AccountService } from './account-service';
+import { AuditService } from './audit-service';
+import { CartService } from './cart-service';
+import { eq } from 'drizzle-orm';
+
+// Each limit covers a rolling window ending now
+const PERIOD_DAYS: Record<SpendLimitPeriod, number> = {
+  daily: 1,
+  weekly: 7,
+  monthly: 30
+};
+
+const NO_LIMITS: SpendLimits = { daily: null, weekly: null, monthly: null };
+
+type PlayRestrictions = Pick<User, 'coolOffUntil' | 'selfExcludedUntil'>;
+type LimitSettings = Pick<User, 'spendLimits' | 'pendingSpendLimits'>;
+
+function money(pence: number): string {
+  return `£${(pence / 100).toFixed(2)}`;
+}
+
+function dateTime(date: Date): string {
+  return date.toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'Europe/London' });
+}
+
+/**
+ * Responsible Play Service - the controls players set on their own play
+ *
+ * Spend limits cap what a player pays for tickets over a rolling day, week
+ * and month. Lowering a limit takes effect at once; raising or removing one
+ * waits SPEND_LIMIT_INCREASE_DELAY_HOURS, so it is never a spur of the
+ * moment decision. A cool-off (24 hours to 6 weeks) or self-exclusion (6
+ * months or more) stops all purchases until it ends and cannot be cut short.
+ */
+export class ResponsiblePlayService {
+  /**
+   * The limits in force at the given time - a raised limit once its delay
+   * has passed - and any raise still waiting
+   */
+  static resolveLimits(
+    user: LimitSettings,
+    now: Date = new Date()
+  ): { limits: SpendLimits; pendingLimits: PendingSpendLimits | null } {
+    const limits = { ...NO_LIMITS, ...user.spendLimits };
+    const pending = user.pendingSpendLimits;
+
+    if (!pending) {
+      return { limits, pendingLimits: null };
+    }
+    if (new Date(pending.effectiveAt) > now) {
+      return { limits, pendingLimits: pending };
+    }
+
+    for (const period of SPEND_LIMIT_PERIODS) {
+      if (pending[period] !== undefined) {
+        limits[period] = pending[period] ?? null;
+      }
+    }
+    return { limits, pendingLimits: null };
+  }
+
+  /**
+   * Why the user cannot play at all right now, or null
+   */
+  static restrictionFor(user: PlayRestrictions, now: Date = new Date()): string | null {
+    if (user.selfExcludedUntil && user.selfExcludedUntil > now) {
+      return `You have self-excluded until ${dateTime(user.selfExcludedUntil)} and cannot enter competitions until then.`;
+    }
+    if (user.coolOffUntil && user.coolOffUntil > now) {
+      return `You are taking a break until ${dateTime(user.coolOffUntil)} and cannot enter competitions until then.`;
+    }
+    return null;
+  }
+
+  static async getStatus(userId: number): Promise<ResponsiblePlayStatus> {
+    const user = await this.applyDueLimits(await this.getUser(userId));
+    const { limits, pendingLimits } = this.resolveLimits(user);
+
+    return {
+      limits,
+      pendingLimits,
+      spent: await this.getSpent(userId),
+      coolOffUntil: user.coolOffUntil,
+      selfExcludedUntil: user.selfExcludedUntil
+    };
+  }
+
+  /**
+   * Why a purchase of the given amount, in pence, is refused - the user is on
+   * a break or it would take them over one of their spend limits - or null
+   */
+  static async purchaseRefusal(userId: number, amount: number): Promise<string | null> {
+    const user = await this.getUser(userId);
+
+    const restriction = this.restrictionFor(user);
+    if (restriction) {
+      return restriction;
+    }
+
+    const { limits } = this.resolveLimits(user);
+    if (SPEND_LIMIT_PERIODS.every(period => limits[period] === null)) {
+      return null;
+    }
+
+    const spent = await this.getSpent(userId);
+    for (const period of SPEND_LIMIT_PERIODS) {
+      const limit = limits[period];
+      if (limit === null) {
+        continue;
+      }
+
+      const remaining = limit - spent[period];
+      if (remaining <= 0) {
+        return `You have reached your ${period} spend limit of ${money(limit)}.`;
+      }
+      if (amount > remaining) {
+        return `This purchase would take you over your ${period} spend limit of ${money(limit)} - you have ${money(remaining)} left.`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Set new spend limits, in pence or null for no limit. Lower limits apply
+   * straight away; higher or removed ones replace any earlier pending raise
+   * and apply after the delay. Asking for a limit already in force cancels
+   * a pending raise of it.
+   */
+  static async setSpendLimits(userId: number, requested: SpendLimits): Promise<ResponsiblePlayStatus> {
+    const now = new Date();
+    const user = await this.getUser(userId);
+    const { limits: current } = this.resolveLimits(user, now);
+
+    const limits = { ...current };
+    const raised: Partial<SpendLimits> = {};
+    for (const period of SPEND_LIMIT_PERIODS) {
+      const wanted = requested[period];
+      if (wanted === current[period]) {
+        continue;
+      }
+      if (wanted !== null && (current[period] === null || wanted < current[period]!)) {
+        limits[period] = wanted;
+      } else {
+        raised[period] = wanted;
+      }
+    }
+
+    const pendingLimits: PendingSpendLimits | null = Object.keys(raised).length > 0
+      ? {
+        ...raised,
+        effectiveAt: new Date(now.getTime() + SPEND_LIMIT_INCREASE_DELAY_HOURS * 60 * 60 * 1000).toISOString()
+      }
+      : null;
+
+    await db.update(users)
+      .set({ spendLimits: limits, pendingSpendLimits: pendingLimits })
+      .where(eq(users.id, userId));
+
+    await AuditService.record(userId, 'user.spend_limits_updated', 'user', userId, {
+      limits,
+      pendingLimits
+    });
+
+    console.log(`🛡️ Spend limits updated for user ${userId}`);
+    return this.getStatus(userId);
+  }
+
+  /**
+   * Stop the user buying tickets for the given number of hours
+   */
+  static async startCoolOff(userId: number, hours: number): Promise<ResponsiblePlayStatus> {
+    const user = await this.getUser(userId);
+    const until = new Date(Date.now() + hours * 60 * 60 * 1000);
+
+    if (user.selfExcludedUntil && user.selfExcludedUntil > until) {
+      throw new Error(`You are already self-excluded until ${dateTime(user.selfExcludedUntil)}`);
+    }
+    if (user.coolOffUntil && user.coolOffUntil > until) {
+      throw new Error(`You are already taking a break until ${dateTime(user.coolOffUntil)}`);
+    }
+
+    await db.update(users).set({ coolOffUntil: until }).where(eq(users.id, userId));
+    await this.releaseCart(userId);
+
+    await AuditService.record(userId, 'user.cool_off_started', 'user', userId, { hours, until });
+    console.log(`🛡️ User ${userId} started a cool-off until ${until.toISOString()}`);
+    return this.getStatus(userId);
+  }
+
+  /**
+   * Stop the user buying tickets for the given number of months
+   */
+  static async selfExclude(userId: number, months: number): Promise<ResponsiblePlayStatus> {
+    const user = await this.getUser(userId);
+    const until = new Date();
+    until.setMonth(until.getMonth() + months);
+
+    if (user.selfExcludedUntil && user.selfExcludedUntil > until) {
+      throw new Error(`You are already self-excluded until ${dateTime(user.selfExcludedUntil)}`);
+    }
+
+    await db.update(users).set({ selfExcludedUntil: until }).where(eq(users.id, userId));
+    await this.releaseCart(userId);
+
+    await AuditService.record(userId, 'user.self_excluded', 'user', userId, { months, until });
+    console.log(`🛡️ User ${userId} self-excluded until ${until.toISOString()}`);
+    return this.getStatus(userId);
+  }
+
+  private static async getSpent(userId: number): Promise<Record<SpendLimitPeriod, number>> {
+    const now = Date.now();
+    const spent = {} as Record<SpendLimitPeriod, number>;
+    for (const period of SPEND_LIMIT_PERIODS) {
+      const since = new Date(now - PERIOD_DAYS[period] * 24 * 60 * 60 * 1000);
+      spent[period] = await AccountService.getSpendSince(userId, since);
+    }
+    return spent;
+  }
+
+  // Save a raised limit once its delay has passed, so the stored limits
+  // (shown to admins) match the ones being enforced
+  private static async applyDueLimits(user: User): Promise<User> {
+    const { limits, pendingLimits } = this.resolveLimits(user);
+    if (!user.pendingSpendLimits || pendingLimits) {
+      return user;
+    }
+
+    const [updated] = await db.update(users)
+      .set({ spendLimits: limits, pendingSpendLimits: null })
+      .where(eq(users.id, user.id))
+      .returning();
+    return updated;
+  }
+
+  // Numbers held in the basket go back on sale rather than waiting to expire
+  private static async releaseCart(userId: number): Promise<void> {
+    try {
+      await CartService.clearCart({ userId });
+    } catch (error) {
+      console.error(`❌ Failed to clear the basket for user ${userId}:`, error);
+    }
+  }
+
+  private static async getUser(userId: number): Promise<User> {
+    const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+    if (!user) {
+      throw new Error('User not found');
+    }
+    return user;
+  }
+}
@@ -1,28 +1,34 @@
-import type { Express, Request } from "express";
+import type { Express, Request, Response } from "express";
 import express from "express";
 import { createServer, type Server } from "http";
 import { storage as dataStorage } from "./storage";
 import { setupAuth } from "./auth";
-import Stripe from "stripe";
+import type Stripe from "stripe";
+import { stripe } from "./stripe";
 import { z } from "zod";
-import { insertEntrySchema, competitions, entries } from "@shared/schema";
+import { insertEntrySchema, cartItemSchema, updateCartItemSchema, winnerClaimSchema, winnerTestimonialSchema, competitions, entries } from "@shared/schema";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
 import { pool, db } from "./db"; // Import both pool and db for SQL and ORM queries
 import { eq } from "drizzle-orm";
 
-if (!process.env.STRIPE_SECRET_KEY) {
-  console.warn('Missing Stripe secret key. Payment functionality will not work.');
-}
-
-const stripe = process.env.STRIPE_SECRET_KEY 
-  ? new Stripe(process.env.STRIPE_SECRET_KEY, { apiVersion: "2023-10-16" })
-  : undefined;
-
 // Import storage service for file uploads
 import { storageService } from './storage-service';
 import { runAutomaticMigrations } from './db-migrations';
+import { DrawService } from './draw-service';
+import { PaymentService, buildCartMetadata } from './payment-service';
+import { PricingService } from './pricing-service';
+import { SkillQuestionService } from './skill-question-service';
+import { OrderService } from './order-service';
+import { RefundService } from './refund-service';
+import { liveUpdates } from './live-updates';
+import { CartService, type CartChangeResult, type CartOwner } from './cart-service';
+import { InstantWinService } from './instant-win-service';
+import { PrizeService } from './prize-service';
+import { WinnerService } from './winner-service';
+import { AgeVerificationService } from './age-verification-service';
+import { ResponsiblePlayService } from './responsible-play-service';
 
 // Configure multer for memory storage (files temporarily held in memory)
 const multerStorage = multer.memoryStorage();
@@ -753,6 +759,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
     return res.status(401).json({ message: 'Unauthorized' });
   }
 
+  // Purchases need a confirmed address so winners can always be contacted
+  function isEmailVerified(req: any, res: any, next: any) {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Unauthorized' });
+    }
+    if (!req.user.emailVerifiedAt) {
+      return res.status(403).json({
+        message: 'Please verify your email address before buying tickets. Check your inbox for the link or request a new one.',
+        code: 'EMAIL_NOT_VERIFIED'
+      });
+    }
+    return next();
+  }
+
+  // Only UK residents aged 18 or over may buy tickets
+  function isEligibleToPlay(req: any, res: any, next: any) {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Unauthorized' });
+    }
+    const reason = AgeVerificationService.ineligibleReason(req.user);
+    if (reason) {
+      return res.status(403).json({ message: reason, code: 'AGE_VERIFICATION_REQUIRED' });
+    }
+    return next();
+  }
+
   // Competitions routes
   app.get("/api/competitions", async (req, res) => {
     try {
@@ -767,12 +799,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
         sortBy: sortBy as 'newest' | 'endingSoon' | 'popular' | undefined
       });
       
-      res.json(competitions);
+      // Only admins may see the correct skill answers
+      res.json(req.user?.isAdmin ? competitions : competitions.map(c => SkillQuestionService.hideAnswer(c)));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
+  // Live ticket, sales and draw updates over Server-Sent Events.
+  // ?competitionIds=1,2 limits the stream; without it every competition is streamed.
+  app.get("/api/live", (req, res) => {
+    const competitionIds = typeof req.query.competitionIds === 'string'
+      ? req.query.competitionIds.split(',').map(id => parseInt(id)).filter(id => !isNaN(id))
+      : null;
+
+    if (competitionIds && competitionIds.length === 0) {
+      return res.status(400).json({ message: "Invalid competition IDs" });
+    }
+
+    liveUpdates.stream(req, res, competitionIds);
+  });
+
+  app.get("/api/competitions/:id/live", (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid competition ID" });
+    }
+
+    liveUpdates.stream(req, res, [id]);
+  });
+
   // Unified ticket status endpoint - single source of truth for both admin and frontend
   app.get("/api/competitions/:id/ticket-status", async (req, res) => {
     try {
@@ -1206,8 +1262,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Log success with minimal data for verification
         console.log(`✅ Successfully retrieved competition: ID=${id}, Title="${competition.title}"`);
         
-        // Send response
-        return res.json(competition);
+        // Send response - only admins may see the correct skill answer
+        return res.json(req.user?.isAdmin ? competition : SkillQuestionService.hideAnswer(competition));
       } catch (storageError: any) {
         console.error(`❌ Storage error fetching competition ID ${id}:`, storageError);
         
@@ -1241,7 +1297,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           
           // Log success with additional details for monitoring
           console.log(`✅ Successfully retrieved competition with fallback method: ID=${id}, Title="${result.rows[0].title}" (Production fix)`);
-          return res.json(result.rows[0]);
+          return res.json(req.user?.isAdmin ? result.rows[0] : SkillQuestionService.hideAnswer(result.rows[0]));
         } catch (sqlError: any) {
           console.error(`❌ SQL fallback error for competition ID ${id}:`, sqlError);
           return res.status(500).json({ 
@@ -1261,7 +1317,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Entry routes - protected
-  app.post("/api/entries", async (req, res) => {
+  app.post("/api/entries", isEmailVerified, isEligibleToPlay, async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
     }
@@ -1270,6 +1326,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Check if this is a cart checkout with multiple items
       if (req.body.cartItems && Array.isArray(req.body.cartItems)) {
         console.log('Processing bulk entries from cart:', req.body.cartItems);
+
+        // Real Stripe payments are reconciled from the payment intent itself,
+        // the same way the webhook does, rather than trusting the request body
+        const stripePaymentId = req.body.stripePaymentId;
+        if (stripe && typeof stripePaymentId === 'string' && stripePaymentId.startsWith('pi_')) {
+          const paymentIntent = await stripe.paymentIntents.retrieve(stripePaymentId);
+
+          if (paymentIntent.metadata.userId !== req.user!.id.toString()) {
+            return res.status(403).json({ message: "This payment belongs to another user" });
+          }
+
+          if (paymentIntent.status !== 'succeeded') {
+            return res.status(400).json({ message: "Payment has not completed yet" });
+          }
+
+          const reconciledEntries = await PaymentService.reconcilePaymentIntent(paymentIntent);
+          const instantWins = await InstantWinService.getWinsForEntries(reconciledEntries.map(entry => entry.id));
+          return res.status(201).json({ entries: reconciledEntries, instantWins });
+        }
+
+        // A payment already taken is always honoured above - its limits were
+        // checked when it was created
+        const limitError = await ResponsiblePlayService.purchaseRefusal(req.user!.id, 0);
+        if (limitError) {
+          return res.status(403).json({ message: limitError, code: 'PLAY_LIMIT' });
+        }
+
+        // Without a Stripe payment behind them only admins may create paid entries
+        const paymentStatus = req.user!.isAdmin ? (req.body.paymentStatus || 'completed') : 'pending';
         
         const results = [];
         const errors = [];
@@ -1283,7 +1368,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
               competitionId: item.competitionId,
               ticketCount: item.ticketCount,
               selectedNumbers: item.selectedNumbers || [],
-              paymentStatus: req.body.paymentStatus || 'completed',
+              skillAnswer: item.skillAnswer,
+              paymentStatus,
               stripePaymentId: req.body.stripePaymentId
             };
             
@@ -1319,14 +1405,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
               continue;
             }
             
-            // Create entry record with selected numbers
+            if (SkillQuestionService.hasQuestion(competition) && !validatedData.skillAnswer?.trim()) {
+              errors.push(`Please answer the question for ${competition.title}`);
+              continue;
+            }
+            
+            // Create entry record with selected numbers and the graded skill answer
             const entry = await dataStorage.createEntry({
               userId: req.user!.id,
               competitionId: validatedData.competitionId,
               ticketCount: validatedData.ticketCount,
               paymentStatus: validatedData.paymentStatus,
               stripePaymentId: validatedData.stripePaymentId,
-              selectedNumbers: validatedData.selectedNumbers
+              selectedNumbers: validatedData.selectedNumbers,
+              ...SkillQuestionService.grade(competition, validatedData.skillAnswer)
             });
             
             results.push(entry);
@@ -1344,17 +1436,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
           });
         }
         
-        // Return the results, including any errors
+        // Return the results with any instant wins revealed by the purchase, including any errors
+        const instantWins = await InstantWinService.getWinsForEntries(results.map(entry => entry.id));
         return res.status(201).json({ 
           entries: results, 
+          instantWins,
           errors: errors.length > 0 ? errors : undefined
         });
       } else {
+        const limitError = await ResponsiblePlayService.purchaseRefusal(req.user!.id, 0);
+        if (limitError) {
+          return res.status(403).json({ message: limitError, code: 'PLAY_LIMIT' });
+        }
+
         // Single entry creation (original code path)
         // Create a modified request body that includes the userId from the session
         const modifiedBody = {
           ...req.body,
-          userId: req.user!.id
+          userId: req.user!.id,
+          // Without a Stripe payment behind them only admins may create paid entries
+          paymentStatus: req.user!.isAdmin ? req.body.paymentStatus : 'pending'
         };
         
         // Validate the data with the userId included
@@ -1387,14 +1488,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
           });
         }
         
-        // Create entry record with selected numbers if provided
+        if (SkillQuestionService.hasQuestion(competition) && !validatedData.skillAnswer?.trim()) {
+          return res.status(400).json({ message: "Please answer the competition question" });
+        }
+        
+        // Create entry record with selected numbers if provided and the graded skill answer
         const entry = await dataStorage.createEntry({
           userId: req.user!.id,
           competitionId: validatedData.competitionId,
           ticketCount: validatedData.ticketCount,
           paymentStatus: validatedData.paymentStatus,
           stripePaymentId: validatedData.stripePaymentId,
-          selectedNumbers: validatedData.selectedNumbers || []
+          selectedNumbers: validatedData.selectedNumbers || [],
+          ...SkillQuestionService.grade(competition, validatedData.skillAnswer)
         });
         
         res.status(201).json(entry);
@@ -1446,7 +1552,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           const competition = await dataStorage.getCompetition(entry.competitionId);
           return {
             ...entry,
-            competition: competition
+            competition: competition && SkillQuestionService.hideAnswer(competition)
           };
         })
       );
@@ -1458,6 +1564,102 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Winners routes
+  // Orders for the logged in user, newest first, with the competitions in each
+  app.get("/api/orders", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const userOrders = await OrderService.getOrdersForUser(req.user!.id);
+      res.json(userOrders);
+    } catch (error: any) {
+      console.error("Error fetching orders:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Cart - persisted on the server. Guests get a cart bound to their session,
+  // which is merged into their account cart when they log in.
+  const cartOwner = (req: Request): CartOwner =>
+    req.isAuthenticated() ? { userId: req.user!.id } : { sessionId: req.sessionID };
+
+  // Lost numbers come back with a 409 so the client can ask for new picks
+  const sendCartChange = (res: Response, result: CartChangeResult) => {
+    if (result.lost.length > 0) {
+      return res.status(409).json({
+        message: `Number${result.lost.length === 1 ? '' : 's'} ${result.lost.join(', ')} ${result.lost.length === 1 ? 'is' : 'are'} no longer available`,
+        lost: result.lost,
+        cart: result.cart
+      });
+    }
+    return res.json(result.cart);
+  };
+
+  const sendCartError = (res: Response, error: any) => {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.errors });
+    }
+    if (error.message === 'Competition not found' || error.message === 'This competition is not in your cart') {
+      return res.status(404).json({ message: error.message });
+    }
+    console.error("Cart error:", error);
+    return res.status(400).json({ message: error.message });
+  };
+
+  app.get("/api/cart", async (req, res) => {
+    try {
+      res.json(await CartService.getCart(cartOwner(req)));
+    } catch (error: any) {
+      console.error("Error fetching cart:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/cart", async (req, res) => {
+    try {
+      const data = cartItemSchema.parse(req.body);
+      sendCartChange(res, await CartService.addItem(cartOwner(req), data));
+    } catch (error: any) {
+      sendCartError(res, error);
+    }
+  });
+
+  app.patch("/api/cart/:competitionId", async (req, res) => {
+    const competitionId = parseInt(req.params.competitionId);
+    if (isNaN(competitionId)) {
+      return res.status(400).json({ message: "Invalid competition ID" });
+    }
+
+    try {
+      const data = updateCartItemSchema.parse(req.body);
+      sendCartChange(res, await CartService.updateItem(cartOwner(req), competitionId, data));
+    } catch (error: any) {
+      sendCartError(res, error);
+    }
+  });
+
+  app.delete("/api/cart/:competitionId", async (req, res) => {
+    const competitionId = parseInt(req.params.competitionId);
+    if (isNaN(competitionId)) {
+      return res.status(400).json({ message: "Invalid competition ID" });
+    }
+
+    try {
+      res.json(await CartService.removeItem(cartOwner(req), competitionId));
+    } catch (error: any) {
+      sendCartError(res, error);
+    }
+  });
+
+  app.delete("/api/cart", async (req, res) => {
+    try {
+      res.json(await CartService.clearCart(cartOwner(req)));
+    } catch (error: any) {
+      sendCartError(res, error);
+    }
+  });
+
   app.get("/api/winners", async (req, res) => {
     try {
       const userId = req.user?.id;
@@ -1469,9 +1671,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const winsWithDetails = await Promise.all(
           winners.map(async (winner) => {
             const competition = await dataStorage.getCompetition(winner.competitionId);
+            const prize = winner.prizeId ? await PrizeService.getPrize(winner.prizeId) : null;
+            const instantWinPrize = winner.instantWinPrizeId
+              ? await InstantWinService.getPrize(winner.instantWinPrizeId)
+              : null;
             return {
               ...winner,
-              competition: competition
+              competition: competition && SkillQuestionService.hideAnswer(competition),
+              prize,
+              instantWinPrize,
+              cashAlternative: WinnerService.cashAlternativeFor(competition, prize, instantWinPrize)
             };
           })
         );
@@ -1486,8 +1695,201 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Public winners gallery - draw winners with anonymised names, newest draw first.
+  // Safe to cache briefly: it only changes when a draw runs or a testimonial is approved.
+  app.get("/api/public/winners", async (req, res) => {
+    try {
+      const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+      const pageSize = Math.min(Math.max(parseInt(req.query.pageSize as string) || 12, 1), 50);
+
+      res.set('Cache-Control', 'public, max-age=60');
+      res.json(await WinnerService.getPublicWinners(page, pageSize));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // The prizes drawn in a competition, 1st prize first
+  app.get("/api/competitions/:id/prizes", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid competition ID" });
+      }
+
+      res.json(await PrizeService.getPrizes(id));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Instant win prizes - ticket numbers are only shown once won
+  app.get("/api/competitions/:id/instant-wins", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid competition ID" });
+      }
+
+      res.json(await InstantWinService.getSummaries(id));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // A winner claims their prize or its cash alternative, confirming their address and identity
+  app.post("/api/winners/:id/claim", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid win ID" });
+      }
+
+      const data = winnerClaimSchema.parse(req.body);
+
+      try {
+        res.json(await WinnerService.claim(id, req.user!.id, data));
+      } catch (claimError: any) {
+        if (claimError.message === 'Win not found') {
+          return res.status(404).json({ message: claimError.message });
+        }
+        return res.status(400).json({ message: claimError.message });
+      }
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid claim details", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // A winner opts in to the public gallery with a photo and/or testimonial, pending approval
+  app.put("/api/winners/:id/testimonial", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid win ID" });
+      }
+
+      const data = winnerTestimonialSchema.parse(req.body);
+
+      try {
+        res.json(await WinnerService.submitTestimonial(id, req.user!.id, data));
+      } catch (submitError: any) {
+        if (submitError.message === 'Win not found') {
+          return res.status(404).json({ message: submitError.message });
+        }
+        return res.status(400).json({ message: submitError.message });
+      }
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid testimonial", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/winners/:id/testimonial", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid win ID" });
+      }
+
+      try {
+        res.json(await WinnerService.withdrawTestimonial(id, req.user!.id));
+      } catch (withdrawError: any) {
+        return res.status(404).json({ message: withdrawError.message });
+      }
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Public draw record - lets anyone re-run the draw and check the result
+  app.get("/api/competitions/:id/draw", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid competition ID" });
+      }
+
+      const draw = await DrawService.getDraw(id);
+      if (!draw) {
+        return res.status(404).json({ message: "This competition has not been drawn yet" });
+      }
+
+      // Only ticket numbers are published - the entrant user IDs stay private
+      res.json({
+        competitionId: draw.competitionId,
+        winningTicketNumber: draw.winningTicketNumber,
+        results: await DrawService.getPublicResults(draw),
+        seed: draw.seed,
+        algorithm: draw.algorithm,
+        snapshotHash: draw.snapshotHash,
+        ticketNumbers: draw.entrantSnapshot.map(e => e.ticketNumber),
+        drawnAt: draw.drawnAt,
+        verification: DrawService.verifyDraw(draw)
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Public commit-reveal proof - the seed hash before the draw, everything needed to recompute it after
+  app.get("/api/competitions/:id/draw-proof", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid competition ID" });
+      }
+
+      const competition = await dataStorage.getCompetition(id);
+      if (!competition) {
+        return res.status(404).json({ message: "Competition not found" });
+      }
+
+      res.json(await DrawService.getDrawProof(id));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Price the cart with a promo code so the customer sees the discount before paying.
+  // Open to guests - per-user limits are checked again when the payment intent is created.
+  app.post("/api/promo-codes/validate", async (req, res) => {
+    const { code, cartItems } = req.body;
+
+    if (typeof code !== 'string' || !code.trim()) {
+      return res.status(400).json({ message: "Please enter a promo code" });
+    }
+
+    try {
+      const pricedCart = await PricingService.priceCart(Array.isArray(cartItems) ? cartItems : [], {
+        promoCode: code,
+        userId: req.isAuthenticated() ? req.user!.id : null,
+        requireAnswers: false
+      });
+      res.json(pricedCart);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
   // Stripe payment routes
-  app.post("/api/create-payment-intent", async (req, res) => {
+  app.post("/api/create-payment-intent", isEmailVerified, isEligibleToPlay, async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
     }
@@ -1497,57 +1899,95 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
 
     try {
-      const { amount, cartItems } = req.body;
+      const { amount, competitionId, ticketCount, promoCode } = req.body;
+      
+      // Single competition purchases are treated as a one item cart
+      const cartItems = Array.isArray(req.body.cartItems)
+        ? req.body.cartItems
+        : competitionId && ticketCount
+          ? [{ competitionId, ticketCount, selectedNumbers: [] }]
+          : [];
       
       console.log(`💰 Payment intent request received:`, {
         amount,
         cartItems,
+        promoCode,
         userId: req.user!.id
       });
       
-      // Handle both single competition and cart checkout
-      if (cartItems && Array.isArray(cartItems)) {
-        // Cart checkout - validate all competitions exist
-        for (const item of cartItems) {
-          if (!item.competitionId || typeof item.competitionId !== 'number') {
-            return res.status(400).json({ 
-              message: `Invalid competition ID in cart: ${item.competitionId}` 
-            });
-          }
-          
-          const competition = await dataStorage.getCompetition(item.competitionId);
-          if (!competition) {
-            return res.status(404).json({ 
-              message: `Competition with ID ${item.competitionId} not found` 
-            });
-          }
-        }
+      // Price the cart from the stored ticket prices - the client amount is never charged
+      let pricedCart;
+      try {
+        pricedCart = await PricingService.priceCart(cartItems, {
+          promoCode: typeof promoCode === 'string' ? promoCode : null,
+          userId: req.user!.id
+        });
+      } catch (pricingError: any) {
+        return res.status(400).json({ message: pricingError.message });
       }
       
-      // Validate that amount is a positive number
-      if (typeof amount !== 'number' || isNaN(amount) || amount <= 0) {
-        console.error(`❌ Invalid amount for payment: ${amount}`);
-        return res.status(400).json({ message: "Amount must be a positive number" });
+      // The client sends the total it showed the user, in pence. If that no longer
+      // matches (prices changed, tampered request) make the user review the cart.
+      if (amount !== undefined && amount !== pricedCart.total) {
+        console.warn(`❌ Cart total mismatch for user ${req.user!.id}: client ${amount}, server ${pricedCart.total}`);
+        return res.status(409).json({ 
+          message: "Your cart total has changed, please review your cart before paying",
+          pricedCart
+        });
       }
       
-      // Competition price is in GBP (pounds), but Stripe needs pence (integer)
-      // Multiply by 100 to convert from pounds to pence
-      const amountInPence = Math.round(amount * 100);
+      // Spend limits, cool-off and self-exclusion the player has set themselves
+      const limitError = await ResponsiblePlayService.purchaseRefusal(req.user!.id, pricedCart.total);
+      if (limitError) {
+        return res.status(403).json({ message: limitError, code: 'PLAY_LIMIT' });
+      }
       
-      console.log(`💰 Creating payment intent for £${amount} (${amountInPence} pence)`);
+      // An earlier unpaid checkout with the same code gives its use to this one
+      if (pricedCart.promoCode) {
+        await PaymentService.cancelSupersededCheckouts(req.user!.id, pricedCart.promoCode.id);
+      }
       
-      // Create a payment intent
-      const paymentIntent = await stripe.paymentIntents.create({
-        amount: amountInPence, // Amount in pence (Stripe requires integer amount)
-        currency: "gbp",
-        payment_method_types: ['card'],
-        metadata: {
-          cartItems: JSON.stringify(cartItems),
-          userId: req.user!.id.toString()
+      // Record the order before sending the customer to Stripe. This reserves
+      // a use of the promo code, which may have run out since the cart was priced.
+      let order;
+      try {
+        order = await OrderService.createOrder(req.user!.id, pricedCart);
+      } catch (orderError: any) {
+        if (pricedCart.promoCode && /promo code/.test(orderError.message)) {
+          return res.status(400).json({ message: orderError.message });
         }
-      });
+        throw orderError;
+      }
+      
+      console.log(`💰 Creating payment intent for order ${order.id}: ${pricedCart.total} pence`);
+      
+      // Create a payment intent
+      let paymentIntent;
+      try {
+        paymentIntent = await stripe.paymentIntents.create({
+          amount: order.total, // Amount in pence (Stripe requires integer amount)
+          currency: order.currency,
+          payment_method_types: ['card'],
+          metadata: {
+            ...buildCartMetadata(pricedCart.items),
+            orderId: order.id.toString(),
+            userId: req.user!.id.toString(),
+            ...(order.promoCode ? { promoCode: order.promoCode } : {})
+          }
+        });
+      } catch (stripeError) {
+        await OrderService.updateStatus(order.id, 'failed');
+        throw stripeError;
+      }
+      
+      await OrderService.setPaymentReference(order.id, paymentIntent.id);
       
-      res.json({ clientSecret: paymentIntent.client_secret });
+      res.json({ 
+        clientSecret: paymentIntent.client_secret, 
+        paymentIntentId: paymentIntent.id, 
+        orderId: order.id,
+        pricedCart 
+      });
     } catch (error: any) {
       console.error('Payment intent creation error:', error);
       res.status(500).json({ message: error.message });
@@ -1613,9 +2053,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       console.log(`📌 Attempting to create competition:`, req.body);
       
-      const competition = await dataStorage.createCompetition(req.body);
+      try {
+        SkillQuestionService.validateQuestion(req.body);
+        PricingService.validateBundleTiers(req.body.ticketPrice, req.body.maxTicketsPerUser, req.body.bundleTiers);
+      } catch (questionError: any) {
+        return res.status(400).json({ message: questionError.message });
+      }
+      
+      // Saved offline first: a competition only goes live once its draw seed
+      // commitment is published, so a failed commit leaves it off sale
+      let competition = await dataStorage.createCompetition({ ...req.body, isLive: false });
       
       console.log(`✅ Successfully created competition: ${competition.title} (ID: ${competition.id})`);
+      
+      if (req.body.isLive !== false) {
+        await DrawService.commitSeed(competition.id);
+        competition = (await dataStorage.updateCompetition(competition.id, { isLive: true })) ?? competition;
+      }
+      
+      if (competition.isLive) {
+        try {
+          await InstantWinService.placeRandomPrizes(competition.id);
+        } catch (placeError) {
+          console.error(`⚠️ Could not hide instant win tickets for competition ${competition.id}:`, placeError);
+        }
+      }
       res.status(201).json(competition);
     } catch (error: any) {
       console.error(`❌ Error creating competition:`, error);
@@ -1653,6 +2115,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const id = parseInt(req.params.id);
       console.log(`📌 Attempting to update competition ${id}:`, req.body);
       
+      if ('skillQuestion' in req.body) {
+        try {
+          SkillQuestionService.validateQuestion(req.body);
+        } catch (questionError: any) {
+          return res.status(400).json({ message: questionError.message });
+        }
+      }
+      
+      // Bundles are checked against the prices they will sit alongside after the update
+      if ('bundleTiers' in req.body || 'ticketPrice' in req.body || 'maxTicketsPerUser' in req.body) {
+        const existing = await dataStorage.getCompetition(id);
+        if (existing) {
+          try {
+            PricingService.validateBundleTiers(
+              req.body.ticketPrice ?? existing.ticketPrice,
+              req.body.maxTicketsPerUser ?? existing.maxTicketsPerUser,
+              req.body.bundleTiers ?? existing.bundleTiers
+            );
+          } catch (bundleError: any) {
+            return res.status(400).json({ message: bundleError.message });
+          }
+        }
+      }
+      
+      // Going live needs the draw seed commitment published first (a no-op if
+      // already committed) - if that fails the competition is left as it was
+      if (req.body.isLive === true) {
+        if (!(await dataStorage.getCompetition(id))) {
+          return res.status(404).json({ message: "Competition not found" });
+        }
+        await DrawService.commitSeed(id);
+      }
+      
       const competition = await dataStorage.updateCompetition(id, req.body);
       
       if (!competition) {
@@ -1661,6 +2156,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       console.log(`✅ Successfully updated competition ${id}`);
+      
+      if (competition.isLive) {
+        try {
+          await InstantWinService.placeRandomPrizes(competition.id);
+        } catch (placeError) {
+          console.error(`⚠️ Could not hide instant win tickets for competition ${competition.id}:`, placeError);
+        }
+      }
+      
       res.json(competition);
     } catch (error: any) {
       console.error(`❌ Error updating competition:`, error);
@@ -1728,30 +2232,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
           
           console.log(`📌 About to delete competition: ${competition.title} (ID: ${competition.id})`);
           
-          // Allow deleting any competition, even with sold tickets
-          dataStorage.deleteCompetition(id)
-            .then(deleted => {
-              // Check deletion result
-              if (deleted) {
-                console.log(`✅ Successfully deleted competition ${id}`);
+          // Paid competitions keep their records - they have to be cancelled and refunded instead
+          return RefundService.hasPaidEntries(id).then(hasPaidEntries => {
+            if (hasPaidEntries) {
+              return res.status(409).json({ 
+                message: "This competition has paid entries. Cancel it to refund the entrants instead of deleting it." 
+              });
+            }
+            
+            return dataStorage.deleteCompetition(id)
+              .then(deleted => {
+                // Check deletion result
+                if (deleted) {
+                  console.log(`✅ Successfully deleted competition ${id}`);
+                  
+                  // Send a proper success response
+                  return res.status(204).end();
+                } else {
+                  console.log(`⚠️ Competition ${id} not deleted, but no error thrown`);
+                  return res.status(400).json({ message: "Unable to delete competition" });
+                }
+              })
+              .catch(deleteError => {
+                console.error(`❌ Error during competition deletion for ID ${id}:`, deleteError);
                 
-                // Send a proper success response
-                return res.status(204).end();
-              } else {
-                console.log(`⚠️ Competition ${id} not deleted, but no error thrown`);
-                return res.status(400).json({ message: "Unable to delete competition" });
-              }
-            })
-            .catch(deleteError => {
-              console.error(`❌ Error during competition deletion for ID ${id}:`, deleteError);
-              
-              // More informative error for client
-              return res.status(500).json({ 
-                message: "Failed to delete competition",
-                error: deleteError.message,
-                code: 'DELETION_ERROR'
+                // More informative error for client
+                return res.status(500).json({ 
+                  message: "Failed to delete competition",
+                  error: deleteError.message,
+                  code: 'DELETION_ERROR'
+                });
               });
-            });
+          });
         })
         .catch(error => {
           // Log full error details for debugging
@@ -2080,40 +2592,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
     const sig = req.headers['stripe-signature'] as string;
     const endpointSecret = process.env.STRIPE_WEBHOOK_SECRET;
     
-    let event;
+    let event: Stripe.Event;
     
     if (endpointSecret) {
       try {
-        event = stripe.webhooks.constructEvent(req.body, sig, endpointSecret);
+        // The signature is computed over the exact bytes Stripe sent
+        event = stripe.webhooks.constructEvent((req as any).rawBody || req.body, sig, endpointSecret);
       } catch (err: any) {
         return res.status(400).send(`Webhook Error: ${err.message}`);
       }
+    } else if (process.env.NODE_ENV === 'production') {
+      // Without the secret anyone could post a forged payment event
+      console.error('❌ STRIPE_WEBHOOK_SECRET is not set - rejecting unsigned webhook');
+      return res.status(400).json({ message: "Webhook signing secret is not configured" });
     } else {
+      // Development only, e.g. events forwarded by hand. The payment intent is
+      // still fetched from Stripe before anything is reconciled.
+      console.warn('⚠️ Accepting unsigned Stripe webhook - set STRIPE_WEBHOOK_SECRET');
       event = req.body;
     }
     
-    if (event.type === 'payment_intent.succeeded') {
-      const paymentIntent = event.data.object;
-      const { competitionId, ticketCount, userId } = paymentIntent.metadata;
-      
-      // Find any pending entries matching this payment
-      const userEntries = await dataStorage.getEntries(parseInt(userId));
-      const pendingEntry = userEntries.find(
-        entry => entry.competitionId === parseInt(competitionId) && 
-                entry.paymentStatus === "pending"
-      );
-      
-      if (pendingEntry) {
-        // Update the entry to completed
-        await dataStorage.updateEntryPaymentStatus(
-          pendingEntry.id, 
-          "completed", 
-          paymentIntent.id
-        );
-      }
+    if (!event?.id || !event.type) {
+      return res.status(400).json({ message: "Invalid webhook event" });
     }
     
-    res.json({ received: true });
+    try {
+      const processed = await PaymentService.handleWebhookEvent(event);
+      res.json({ received: true, duplicate: !processed });
+    } catch (error: any) {
+      // A non-2xx response makes Stripe retry the delivery later
+      console.error(`❌ Error processing Stripe event ${event.id}:`, error);
+      res.status(500).json({ message: error.message });
+    }
   });
 
   // This is a duplicate implementation that should be removed in favor of the one in admin-routes.ts
@@ -2148,6 +2658,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         await pool.query('DELETE FROM winners');
         console.log('✓ Winners deleted');
         
+        // Clear draw records and orders for the removed competitions
+        await pool.query('DELETE FROM draws');
+        await pool.query('DELETE FROM draw_commitments');
+        await pool.query('DELETE FROM instant_win_tickets');
+        await pool.query('DELETE FROM instant_win_prizes');
+        await pool.query('DELETE FROM prizes');
+        await pool.query('DELETE FROM order_items');
+        await pool.query('DELETE FROM postal_entries');
+        await pool.query('DELETE FROM cart_items');
+        await pool.query('DELETE FROM promo_redemptions');
+        await pool.query('DELETE FROM orders');
+        
         // Finally clear competitions
         console.log('🗑️ Deleting competitions...');
         await pool.query('DELETE FROM competitions');
@@ -2193,6 +2715,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         await pool.query('DELETE FROM winners');
         console.log('✓ Winners deleted individually');
         
+        await pool.query('DELETE FROM draws');
+        await pool.query('DELETE FROM draw_commitments');
+        await pool.query('DELETE FROM instant_win_tickets');
+        await pool.query('DELETE FROM instant_win_prizes');
+        await pool.query('DELETE FROM prizes');
+        await pool.query('DELETE FROM order_items');
+        await pool.query('DELETE FROM postal_entries');
+        await pool.query('DELETE FROM cart_items');
+        await pool.query('DELETE FROM promo_redemptions');
+        await pool.query('DELETE FROM orders');
+        
         // Finally clear competitions
         console.log('🗑️ Deleting competitions individually...');
         await pool.query('DELETE FROM competitions');
@@ -2224,7 +2757,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         // Delete competitions with force
         console.log('🗑️ Force deleting competitions with CASCADE...');
-        await pool.query('TRUNCATE competitions, entries, winners CASCADE');
+        await pool.query('TRUNCATE competitions, entries, winners, draws, draw_commitments, prizes, instant_win_prizes, instant_win_tickets, orders, order_items, postal_entries, cart_items, promo_redemptions CASCADE');
         console.log('✓ Forced deletion successful');
         
         // Reset sequences
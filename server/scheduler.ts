@@ -0,0 +1,324 @@
+import os from 'os';
+import { randomBytes } from 'crypto';
+import { db } from './db';
+import { competitions, draws, entries, scheduledJobs, ticketStatuses, type ScheduledJob } from '@shared/schema';
+import { TicketService } from './ticket-service';
+import { DrawService } from './draw-service';
+import { WinnerService } from './winner-service';
+import { CartService } from './cart-service';
+import { EmailService } from './email-service';
+import { eq, and, isNull, sql } from 'drizzle-orm';
+
+// How often each instance checks for due jobs
+const TICK_INTERVAL_MS = 15 * 1000;
+
+// A lock older than this is treated as abandoned by a crashed instance
+const LOCK_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Failed jobs retry after 30s, 60s, 120s... capped at 30 minutes
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 30 * 60 * 1000;
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  intervalSeconds: number;
+  // The returned string is stored as the job's last result
+  handler: () => Promise<string>;
+}
+
+/**
+ * Job Scheduler - runs recurring background jobs inside the web process
+ *
+ * Job state lives in the scheduled_jobs table so schedules survive restarts.
+ * Before running a job an instance claims it with a conditional update, so
+ * when several instances are deployed each run happens exactly once.
+ */
+export class JobScheduler {
+  private jobs = new Map<string, JobDefinition>();
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private readonly instanceId = `${os.hostname()}:${process.pid}:${randomBytes(4).toString('hex')}`;
+
+  register(job: JobDefinition) {
+    this.jobs.set(job.name, job);
+  }
+
+  /**
+   * Create any missing job rows and start polling for due jobs
+   */
+  async start() {
+    if (this.timer) {
+      return;
+    }
+
+    for (const job of Array.from(this.jobs.values())) {
+      await db.insert(scheduledJobs)
+        .values({
+          name: job.name,
+          description: job.description,
+          intervalSeconds: job.intervalSeconds
+        })
+        .onConflictDoUpdate({
+          target: scheduledJobs.name,
+          set: {
+            description: job.description,
+            intervalSeconds: job.intervalSeconds,
+            updatedAt: new Date()
+          }
+        });
+    }
+
+    console.log(`⏰ Scheduler started on ${this.instanceId} with ${this.jobs.size} jobs`);
+    this.timer = setInterval(() => this.tick(), TICK_INTERVAL_MS);
+    this.tick();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * List every job row alongside whether this instance knows how to run it
+   */
+  async getJobs(): Promise<(ScheduledJob & { registered: boolean })[]> {
+    const rows = await db.select().from(scheduledJobs).orderBy(scheduledJobs.name);
+    return rows.map(row => ({ ...row, registered: this.jobs.has(row.name) }));
+  }
+
+  /**
+   * Make a job due immediately - it runs on the next tick of any instance
+   */
+  async triggerNow(name: string): Promise<ScheduledJob | undefined> {
+    const [job] = await db.update(scheduledJobs)
+      .set({ nextRunAt: new Date(), updatedAt: new Date() })
+      .where(eq(scheduledJobs.name, name))
+      .returning();
+
+    if (job) {
+      setImmediate(() => this.tick());
+    }
+    return job;
+  }
+
+  async setEnabled(name: string, enabled: boolean): Promise<ScheduledJob | undefined> {
+    const [job] = await db.update(scheduledJobs)
+      .set({ enabled, updatedAt: new Date() })
+      .where(eq(scheduledJobs.name, name))
+      .returning();
+    return job;
+  }
+
+  private async tick() {
+    // Skip this tick if the previous one is still working through jobs
+    if (this.ticking) {
+      return;
+    }
+    this.ticking = true;
+
+    try {
+      for (const job of Array.from(this.jobs.values())) {
+        const claimed = await this.claim(job.name);
+        if (claimed) {
+          await this.runJob(job, claimed);
+        }
+      }
+    } catch (error) {
+      console.error('❌ Scheduler tick failed:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Atomically lock a due job for this instance.
+   * Returns undefined if it isn't due or another instance holds the lock.
+   */
+  private async claim(name: string): Promise<ScheduledJob | undefined> {
+    const now = new Date();
+
+    const [job] = await db.update(scheduledJobs)
+      .set({
+        lockedBy: this.instanceId,
+        lockedUntil: new Date(now.getTime() + LOCK_TIMEOUT_MS),
+        lastStatus: 'running',
+        lastStartedAt: now
+      })
+      .where(
+        and(
+          eq(scheduledJobs.name, name),
+          eq(scheduledJobs.enabled, true),
+          sql`${scheduledJobs.nextRunAt} <= ${now}`,
+          sql`(${scheduledJobs.lockedUntil} IS NULL OR ${scheduledJobs.lockedUntil} < ${now})`
+        )
+      )
+      .returning();
+
+    return job;
+  }
+
+  private async runJob(job: JobDefinition, row: ScheduledJob) {
+    const startedAt = Date.now();
+
+    try {
+      const result = await job.handler();
+
+      await db.update(scheduledJobs)
+        .set({
+          lockedBy: null,
+          lockedUntil: null,
+          attempts: 0,
+          lastStatus: 'succeeded',
+          lastResult: result,
+          lastError: null,
+          lastFinishedAt: new Date(),
+          nextRunAt: new Date(Date.now() + job.intervalSeconds * 1000)
+        })
+        .where(eq(scheduledJobs.name, job.name));
+
+      console.log(`⏰ Job ${job.name} succeeded in ${Date.now() - startedAt}ms: ${result}`);
+    } catch (error: any) {
+      const attempts = (row.attempts || 0) + 1;
+      const retryIn = Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+
+      await db.update(scheduledJobs)
+        .set({
+          lockedBy: null,
+          lockedUntil: null,
+          attempts,
+          lastStatus: 'failed',
+          lastError: error?.message || String(error),
+          lastFinishedAt: new Date(),
+          nextRunAt: new Date(Date.now() + retryIn)
+        })
+        .where(eq(scheduledJobs.name, job.name));
+
+      console.error(`❌ Job ${job.name} failed (attempt ${attempts}), retrying in ${retryIn / 1000}s:`, error);
+    }
+  }
+}
+
+export const scheduler = new JobScheduler();
+
+scheduler.register({
+  name: 'release-expired-reservations',
+  description: 'Return reserved tickets whose hold has expired to the available pool',
+  intervalSeconds: 60,
+  handler: async () => {
+    const released = await TicketService.releaseExpiredReservations();
+    return `Released ${released} tickets`;
+  }
+});
+
+scheduler.register({
+  name: 'close-expired-competitions',
+  description: 'Take competitions off sale once their draw date has passed',
+  intervalSeconds: 60,
+  handler: async () => {
+    const closed = await db.update(competitions)
+      .set({ isLive: false })
+      .where(
+        and(
+          eq(competitions.isLive, true),
+          sql`${competitions.drawDate} <= NOW()`
+        )
+      )
+      .returning({ id: competitions.id });
+
+    return closed.length
+      ? `Closed competitions ${closed.map(c => c.id).join(', ')}`
+      : 'No competitions to close';
+  }
+});
+
+scheduler.register({
+  name: 'run-due-draws',
+  description: 'Draw a winner for every competition past its draw date that has eligible tickets',
+  intervalSeconds: 60,
+  handler: async () => {
+    const due = await db.select({ id: competitions.id })
+      .from(competitions)
+      .where(
+        and(
+          sql`${competitions.drawDate} <= NOW()`,
+          isNull(competitions.cancelledAt),
+          // A failed draw waits for an admin rather than blocking the rest
+          isNull(competitions.drawError),
+          sql`NOT EXISTS (SELECT 1 FROM ${draws} WHERE ${draws.competitionId} = ${competitions.id})`,
+          // Only competitions with at least one ticket that can be drawn
+          sql`EXISTS (
+            SELECT 1 FROM ${ticketStatuses}
+            LEFT JOIN ${entries} ON ${entries.id} = ${ticketStatuses.entryId}
+            WHERE ${ticketStatuses.competitionId} = ${competitions.id}
+              AND ${ticketStatuses.status} = 'purchased'
+              AND ${entries.skillAnswerCorrect} IS DISTINCT FROM FALSE
+          )`
+        )
+      );
+
+    const drawn: number[] = [];
+    const failed: string[] = [];
+
+    for (const { id } of due) {
+      try {
+        await DrawService.runDraw(id, null);
+        drawn.push(id);
+      } catch (error: any) {
+        console.error(`❌ Scheduled draw failed for competition ${id}:`, error);
+        await db.update(competitions)
+          .set({ drawError: error.message, drawAttemptedAt: new Date() })
+          .where(eq(competitions.id, id));
+        failed.push(`${id} (${error.message})`);
+      }
+    }
+
+    const summary = [
+      drawn.length ? `Drew competitions ${drawn.join(', ')}` : null,
+      failed.length ? `Left for an admin to draw: ${failed.join(', ')}` : null
+    ].filter(Boolean).join('; ');
+    return summary || 'No draws due';
+  }
+});
+
+scheduler.register({
+  name: 'expire-unclaimed-prizes',
+  description: 'Expire wins that were not claimed before their claim deadline',
+  intervalSeconds: 15 * 60,
+  handler: async () => {
+    const expired = await WinnerService.expireUnclaimed();
+    return expired.length ? `Expired wins ${expired.join(', ')}` : 'No unclaimed wins past their deadline';
+  }
+});
+
+scheduler.register({
+  name: 'send-queued-emails',
+  description: 'Send due emails from the outbox, retrying failed ones with backoff',
+  intervalSeconds: 30,
+  handler: async () => {
+    const { sent, failed } = await EmailService.processOutbox();
+    return sent || failed ? `Sent ${sent} emails, ${failed} failed` : 'No emails due';
+  }
+});
+
+scheduler.register({
+  name: 'send-cart-expiry-reminders',
+  description: 'Remind signed-in users shortly before their reserved tickets are released',
+  intervalSeconds: 60,
+  handler: async () => {
+    const reminded = await CartService.sendExpiryReminders();
+    return reminded.length ? `Reminded carts ${reminded.join(', ')}` : 'No carts about to expire';
+  }
+});
+
+scheduler.register({
+  name: 'purge-stale-sessions',
+  description: 'Delete expired login sessions',
+  intervalSeconds: 60 * 60,
+  handler: async () => {
+    const result = await db.execute(sql`DELETE FROM session WHERE expire < NOW()`);
+    return `Purged ${result.rowCount || 0} sessions`;
+  }
+});
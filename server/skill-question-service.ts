@@ -0,0 +1,81 @@
+import type { Competition } from '@shared/schema';
+
+// Longest answer stored against an entry
+const MAX_ANSWER_LENGTH = 200;
+
+function normaliseAnswer(answer: string): string {
+  return answer.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Skill Question Service - the question every entrant must answer
+ *
+ * Answers are graded on the server when the entry is created. A wrong answer
+ * still makes a valid (paid) entry, but it is marked incorrect and left out
+ * of the draw.
+ */
+export class SkillQuestionService {
+  static hasQuestion(competition: Pick<Competition, 'skillQuestion'>): boolean {
+    return !!competition.skillQuestion?.trim();
+  }
+
+  /**
+   * Check a competition's question settings before saving them.
+   * Throws if a question is set without valid options and a correct answer.
+   */
+  static validateQuestion(data: Partial<Pick<Competition, 'skillQuestion' | 'skillAnswerOptions' | 'skillCorrectAnswer'>>): void {
+    if (!data.skillQuestion?.trim()) {
+      return;
+    }
+
+    const options = (data.skillAnswerOptions || []).map(option => option.trim()).filter(Boolean);
+    if (options.length < 2) {
+      throw new Error('A skill question needs at least two answer options');
+    }
+
+    if (new Set(options.map(normaliseAnswer)).size !== options.length) {
+      throw new Error('Skill question answer options must be different from each other');
+    }
+
+    if (!data.skillCorrectAnswer || !options.some(option => normaliseAnswer(option) === normaliseAnswer(data.skillCorrectAnswer!))) {
+      throw new Error('The correct answer must be one of the answer options');
+    }
+  }
+
+  /**
+   * Throw if an entrant has not answered a competition's question.
+   * Used before taking payment so nobody pays for an unanswered entry.
+   */
+  static requireAnswer(competition: Competition, answer: string | null | undefined): void {
+    if (this.hasQuestion(competition) && !answer?.trim()) {
+      throw new Error(`Please answer the question for ${competition.title}`);
+    }
+  }
+
+  /**
+   * Grade an answer for storing on the entry. skillAnswerCorrect is null when
+   * the competition has no question, and false for a missing answer.
+   */
+  static grade(competition: Competition, answer: string | null | undefined): { skillAnswer: string | null; skillAnswerCorrect: boolean | null } {
+    const skillAnswer = answer?.trim().slice(0, MAX_ANSWER_LENGTH) || null;
+
+    if (!this.hasQuestion(competition)) {
+      return { skillAnswer, skillAnswerCorrect: null };
+    }
+
+    const skillAnswerCorrect = !!skillAnswer &&
+      !!competition.skillCorrectAnswer &&
+      normaliseAnswer(skillAnswer) === normaliseAnswer(competition.skillCorrectAnswer);
+
+    return { skillAnswer, skillAnswerCorrect };
+  }
+
+  /**
+   * Remove the correct answer from a competition before sending it to a
+   * non-admin. Also handles raw rows with snake_case columns.
+   */
+  static hideAnswer<T extends Record<string, any>>(competition: T): T {
+    const { skillCorrectAnswer, skill_correct_answer, ...rest } = competition;
+    return rest as T;
+  }
+}
@@ -1,10 +1,11 @@
-import { users, type User, type InsertUser, competitions, type Competition, type InsertCompetition, entries, type Entry, type InsertEntry, winners, type Winner, type InsertWinner, siteConfig, type SiteConfig, type InsertSiteConfig } from "@shared/schema";
+import { users, type User, type InsertUser, competitions, type Competition, type InsertCompetition, entries, type Entry, type InsertEntry, winners, type Winner, type InsertWinner, type WinnerClaimStatus, siteConfig, type SiteConfig, type InsertSiteConfig } from "@shared/schema";
 import { db } from "./db";
 import { eq, desc, asc, lte, gte, and, or, sql } from "drizzle-orm";
 import session from "express-session";
 import createMemoryStore from "memorystore";
 import connectPg from "connect-pg-simple";
 import { pool } from "./db";
+import { liveUpdates } from "./live-updates";
 
 const MemoryStore = createMemoryStore(session);
 const PostgresSessionStore = connectPg(session);
@@ -47,7 +48,7 @@ export interface IStorage {
   createWinner(winner: InsertWinner): Promise<Winner>;
   getWinners(userId: number): Promise<Winner[]>;
   getWinnersByCompetition(competitionId: number): Promise<Winner[]>;
-  updateWinnerClaimStatus(id: number, status: string): Promise<Winner | undefined>;
+  updateWinnerClaimStatus(id: number, status: WinnerClaimStatus): Promise<Winner | undefined>;
 
   // Site configuration operations
   getSiteConfig(key: string): Promise<SiteConfig | undefined>;
@@ -101,8 +102,18 @@ export class MemStorage implements IStorage {
       id: this.userCurrentId++,
       username: adminUsername,
       email: adminEmail,
+      emailVerifiedAt: new Date(),
       password: adminPassword,
       displayName: adminUsername,
+      dateOfBirth: null,
+      address: null,
+      ageVerificationStatus: "unverified",
+      ageVerifiedAt: null,
+      ageVerifiedBy: null,
+      spendLimits: null,
+      pendingSpendLimits: null,
+      coolOffUntil: null,
+      selfExcludedUntil: null,
       mascot: "blue-whale",
       isAdmin: true,
       isBanned: false,
@@ -139,6 +150,16 @@ export class MemStorage implements IStorage {
     const user: User = { 
       ...userData, 
       id,
+      emailVerifiedAt: null,
+      dateOfBirth: userData.dateOfBirth ?? null,
+      address: userData.address ?? null,
+      ageVerificationStatus: userData.dateOfBirth && userData.address ? 'declared' : 'unverified',
+      ageVerifiedAt: null,
+      ageVerifiedBy: null,
+      spendLimits: null,
+      pendingSpendLimits: null,
+      coolOffUntil: null,
+      selfExcludedUntil: null,
       mascot: userData.mascot ?? 'blue-whale',
       isAdmin: false,
       notificationSettings: userData.notificationSettings ?? { email: true, inApp: true },
@@ -330,7 +351,30 @@ export class MemStorage implements IStorage {
       ...winnerData,
       id,
       announcedAt: now,
-      claimStatus: 'pending'
+      claimStatus: 'pending',
+      claimDeadline: winnerData.claimDeadline ?? null,
+      electedAt: null,
+      cashAmount: null,
+      shippingAddress: null,
+      identityName: null,
+      identityDateOfBirth: null,
+      identityCheckStatus: null,
+      identityCheckedAt: null,
+      identityCheckedBy: null,
+      dispatchedAt: null,
+      dispatchedBy: null,
+      trackingNumber: null,
+      fulfilmentNotes: null,
+      fulfilledAt: null,
+      fulfilledBy: null,
+      photoUrl: null,
+      testimonial: null,
+      testimonialStatus: null,
+      testimonialReviewedAt: null,
+      testimonialReviewedBy: null,
+      prizeId: winnerData.prizeId ?? null,
+      instantWinPrizeId: winnerData.instantWinPrizeId ?? null,
+      ticketNumber: winnerData.ticketNumber ?? null
     };
     this.winners.set(id, winner);
     return winner;
@@ -344,7 +388,7 @@ export class MemStorage implements IStorage {
     return Array.from(this.winners.values()).filter(winner => winner.competitionId === competitionId);
   }
   
-  async updateWinnerClaimStatus(id: number, status: string): Promise<Winner | undefined> {
+  async updateWinnerClaimStatus(id: number, status: WinnerClaimStatus): Promise<Winner | undefined> {
     const winner = this.winners.get(id);
     if (!winner) return undefined;
     
@@ -541,6 +585,8 @@ export class DatabaseStorage implements IStorage {
       .insert(users)
       .values({
         ...userData,
+        // Registration has already checked the details are 18+ and in the UK
+        ageVerificationStatus: userData.dateOfBirth && userData.address ? 'declared' : 'unverified',
         mascot: userData.mascot ?? 'blue-whale',
         isAdmin: false,
         notificationSettings: userData.notificationSettings ?? { email: true, inApp: true }
@@ -794,6 +840,9 @@ export class DatabaseStorage implements IStorage {
       .set(dataToUpdate)
       .where(eq(competitions.id, id))
       .returning();
+    if (updatedCompetition) {
+      liveUpdates.competition(id);
+    }
     return updatedCompetition;
   }
   
@@ -861,6 +910,7 @@ export class DatabaseStorage implements IStorage {
       return [entry];
     });
     
+    await liveUpdates.progress(entryData.competitionId);
     return entry;
   }
   
@@ -918,7 +968,7 @@ export class DatabaseStorage implements IStorage {
       .where(eq(winners.competitionId, competitionId));
   }
   
-  async updateWinnerClaimStatus(id: number, status: string): Promise<Winner | undefined> {
+  async updateWinnerClaimStatus(id: number, status: WinnerClaimStatus): Promise<Winner | undefined> {
     const [updatedWinner] = await db
       .update(winners)
       .set({ claimStatus: status })
@@ -1008,6 +1058,7 @@ export class DatabaseStorage implements IStorage {
       await db.insert(users).values({
         username: adminUsername,
         email: adminEmail, 
+        emailVerifiedAt: new Date(), // set by the operator, so trusted
         password: adminPassword,
         displayName: adminUsername,
         mascot: "blue-whale",
@@ -1030,6 +1081,11 @@ export class DatabaseStorage implements IStorage {
         updates.email = adminEmail;
         needsUpdate = true;
       }
+
+      if (!adminUser.emailVerifiedAt) {
+        updates.emailVerifiedAt = new Date();
+        needsUpdate = true;
+      }
       
       // Always update password if ADMIN_PASSWORD is explicitly set (since we'll hash it freshly)
       if (process.env.ADMIN_PASSWORD) {
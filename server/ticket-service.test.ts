@@ -0,0 +1,249 @@
+/**
+ * Concurrency tests for ticket reservation, purchase and allocation.
+ *
+ * Fires parallel requests at a single competition and checks that no ticket
+ * is ever handed to two buyers. Needs DATABASE_URL pointing at a database
+ * with the schema applied; the rows it creates are removed afterwards.
+ *
+ *   DATABASE_URL=... npm test
+ */
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomBytes } from 'crypto';
+
+const PARALLEL = 20;
+const TOTAL_TICKETS = 100;
+
+describe('TicketService under concurrency', { skip: !process.env.DATABASE_URL && 'DATABASE_URL is not set' }, () => {
+  // Imported lazily - ./db refuses to load without DATABASE_URL
+  let db: typeof import('./db').db;
+  let pool: typeof import('./db').pool;
+  let schema: typeof import('@shared/schema');
+  let orm: typeof import('drizzle-orm');
+  let TicketService: typeof import('./ticket-service').TicketService;
+
+  let competitionId: number;
+  let userIds: number[] = [];
+
+  // Every ticket row of the test competition, keyed by number
+  async function ticketRows() {
+    const rows = await db.select()
+      .from(schema.ticketStatuses)
+      .where(orm.eq(schema.ticketStatuses.competitionId, competitionId));
+    return new Map(rows.map(row => [row.ticketNumber, row]));
+  }
+
+  async function resetTickets() {
+    await db.update(schema.ticketStatuses)
+      .set({ status: 'available', userId: null, entryId: null, cartId: null, reservedUntil: null })
+      .where(orm.eq(schema.ticketStatuses.competitionId, competitionId));
+    await db.delete(schema.entries).where(orm.eq(schema.entries.competitionId, competitionId));
+  }
+
+  async function createEntries(count: number) {
+    return Promise.all(Array.from({ length: count }, (_, index) =>
+      db.insert(schema.entries)
+        .values({
+          userId: userIds[index],
+          competitionId,
+          ticketCount: 0,
+          paymentStatus: 'completed'
+        })
+        .returning()
+        .then(([entry]) => entry)
+    ));
+  }
+
+  // A different overlapping window of numbers for each buyer
+  function overlappingNumbers(index: number): number[] {
+    const start = (index * 3) % (TOTAL_TICKETS - 10) + 1;
+    return Array.from({ length: 10 }, (_, offset) => start + offset);
+  }
+
+  before(async () => {
+    ({ db, pool } = await import('./db'));
+    schema = await import('@shared/schema');
+    orm = await import('drizzle-orm');
+    ({ TicketService } = await import('./ticket-service'));
+
+    const run = randomBytes(4).toString('hex');
+
+    const [competition] = await db.insert(schema.competitions)
+      .values({
+        title: `Concurrency test ${run}`,
+        description: 'Created by server/ticket-service.test.ts',
+        category: 'test',
+        prizeValue: 100,
+        ticketPrice: 100,
+        maxTicketsPerUser: TOTAL_TICKETS,
+        totalTickets: TOTAL_TICKETS,
+        drawDate: new Date(Date.now() + 24 * 60 * 60 * 1000),
+        isLive: false
+      })
+      .returning();
+    competitionId = competition.id;
+
+    const users = await db.insert(schema.users)
+      .values(Array.from({ length: PARALLEL }, (_, index) => ({
+        username: `concurrency-${run}-${index}`,
+        email: `concurrency-${run}-${index}@example.com`,
+        password: 'not-a-real-password'
+      })))
+      .returning({ id: schema.users.id });
+    userIds = users.map(user => user.id);
+
+    await TicketService.initializeTicketStatuses(competitionId);
+  });
+
+  after(async () => {
+    if (competitionId) {
+      await db.delete(schema.ticketStatuses).where(orm.eq(schema.ticketStatuses.competitionId, competitionId));
+      await db.delete(schema.entries).where(orm.eq(schema.entries.competitionId, competitionId));
+      await db.delete(schema.competitions).where(orm.eq(schema.competitions.id, competitionId));
+    }
+    if (userIds.length) {
+      await db.delete(schema.users).where(orm.inArray(schema.users.id, userIds));
+    }
+    await pool?.end();
+  });
+
+  it('reserves a contested number for exactly one buyer', async () => {
+    await resetTickets();
+
+    const results = await Promise.all(userIds.map(userId =>
+      TicketService.reserveTickets(competitionId, [7, 8, 9], userId)
+    ));
+
+    const winners = results
+      .map((result, index) => ({ result, userId: userIds[index] }))
+      .filter(({ result }) => result.reserved.length > 0);
+
+    assert.equal(winners.length, 1, 'exactly one buyer gets the numbers');
+    assert.deepEqual(winners[0].result.reserved, [7, 8, 9]);
+    for (const result of results) {
+      if (result.reserved.length === 0) {
+        assert.deepEqual(result.lost, [7, 8, 9], 'losers are told every number they lost');
+      }
+    }
+
+    const rows = await ticketRows();
+    for (const number of [7, 8, 9]) {
+      assert.equal(rows.get(number)!.status, 'reserved');
+      assert.equal(rows.get(number)!.userId, winners[0].userId);
+    }
+  });
+
+  it('never reserves a number twice across overlapping requests', async () => {
+    await resetTickets();
+
+    const results = await Promise.all(userIds.map((userId, index) =>
+      TicketService.reserveTickets(competitionId, overlappingNumbers(index), userId)
+    ));
+
+    const owners = new Map<number, number>();
+    results.forEach((result, index) => {
+      // All or nothing: a request either gets every number or none
+      assert.ok(result.reserved.length === 0 || result.lost.length === 0);
+      for (const number of result.reserved) {
+        assert.ok(!owners.has(number), `ticket ${number} was reserved twice`);
+        owners.set(number, userIds[index]);
+      }
+    });
+
+    const rows = await ticketRows();
+    assert.equal(rows.size, TOTAL_TICKETS, 'one status row per ticket');
+    for (const [number, row] of Array.from(rows)) {
+      if (owners.has(number)) {
+        assert.equal(row.status, 'reserved');
+        assert.equal(row.userId, owners.get(number));
+      } else {
+        assert.equal(row.status, 'available', `ticket ${number} is held without a successful reservation`);
+      }
+    }
+  });
+
+  it('purchases each contested number for exactly one entry', async () => {
+    await resetTickets();
+    const buyers = await createEntries(PARALLEL);
+
+    const results = await Promise.all(buyers.map((entry, index) =>
+      TicketService.purchaseTickets(competitionId, overlappingNumbers(index), entry.userId, entry.id)
+    ));
+
+    const owners = new Map<number, number>();
+    results.forEach((result, index) => {
+      const requested = overlappingNumbers(index);
+      assert.deepEqual(
+        [...result.purchased, ...result.lost].sort((a, b) => a - b),
+        requested,
+        'every requested number is either purchased or lost'
+      );
+      for (const number of result.purchased) {
+        assert.ok(!owners.has(number), `ticket ${number} was purchased twice`);
+        owners.set(number, buyers[index].id);
+      }
+    });
+
+    const rows = await ticketRows();
+    for (const [number, row] of Array.from(rows)) {
+      if (row.status === 'purchased') {
+        assert.equal(row.entryId, owners.get(number), `ticket ${number} belongs to an entry that was not told it won it`);
+      } else {
+        assert.ok(!owners.has(number), `ticket ${number} was reported purchased but is ${row.status}`);
+      }
+    }
+  });
+
+  it('allocates random tickets without handing any out twice', async () => {
+    await resetTickets();
+    const buyers = await createEntries(PARALLEL);
+    const perEntry = Math.floor(TOTAL_TICKETS / PARALLEL);
+
+    const allocations = await Promise.all(buyers.map(entry =>
+      TicketService.allocateTickets(competitionId, perEntry, entry.userId, entry.id)
+    ));
+
+    const allocated = allocations.flat();
+    assert.equal(allocated.length, perEntry * PARALLEL);
+    assert.equal(new Set(allocated).size, allocated.length, 'no ticket allocated twice');
+
+    const rows = await ticketRows();
+    allocations.forEach((numbers, index) => {
+      for (const number of numbers) {
+        assert.equal(rows.get(number)!.entryId, buyers[index].id);
+      }
+    });
+  });
+
+  it('keeps reservations and purchases of the same numbers apart', async () => {
+    await resetTickets();
+    const buyers = await createEntries(PARALLEL / 2);
+    const numbers = [40, 41, 42, 43, 44];
+
+    // Half the buyers reserve while the other half try to buy outright
+    const [reservations, purchases] = await Promise.all([
+      Promise.all(userIds.slice(PARALLEL / 2).map(userId =>
+        TicketService.reserveTickets(competitionId, numbers, userId)
+      )),
+      Promise.all(buyers.map(entry =>
+        TicketService.purchaseTickets(competitionId, numbers, entry.userId, entry.id)
+      ))
+    ]);
+
+    const rows = await ticketRows();
+    for (const number of numbers) {
+      const row = rows.get(number)!;
+      const reservedBy = reservations.filter(result => result.reserved.includes(number)).length;
+      const purchasedBy = purchases.filter(result => result.purchased.includes(number)).length;
+
+      assert.ok(purchasedBy <= 1, `ticket ${number} was purchased ${purchasedBy} times`);
+      if (row.status === 'purchased') {
+        assert.equal(purchasedBy, 1, `ticket ${number} is purchased but no buyer was told`);
+      } else {
+        assert.equal(row.status, 'reserved');
+        assert.equal(purchasedBy, 0);
+        assert.equal(reservedBy, 1);
+      }
+    }
+  });
+});
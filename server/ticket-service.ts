@@ -1,6 +1,27 @@
 import { db } from './db';
-import { competitions, entries, ticketStatuses, users, type TicketStatusResponse } from '@shared/schema';
-import { eq, and, gt, isNull, inArray, sql, desc, asc } from 'drizzle-orm';
+import { competitions, entries, ticketStatuses, users, type Entry, type TicketStatusResponse } from '@shared/schema';
+import { eq, and, or, gt, ne, isNull, inArray, notInArray, sql, desc, asc } from 'drizzle-orm';
+import { liveUpdates } from './live-updates';
+import { InstantWinService } from './instant-win-service';
+
+// Either the shared connection or a transaction opened from it
+type TicketExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// How long a number stays held in a cart before it is released
+const RESERVATION_MINUTES = 30;
+
+export interface ReservationResult {
+  reserved: number[];
+  // Requested numbers that do not exist, are sold or are held by another user
+  lost: number[];
+  reservedUntil: Date;
+}
+
+export interface PurchaseResult {
+  purchased: number[];
+  // Requested numbers sold to or held by someone else, e.g. after a hold expired
+  lost: number[];
+}
 
 /**
  * Enhanced Ticket Service - Centralized Ticket Status Management
@@ -56,7 +77,8 @@ export class TicketService {
       const batchSize = 1000;
       for (let i = 0; i < bulkInsertValues.length; i += batchSize) {
         const batch = bulkInsertValues.slice(i, i + batchSize);
-        await db.insert(ticketStatuses).values(batch);
+        // Another request may be initialising the same competition - the unique key keeps one row per ticket
+        await db.insert(ticketStatuses).values(batch).onConflictDoNothing();
       }
       
       console.log(`🎟️ Successfully initialized ${totalTickets} ticket statuses for competition ${competitionId}`);
@@ -171,104 +193,281 @@ export class TicketService {
 
   /**
    * Reserve tickets for a user (e.g., when added to cart)
+   * 
+   * All or nothing: the requested rows are locked in a transaction, so two
+   * buyers racing for the same number can never both get it. If any number
+   * is missing, sold or held by someone else nothing is reserved and the
+   * result lists exactly which numbers were lost. Expired holds count as
+   * available and holds already owned by the user or cart are extended.
+   * Guests reserve through their cart with a null userId.
    */
-  static async reserveTickets(competitionId: number, ticketNumbers: number[], userId: number): Promise<boolean> {
-    try {
-      console.log(`🎟️ Reserving tickets ${ticketNumbers.join(', ')} for user ${userId} in competition ${competitionId}`);
-      
-      // Check if all requested tickets are available
-      const ticketData = await db.select()
+  static async reserveTickets(
+    competitionId: number,
+    ticketNumbers: number[],
+    userId: number | null,
+    cartId: number | null = null
+  ): Promise<ReservationResult> {
+    const requested = Array.from(new Set(ticketNumbers.map(Number))).sort((a, b) => a - b);
+    const reservedUntil = new Date(Date.now() + RESERVATION_MINUTES * 60 * 1000);
+
+    console.log(`🎟️ Reserving tickets ${requested.join(', ')} for user ${userId ?? 'guest'} (cart ${cartId ?? 'none'}) in competition ${competitionId}`);
+
+    if (requested.length === 0) {
+      return { reserved: [], lost: [], reservedUntil };
+    }
+
+    const result = await db.transaction(async (tx): Promise<ReservationResult> => {
+      // Lock in ticket number order so overlapping requests cannot deadlock
+      const rows = await tx.select()
         .from(ticketStatuses)
         .where(
           and(
             eq(ticketStatuses.competitionId, competitionId),
-            inArray(ticketStatuses.ticketNumber, ticketNumbers)
+            inArray(ticketStatuses.ticketNumber, requested)
           )
-        );
-        
-      // Verify all tickets exist
-      if (ticketData.length !== ticketNumbers.length) {
-        console.error(`🎟️ Not all requested tickets exist for competition ${competitionId}`);
-        return false;
-      }
-      
-      // Verify all tickets are available
-      const unavailableTickets = ticketData.filter(t => t.status !== 'available');
-      if (unavailableTickets.length > 0) {
-        console.error(`🎟️ Some tickets are not available: ${unavailableTickets.map(t => t.ticketNumber).join(', ')}`);
-        return false;
+        )
+        .orderBy(asc(ticketStatuses.ticketNumber))
+        .for('update');
+
+      const now = new Date();
+      const claimable = new Set(
+        rows
+          .filter(ticket =>
+            ticket.status === 'available' ||
+            (ticket.status === 'reserved' && (
+              (userId !== null && ticket.userId === userId) ||
+              (cartId !== null && ticket.cartId === cartId) ||
+              !ticket.reservedUntil ||
+              ticket.reservedUntil < now
+            ))
+          )
+          .map(ticket => ticket.ticketNumber)
+      );
+
+      const lost = requested.filter(number => !claimable.has(number));
+      if (lost.length > 0) {
+        console.warn(`🎟️ Could not reserve tickets ${lost.join(', ')} for user ${userId} in competition ${competitionId} - already taken`);
+        return { reserved: [], lost, reservedUntil };
       }
-      
-      // Set reservation expiry time (30 minutes from now)
-      const reservedUntil = new Date();
-      reservedUntil.setMinutes(reservedUntil.getMinutes() + 30);
-      
-      // Update ticket statuses to reserved
-      await db.update(ticketStatuses)
+
+      await tx.update(ticketStatuses)
         .set({ 
           status: 'reserved', 
           userId,
-          reservedUntil
+          cartId,
+          reservedUntil,
+          updatedAt: now
         })
         .where(
           and(
             eq(ticketStatuses.competitionId, competitionId),
-            inArray(ticketStatuses.ticketNumber, ticketNumbers)
+            inArray(ticketStatuses.ticketNumber, requested)
           )
         );
-      
-      console.log(`🎟️ Successfully reserved ${ticketNumbers.length} tickets for user ${userId}`);
-      return true;
-    } catch (error) {
-      console.error(`Error reserving tickets: ${error}`);
-      return false;
-    }
+
+      console.log(`🎟️ Successfully reserved ${requested.length} tickets for user ${userId}`);
+      return { reserved: requested, lost: [], reservedUntil };
+    });
+
+    // Only announce once the transaction has committed
+    liveUpdates.tickets(competitionId, 'reserved', result.reserved);
+    return result;
   }
 
   /**
    * Mark tickets as purchased (e.g., after payment completed)
+   * Takes tickets reserved by this user or still available. The competition's
+   * ticketsSold count is maintained by the entry itself, so it is not touched here.
+   * Numbers the entry already holds count as neither purchased nor lost, so a
+   * repeated delivery of the same payment is harmless. Any lost numbers leave
+   * the rest purchased: pass a transaction to roll them back, in which case the
+   * caller announces the tickets once it commits.
    */
-  static async purchaseTickets(competitionId: number, ticketNumbers: number[], userId: number, entryId: number): Promise<boolean> {
-    try {
-      console.log(`🎟️ Marking tickets ${ticketNumbers.join(', ')} as purchased for user ${userId} in competition ${competitionId}`);
-      
-      // Update tickets to purchased status
-      const result = await db.update(ticketStatuses)
-        .set({ 
-          status: 'purchased', 
-          userId,
-          entryId,
-          reservedUntil: null
-        })
-        .where(
-          and(
-            eq(ticketStatuses.competitionId, competitionId),
-            inArray(ticketStatuses.ticketNumber, ticketNumbers),
-            eq(ticketStatuses.userId, userId)
+  static async purchaseTickets(
+    competitionId: number,
+    ticketNumbers: number[],
+    userId: number,
+    entryId: number,
+    executor: TicketExecutor = db
+  ): Promise<PurchaseResult> {
+    const requested = Array.from(new Set(ticketNumbers.map(Number))).sort((a, b) => a - b);
+    console.log(`🎟️ Marking tickets ${requested.join(', ')} as purchased for user ${userId} in competition ${competitionId}`);
+
+    if (requested.length === 0) {
+      return { purchased: [], lost: [] };
+    }
+
+    const updated = await executor.update(ticketStatuses)
+      .set({ 
+        status: 'purchased', 
+        userId,
+        entryId,
+        cartId: null,
+        reservedUntil: null
+      })
+      .where(
+        and(
+          eq(ticketStatuses.competitionId, competitionId),
+          inArray(ticketStatuses.ticketNumber, requested),
+          or(
+            and(eq(ticketStatuses.status, 'reserved'), eq(ticketStatuses.userId, userId)),
+            eq(ticketStatuses.status, 'available')
           )
-        );
-      
-      // Also update competition's ticketsSold count
-      const [competition] = await db.select()
-        .from(competitions)
-        .where(eq(competitions.id, competitionId))
-        .limit(1);
-      
-      if (competition) {
-        const currentSold = competition.ticketsSold || 0;
-        await db.update(competitions)
-          .set({ ticketsSold: currentSold + ticketNumbers.length })
-          .where(eq(competitions.id, competitionId));
-      }
-      
-      console.log(`🎟️ Successfully marked ${ticketNumbers.length} tickets as purchased for user ${userId}`);
-      return true;
+        )
+      )
+      .returning({ ticketNumber: ticketStatuses.ticketNumber });
+
+    const purchased = updated.map(ticket => ticket.ticketNumber).sort((a, b) => a - b);
+    let lost: number[] = [];
+
+    if (purchased.length < requested.length) {
+      const owned = new Set(await this.getEntryTicketNumbers(competitionId, entryId, executor));
+      lost = requested.filter(number => !owned.has(number));
+    }
+
+    if (lost.length > 0) {
+      console.warn(`🎟️ Tickets ${lost.join(', ')} could not be purchased for entry ${entryId} - they were taken by someone else`);
+    }
+
+    console.log(`🎟️ Successfully marked ${purchased.length} tickets as purchased for user ${userId}`);
+    if (executor === db) {
+      liveUpdates.tickets(competitionId, 'purchased', purchased);
+      await this.revealInstantWins(competitionId, purchased, entryId);
+    }
+    return { purchased, lost };
+  }
+
+  /**
+   * How many tickets a user holds in a competition across their entries.
+   * Failed and refunded entries are left out, as is excludeEntryId so an
+   * entry being completed is not counted against itself.
+   */
+  static async countUserTickets(competitionId: number, userId: number, excludeEntryId?: number): Promise<number> {
+    const [{ held }] = await db.select({ held: sql<number>`COALESCE(SUM(${entries.ticketCount}), 0)` })
+      .from(entries)
+      .where(
+        and(
+          eq(entries.competitionId, competitionId),
+          eq(entries.userId, userId),
+          notInArray(entries.paymentStatus, ['failed', 'refunded']),
+          excludeEntryId === undefined ? undefined : ne(entries.id, excludeEntryId)
+        )
+      );
+    return Number(held);
+  }
+
+  /**
+   * The numbers an entry holds, in order
+   */
+  static async getEntryTicketNumbers(competitionId: number, entryId: number, executor: TicketExecutor = db): Promise<number[]> {
+    const held = await executor.select({ ticketNumber: ticketStatuses.ticketNumber })
+      .from(ticketStatuses)
+      .where(
+        and(
+          eq(ticketStatuses.competitionId, competitionId),
+          eq(ticketStatuses.entryId, entryId),
+          eq(ticketStatuses.status, 'purchased')
+        )
+      )
+      .orderBy(asc(ticketStatuses.ticketNumber));
+    return held.map(ticket => ticket.ticketNumber);
+  }
+
+  /**
+   * Allocate random available tickets to an entry that did not pick numbers
+   * (e.g. postal entries). Rows are locked and skipped if another checkout
+   * holds them, so concurrent allocations never hand out the same ticket.
+   * Pass a transaction to allocate as part of a larger write; the caller then
+   * announces the tickets once it commits.
+   */
+  static async allocateTickets(
+    competitionId: number,
+    count: number,
+    userId: number,
+    entryId: number,
+    executor: TicketExecutor = db
+  ): Promise<number[]> {
+    const result = await executor.execute(sql`
+      UPDATE ticket_statuses
+      SET status = 'purchased', user_id = ${userId}, entry_id = ${entryId}, cart_id = NULL, reserved_until = NULL
+      WHERE id IN (
+        SELECT id FROM ticket_statuses
+        WHERE competition_id = ${competitionId} AND status = 'available'
+        ORDER BY random()
+        LIMIT ${count}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING ticket_number
+    `);
+
+    const ticketNumbers = (result.rows as { ticket_number: number }[])
+      .map(row => Number(row.ticket_number))
+      .sort((a, b) => a - b);
+
+    if (ticketNumbers.length < count) {
+      throw new Error(`Only ${ticketNumbers.length} of ${count} tickets are available`);
+    }
+
+    console.log(`🎟️ Allocated tickets ${ticketNumbers.join(', ')} to entry ${entryId} in competition ${competitionId}`);
+    if (executor === db) {
+      liveUpdates.tickets(competitionId, 'purchased', ticketNumbers);
+      await this.revealInstantWins(competitionId, ticketNumbers, entryId);
+    }
+    return ticketNumbers;
+  }
+
+  /**
+   * Award any instant win prizes on newly purchased tickets. The tickets are
+   * already the entry's, so a failure here is logged rather than undoing the
+   * purchase; the next delivery of the same purchase tries again.
+   */
+  static async revealInstantWins(competitionId: number, ticketNumbers: number[], entryId: number): Promise<void> {
+    try {
+      await InstantWinService.awardWins(competitionId, ticketNumbers, entryId);
     } catch (error) {
-      console.error(`Error purchasing tickets: ${error}`);
-      return false;
+      console.error(`Error awarding instant wins for entry ${entryId}: ${error}`);
     }
   }
 
+  /**
+   * Return the purchased tickets of a refunded entry to the available pool.
+   * Older tickets may be missing their entry link, so they are also matched
+   * on the entry's owner and selected numbers.
+   */
+  static async releaseEntryTickets(entry: Entry): Promise<number> {
+    const selectedNumbers = (entry.selectedNumbers || []).map(Number);
+
+    const result = await db.update(ticketStatuses)
+      .set({ 
+        status: 'available', 
+        userId: null,
+        entryId: null,
+        cartId: null,
+        reservedUntil: null
+      })
+      .where(
+        and(
+          eq(ticketStatuses.competitionId, entry.competitionId),
+          eq(ticketStatuses.status, 'purchased'),
+          selectedNumbers.length > 0
+            ? or(
+                eq(ticketStatuses.entryId, entry.id),
+                and(
+                  isNull(ticketStatuses.entryId),
+                  eq(ticketStatuses.userId, entry.userId),
+                  inArray(ticketStatuses.ticketNumber, selectedNumbers)
+                )
+              )
+            : eq(ticketStatuses.entryId, entry.id)
+        )
+      )
+      .returning({ ticketNumber: ticketStatuses.ticketNumber });
+
+    console.log(`🎟️ Released ${result.length} tickets from entry ${entry.id} in competition ${entry.competitionId}`);
+    liveUpdates.tickets(entry.competitionId, 'available', result.map(ticket => ticket.ticketNumber));
+    return result.length;
+  }
+
   /**
    * Release reserved tickets (e.g., when removed from cart or reservation expired)
    */
@@ -277,11 +476,12 @@ export class TicketService {
       console.log(`🎟️ Releasing tickets ${ticketNumbers.join(', ')} for competition ${competitionId}`);
       
       // Update tickets back to available status
-      await db.update(ticketStatuses)
+      const released = await db.update(ticketStatuses)
         .set({ 
           status: 'available', 
           userId: null,
           entryId: null,
+          cartId: null,
           reservedUntil: null
         })
         .where(
@@ -290,9 +490,11 @@ export class TicketService {
             inArray(ticketStatuses.ticketNumber, ticketNumbers),
             eq(ticketStatuses.status, 'reserved')
           )
-        );
+        )
+        .returning({ ticketNumber: ticketStatuses.ticketNumber });
       
       console.log(`🎟️ Successfully released tickets for competition ${competitionId}`);
+      liveUpdates.tickets(competitionId, 'available', released.map(ticket => ticket.ticketNumber));
       return true;
     } catch (error) {
       console.error(`Error releasing tickets: ${error}`);
@@ -300,6 +502,56 @@ export class TicketService {
     }
   }
 
+  /**
+   * Release the tickets a cart holds in a competition, or only the given
+   * numbers. Holds that have since passed to someone else are left alone.
+   */
+  static async releaseCartTickets(cartId: number, competitionId: number, ticketNumbers?: number[]): Promise<number[]> {
+    if (ticketNumbers && ticketNumbers.length === 0) {
+      return [];
+    }
+
+    const released = await db.update(ticketStatuses)
+      .set({ 
+        status: 'available', 
+        userId: null,
+        entryId: null,
+        cartId: null,
+        reservedUntil: null
+      })
+      .where(
+        and(
+          eq(ticketStatuses.competitionId, competitionId),
+          eq(ticketStatuses.cartId, cartId),
+          eq(ticketStatuses.status, 'reserved'),
+          ticketNumbers ? inArray(ticketStatuses.ticketNumber, ticketNumbers) : undefined
+        )
+      )
+      .returning({ ticketNumber: ticketStatuses.ticketNumber });
+
+    const numbers = released.map(ticket => ticket.ticketNumber);
+    console.log(`🎟️ Released ${numbers.length} tickets held by cart ${cartId} in competition ${competitionId}`);
+    liveUpdates.tickets(competitionId, 'available', numbers);
+    return numbers;
+  }
+
+  /**
+   * Hand a cart's reservations to another cart and user, e.g. when a guest
+   * cart is merged into an account cart at login
+   */
+  static async transferCartReservations(fromCartId: number, toCartId: number, userId: number): Promise<number> {
+    const result = await db.update(ticketStatuses)
+      .set({ cartId: toCartId, userId, updatedAt: new Date() })
+      .where(
+        and(
+          eq(ticketStatuses.cartId, fromCartId),
+          eq(ticketStatuses.status, 'reserved')
+        )
+      );
+
+    return result.rowCount || 0;
+  }
+
   /**
    * Release all expired ticket reservations
    */
@@ -315,6 +567,7 @@ export class TicketService {
           status: 'available', 
           userId: null,
           entryId: null,
+          cartId: null,
           reservedUntil: null
         })
         .where(
@@ -323,13 +576,23 @@ export class TicketService {
             // Use SQL version of the comparison to avoid type errors
             sql`${ticketStatuses.reservedUntil} < ${now}`
           )
-        );
+        )
+        .returning({ competitionId: ticketStatuses.competitionId, ticketNumber: ticketStatuses.ticketNumber });
       
       // Count affected rows
-      const rowCount = result.rowCount || 0;
+      const rowCount = result.length;
+
+      // Announce the released numbers per competition
+      const releasedByCompetition = new Map<number, number[]>();
+      for (const ticket of result) {
+        releasedByCompetition.set(ticket.competitionId, [...(releasedByCompetition.get(ticket.competitionId) || []), ticket.ticketNumber]);
+      }
+      releasedByCompetition.forEach((ticketNumbers, competitionId) => {
+        liveUpdates.tickets(competitionId, 'available', ticketNumbers);
+      });
       
-      console.log(`🎟️ Released ${rowCount || 0} expired ticket reservations`);
-      return rowCount || 0;
+      console.log(`🎟️ Released ${rowCount} expired ticket reservations`);
+      return rowCount;
     } catch (error) {
       console.error(`Error releasing expired reservations: ${error}`);
       return 0;
@@ -374,6 +637,7 @@ export class TicketService {
           status: 'available', 
           userId: null,
           entryId: null,
+          cartId: null,
           reservedUntil: null
         })
         .where(eq(ticketStatuses.competitionId, competitionId));
@@ -0,0 +1,553 @@
+import { db } from './db';
+import {
+  competitions,
+  draws,
+  instantWinPrizes,
+  postalEntries,
+  prizes,
+  users,
+  winners,
+  type Competition,
+  type GuestWinnerClaim,
+  type IdentityCheck,
+  type InstantWinPrize,
+  type Prize,
+  type PublicWinnersPage,
+  type TestimonialStatus,
+  type User,
+  type Winner,
+  type WinnerClaimStatus,
+  type WinnerClaim,
+  type WinnerDetails,
+  type WinnerFulfilment,
+  type WinnerTestimonial
+} from '@shared/schema';
+import { AgeVerificationService } from './age-verification-service';
+import { AuditService } from './audit-service';
+import { EmailService } from './email-service';
+import { and, eq, desc, asc, isNull, lt, notInArray, sql } from 'drizzle-orm';
+
+// How long a winner has to claim their prize
+export const CLAIM_DAYS = 14;
+
+/**
+ * Winner Service - what happens to a win after the draw
+ *
+ * A winner has until their claim deadline to claim the prize or, where one
+ * is offered, the cash alternative, confirming their address and identity.
+ * An admin checks their photo ID, then sends whichever was chosen and
+ * tracks it through delivery:
+ *   pending -> elected_prize | elected_cash -> dispatched -> delivered
+ * Wins still pending at the deadline are expired by the scheduler.
+ *
+ * Guest postal entrants have no account to claim from, so an admin records
+ * their claim once they get in touch, and their wins never expire on their
+ * own.
+ *
+ * Draw wins are listed in the public winners gallery under the winner's
+ * display name or initials, with their photo and testimonial once approved.
+ */
+export class WinnerService {
+  static claimDeadline(from: Date = new Date()): Date {
+    return new Date(from.getTime() + CLAIM_DAYS * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * The cash a winner may take instead of their prize. A listed prize has its
+   * own alternative; instant wins are already cash or site credit.
+   */
+  static cashAlternativeFor(
+    competition: Pick<Competition, 'cashAlternative'> | null | undefined,
+    prize: Pick<Prize, 'cashAlternative'> | null,
+    instantWinPrize: InstantWinPrize | null
+  ): number | null {
+    if (instantWinPrize) {
+      return null;
+    }
+    if (prize) {
+      return prize.cashAlternative;
+    }
+    return competition?.cashAlternative ?? null;
+  }
+
+  /**
+   * Every win with its winner and prize, newest first
+   */
+  static async listWinners(status?: WinnerClaimStatus): Promise<WinnerDetails[]> {
+    const rows = await db.select({
+      winner: winners,
+      username: users.username,
+      email: users.email,
+      isGuest: users.isGuest,
+      phone: users.phone,
+      postalAddress: postalEntries.senderAddress,
+      competition: competitions,
+      prize: prizes,
+      instantWinPrize: instantWinPrizes
+    })
+      .from(winners)
+      .leftJoin(users, eq(users.id, winners.userId))
+      .leftJoin(postalEntries, eq(postalEntries.entryId, winners.entryId))
+      .leftJoin(competitions, eq(competitions.id, winners.competitionId))
+      .leftJoin(prizes, eq(prizes.id, winners.prizeId))
+      .leftJoin(instantWinPrizes, eq(instantWinPrizes.id, winners.instantWinPrizeId))
+      .where(status ? eq(winners.claimStatus, status) : undefined)
+      .orderBy(desc(winners.announcedAt));
+
+    return rows.map(({ winner, username, email, isGuest, phone, postalAddress, competition, prize, instantWinPrize }) => {
+      const wonPrize = instantWinPrize || prize;
+      return {
+        ...winner,
+        username,
+        email,
+        isGuest: !!isGuest,
+        phone,
+        postalAddress,
+        competitionTitle: competition?.title ?? null,
+        prizeTitle: wonPrize?.title ?? competition?.title ?? `Competition #${winner.competitionId}`,
+        prizeValue: wonPrize?.value ?? competition?.prizeValue ?? 0,
+        cashAlternative: this.cashAlternativeFor(competition, prize, instantWinPrize)
+      };
+    });
+  }
+
+  /**
+   * Claim a win - the winner's choice of prize or cash, where to send it and
+   * who they are. Only the winner can claim, only once, and only before
+   * their claim deadline.
+   */
+  static async claim(winnerId: number, userId: number, data: WinnerClaim): Promise<Winner> {
+    const [winner] = await db.select().from(winners).where(eq(winners.id, winnerId)).limit(1);
+    if (!winner || winner.userId !== userId) {
+      throw new Error('Win not found');
+    }
+
+    if (winner.claimStatus === 'expired' ||
+        (winner.claimDeadline && winner.claimDeadline.getTime() < Date.now())) {
+      throw new Error('The deadline to claim this prize has passed');
+    }
+
+    if (winner.claimStatus !== 'pending') {
+      throw new Error('You have already claimed this prize');
+    }
+
+    // The identity given must be the same person who registered to play
+    const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+    if (user?.dateOfBirth && user.dateOfBirth !== data.dateOfBirth) {
+      throw new Error('Your date of birth does not match the one on your account - please contact support');
+    }
+
+    const updated = await this.recordClaim(winner, userId, data);
+    if (!updated) {
+      throw new Error('You have already claimed this prize');
+    }
+    return updated;
+  }
+
+  /**
+   * Claim a guest postal winner's win for them, with the choice, address
+   * and identity they gave by post or phone
+   */
+  static async claimOnBehalf(winnerId: number, actorId: number, data: GuestWinnerClaim): Promise<Winner> {
+    const winner = await this.getWinner(winnerId);
+
+    const [user] = await db.select({ isGuest: users.isGuest }).from(users).where(eq(users.id, winner.userId)).limit(1);
+    if (!user?.isGuest) {
+      throw new Error('Only guest postal winners can be claimed for - this winner must claim from their account');
+    }
+
+    const updated = winner.claimStatus === 'pending'
+      ? await this.recordClaim(winner, actorId, data)
+      : undefined;
+    if (!updated) {
+      throw new Error('This win has already been claimed or has expired');
+    }
+    return updated;
+  }
+
+  /**
+   * Store a pending win's claim, with the cash amount fixed now if cash was
+   * chosen. Returns nothing if the win is no longer pending.
+   */
+  private static async recordClaim(winner: Winner, actorId: number, data: GuestWinnerClaim): Promise<Winner | undefined> {
+    const winnerId = winner.id;
+    let cashAmount: number | null = null;
+    if (data.choice === 'cash') {
+      const [competition] = await db.select().from(competitions).where(eq(competitions.id, winner.competitionId)).limit(1);
+      const prize = winner.prizeId
+        ? (await db.select().from(prizes).where(eq(prizes.id, winner.prizeId)).limit(1))[0] ?? null
+        : null;
+      const instantWinPrize = winner.instantWinPrizeId
+        ? (await db.select().from(instantWinPrizes).where(eq(instantWinPrizes.id, winner.instantWinPrizeId)).limit(1))[0] ?? null
+        : null;
+
+      cashAmount = this.cashAlternativeFor(competition, prize, instantWinPrize);
+      if (!cashAmount) {
+        throw new Error('This prize has no cash alternative');
+      }
+    }
+
+    // Conditional on the status so a double submit cannot change the claim
+    const [updated] = await db.update(winners)
+      .set({
+        claimStatus: data.choice === 'cash' ? 'elected_cash' : 'elected_prize',
+        electedAt: new Date(),
+        cashAmount,
+        shippingAddress: data.address,
+        identityName: data.fullName,
+        identityDateOfBirth: data.dateOfBirth
+      })
+      .where(and(eq(winners.id, winnerId), eq(winners.claimStatus, 'pending')))
+      .returning();
+
+    if (!updated) {
+      return undefined;
+    }
+
+    await AuditService.record(actorId, `winner.elected_${data.choice}`, 'winner', winnerId, {
+      competitionId: winner.competitionId,
+      cashAmount,
+      onBehalf: actorId !== winner.userId
+    });
+
+    console.log(`🏆 Winner ${winnerId} claimed the ${data.choice}${cashAmount ? ` (${cashAmount}p)` : ''}`);
+    return updated;
+  }
+
+  /**
+   * Mark a claimed win as sent - the prize posted or the cash paid
+   */
+  static async dispatch(winnerId: number, actorId: number, data: WinnerFulfilment): Promise<Winner> {
+    const winner = await this.getWinner(winnerId);
+
+    if (winner.claimStatus !== 'elected_prize' && winner.claimStatus !== 'elected_cash') {
+      throw new Error('Only claimed wins can be dispatched');
+    }
+
+    if (winner.identityCheckStatus !== 'verified') {
+      throw new Error("Check the winner's photo ID before releasing the prize");
+    }
+
+    const [updated] = await db.update(winners)
+      .set({
+        claimStatus: 'dispatched',
+        dispatchedAt: new Date(),
+        dispatchedBy: actorId,
+        trackingNumber: data.trackingNumber || winner.trackingNumber,
+        fulfilmentNotes: data.notes !== undefined ? data.notes || null : winner.fulfilmentNotes
+      })
+      .where(and(eq(winners.id, winnerId), eq(winners.claimStatus, winner.claimStatus)))
+      .returning();
+
+    if (!updated) {
+      throw new Error('This win has changed - refresh and try again');
+    }
+
+    await AuditService.record(actorId, 'winner.dispatched', 'winner', winnerId, {
+      competitionId: winner.competitionId,
+      choice: winner.claimStatus === 'elected_cash' ? 'cash' : 'prize',
+      cashAmount: winner.cashAmount,
+      trackingNumber: updated.trackingNumber
+    });
+
+    return updated;
+  }
+
+  /**
+   * Record the result of checking a winner's photo ID against the name and
+   * date of birth they claimed with. This also settles their account's age
+   * verification - a failed check stops them playing again.
+   */
+  static async checkIdentity(winnerId: number, actorId: number, result: IdentityCheck['result']): Promise<Winner> {
+    const winner = await this.getWinner(winnerId);
+
+    if (winner.claimStatus !== 'elected_prize' && winner.claimStatus !== 'elected_cash') {
+      throw new Error('Only claimed wins can be ID checked');
+    }
+
+    const [updated] = await db.update(winners)
+      .set({ identityCheckStatus: result, identityCheckedAt: new Date(), identityCheckedBy: actorId })
+      .where(eq(winners.id, winnerId))
+      .returning();
+
+    await AuditService.record(actorId, `winner.identity_${result}`, 'winner', winnerId, {
+      identityName: winner.identityName,
+      identityDateOfBirth: winner.identityDateOfBirth
+    });
+
+    await AgeVerificationService.setStatus(winner.userId, actorId, result);
+    return updated;
+  }
+
+  /**
+   * Mark a dispatched win as received by the winner
+   */
+  static async deliver(winnerId: number, actorId: number): Promise<Winner> {
+    const winner = await this.getWinner(winnerId);
+
+    if (winner.claimStatus !== 'dispatched') {
+      throw new Error('Only dispatched wins can be marked delivered');
+    }
+
+    const [updated] = await db.update(winners)
+      .set({ claimStatus: 'delivered', fulfilledAt: new Date(), fulfilledBy: actorId })
+      .where(and(eq(winners.id, winnerId), eq(winners.claimStatus, 'dispatched')))
+      .returning();
+
+    if (!updated) {
+      throw new Error('This win has changed - refresh and try again');
+    }
+
+    await AuditService.record(actorId, 'winner.delivered', 'winner', winnerId, {
+      competitionId: winner.competitionId
+    });
+
+    return updated;
+  }
+
+  /**
+   * Change the tracking number or notes at any stage
+   */
+  static async updateFulfilment(winnerId: number, actorId: number, data: WinnerFulfilment): Promise<Winner> {
+    const winner = await this.getWinner(winnerId);
+
+    const [updated] = await db.update(winners)
+      .set({
+        trackingNumber: data.trackingNumber !== undefined ? data.trackingNumber || null : winner.trackingNumber,
+        fulfilmentNotes: data.notes !== undefined ? data.notes || null : winner.fulfilmentNotes
+      })
+      .where(eq(winners.id, winnerId))
+      .returning();
+
+    await AuditService.record(actorId, 'winner.fulfilment_updated', 'winner', winnerId, {
+      trackingNumber: updated.trackingNumber,
+      notes: updated.fulfilmentNotes
+    });
+
+    return updated;
+  }
+
+  /**
+   * Expire every win still unclaimed after its deadline. Guest postal
+   * winners cannot claim for themselves, so theirs wait for an admin.
+   */
+  static async expireUnclaimed(): Promise<number[]> {
+    const guests = db.select({ id: users.id }).from(users).where(eq(users.isGuest, true));
+
+    const expired = await db.update(winners)
+      .set({ claimStatus: 'expired' })
+      .where(and(
+        eq(winners.claimStatus, 'pending'),
+        lt(winners.claimDeadline, new Date()),
+        notInArray(winners.userId, guests)
+      ))
+      .returning();
+
+    for (const winner of expired) {
+      await AuditService.record(null, 'winner.expired', 'winner', winner.id, {
+        competitionId: winner.competitionId,
+        claimDeadline: winner.claimDeadline
+      });
+    }
+
+    return expired.map(winner => winner.id);
+  }
+
+  /**
+   * Email a winner to tell them what they won and how to claim it. Never
+   * throws, so a mail problem cannot undo the win that triggered it.
+   */
+  static async notifyWinner(winnerId: number): Promise<void> {
+    try {
+      const [row] = await db.select({
+        winner: winners,
+        competition: competitions,
+        prize: prizes,
+        instantWinPrize: instantWinPrizes
+      })
+        .from(winners)
+        .leftJoin(competitions, eq(competitions.id, winners.competitionId))
+        .leftJoin(prizes, eq(prizes.id, winners.prizeId))
+        .leftJoin(instantWinPrizes, eq(instantWinPrizes.id, winners.instantWinPrizeId))
+        .where(eq(winners.id, winnerId))
+        .limit(1);
+
+      if (!row) {
+        throw new Error('Winner not found');
+      }
+
+      const { winner, competition, prize, instantWinPrize } = row;
+      const competitionTitle = competition?.title ?? `Competition #${winner.competitionId}`;
+
+      await EmailService.sendToUser(winner.userId, 'winner', {
+        competitionTitle,
+        prizeTitle: (instantWinPrize || prize)?.title ?? competitionTitle,
+        ticketNumber: winner.ticketNumber,
+        instant: !!instantWinPrize,
+        claimDeadline: winner.claimDeadline
+      });
+    } catch (error) {
+      console.error(`❌ Failed to queue winner email for win ${winnerId}:`, error);
+    }
+  }
+
+  /**
+   * The name shown publicly - the winner's display name, or their initials
+   */
+  static publicName(user: Pick<User, 'displayName' | 'fullName' | 'username'> | null): string {
+    const displayName = user?.displayName?.trim();
+    if (displayName) {
+      return displayName;
+    }
+
+    const name = user?.fullName?.trim() || user?.username || '';
+    const initials = name.split(/\s+/)
+      .filter(Boolean)
+      .map(part => `${part[0].toUpperCase()}.`)
+      .join('');
+    return initials || 'Anonymous';
+  }
+
+  /**
+   * Draw winners for the public gallery, most recent draw first
+   */
+  static async getPublicWinners(page: number, pageSize: number): Promise<PublicWinnersPage> {
+    // Instant wins have no draw to prove, so only draw wins are listed
+    const drawWins = isNull(winners.instantWinPrizeId);
+
+    const [{ total }] = await db.select({ total: sql<number>`count(*)::int` })
+      .from(winners)
+      .innerJoin(draws, eq(draws.competitionId, winners.competitionId))
+      .where(drawWins);
+
+    const rows = await db.select({
+      winner: winners,
+      competition: competitions,
+      prize: prizes,
+      drawnAt: draws.drawnAt,
+      user: {
+        displayName: users.displayName,
+        fullName: users.fullName,
+        username: users.username
+      }
+    })
+      .from(winners)
+      .innerJoin(draws, eq(draws.competitionId, winners.competitionId))
+      .innerJoin(competitions, eq(competitions.id, winners.competitionId))
+      .leftJoin(prizes, eq(prizes.id, winners.prizeId))
+      .leftJoin(users, eq(users.id, winners.userId))
+      .where(drawWins)
+      .orderBy(desc(draws.drawnAt), asc(prizes.position), asc(winners.id))
+      .limit(pageSize)
+      .offset((page - 1) * pageSize);
+
+    return {
+      winners: rows.map(({ winner, competition, prize, drawnAt, user }) => {
+        const approved = winner.testimonialStatus === 'approved';
+        return {
+          winnerId: winner.id,
+          competitionId: competition.id,
+          competitionTitle: competition.title,
+          competitionImageUrl: competition.imageUrl,
+          position: prize?.position ?? null,
+          prizeTitle: prize?.title ?? competition.title,
+          prizeValue: prize?.value ?? competition.prizeValue,
+          ticketNumber: winner.ticketNumber,
+          winnerName: this.publicName(user),
+          drawnAt,
+          photoUrl: approved ? winner.photoUrl : null,
+          testimonial: approved ? winner.testimonial : null
+        };
+      }),
+      page,
+      pageSize,
+      total,
+      totalPages: Math.ceil(total / pageSize)
+    };
+  }
+
+  /**
+   * Opt in to the winners gallery with a photo and/or testimonial. Each
+   * submission goes back to an admin for approval.
+   */
+  static async submitTestimonial(winnerId: number, userId: number, data: WinnerTestimonial): Promise<Winner> {
+    const [winner] = await db.select().from(winners).where(eq(winners.id, winnerId)).limit(1);
+    if (!winner || winner.userId !== userId) {
+      throw new Error('Win not found');
+    }
+
+    if (winner.instantWinPrizeId) {
+      throw new Error('Only draw wins appear in the winners gallery');
+    }
+
+    const [updated] = await db.update(winners)
+      .set({
+        photoUrl: data.photoUrl || null,
+        testimonial: data.testimonial || null,
+        testimonialStatus: 'pending',
+        testimonialReviewedAt: null,
+        testimonialReviewedBy: null
+      })
+      .where(eq(winners.id, winnerId))
+      .returning();
+
+    await AuditService.record(userId, 'winner.testimonial_submitted', 'winner', winnerId, {
+      hasPhoto: !!updated.photoUrl,
+      hasTestimonial: !!updated.testimonial
+    });
+
+    return updated;
+  }
+
+  /**
+   * Opt back out - the photo and testimonial are removed straight away
+   */
+  static async withdrawTestimonial(winnerId: number, userId: number): Promise<Winner> {
+    const [winner] = await db.select().from(winners).where(eq(winners.id, winnerId)).limit(1);
+    if (!winner || winner.userId !== userId) {
+      throw new Error('Win not found');
+    }
+
+    const [updated] = await db.update(winners)
+      .set({
+        photoUrl: null,
+        testimonial: null,
+        testimonialStatus: null,
+        testimonialReviewedAt: null,
+        testimonialReviewedBy: null
+      })
+      .where(eq(winners.id, winnerId))
+      .returning();
+
+    await AuditService.record(userId, 'winner.testimonial_withdrawn', 'winner', winnerId);
+    return updated;
+  }
+
+  static async reviewTestimonial(
+    winnerId: number,
+    actorId: number,
+    status: Exclude<TestimonialStatus, 'pending'>
+  ): Promise<Winner> {
+    const winner = await this.getWinner(winnerId);
+
+    if (!winner.testimonialStatus) {
+      throw new Error('This winner has not submitted a photo or testimonial');
+    }
+
+    const [updated] = await db.update(winners)
+      .set({ testimonialStatus: status, testimonialReviewedAt: new Date(), testimonialReviewedBy: actorId })
+      .where(eq(winners.id, winnerId))
+      .returning();
+
+    await AuditService.record(actorId, `winner.testimonial_${status}`, 'winner', winnerId);
+    return updated;
+  }
+
+  private static async getWinner(winnerId: number): Promise<Winner> {
+    const [winner] = await db.select().from(winners).where(eq(winners.id, winnerId)).limit(1);
+    if (!winner) {
+      throw new Error('Winner not found');
+    }
+    return winner;
+  }
+}
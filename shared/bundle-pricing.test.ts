@@ -0,0 +1,177 @@
+/**
+ * Table-driven tests for multi-buy pricing and bundle validation.
+ *
+ *   npm test
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { bundleTierErrors, priceTickets, type BundleTier, type TicketPrice } from './bundle-pricing';
+
+const FIVE_AND_TEN: BundleTier[] = [
+  { ticketCount: 5, price: 400 },
+  { ticketCount: 10, price: 700 }
+];
+
+describe('priceTickets', () => {
+  const cases: {
+    name: string;
+    ticketPrice: number;
+    tiers: BundleTier[] | null;
+    ticketCount: number;
+    expected: TicketPrice;
+  }[] = [
+    {
+      name: 'no bundles',
+      ticketPrice: 100,
+      tiers: null,
+      ticketCount: 3,
+      expected: { total: 300, bundles: [], singleTickets: 3, saving: 0 }
+    },
+    {
+      name: 'no tickets',
+      ticketPrice: 100,
+      tiers: FIVE_AND_TEN,
+      ticketCount: 0,
+      expected: { total: 0, bundles: [], singleTickets: 0, saving: 0 }
+    },
+    {
+      name: 'below the smallest bundle',
+      ticketPrice: 100,
+      tiers: FIVE_AND_TEN,
+      ticketCount: 4,
+      expected: { total: 400, bundles: [], singleTickets: 4, saving: 0 }
+    },
+    {
+      name: 'exactly the smaller bundle',
+      ticketPrice: 100,
+      tiers: FIVE_AND_TEN,
+      ticketCount: 5,
+      expected: { total: 400, bundles: [{ ticketCount: 5, price: 400, quantity: 1 }], singleTickets: 0, saving: 100 }
+    },
+    {
+      name: 'exactly the larger bundle',
+      ticketPrice: 100,
+      tiers: FIVE_AND_TEN,
+      ticketCount: 10,
+      expected: { total: 700, bundles: [{ ticketCount: 10, price: 700, quantity: 1 }], singleTickets: 0, saving: 300 }
+    },
+    {
+      name: 'between the bundles',
+      ticketPrice: 100,
+      tiers: FIVE_AND_TEN,
+      ticketCount: 7,
+      expected: { total: 600, bundles: [{ ticketCount: 5, price: 400, quantity: 1 }], singleTickets: 2, saving: 100 }
+    },
+    {
+      name: 'above the largest bundle',
+      ticketPrice: 100,
+      tiers: FIVE_AND_TEN,
+      ticketCount: 12,
+      expected: { total: 900, bundles: [{ ticketCount: 10, price: 700, quantity: 1 }], singleTickets: 2, saving: 300 }
+    },
+    {
+      name: 'both bundles together',
+      ticketPrice: 100,
+      tiers: FIVE_AND_TEN,
+      ticketCount: 15,
+      expected: {
+        total: 1100,
+        bundles: [{ ticketCount: 10, price: 700, quantity: 1 }, { ticketCount: 5, price: 400, quantity: 1 }],
+        singleTickets: 0,
+        saving: 400
+      }
+    },
+    {
+      name: 'two small bundles beating the largest bundle plus singles',
+      ticketPrice: 100,
+      tiers: [{ ticketCount: 3, price: 200 }, { ticketCount: 4, price: 300 }],
+      ticketCount: 6,
+      expected: { total: 400, bundles: [{ ticketCount: 3, price: 200, quantity: 2 }], singleTickets: 0, saving: 200 }
+    },
+    {
+      name: 'a larger bundle dearer per ticket than a smaller one',
+      ticketPrice: 100,
+      tiers: [{ ticketCount: 5, price: 400 }, { ticketCount: 10, price: 900 }],
+      ticketCount: 10,
+      expected: { total: 800, bundles: [{ ticketCount: 5, price: 400, quantity: 2 }], singleTickets: 0, saving: 200 }
+    },
+    {
+      name: 'a bundle larger than the tickets bought',
+      ticketPrice: 100,
+      tiers: [{ ticketCount: 20, price: 1500 }],
+      ticketCount: 10,
+      expected: { total: 1000, bundles: [], singleTickets: 10, saving: 0 }
+    }
+  ];
+
+  for (const { name, ticketPrice, tiers, ticketCount, expected } of cases) {
+    it(`prices ${ticketCount} tickets with ${name}`, () => {
+      assert.deepEqual(priceTickets(ticketPrice, tiers, ticketCount), expected);
+    });
+  }
+
+  it('never charges more than buying every ticket singly', () => {
+    const tiers: BundleTier[] = [{ ticketCount: 3, price: 250 }, { ticketCount: 7, price: 560 }, { ticketCount: 12, price: 900 }];
+    for (let ticketCount = 0; ticketCount <= 50; ticketCount++) {
+      const { total, saving, bundles, singleTickets } = priceTickets(100, tiers, ticketCount);
+      assert.ok(total <= 100 * ticketCount, `${ticketCount} tickets cost ${total}`);
+      assert.equal(saving, 100 * ticketCount - total);
+      assert.equal(
+        bundles.reduce((sum, bundle) => sum + bundle.ticketCount * bundle.quantity, 0) + singleTickets,
+        ticketCount,
+        `the breakdown for ${ticketCount} tickets covers every ticket`
+      );
+    }
+  });
+});
+
+describe('bundleTierErrors', () => {
+  const cases: { name: string; tiers: BundleTier[]; expected: string[] }[] = [
+    {
+      name: 'accepts cheaper bundles within the limit',
+      tiers: FIVE_AND_TEN,
+      expected: []
+    },
+    {
+      name: 'accepts a bundle of exactly the per-person limit',
+      tiers: [{ ticketCount: 20, price: 1500 }],
+      expected: []
+    },
+    {
+      name: 'accepts a larger bundle that is dearer per ticket than a smaller one',
+      tiers: [{ ticketCount: 5, price: 400 }, { ticketCount: 10, price: 900 }],
+      expected: []
+    },
+    {
+      name: 'rejects a bundle of one ticket',
+      tiers: [{ ticketCount: 1, price: 50 }],
+      expected: ['A bundle must contain at least two tickets']
+    },
+    {
+      name: 'rejects a bundle larger than the per-person limit',
+      tiers: [{ ticketCount: 25, price: 2000 }],
+      expected: ['A bundle of 25 is more than the 20 tickets one person can buy']
+    },
+    {
+      name: 'rejects two bundles of the same size',
+      tiers: [{ ticketCount: 5, price: 400 }, { ticketCount: 5, price: 450 }],
+      expected: ['There is more than one bundle of 5 tickets']
+    },
+    {
+      name: 'rejects a free bundle',
+      tiers: [{ ticketCount: 5, price: 0 }],
+      expected: ['A bundle price must be more than zero']
+    },
+    {
+      name: 'rejects a bundle costing the same as single tickets',
+      tiers: [{ ticketCount: 5, price: 500 }],
+      expected: ['The bundle of 5 must cost less than 5 single tickets']
+    }
+  ];
+
+  for (const { name, tiers, expected } of cases) {
+    it(name, () => {
+      assert.deepEqual(bundleTierErrors(100, 20, tiers), expected);
+    });
+  }
+});
@@ -0,0 +1,88 @@
+// A multi-buy price, e.g. 5 tickets for 400 pence
+export interface BundleTier {
+  ticketCount: number;
+  price: number; // in pence, for the whole bundle
+}
+
+export interface TicketPrice {
+  total: number; // in pence
+  // The bundles making up the price - tickets not covered are at the single price
+  bundles: { ticketCount: number; price: number; quantity: number }[];
+  singleTickets: number;
+  saving: number; // in pence, against buying every ticket singly
+}
+
+/**
+ * The cheapest way to buy a number of tickets from the single ticket price
+ * and a competition's bundles. Bundles can be combined and repeated, so
+ * with "5 for £4" and "10 for £7", 15 tickets cost £11.
+ */
+export function priceTickets(ticketPrice: number, tiers: BundleTier[] | null | undefined, ticketCount: number): TicketPrice {
+  const usable = (tiers || []).filter(tier => tier.ticketCount > 1 && tier.ticketCount <= ticketCount);
+  const fullPrice = ticketPrice * ticketCount;
+
+  if (usable.length === 0 || ticketCount <= 0) {
+    return { total: fullPrice, bundles: [], singleTickets: Math.max(ticketCount, 0), saving: 0 };
+  }
+
+  // cost[n] is the cheapest price for n tickets; choice[n] is the bundle size bought last (1 for a single)
+  const cost = new Array<number>(ticketCount + 1).fill(0);
+  const choice = new Array<number>(ticketCount + 1).fill(1);
+
+  for (let n = 1; n <= ticketCount; n++) {
+    cost[n] = cost[n - 1] + ticketPrice;
+    for (const tier of usable) {
+      if (tier.ticketCount <= n && cost[n - tier.ticketCount] + tier.price < cost[n]) {
+        cost[n] = cost[n - tier.ticketCount] + tier.price;
+        choice[n] = tier.ticketCount;
+      }
+    }
+  }
+
+  const counts = new Map<number, number>();
+  let singleTickets = 0;
+  for (let n = ticketCount; n > 0; n -= choice[n]) {
+    if (choice[n] === 1) {
+      singleTickets++;
+    } else {
+      counts.set(choice[n], (counts.get(choice[n]) || 0) + 1);
+    }
+  }
+
+  const bundles = usable
+    .filter(tier => counts.has(tier.ticketCount))
+    .sort((a, b) => b.ticketCount - a.ticketCount)
+    .map(tier => ({ ticketCount: tier.ticketCount, price: tier.price, quantity: counts.get(tier.ticketCount)! }));
+
+  return { total: cost[ticketCount], bundles, singleTickets, saving: fullPrice - cost[ticketCount] };
+}
+
+/**
+ * Problems with a competition's bundles, for the admin forms and the server.
+ * A bundle must hold at least two tickets and cost less than buying them singly.
+ */
+export function bundleTierErrors(ticketPrice: number, maxTicketsPerUser: number, tiers: BundleTier[]): string[] {
+  const errors: string[] = [];
+  const seen = new Set<number>();
+
+  for (const tier of tiers) {
+    if (!Number.isInteger(tier.ticketCount) || tier.ticketCount < 2) {
+      errors.push('A bundle must contain at least two tickets');
+    } else if (tier.ticketCount > maxTicketsPerUser) {
+      errors.push(`A bundle of ${tier.ticketCount} is more than the ${maxTicketsPerUser} tickets one person can buy`);
+    }
+
+    if (seen.has(tier.ticketCount)) {
+      errors.push(`There is more than one bundle of ${tier.ticketCount} tickets`);
+    }
+    seen.add(tier.ticketCount);
+
+    if (!Number.isInteger(tier.price) || tier.price <= 0) {
+      errors.push('A bundle price must be more than zero');
+    } else if (tier.price >= ticketPrice * tier.ticketCount) {
+      errors.push(`The bundle of ${tier.ticketCount} must cost less than ${tier.ticketCount} single tickets`);
+    }
+  }
+
+  return errors;
+}
@@ -1,15 +1,49 @@
-import { pgTable, text, serial, integer, boolean, timestamp, json, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, json, pgEnum, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { BundleTier } from "./bundle-pricing";
+
+export type { BundleTier } from "./bundle-pricing";
 
 // Enum for ticket status
 export const ticketStatusEnum = pgEnum('ticket_status', ['available', 'reserved', 'purchased']);
 
+// Age and residency checks - details given at registration are declared; an
+// admin marks them verified or failed after checking photo ID, e.g. for a win
+export const AGE_VERIFICATION_STATUSES = ['unverified', 'declared', 'verified', 'failed'] as const;
+export type AgeVerificationStatus = typeof AGE_VERIFICATION_STATUSES[number];
+
+export const MINIMUM_AGE = 18;
+
+// Responsible play - spend limits over rolling windows, in pence (null for
+// no limit). Lowering a limit applies at once; raising or removing one only
+// after SPEND_LIMIT_INCREASE_DELAY_HOURS.
+export const SPEND_LIMIT_PERIODS = ['daily', 'weekly', 'monthly'] as const;
+export type SpendLimitPeriod = typeof SPEND_LIMIT_PERIODS[number];
+export type SpendLimits = Record<SpendLimitPeriod, number | null>;
+export type PendingSpendLimits = Partial<SpendLimits> & { effectiveAt: string };
+
+export const SPEND_LIMIT_INCREASE_DELAY_HOURS = 24;
+export const COOL_OFF_MIN_HOURS = 24;
+export const COOL_OFF_MAX_HOURS = 6 * 7 * 24; // 6 weeks
+export const SELF_EXCLUSION_MIN_MONTHS = 6;
+
+// Whole years between a YYYY-MM-DD date of birth and the given day
+export function ageOn(dateOfBirth: string, on: Date = new Date()): number {
+  const [year, month, day] = dateOfBirth.split('-').map(Number);
+  let age = on.getFullYear() - year;
+  if (on.getMonth() + 1 < month || (on.getMonth() + 1 === month && on.getDate() < day)) {
+    age--;
+  }
+  return age;
+}
+
 // User schema
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   email: text("email").notNull().unique(),
+  emailVerifiedAt: timestamp("email_verified_at"), // null until the current address is confirmed
   password: text("password").notNull(),
   displayName: text("display_name"),
   fullName: text("full_name"),
@@ -18,6 +52,17 @@ export const users = pgTable("users", {
   stripeCustomerId: text("stripe_customer_id"),
   isAdmin: boolean("is_admin").default(false),
   isBanned: boolean("is_banned").default(false),
+  isGuest: boolean("is_guest").default(false), // postal entrant without an account - cannot log in
+  // Players must be UK residents aged 18 or over
+  dateOfBirth: text("date_of_birth"), // YYYY-MM-DD
+  address: json("address").$type<PostalAddress>(),
+  ageVerificationStatus: text("age_verification_status").$type<AgeVerificationStatus>().notNull().default("unverified"),
+  ageVerifiedAt: timestamp("age_verified_at"), // when an admin checked photo ID
+  ageVerifiedBy: integer("age_verified_by"), // admin user id
+  spendLimits: json("spend_limits").$type<SpendLimits>(),
+  pendingSpendLimits: json("pending_spend_limits").$type<PendingSpendLimits>(), // raised limits waiting out the delay
+  coolOffUntil: timestamp("cool_off_until"),
+  selfExcludedUntil: timestamp("self_excluded_until"),
   notificationSettings: json("notification_settings").$type<{
     email: boolean;
     inApp: boolean;
@@ -33,6 +78,7 @@ export const competitions = pgTable("competitions", {
   imageUrl: text("image_url"),
   category: text("category").notNull(), // family, appliances, cash, etc.
   prizeValue: integer("prize_value").notNull(), // in cents
+  cashAlternative: integer("cash_alternative"), // in pence, offered to the winner instead of the prize
   ticketPrice: integer("ticket_price").notNull(), // in cents
   maxTicketsPerUser: integer("max_tickets_per_user").notNull(),
   totalTickets: integer("total_tickets").notNull(),
@@ -42,6 +88,17 @@ export const competitions = pgTable("competitions", {
   isLive: boolean("is_live").default(true),
   isFeatured: boolean("is_featured").default(false),
   pushToHeroBanner: boolean("push_to_hero_banner").default(false),
+  cancelledAt: timestamp("cancelled_at"), // set when an admin cancels and refunds the competition
+  cancellationReason: text("cancellation_reason"),
+  // Set when the scheduled draw fails - skipped by the scheduler until an admin draws it
+  drawError: text("draw_error"),
+  drawAttemptedAt: timestamp("draw_attempted_at"),
+  // Skill question every entrant must answer - wrong answers are accepted but never drawn
+  skillQuestion: text("skill_question"),
+  skillAnswerOptions: json("skill_answer_options").$type<string[]>().default([]),
+  skillCorrectAnswer: text("skill_correct_answer"), // never sent to non-admins
+  // Multi-buy prices, e.g. 5 for £4 - carts are charged the cheapest mix of bundles and single tickets
+  bundleTiers: json("bundle_tiers").$type<BundleTier[]>().default([]),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -52,11 +109,24 @@ export const entries = pgTable("entries", {
   competitionId: integer("competition_id").notNull(),
   ticketCount: integer("ticket_count").notNull(),
   selectedNumbers: json("selected_numbers").$type<number[]>().default([]),
-  paymentStatus: text("payment_status").notNull(), // pending, completed, failed
+  paymentStatus: text("payment_status").notNull(), // pending, completed, failed, refunded, free
   stripePaymentId: text("stripe_payment_id"),
+  entryMethod: text("entry_method").notNull().default("online"), // online, postal
+  skillAnswer: text("skill_answer"),
+  skillAnswerCorrect: boolean("skill_answer_correct"), // null when the competition has no skill question
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// A win moves from pending to claimed, with the winner's choice of prize or
+// cash, then through dispatched to delivered. Unclaimed wins expire at the
+// claim deadline.
+export const WINNER_CLAIM_STATUSES = ['pending', 'elected_prize', 'elected_cash', 'dispatched', 'delivered', 'expired'] as const;
+export type WinnerClaimStatus = typeof WINNER_CLAIM_STATUSES[number];
+
+// A winner's photo and testimonial only appear publicly once approved
+export const TESTIMONIAL_STATUSES = ['pending', 'approved', 'rejected'] as const;
+export type TestimonialStatus = typeof TESTIMONIAL_STATUSES[number];
+
 // Winners schema
 export const winners = pgTable("winners", {
   id: serial("id").primaryKey(),
@@ -64,7 +134,35 @@ export const winners = pgTable("winners", {
   competitionId: integer("competition_id").notNull(),
   entryId: integer("entry_id").notNull(),
   announcedAt: timestamp("announced_at").defaultNow(),
-  claimStatus: text("claim_status").default("pending"), // pending, claimed, expired
+  claimStatus: text("claim_status").$type<WinnerClaimStatus>().default("pending"),
+  claimDeadline: timestamp("claim_deadline"), // the winner must claim by then
+  electedAt: timestamp("elected_at"), // when the winner claimed
+  cashAmount: integer("cash_amount"), // in pence, fixed when the winner elects cash
+  // Confirmed by the winner when claiming
+  shippingAddress: json("shipping_address").$type<ShippingAddress>(),
+  identityName: text("identity_name"), // full legal name, as on their photo ID
+  identityDateOfBirth: text("identity_date_of_birth"), // YYYY-MM-DD
+  // The admin's check of the winner's photo ID - a prize is only released once verified
+  identityCheckStatus: text("identity_check_status").$type<'verified' | 'failed'>(),
+  identityCheckedAt: timestamp("identity_checked_at"),
+  identityCheckedBy: integer("identity_checked_by"), // admin user id
+  dispatchedAt: timestamp("dispatched_at"),
+  dispatchedBy: integer("dispatched_by"), // admin user id
+  trackingNumber: text("tracking_number"), // courier tracking or payment reference
+  fulfilmentNotes: text("fulfilment_notes"),
+  fulfilledAt: timestamp("fulfilled_at"), // when delivered
+  fulfilledBy: integer("fulfilled_by"), // admin user id
+  // Opt-in photo and testimonial for the public winners gallery
+  photoUrl: text("photo_url"),
+  testimonial: text("testimonial"),
+  testimonialStatus: text("testimonial_status").$type<TestimonialStatus>(), // null until submitted
+  testimonialReviewedAt: timestamp("testimonial_reviewed_at"),
+  testimonialReviewedBy: integer("testimonial_reviewed_by"), // admin user id
+  // The competition prize won in the draw - null for competitions without a prize list
+  prizeId: integer("prize_id"),
+  // Set for instant wins - the prize and the ticket that won it
+  instantWinPrizeId: integer("instant_win_prize_id"),
+  ticketNumber: integer("ticket_number"), // the winning ticket, for draw and instant wins alike
 });
 
 // Site configuration schema
@@ -84,14 +182,312 @@ export const ticketStatuses = pgTable("ticket_statuses", {
   status: text("status").notNull().$type<'available' | 'reserved' | 'purchased'>().default('available'),
   entryId: integer("entry_id"),
   userId: integer("user_id"),
+  cartId: integer("cart_id"), // the cart holding a reserved ticket
   reservedUntil: timestamp("reserved_until"),
   updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  // Exactly one status row per ticket number
+  competitionTicketUnique: unique("ticket_statuses_competition_ticket_key").on(table.competitionId, table.ticketNumber),
+}));
+
+// Draws schema - one auditable draw record per competition
+export const draws = pgTable("draws", {
+  id: serial("id").primaryKey(),
+  competitionId: integer("competition_id").notNull().unique(),
+  winnerId: integer("winner_id"),
+  entryId: integer("entry_id"),
+  userId: integer("user_id"),
+  winningTicketNumber: integer("winning_ticket_number").notNull(),
+  seed: text("seed").notNull(),
+  algorithm: text("algorithm").notNull(), // e.g. commit-reveal-sha256-v1
+  serverSeedHash: text("server_seed_hash"), // commitment published when the competition went live
+  publicInput: text("public_input"), // "<ticketsSold>:<draw date>" mixed into the revealed seed
+  entrantSnapshot: json("entrant_snapshot").$type<DrawEntrant[]>().notNull(),
+  snapshotHash: text("snapshot_hash").notNull(),
+  // Every prize's winning ticket in prize order - the first is also stored in the columns above
+  results: json("results").$type<DrawResult[]>().default([]),
+  drawnBy: integer("drawn_by"), // admin user id, null when drawn automatically
+  drawnAt: timestamp("drawn_at").defaultNow(),
+});
+
+// Draw commitments - the hashed server seed published when a competition goes live.
+// The seed itself stays secret until the draw reveals it.
+export const drawCommitments = pgTable("draw_commitments", {
+  id: serial("id").primaryKey(),
+  competitionId: integer("competition_id").notNull().unique(),
+  serverSeed: text("server_seed").notNull(),
+  serverSeedHash: text("server_seed_hash").notNull(),
+  committedAt: timestamp("committed_at").defaultNow(),
+});
+
+// Scheduled jobs - one row per registered background job, shared by all server instances
+export const scheduledJobs = pgTable("scheduled_jobs", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  description: text("description"),
+  intervalSeconds: integer("interval_seconds").notNull(),
+  enabled: boolean("enabled").default(true),
+  nextRunAt: timestamp("next_run_at").defaultNow(),
+  lockedBy: text("locked_by"), // instance currently running the job
+  lockedUntil: timestamp("locked_until"),
+  attempts: integer("attempts").default(0), // consecutive failures, drives the retry backoff
+  lastStatus: text("last_status"), // running, succeeded, failed
+  lastResult: text("last_result"),
+  lastError: text("last_error"),
+  lastStartedAt: timestamp("last_started_at"),
+  lastFinishedAt: timestamp("last_finished_at"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Stripe webhook events - one row per event id so retried deliveries are only processed once
+export const stripeEvents = pgTable("stripe_events", {
+  id: serial("id").primaryKey(),
+  eventId: text("event_id").notNull().unique(),
+  type: text("type").notNull(),
+  paymentIntentId: text("payment_intent_id"),
+  status: text("status").notNull().default("processing"), // processing, processed
+  receivedAt: timestamp("received_at").defaultNow(),
+  processedAt: timestamp("processed_at"),
+});
+
+// Orders - one row per checkout, tying the payment to everything bought with it
+export const orders = pgTable("orders", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  status: text("status").notNull().default("pending"), // pending, paid, failed, refunded, partially_refunded
+  subtotal: integer("subtotal").notNull(), // in pence
+  discount: integer("discount").notNull().default(0), // in pence
+  total: integer("total").notNull(), // in pence - the amount charged
+  currency: text("currency").notNull().default("gbp"),
+  paymentProvider: text("payment_provider").notNull().default("stripe"),
+  paymentReference: text("payment_reference").unique(), // e.g. Stripe payment intent id
+  promoCodeId: integer("promo_code_id"),
+  promoCode: text("promo_code"), // the code as entered, kept for reporting if the code is later changed
+  createdAt: timestamp("created_at").defaultNow(),
+  paidAt: timestamp("paid_at"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Order items - one line per competition in an order, linked to its entry once paid
+export const orderItems = pgTable("order_items", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull(),
+  competitionId: integer("competition_id").notNull(),
+  entryId: integer("entry_id"),
+  ticketCount: integer("ticket_count").notNull(),
+  selectedNumbers: json("selected_numbers").$type<number[]>().default([]),
+  skillAnswer: text("skill_answer"),
+  unitPrice: integer("unit_price").notNull(), // in pence
+  discount: integer("discount").notNull().default(0), // in pence
+  total: integer("total").notNull(), // in pence
+});
+
+// Refunds - one row per refunded entry, kept as the record of money returned
+export const refunds = pgTable("refunds", {
+  id: serial("id").primaryKey(),
+  entryId: integer("entry_id").notNull(),
+  orderId: integer("order_id"),
+  userId: integer("user_id").notNull(),
+  competitionId: integer("competition_id").notNull(),
+  amount: integer("amount").notNull(), // in pence
+  currency: text("currency").notNull().default("gbp"),
+  provider: text("provider").notNull(), // stripe, fake
+  providerRefundId: text("provider_refund_id"),
+  status: text("status").notNull().default("pending"), // pending, succeeded, failed
+  reason: text("reason"),
+  error: text("error"),
+  createdBy: integer("created_by"), // admin user id
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Audit log - who did what to which record, for actions that change money or results
+export const auditLogs = pgTable("audit_logs", {
+  id: serial("id").primaryKey(),
+  actorId: integer("actor_id"), // null for the system (scheduler, webhooks)
+  action: text("action").notNull(), // e.g. competition.cancelled, entry.refunded
+  entityType: text("entity_type").notNull(),
+  entityId: integer("entity_id").notNull(),
+  details: json("details").$type<Record<string, unknown>>(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Postal entries - the details of each free entry received by post, one per entry
+export const postalEntries = pgTable("postal_entries", {
+  id: serial("id").primaryKey(),
+  entryId: integer("entry_id").notNull().unique(),
+  competitionId: integer("competition_id").notNull(),
+  userId: integer("user_id").notNull(),
+  senderName: text("sender_name").notNull(),
+  senderAddress: text("sender_address").notNull(),
+  receivedAt: timestamp("received_at").notNull(),
+  notes: text("notes"),
+  recordedBy: integer("recorded_by"), // admin user id
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Carts - one per signed-in user, or per browser session for guests
+export const carts = pgTable("carts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").unique(),
+  sessionId: text("session_id").unique(), // set only while the cart belongs to a guest
+  expiryReminderSentFor: timestamp("expiry_reminder_sent_for"), // the reservedUntil the last reminder warned about
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Cart items - one line per competition, holding its picked numbers until reservedUntil
+export const cartItems = pgTable("cart_items", {
+  id: serial("id").primaryKey(),
+  cartId: integer("cart_id").notNull(),
+  competitionId: integer("competition_id").notNull(),
+  ticketCount: integer("ticket_count").notNull(),
+  selectedNumbers: json("selected_numbers").$type<number[]>().default([]),
+  skillAnswer: text("skill_answer"),
+  reservedUntil: timestamp("reserved_until").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  cartCompetitionUnique: unique("cart_items_cart_competition_key").on(table.cartId, table.competitionId),
+}));
+
+// Promo codes - percentage or fixed discounts, sitewide or for one competition
+export const promoCodes = pgTable("promo_codes", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(), // stored upper case
+  description: text("description"),
+  discountType: text("discount_type").notNull(), // percentage, fixed
+  discountValue: integer("discount_value").notNull(), // percent off, or pence off the order
+  competitionId: integer("competition_id"), // null for sitewide codes
+  minTickets: integer("min_tickets").notNull().default(1), // eligible tickets needed in the cart
+  maxUses: integer("max_uses"), // null for unlimited
+  maxUsesPerUser: integer("max_uses_per_user"), // null for unlimited
+  startsAt: timestamp("starts_at"),
+  endsAt: timestamp("ends_at"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: integer("created_by"), // admin user id
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// A use is reserved when checkout starts and redeemed once the order is paid
+export const PROMO_REDEMPTION_STATUSES = ['reserved', 'redeemed'] as const;
+export type PromoRedemptionStatus = typeof PROMO_REDEMPTION_STATUSES[number];
+
+// Promo redemptions - one row per order that used a code
+export const promoRedemptions = pgTable("promo_redemptions", {
+  id: serial("id").primaryKey(),
+  promoCodeId: integer("promo_code_id").notNull(),
+  orderId: integer("order_id").notNull().unique(),
+  userId: integer("user_id").notNull(),
+  discount: integer("discount").notNull(), // in pence
+  status: text("status").$type<PromoRedemptionStatus>().notNull().default("redeemed"),
+  reservedUntil: timestamp("reserved_until"), // a reserved use stops counting after this
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Prizes - the places drawn in a competition, 1st prize first
+export const prizes = pgTable("prizes", {
+  id: serial("id").primaryKey(),
+  competitionId: integer("competition_id").notNull(),
+  position: integer("position").notNull(), // 1 for 1st prize, 2 for 2nd, ...
+  title: text("title").notNull(),
+  value: integer("value").notNull(), // in pence
+  imageUrl: text("image_url"),
+  cashAlternative: integer("cash_alternative"), // in pence, null when there is none
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  competitionPositionUnique: unique("prizes_competition_position_key").on(table.competitionId, table.position),
+}));
+
+// Instant win prizes - won straight away by whoever buys one of the prize's ticket numbers
+export const instantWinPrizes = pgTable("instant_win_prizes", {
+  id: serial("id").primaryKey(),
+  competitionId: integer("competition_id").notNull(),
+  title: text("title").notNull(), // e.g. £50 cash
+  prizeType: text("prize_type").notNull(), // cash, site_credit
+  value: integer("value").notNull(), // in pence
+  quantity: integer("quantity").notNull(), // how many tickets carry this prize
+  placement: text("placement").notNull(), // specific, random - random numbers are fixed at go-live
+  createdBy: integer("created_by"), // admin user id
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Instant win tickets - the ticket numbers holding each prize, hidden until won
+export const instantWinTickets = pgTable("instant_win_tickets", {
+  id: serial("id").primaryKey(),
+  prizeId: integer("prize_id").notNull(),
+  competitionId: integer("competition_id").notNull(),
+  ticketNumber: integer("ticket_number").notNull(),
+  winnerId: integer("winner_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+  wonAt: timestamp("won_at"),
+}, (table) => ({
+  competitionTicketUnique: unique("instant_win_tickets_competition_ticket_key").on(table.competitionId, table.ticketNumber),
+}));
+
+// Password reset tokens - only a hash of each emailed token is stored. A token
+// works once, until expiresAt.
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  tokenHash: text("token_hash").notNull().unique(), // sha256 of the emailed token
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  requestedIp: text("requested_ip"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Email outbox - every message is queued here first and sent by a background job,
+// so a mail server outage delays emails rather than losing them
+export const emailOutbox = pgTable("email_outbox", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id"), // null for addresses without an account
+  toAddress: text("to_address").notNull(),
+  template: text("template"), // null for one-off messages
+  subject: text("subject").notNull(),
+  text: text("text").notNull(),
+  html: text("html"),
+  status: text("status").notNull().default('pending'), // pending, sent, failed
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow(),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
+// A UK postal address - the postcode check is what limits play to UK residents
+export const postalAddressSchema = z.object({
+  line1: z.string().trim().min(1, "Address is required"),
+  line2: z.string().trim().nullable().optional(),
+  town: z.string().trim().min(1, "Town or city is required"),
+  county: z.string().trim().nullable().optional(),
+  postcode: z.string().trim().toUpperCase()
+    .regex(/^[A-Z]{1,2}[0-9][A-Z0-9]? ?[0-9][A-Z]{2}$/, "Enter a valid UK postcode"),
+});
+export type PostalAddress = z.infer<typeof postalAddressSchema>;
+
+export const dateOfBirthSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Enter your date of birth")
+  .refine(value => !isNaN(Date.parse(value)) && Date.parse(value) < Date.now(), "Enter a valid date of birth")
+  .refine(value => ageOn(value) >= MINIMUM_AGE, `You must be ${MINIMUM_AGE} or over to play`);
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users)
-  .omit({ id: true, createdAt: true })
+  .omit({
+    id: true,
+    createdAt: true,
+    emailVerifiedAt: true,
+    ageVerificationStatus: true,
+    ageVerifiedAt: true,
+    ageVerifiedBy: true,
+    spendLimits: true,
+    pendingSpendLimits: true,
+    coolOffUntil: true,
+    selfExcludedUntil: true
+  })
   .extend({
+    dateOfBirth: dateOfBirthSchema,
+    address: postalAddressSchema,
     password: z.string().min(8, "Password must be at least 8 characters"),
     confirmPassword: z.string(),
     agreeToTerms: z.boolean().refine(val => val === true, {
@@ -106,7 +502,17 @@ export const insertUserSchema = createInsertSchema(users)
 export const insertCompetitionSchema = createInsertSchema(competitions).omit({ 
   id: true, 
   createdAt: true, 
-  ticketsSold: true 
+  ticketsSold: true,
+  cancelledAt: true,
+  cancellationReason: true,
+  drawError: true,
+  drawAttemptedAt: true
+}).extend({
+  skillAnswerOptions: z.array(z.string()).optional(),
+  bundleTiers: z.array(z.object({
+    ticketCount: z.number().int().min(2, "A bundle must contain at least two tickets"),
+    price: z.number().int().positive("A bundle price must be more than zero")
+  })).optional()
 });
 
 export const insertEntrySchema = createInsertSchema(entries).omit({ 
@@ -116,7 +522,11 @@ export const insertEntrySchema = createInsertSchema(entries).omit({
 
 export const insertWinnerSchema = createInsertSchema(winners).omit({ 
   id: true, 
-  announcedAt: true 
+  announcedAt: true,
+  // Only set later, by the winner's claim and testimonial and the ID check
+  shippingAddress: true,
+  testimonialStatus: true,
+  identityCheckStatus: true
 });
 
 export const insertSiteConfigSchema = createInsertSchema(siteConfig).omit({
@@ -130,6 +540,59 @@ export const loginSchema = z.object({
   rememberMe: z.boolean().optional()
 });
 
+// A signed-in user's changes to their own account
+export const updateProfileSchema = z.object({
+  displayName: z.string().trim().max(50, "Display name must be 50 characters or fewer").nullable().optional(),
+  email: z.string().trim().email("Invalid email address"),
+  mascot: z.string().optional(),
+  notificationSettings: z.object({
+    email: z.boolean(),
+    inApp: z.boolean()
+  }).optional(),
+  dateOfBirth: dateOfBirthSchema.optional(),
+  address: postalAddressSchema.optional()
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: z.string().min(8, "Password must be at least 8 characters")
+});
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1, "Verification link is invalid")
+});
+
+export const passwordResetRequestSchema = z.object({
+  email: z.string().trim().email("Invalid email address")
+});
+
+export const passwordResetConfirmSchema = z.object({
+  token: z.string().min(1, "Reset link is invalid"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  confirmPassword: z.string()
+}).refine(data => data.password === data.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"]
+});
+
+const spendLimitAmount = z.number().int().positive("Limits must be more than £0").nullable();
+
+export const spendLimitsSchema = z.object({
+  daily: spendLimitAmount,
+  weekly: spendLimitAmount,
+  monthly: spendLimitAmount
+});
+
+export const coolOffSchema = z.object({
+  hours: z.number().int()
+    .min(COOL_OFF_MIN_HOURS, "A cool-off lasts at least 24 hours")
+    .max(COOL_OFF_MAX_HOURS, "A cool-off lasts at most 6 weeks - choose self-exclusion for longer")
+});
+
+export const selfExclusionSchema = z.object({
+  months: z.number().int().min(SELF_EXCLUSION_MIN_MONTHS, "Self-exclusion lasts at least 6 months").max(60)
+});
+
 // Create insert schema for ticket statuses
 export const insertTicketStatusSchema = createInsertSchema(ticketStatuses).omit({
   id: true,
@@ -150,6 +613,320 @@ export type InsertSiteConfig = z.infer<typeof insertSiteConfigSchema>;
 export type TicketStatus = typeof ticketStatuses.$inferSelect;
 export type InsertTicketStatus = z.infer<typeof insertTicketStatusSchema>;
 export type LoginCredentials = z.infer<typeof loginSchema>;
+export type UpdateProfile = z.infer<typeof updateProfileSchema>;
+export type ChangePassword = z.infer<typeof changePasswordSchema>;
+export type CoolOff = z.infer<typeof coolOffSchema>;
+export type SelfExclusion = z.infer<typeof selfExclusionSchema>;
+export type PasswordResetRequest = z.infer<typeof passwordResetRequestSchema>;
+export type PasswordResetConfirm = z.infer<typeof passwordResetConfirmSchema>;
+export type Draw = typeof draws.$inferSelect;
+export type DrawCommitment = typeof drawCommitments.$inferSelect;
+export type ScheduledJob = typeof scheduledJobs.$inferSelect;
+export type StripeEvent = typeof stripeEvents.$inferSelect;
+export type Order = typeof orders.$inferSelect;
+export type OrderItem = typeof orderItems.$inferSelect;
+export type OrderStatus = 'pending' | 'paid' | 'failed' | 'refunded' | 'partially_refunded';
+export type Refund = typeof refunds.$inferSelect;
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type PostalEntry = typeof postalEntries.$inferSelect;
+export type Cart = typeof carts.$inferSelect;
+export type CartItem = typeof cartItems.$inferSelect;
+export type PromoCode = typeof promoCodes.$inferSelect;
+export type Prize = typeof prizes.$inferSelect;
+export type InstantWinPrize = typeof instantWinPrizes.$inferSelect;
+export type InstantWinTicket = typeof instantWinTickets.$inferSelect;
+export type PromoRedemption = typeof promoRedemptions.$inferSelect;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type EmailOutboxMessage = typeof emailOutbox.$inferSelect;
+export type EmailStatus = 'pending' | 'sent' | 'failed';
+
+export const cartItemSchema = z.object({
+  competitionId: z.number().int().positive(),
+  ticketCount: z.number().int().positive(),
+  selectedNumbers: z.array(z.number().int().positive()).default([]),
+  skillAnswer: z.string().optional(),
+});
+export const updateCartItemSchema = cartItemSchema.omit({ competitionId: true }).partial();
+export type AddCartItem = z.infer<typeof cartItemSchema>;
+export type UpdateCartItem = z.infer<typeof updateCartItemSchema>;
+
+export const insertPostalEntrySchema = z.object({
+  competitionId: z.number().int().positive(),
+  // Either an existing user or the details of a new guest entrant, who must
+  // give the same date of birth and UK address as an online player
+  userId: z.number().int().positive().optional(),
+  guest: z.object({
+    fullName: z.string().min(1, "Full name is required"),
+    email: z.string().email().optional().or(z.literal('')),
+    phone: z.string().optional(),
+    dateOfBirth: dateOfBirthSchema,
+    address: postalAddressSchema,
+  }).optional(),
+  senderName: z.string().min(1, "Sender name is required"),
+  senderAddress: z.string().min(1, "Sender address is required"),
+  ticketCount: z.number().int().positive().default(1),
+  skillAnswer: z.string().optional(),
+  receivedAt: z.coerce.date(),
+  notes: z.string().optional(),
+}).refine(data => !!data.userId !== !!data.guest, {
+  message: "Choose an existing user or enter guest details",
+  path: ["userId"]
+});
+export type InsertPostalEntry = z.infer<typeof insertPostalEntrySchema>;
+
+export const insertPromoCodeSchema = createInsertSchema(promoCodes).omit({
+  id: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true
+}).extend({
+  code: z.string().trim().min(3, "Code must be at least 3 characters").max(32)
+    .regex(/^[A-Za-z0-9_-]+$/, "Use letters, numbers, dashes and underscores only")
+    .transform(code => code.toUpperCase()),
+  discountType: z.enum(['percentage', 'fixed']),
+  discountValue: z.number().int().positive("Discount must be more than zero"),
+  minTickets: z.number().int().positive().default(1),
+  maxUses: z.number().int().positive().nullable().optional(),
+  maxUsesPerUser: z.number().int().positive().nullable().optional(),
+  startsAt: z.coerce.date().nullable().optional(),
+  endsAt: z.coerce.date().nullable().optional(),
+});
+
+export const createPromoCodeSchema = insertPromoCodeSchema
+  .refine(data => data.discountType !== 'percentage' || data.discountValue <= 100, {
+    message: "A percentage discount cannot be more than 100",
+    path: ["discountValue"]
+  })
+  .refine(data => !data.startsAt || !data.endsAt || data.startsAt < data.endsAt, {
+    message: "The code must start before it ends",
+    path: ["endsAt"]
+  });
+export const updatePromoCodeSchema = insertPromoCodeSchema.omit({ code: true }).partial();
+export type InsertPromoCode = z.infer<typeof insertPromoCodeSchema>;
+export type UpdatePromoCode = z.infer<typeof updatePromoCodeSchema>;
+
+export const insertPrizeSchema = z.object({
+  title: z.string().trim().min(1, "Prize title is required"),
+  value: z.number().int().positive("Prize value must be more than zero"),
+  imageUrl: z.string().trim().nullable().optional(),
+  cashAlternative: z.number().int().positive("Cash alternative must be more than zero").nullable().optional(),
+});
+export type InsertPrize = z.infer<typeof insertPrizeSchema>;
+
+export const shippingAddressSchema = postalAddressSchema.extend({
+  phone: z.string().trim().min(1, "Phone number is required"),
+});
+export type ShippingAddress = z.infer<typeof shippingAddressSchema>;
+
+// A winner claims their prize, or its cash alternative, by confirming where
+// to send it and who they are
+export const winnerClaimSchema = z.object({
+  choice: z.enum(['prize', 'cash']),
+  fullName: z.string().trim().min(1, "Full name is required"),
+  dateOfBirth: dateOfBirthSchema,
+  address: shippingAddressSchema,
+  confirmIdentity: z.boolean().refine(value => value, "Please confirm your details match your photo ID"),
+});
+export type WinnerClaim = z.infer<typeof winnerClaimSchema>;
+
+// A guest postal winner has no account to claim from, so an admin records
+// their claim once they have been in touch by post or phone
+export const guestWinnerClaimSchema = winnerClaimSchema.omit({ confirmIdentity: true });
+export type GuestWinnerClaim = z.infer<typeof guestWinnerClaimSchema>;
+
+export const winnerFulfilmentSchema = z.object({
+  trackingNumber: z.string().trim().max(100).nullable().optional(),
+  notes: z.string().trim().max(2000).nullable().optional(),
+});
+export type WinnerFulfilment = z.infer<typeof winnerFulfilmentSchema>;
+
+export const winnerTestimonialSchema = z.object({
+  photoUrl: z.string().trim().nullable().optional(),
+  testimonial: z.string().trim().max(1000, "Keep your testimonial under 1000 characters").nullable().optional(),
+}).refine(data => !!data.photoUrl || !!data.testimonial, {
+  message: "Add a photo or a testimonial",
+  path: ["testimonial"]
+});
+export type WinnerTestimonial = z.infer<typeof winnerTestimonialSchema>;
+
+export const testimonialReviewSchema = z.object({
+  status: z.enum(['approved', 'rejected']),
+});
+
+// An admin's result after checking photo ID
+export const identityCheckSchema = z.object({
+  result: z.enum(['verified', 'failed']),
+});
+export type IdentityCheck = z.infer<typeof identityCheckSchema>;
+
+export const insertInstantWinPrizeSchema = z.object({
+  title: z.string().trim().min(1, "Prize title is required"),
+  prizeType: z.enum(['cash', 'site_credit']),
+  value: z.number().int().positive("Prize value must be more than zero"),
+  quantity: z.number().int().positive().max(1000),
+  placement: z.enum(['specific', 'random']),
+  ticketNumbers: z.array(z.number().int().positive()).default([]),
+}).refine(data => data.placement !== 'specific' || data.ticketNumbers.length === data.quantity, {
+  message: "Enter one ticket number for each prize",
+  path: ["ticketNumbers"]
+}).refine(data => new Set(data.ticketNumbers).size === data.ticketNumbers.length, {
+  message: "Ticket numbers must be different from each other",
+  path: ["ticketNumbers"]
+});
+export type InsertInstantWinPrize = z.infer<typeof insertInstantWinPrizeSchema>;
+
+// An instant win prize as shown publicly - unwon ticket numbers are never included
+export interface InstantWinSummary {
+  id: number;
+  title: string;
+  prizeType: 'cash' | 'site_credit';
+  value: number; // in pence
+  quantity: number;
+  won: number;
+  wonTicketNumbers: number[];
+}
+
+// An instant win prize for admins, with every ticket carrying it
+export interface InstantWinPrizeDetails extends InstantWinPrize {
+  tickets: (InstantWinTicket & { username: string | null })[];
+}
+
+// A prize won on purchase, as returned with the new entries
+export interface InstantWinResult {
+  winnerId: number;
+  entryId: number;
+  competitionId: number;
+  competitionTitle: string | null;
+  ticketNumber: number;
+  prize: Pick<InstantWinPrize, 'id' | 'title' | 'prizeType' | 'value'>;
+}
+
+// A win as listed for admins, with who won it and what they chose
+export interface WinnerDetails extends Winner {
+  username: string | null;
+  email: string | null;
+  isGuest: boolean; // a postal entrant without an account - an admin claims for them
+  phone: string | null;
+  postalAddress: string | null; // the sender address on the winning postal entry
+  competitionTitle: string | null;
+  prizeTitle: string; // the prize, instant win or competition title
+  prizeValue: number; // in pence
+  cashAlternative: number | null; // in pence, what the winner may take instead
+}
+
+// A drawn prize as shown in the public winners gallery - no personal details
+// beyond the winner's display name or initials
+export interface PublicWinner {
+  winnerId: number;
+  competitionId: number;
+  competitionTitle: string;
+  competitionImageUrl: string | null;
+  position: number | null; // null for competitions without a prize list
+  prizeTitle: string;
+  prizeValue: number; // in pence
+  ticketNumber: number | null;
+  winnerName: string;
+  drawnAt: Date | null;
+  photoUrl: string | null; // only once approved
+  testimonial: string | null; // only once approved
+}
+
+export interface PublicWinnersPage {
+  winners: PublicWinner[];
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+// A promo code as listed in the admin dashboard, with how much it has been used
+export interface PromoCodeWithUsage extends PromoCode {
+  competitionTitle: string | null;
+  redemptions: number;
+  totalDiscount: number; // in pence
+}
+
+// A signed-in user's own activity, for their profile page
+export interface UserStats {
+  totalEntries: number;
+  activeCompetitions: number; // entered competitions not yet drawn or cancelled
+  wins: number;
+  spentAmount: number; // in pence, after refunds
+}
+
+// A user's spend limits, what they have spent against them and any break they are taking
+export interface ResponsiblePlayStatus {
+  limits: SpendLimits; // in force now
+  pendingLimits: PendingSpendLimits | null; // raised limits not yet in force
+  spent: Record<SpendLimitPeriod, number>; // in pence, over each rolling window
+  coolOffUntil: Date | null;
+  selfExcludedUntil: Date | null;
+}
+
+// An order as returned by the API, with its lines and the competitions they are for
+export interface OrderWithItems extends Order {
+  items: (OrderItem & { competitionTitle: string | null })[];
+  user?: { id: number; username: string; email: string };
+}
+
+// A single competition line in a checkout, as carried in the payment intent metadata
+export interface CheckoutCartItem {
+  competitionId: number;
+  ticketCount: number;
+  selectedNumbers: number[];
+  skillAnswer?: string;
+  // Set once the server has priced the line - all amounts in pence
+  unitPrice?: number;
+  discount?: number;
+  total?: number;
+}
+
+// A cart priced by the server from the stored ticket prices, in pence
+export interface PricedCart {
+  // subtotal is the line at its best bundle price, bundleSaving what that saved on single tickets
+  items: (CheckoutCartItem & { title: string; unitPrice: number; subtotal: number; bundleSaving: number; discount: number; total: number })[];
+  subtotal: number;
+  discount: number;
+  total: number;
+  // The promo code behind the discount, if one was applied
+  promoCode?: { id: number; code: string; description: string | null } | null;
+}
+
+// A single purchased ticket captured at draw time
+export interface DrawEntrant {
+  ticketNumber: number;
+  userId: number;
+  entryId: number | null;
+}
+
+// One prize's winning ticket, as stored with the draw
+export interface DrawResult {
+  position: number;
+  prizeId: number | null; // null for competitions without a prize list
+  ticketNumber: number;
+  userId: number;
+  entryId: number | null;
+  winnerId: number;
+}
+
+// Public proof for a competition draw - before the draw only the commitment is known
+export interface DrawProofResponse {
+  competitionId: number;
+  status: 'uncommitted' | 'committed' | 'drawn';
+  serverSeedHash: string | null;
+  committedAt: string | null;
+  draw?: {
+    algorithm: string;
+    serverSeed: string;
+    publicInput: string | null;
+    ticketNumbers: number[];
+    snapshotHash: string;
+    winningTicketNumber: number;
+    // Every prize's winning ticket in the order drawn
+    results: { position: number; title: string | null; ticketNumber: number }[];
+    drawnAt: string | null;
+  };
+}
 
 // Define a common response type for ticket status data
 export interface TicketStatusResponse {
@@ -167,3 +944,16 @@ export interface TicketStatusResponse {
     statusTimestamp: string;
   };
 }
+
+// Events pushed to browsers over /api/live as competitions change
+export type LiveUpdate =
+  | {
+      type: 'tickets';
+      competitionId: number;
+      status: 'available' | 'reserved' | 'purchased';
+      ticketNumbers: number[];
+    }
+  | { type: 'progress'; competitionId: number; ticketsSold: number; totalTickets: number }
+  | { type: 'draw'; competitionId: number; winningTicketNumber: number; drawnAt: string }
+  // Details such as the draw date changed - clients refetch the competition
+  | { type: 'competition'; competitionId: number };